@@ -0,0 +1,233 @@
+"use client";
+
+/**
+ * Shared Cart Page
+ * Preview of a cart someone shared by link, checked against current stock,
+ * with the choice to merge it into your cart or replace your cart with it.
+ */
+
+import { use, useMemo, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { AlertCircle, CheckCircle2, Link2, MapPin, Paintbrush, Wrench } from "lucide-react";
+import { toast } from "sonner";
+import { ClientNav } from "@/components/client-nav";
+import { ClientHeader } from "@/components/client-header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCart } from "@/contexts/cart-context";
+import { useAvailabilityPreview } from "@/hooks/use-availability-preview";
+import {
+    useApplySharedCart,
+    useSharedCart,
+    type SharedCartApplyMode,
+} from "@/hooks/use-shared-cart";
+
+export default function SharedCartPage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = use(params);
+    const { data: shared, isLoading, error } = useSharedCart(token);
+    const { items: cartItems } = useCart();
+    const applyShared = useApplySharedCart();
+    const [confirmReplace, setConfirmReplace] = useState(false);
+
+    const lines = useMemo(() => shared?.items ?? [], [shared]);
+    const previewItems = useMemo(
+        () => lines.map((line) => ({ asset_id: line.assetId, quantity: line.quantity })),
+        [lines]
+    );
+    const availability = useAvailabilityPreview({
+        items: previewItems,
+        window: null,
+        requireWindow: false,
+    });
+    const availabilityByAsset = useMemo(
+        () => new Map((availability.data?.items ?? []).map((item) => [item.asset_id, item])),
+        [availability.data]
+    );
+    const unavailableCount = lines.filter(
+        (line) => availabilityByAsset.get(line.assetId)?.is_available === false
+    ).length;
+
+    const apply = (mode: SharedCartApplyMode) => {
+        applyShared.mutate(
+            { lines, mode },
+            {
+                onSuccess: ({ added, skipped }) => {
+                    toast.success(
+                        mode === "replace"
+                            ? `Cart replaced with ${added} shared ${added === 1 ? "item" : "items"}`
+                            : `Added ${added} shared ${added === 1 ? "item" : "items"} to your cart`,
+                        skipped.length > 0
+                            ? {
+                                  description: `Skipped: ${skipped.map((line) => line.assetName).join(", ")}`,
+                              }
+                            : undefined
+                    );
+                },
+                onError: (err) => toast.error(err.message || "Couldn't add the shared items"),
+            }
+        );
+    };
+
+    return (
+        <ClientNav>
+            <ClientHeader
+                icon={Link2}
+                title="Shared Cart"
+                description={
+                    shared?.shared_by
+                        ? `Shared by ${shared.shared_by.name} · ${format(new Date(shared.created_at), "d MMM yyyy")}`
+                        : "Review the items and add them to your cart"
+                }
+            />
+
+            <div className="container mx-auto max-w-4xl px-6 py-8">
+                {isLoading ? (
+                    <div className="space-y-3">
+                        {[0, 1, 2].map((key) => (
+                            <Skeleton key={key} className="h-20 w-full" />
+                        ))}
+                    </div>
+                ) : error || !shared ? (
+                    <Card className="border-border/40">
+                        <CardContent className="py-12 text-center">
+                            <AlertCircle className="mx-auto mb-3 h-10 w-10 text-muted-foreground/50" />
+                            <p className="font-medium">This share link is invalid or has expired</p>
+                            <p className="mt-1 text-sm text-muted-foreground">
+                                Ask the sender for a new link.
+                            </p>
+                            <Button asChild variant="outline" className="mt-6">
+                                <Link href="/catalog">Browse the catalog</Link>
+                            </Button>
+                        </CardContent>
+                    </Card>
+                ) : (
+                    <div className="space-y-6">
+                        {unavailableCount > 0 && (
+                            <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                                {unavailableCount} of {lines.length} items can&apos;t be fully
+                                supplied right now. You can still add them and adjust at checkout.
+                            </div>
+                        )}
+
+                        <Card className="border-border/40 bg-card/50">
+                            <CardContent className="divide-y divide-border p-0">
+                                {lines.map((line) => {
+                                    const status = availabilityByAsset.get(line.assetId);
+                                    return (
+                                        <div
+                                            key={line.assetId}
+                                            className="flex items-start gap-4 p-4"
+                                            data-testid="shared-cart-line"
+                                        >
+                                            <div className="min-w-0 flex-1">
+                                                <Link
+                                                    href={`/catalog/assets/${line.assetId}`}
+                                                    className="font-semibold hover:underline"
+                                                >
+                                                    {line.assetName}
+                                                </Link>
+                                                <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                                    <span className="font-mono">
+                                                        Qty {line.quantity}
+                                                    </span>
+                                                    {line.eventArea && (
+                                                        <span className="inline-flex items-center gap-1">
+                                                            <MapPin className="h-3 w-3" />
+                                                            {line.eventArea}
+                                                        </span>
+                                                    )}
+                                                    {line.isReskinRequest && (
+                                                        <Badge
+                                                            variant="outline"
+                                                            className="gap-1 text-[10px]"
+                                                        >
+                                                            <Paintbrush className="h-3 w-3" />
+                                                            Rebrand
+                                                        </Badge>
+                                                    )}
+                                                    {line.maintenanceDecision && (
+                                                        <Badge
+                                                            variant="outline"
+                                                            className="gap-1 text-[10px]"
+                                                        >
+                                                            <Wrench className="h-3 w-3" />
+                                                            {line.maintenanceDecision ===
+                                                            "FIX_IN_ORDER"
+                                                                ? "Repair before event"
+                                                                : "Accept current condition"}
+                                                        </Badge>
+                                                    )}
+                                                </div>
+                                                {line.note && (
+                                                    <p className="mt-1 whitespace-pre-wrap break-words text-xs text-muted-foreground">
+                                                        Note: {line.note}
+                                                    </p>
+                                                )}
+                                            </div>
+                                            <div className="shrink-0 text-right text-xs">
+                                                {!status ? (
+                                                    availability.isLoading && (
+                                                        <Skeleton className="h-4 w-20" />
+                                                    )
+                                                ) : status.is_available ? (
+                                                    <span className="inline-flex items-center gap-1 text-green-700">
+                                                        <CheckCircle2 className="h-3.5 w-3.5" />
+                                                        Available
+                                                    </span>
+                                                ) : (
+                                                    <span className="inline-flex items-center gap-1 text-red-700">
+                                                        <AlertCircle className="h-3.5 w-3.5" />
+                                                        {status.available_quantity > 0
+                                                            ? `Only ${status.available_quantity} available`
+                                                            : "Unavailable"}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </CardContent>
+                        </Card>
+
+                        <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+                            {cartItems.length > 0 && (
+                                <Button
+                                    variant="outline"
+                                    onClick={() => setConfirmReplace(true)}
+                                    disabled={applyShared.isPending}
+                                >
+                                    Replace my cart
+                                </Button>
+                            )}
+                            <Button
+                                onClick={() => apply("merge")}
+                                disabled={applyShared.isPending || lines.length === 0}
+                                data-testid="shared-cart-merge"
+                            >
+                                {applyShared.isPending
+                                    ? "Adding…"
+                                    : cartItems.length > 0
+                                      ? "Merge into my cart"
+                                      : "Add to my cart"}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <ConfirmDialog
+                open={confirmReplace}
+                onOpenChange={setConfirmReplace}
+                onConfirm={() => apply("replace")}
+                title="Replace your cart?"
+                description={`The ${cartItems.length} ${cartItems.length === 1 ? "item" : "items"} currently in your cart will be removed. You can undo this from the cart.`}
+                confirmText="Replace cart"
+            />
+        </ClientNav>
+    );
+}
@@ -7,14 +7,15 @@
  * Steps: Review Cart → Event Details → Venue Info → Contact → Review & Submit
  */
 
-import PhoneInput, { isValidPhoneNumber } from "react-phone-number-input";
-import "react-phone-number-input/style.css";
-import { OrderEstimate } from "@/components/checkout/OrderEstimate";
 import { SelfPickupCheckoutFlow } from "@/components/checkout/SelfPickupCheckoutFlow";
+import {
+    CheckoutStepProvider,
+    type CheckoutFormData,
+    type CheckoutStepContextValue,
+} from "@/components/checkout/steps/CheckoutStepContext";
+import { MultiDestinationCheckoutFlow } from "@/components/checkout/MultiDestinationCheckoutFlow";
+import { SplitOrderConfirmation } from "@/components/checkout/multi-destination/SplitOrderConfirmation";
 import { usePlatform } from "@/contexts/platform-context";
-import { RedFeasibilityAlert } from "@/components/checkout/RedFeasibilityAlert";
-import { FeasibilityHelper } from "@/components/checkout/FeasibilityHelper";
-import { AvailabilityHelper } from "@/components/checkout/AvailabilityHelper";
 import {
     useAvailabilityPreview,
     interpretAvailabilityPreview,
@@ -22,20 +23,6 @@ import {
 import { ClientNav } from "@/components/client-nav";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import {
-    Select,
-    SelectContent,
-    SelectItem,
-    SelectTrigger,
-    SelectValue,
-} from "@/components/ui/select";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Separator } from "@/components/ui/separator";
-import { Textarea } from "@/components/ui/textarea";
-import { PermitWarningAlert, derivePermitChoice } from "@/components/permits/permit-warning-alert";
-import { PermitSection } from "@/components/permits/PermitSection";
 import { useEvaluateCommerceRules, type CommerceRuleHit } from "@/hooks/use-commerce-rules";
 import {
     AlertDialog,
@@ -48,30 +35,56 @@ import {
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useCart } from "@/contexts/cart-context";
+import { useSubmissionAttempt } from "@/contexts/submission-queue-context";
+import { useCartAvailability } from "@/hooks/use-cart-availability";
+import { useCartLineFocus } from "@/hooks/use-cart-line-focus";
+import { useLoadPlan, useVehicleTypes } from "@/hooks/use-load-plan";
+import {
+    buildAvailabilityWindow,
+    clearCheckoutCheckpoint,
+    loadCheckoutCheckpoint,
+    sameCheckoutCheckpoint,
+    saveCheckoutCheckpoint,
+    type CheckoutCheckpoint,
+} from "@/lib/checkout/checkout-storage";
+import {
+    cartMaintenanceState,
+    resolveCheckoutSteps,
+    runCheckoutStepGuards,
+    validateCheckoutStep,
+    type CheckoutGuardHandlers,
+    type CheckoutStepKey,
+} from "@/lib/checkout/checkout-steps";
+import { stayShape } from "@/lib/checkout/date-heatmap";
+import { fleetFor } from "@/lib/checkout/estimate-scenarios";
+import type { SplitOrderSummary } from "@/lib/checkout/multi-destination";
+import { buildOrderSubmitPayload, orderEventDates } from "@/lib/checkout/order-payload";
+import { sortRuleHits } from "@/lib/cart/commerce-rules";
+import {
+    useCheckoutDraft,
+    useDiscardCheckoutDraft,
+    useSaveCheckoutDraft,
+} from "@/hooks/use-checkout-draft";
+import type { CheckoutDraft } from "@/lib/api/cart-api";
+import type { TripType } from "@/types/hybrid-pricing";
 import { useCalculateEstimate } from "@/hooks/use-order-submission";
 import { useSubmitOrderFromCart } from "@/hooks/use-orders";
 import { AnimatePresence, motion } from "framer-motion";
 import {
     AlertCircle,
-    Calendar,
+    ArrowRight,
     Check,
     ChevronLeft,
     ChevronRight,
-    Circle,
-    CircleCheck,
-    FileText,
-    MapPin,
     Package,
     ShoppingCart,
-    Truck,
-    User,
-    Warehouse as WarehouseIcon,
 } from "lucide-react";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
 import { toast } from "sonner";
-import { apiClient } from "@/lib/api/api-client";
+import { apiClient, getAccessToken } from "@/lib/api/api-client";
+import { formatDistanceToNow } from "date-fns";
 import { useCountries } from "@/hooks/use-countries";
 import { useToken } from "@/lib/auth/use-token";
 import { useCompany } from "@/hooks/use-companies";
@@ -82,27 +95,19 @@ import {
     interpretFeasibilityPreview,
     type MaintenanceFeasibilityIssue,
 } from "@/hooks/use-feasibility-check";
-import {
-    composeZonedISO,
-    roundedFloorTimeInZone,
-    shiftDateStr,
-} from "@/lib/feasibility/compose-datetime";
-
-type Step = "mode" | "cart" | "installation" | "venue" | "contact" | "review";
-
-const MODE_STEP = { key: "mode" as const, label: "Delivery Mode", icon: Truck };
-const STANDARD_STEPS: { key: Step; label: string; icon: any }[] = [
-    { key: "cart", label: "Order Review", icon: ShoppingCart },
-    { key: "installation", label: "Installation Details", icon: Calendar },
-    { key: "venue", label: "Installation Location", icon: MapPin },
-    { key: "contact", label: "Execution Contact", icon: User },
-    { key: "review", label: "Review", icon: FileText },
-];
-
-// Sentinel event_end for permanent / no-return orders — signals "no return in
-// sight" to ops; the far-future date holds inventory and keeps the order out of
-// the return-lifecycle cron. Do not null event_end — it is NOT NULL.
-const SENTINEL_NO_RETURN_DATE = "2099-12-31";
+import { composeZonedISO } from "@/lib/feasibility/compose-datetime";
+
+// Quiet period before the checkpoint is mirrored to the server draft.
+const DRAFT_SAVE_DEBOUNCE_MS = 1500;
+
+function draftToCheckpoint(draft: CheckoutDraft): CheckoutCheckpoint {
+    return {
+        step: draft.step,
+        form: draft.form,
+        modeConfirmed: draft.mode_confirmed,
+        savedAt: Date.parse(draft.updated_at),
+    };
+}
 
 function CheckoutPageInner() {
     const router = useRouter();
@@ -118,9 +123,12 @@ function CheckoutPageInner() {
         isInitialized,
         updateItemMaintenanceDecision,
         updateItemDetails,
+        activeCartId,
     } = useCart();
-    const [checkoutMode, setCheckoutMode] = useState<"standard" | "self-pickup">("standard");
-    const [currentStep, setCurrentStep] = useState<Step>("cart");
+    const [checkoutMode, setCheckoutMode] = useState<
+        "standard" | "self-pickup" | "multi-destination"
+    >("standard");
+    const [currentStep, setCurrentStep] = useState<CheckoutStepKey>("cart");
     const [pendingMode, setPendingMode] = useState<"standard" | "self-pickup" | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [cartRefreshDone, setCartRefreshDone] = useState(false);
@@ -129,13 +137,24 @@ function CheckoutPageInner() {
     // checkpoint BEFORE the restore effect has had a chance to read it).
     // The restore effect flips this to true after running.
     const [restoreDone, setRestoreDone] = useState(false);
+    // Server-side draft, so a checkout started on one device can be finished
+    // on another. When it disagrees with this device's checkpoint the user
+    // picks one; until then nothing is written back to the server.
+    const checkoutDraft = useCheckoutDraft();
+    const { mutate: saveDraft } = useSaveCheckoutDraft();
+    const { mutate: discardDraft } = useDiscardCheckoutDraft();
+    const [draftConflict, setDraftConflict] = useState<{
+        local: CheckoutCheckpoint;
+        remote: CheckoutCheckpoint;
+    } | null>(null);
 
     // Feature flag: show self-pickup mode option only if enabled
     const selfPickupEnabled = (platform?.features as any)?.enable_self_pickup === true;
-    // When self-pickup is available, the first step is an explicit mode picker.
-    const STEPS = useMemo<{ key: Step; label: string; icon: any }[]>(
-        () => (selfPickupEnabled ? [MODE_STEP, ...STANDARD_STEPS] : STANDARD_STEPS),
-        [selfPickupEnabled]
+    // Steps come from the registry; flag-gated ones (e.g. the "mode" picker,
+    // shown when self-pickup is available) drop out per tenant.
+    const STEPS = useMemo(
+        () => resolveCheckoutSteps(platform?.features as Record<string, unknown> | undefined),
+        [platform?.features]
     );
     // Feature flag: whether to show separate Event Start/End date inputs.
     // OFF (default) — hide event dates; delivery + pickup become required and
@@ -147,6 +166,9 @@ function CheckoutPageInner() {
     >([]);
     const [hasCheckedMaintenanceFeasibility, setHasCheckedMaintenanceFeasibility] = useState(false);
     const [isLeavingAfterSubmit, setIsLeavingAfterSubmit] = useState(false);
+    // Orders created by a split (multi-destination) checkout. Set once the
+    // cart has been cleared, so the confirmation replaces the empty-cart view.
+    const [splitOrders, setSplitOrders] = useState<SplitOrderSummary[] | null>(null);
     // Item 6: commerce rule hits + acknowledgment state. When hits come
     // back from /commerce-rules/evaluate, surface them in a confirm dialog
     // so the client can acknowledge before final submit. Auto-evaluated
@@ -171,12 +193,11 @@ function CheckoutPageInner() {
 
     // Mutations
     const submitMutation = useSubmitOrderFromCart();
+    const submitAttempt = useSubmissionAttempt();
     const maintenanceFeasibilityCheck = useMaintenanceFeasibilityCheck();
 
-    const CHECKOUT_STORAGE_KEY = "kadence_checkout_form";
-
     // Form state
-    const [formData, setFormData] = useState({
+    const [formData, setFormData] = useState<CheckoutFormData>({
         brand_id: undefined as string | undefined,
         event_start_date: "",
         event_end_date: "",
@@ -215,9 +236,13 @@ function CheckoutPageInner() {
         requested_pickup_time_start: "09:00",
         requested_pickup_time_end: "11:00",
         special_instructions: "",
+        // Transport choice, priced in the review step's scenario table.
+        // vehicle_type null = the load planner's fleet.
+        trip_type: "ROUND_TRIP" as TripType,
+        vehicle_type: null as string | null,
     });
 
-    // Restore checkout state from localStorage on mount.
+    // Apply a saved checkpoint — this device's, or the server draft.
     //
     // When self-pickup is enabled, the new Step 0 ("mode") acts as a gate:
     // users must pick delivery vs self-pickup before proceeding. We only
@@ -225,37 +250,50 @@ function CheckoutPageInner() {
     // gate (i.e. has `modeConfirmed: true`). Old checkpoints written before
     // the gate existed would otherwise land the user mid-flow and skip
     // Step 0 entirely.
+    const applyCheckpoint = (checkpoint: CheckoutCheckpoint | null) => {
+        const validSteps: string[] = STEPS.map((s) => s.key);
+        if (checkpoint?.form) {
+            setFormData((prev) => ({ ...prev, ...(checkpoint.form as Partial<typeof prev>) }));
+        }
+        const gateSatisfied = !selfPickupEnabled || checkpoint?.modeConfirmed === true;
+        if (
+            checkpoint?.step &&
+            validSteps.includes(checkpoint.step) &&
+            items.length > 0 &&
+            gateSatisfied
+        ) {
+            setCurrentStep(checkpoint.step as CheckoutStepKey);
+        } else {
+            // No valid restore. Default to "mode" when self-pickup feature is on,
+            // "cart" otherwise.
+            setCurrentStep(selfPickupEnabled ? "mode" : "cart");
+        }
+    };
+
+    // Restore checkout state on mount, once the server draft (if signed in)
+    // has loaded. A draft started from a different cart doesn't describe
+    // these items and is ignored. When both copies exist and differ, this
+    // device's wins for now and the conflict prompt offers the other.
     //
     // CRITICAL: this must complete before the persist effect writes anything,
     // otherwise initial-render defaults clobber the saved checkpoint. The
     // `restoreDone` flag is flipped at the end of this effect and gates the
     // persist effect below.
     useEffect(() => {
-        if (!isInitialized) return;
-        const validSteps = STEPS.map((s) => s.key);
-        let restoredMidFlow = false;
-        try {
-            const saved = localStorage.getItem(CHECKOUT_STORAGE_KEY);
-            if (saved) {
-                const { step, form, modeConfirmed } = JSON.parse(saved);
-                if (form) setFormData((prev) => ({ ...prev, ...form }));
-                const gateSatisfied = !selfPickupEnabled || modeConfirmed === true;
-                if (step && validSteps.includes(step) && items.length > 0 && gateSatisfied) {
-                    setCurrentStep(step);
-                    restoredMidFlow = true;
-                }
-            }
-        } catch (_) {
-            // ignore malformed localStorage data
-        }
-        if (!restoredMidFlow && selfPickupEnabled) {
-            // No valid restore. Default to "mode" when self-pickup feature is on,
-            // "cart" otherwise.
-            setCurrentStep("mode");
-        }
+        if (!isInitialized || checkoutDraft.isLoading) return;
+        const local = loadCheckoutCheckpoint();
+        const draft = checkoutDraft.data;
+        const remote =
+            draft && (!draft.cart_id || !activeCartId || draft.cart_id === activeCartId)
+                ? draftToCheckpoint(draft)
+                : null;
+        applyCheckpoint(local ?? remote);
+        setDraftConflict(
+            local && remote && !sameCheckoutCheckpoint(local, remote) ? { local, remote } : null
+        );
         setRestoreDone(true);
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [isInitialized, selfPickupEnabled]);
+    }, [isInitialized, selfPickupEnabled, checkoutDraft.isLoading]);
 
     // Auto-fill contact from user token if empty
     useEffect(() => {
@@ -274,27 +312,59 @@ function CheckoutPageInner() {
     // Gated on `restoreDone` so the initial render (with default currentStep
     // = "cart") doesn't stamp modeConfirmed=true and clobber the saved
     // checkpoint before the restore effect above runs.
+    const modeConfirmed =
+        !selfPickupEnabled || (currentStep !== "mode" && currentStep !== undefined);
     useEffect(() => {
         if (!restoreDone) return;
-        const modeConfirmed =
-            !selfPickupEnabled || (currentStep !== "mode" && currentStep !== undefined);
-        localStorage.setItem(
-            CHECKOUT_STORAGE_KEY,
-            JSON.stringify({ step: currentStep, form: formData, modeConfirmed })
-        );
-    }, [currentStep, formData, selfPickupEnabled, restoreDone]);
+        saveCheckoutCheckpoint({ step: currentStep, form: formData, modeConfirmed });
+    }, [currentStep, formData, modeConfirmed, restoreDone]);
 
-    const orangeItems = items.filter((item) => item.condition === "ORANGE");
-    const redItems = items.filter((item) => item.condition === "RED");
-    const missingOrangeDecisions = orangeItems.filter((item) => !item.maintenanceDecision);
-    const missingRedAcknowledgements = redItems.filter(
-        (item) => item.maintenanceDecision !== "FIX_IN_ORDER"
-    );
-    const repairChoiceBlockedItems = items.filter(
-        (item) =>
-            (item.condition === "RED" || item.maintenanceDecision === "FIX_IN_ORDER") &&
-            !item.refurbDaysEstimate
-    );
+    // Mirror the checkpoint to the server draft, debounced. Skipped while a
+    // draft conflict is open, after submit, and when nothing changed.
+    useEffect(() => {
+        if (!restoreDone || draftConflict || isLeavingAfterSubmit) return;
+        if (items.length === 0 || !getAccessToken()) return;
+        const checkpoint = { step: currentStep, form: formData, modeConfirmed };
+        if (
+            checkoutDraft.data &&
+            sameCheckoutCheckpoint(draftToCheckpoint(checkoutDraft.data), checkpoint)
+        ) {
+            return;
+        }
+        const timer = setTimeout(() => {
+            saveDraft(
+                {
+                    cart_id: activeCartId,
+                    step: currentStep,
+                    form: formData,
+                    mode_confirmed: modeConfirmed,
+                },
+                {
+                    // The local checkpoint still has it; the next edit retries.
+                    onError: (error) => console.warn("[checkout] draft sync failed", error),
+                }
+            );
+        }, DRAFT_SAVE_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [
+        currentStep,
+        formData,
+        modeConfirmed,
+        restoreDone,
+        draftConflict,
+        isLeavingAfterSubmit,
+        items.length,
+        activeCartId,
+        checkoutDraft.data,
+        saveDraft,
+    ]);
+
+    const {
+        redItems,
+        missingOrangeDecisions,
+        missingRedAcknowledgements,
+        repairChoiceBlockedItems,
+    } = cartMaintenanceState(items);
 
     useEffect(() => {
         if (!isInitialized || cartRefreshDone || items.length === 0) return;
@@ -393,17 +463,11 @@ function CheckoutPageInner() {
     // (is_permanent_placement === false) triggers pickup capture. Permanent
     // (true) OR unanswered (null) => no pickup shown.
     const needsCollection = formData.is_permanent_placement === false;
-    const effectiveEventStart = eventDateInputsEnabled
-        ? formData.event_start_date
-        : formData.requested_delivery_date;
-    // For a permanent / no-return order there is no pickup to derive the event
-    // end from, so we stamp the far-future sentinel (event_end_date is NOT NULL
-    // and load-bearing — see SENTINEL_NO_RETURN_DATE).
-    const effectiveEventEnd = eventDateInputsEnabled
-        ? formData.event_end_date
-        : needsCollection
-          ? formData.requested_pickup_date
-          : SENTINEL_NO_RETURN_DATE;
+    // Same derivation the submit payload uses.
+    const { start: effectiveEventStart, end: effectiveEventEnd } = orderEventDates(
+        formData,
+        eventDateInputsEnabled
+    );
 
     // Memoized ISO datetimes with platform-TZ offset. Null until all
     // components (date, time, timezone) are available — the feasibility
@@ -466,26 +530,80 @@ function CheckoutPageInner() {
         () => items.map((i) => ({ asset_id: i.assetId, quantity: i.quantity })),
         [items]
     );
-    const availabilityWindow = useMemo(() => {
-        const start = formData.requested_delivery_date || formData.event_start_date;
-        const end = formData.requested_pickup_date || formData.event_end_date;
-        if (!start || !end) return null;
-        return {
-            start: new Date(`${start}T00:00:00.000Z`).toISOString(),
-            end: new Date(`${end}T23:59:59.999Z`).toISOString(),
-        };
-    }, [
-        formData.requested_delivery_date,
-        formData.requested_pickup_date,
-        formData.event_start_date,
-        formData.event_end_date,
-    ]);
+    const availabilityWindow = useMemo(
+        () =>
+            buildAvailabilityWindow({
+                requested_delivery_date: formData.requested_delivery_date,
+                requested_pickup_date: formData.requested_pickup_date,
+                event_start_date: formData.event_start_date,
+                event_end_date: formData.event_end_date,
+            }),
+        [
+            formData.requested_delivery_date,
+            formData.requested_pickup_date,
+            formData.event_start_date,
+            formData.event_end_date,
+        ]
+    );
     const availabilityPreview = useAvailabilityPreview({
         items: availabilityItems,
         window: availabilityWindow,
         enabled: items.length > 0,
     });
     const availability = interpretAvailabilityPreview(availabilityPreview.data);
+    // Whole-cart date calendar on the date step — same items, plus the
+    // delivery/pickup spacing so each day is checked as the stay it would be.
+    const heatmapItems = useMemo(
+        () =>
+            items.map((i) => ({
+                asset_id: i.assetId,
+                quantity: i.quantity,
+                maintenance_decision: i.maintenanceDecision,
+            })),
+        [items]
+    );
+    const heatmapShape = useMemo(
+        () =>
+            stayShape(
+                {
+                    event_start_date: formData.event_start_date,
+                    event_end_date: formData.event_end_date,
+                    requested_delivery_date: formData.requested_delivery_date,
+                    requested_pickup_date: formData.requested_pickup_date,
+                },
+                eventDateInputsEnabled
+            ),
+        [
+            formData.event_start_date,
+            formData.event_end_date,
+            formData.requested_delivery_date,
+            formData.requested_pickup_date,
+            eventDateInputsEnabled,
+        ]
+    );
+    // Per-line re-check on the cart step, where the dates may not be picked
+    // yet — falls back to current stock and offers inline fixes.
+    const cartAvailability = useCartAvailability({
+        window: availabilityWindow,
+        enabled: currentStep === "cart" && items.length > 0,
+    });
+
+    // Vehicle fit from item dimensions/weight — shown on the cart step and
+    // sent with the estimate so the transport line matches the load.
+    const loadPlan = useLoadPlan(items);
+    const { data: vehicleTypes } = useVehicleTypes();
+    // The fleet for the form's vehicle choice — the planner's unless one was
+    // picked from the scenario table.
+    const estimateVehicles = useMemo(
+        () =>
+            vehicleTypes && vehicleTypes.length > 0
+                ? fleetFor(items, vehicleTypes, formData.vehicle_type).map((v) => ({
+                      vehicle_type: v.vehicle_type,
+                      count: v.count,
+                  }))
+                : undefined,
+        [items, vehicleTypes, formData.vehicle_type]
+    );
 
     // NEW: Calculate estimate using new system
     const {
@@ -495,8 +613,9 @@ function CheckoutPageInner() {
     } = useCalculateEstimate(
         items,
         formData.venue_city_id,
-        "ROUND_TRIP",
-        currentStep === "review" && !!formData.venue_city_id && isEstimateFeatureEnabled
+        formData.trip_type,
+        currentStep === "review" && !!formData.venue_city_id && isEstimateFeatureEnabled,
+        estimateVehicles
     );
 
     // Calculate minimum allowed date from actual feasibility config
@@ -533,11 +652,6 @@ function CheckoutPageInner() {
         }));
     }, [countriesData?.data, formData.venue_country_id]);
 
-    const cities = formData.venue_country_id
-        ? (countriesData?.data?.find((country) => country.id === formData.venue_country_id)
-              ?.cities ?? [])
-        : [];
-
     // Validate cart availability before review step.
     //
     // Calls the unified `POST /asset/availability` endpoint (replaces the
@@ -653,23 +767,40 @@ function CheckoutPageInner() {
     const commerceRulesAcknowledged =
         acknowledgedForSignature !== null && acknowledgedForSignature === cartSignature;
 
+    // SUGGEST hits render as recommendation cards and BLOCK hits also get a
+    // "fix this line" list; WARN + BLOCK are what the checkpoint asks about.
+    const ruleHits = useMemo(
+        () => sortRuleHits(acknowledgedRuleHits, items),
+        [acknowledgedRuleHits, items]
+    );
+
     // Item 6: group hits by their related asset for per-line rendering.
     // Hits without a related_asset_id (rare in v1 since QUANTITY/COMPANION
-    // rules target a specific asset/family) fall into `globalHits`.
+    // rules target a specific asset/family) fall into `globalHits` — BLOCK
+    // hits excepted, which the block list above the lines already shows.
     const { hitsByAsset, globalHits } = useMemo(() => {
         const byAsset = new Map<string, CommerceRuleHit[]>();
         const global: CommerceRuleHit[] = [];
-        for (const hit of acknowledgedRuleHits) {
+        for (const hit of ruleHits.notices) {
             if (hit.related_asset_id) {
                 const existing = byAsset.get(hit.related_asset_id) || [];
                 existing.push(hit);
                 byAsset.set(hit.related_asset_id, existing);
-            } else {
+            } else if (hit.severity !== "BLOCK") {
                 global.push(hit);
             }
         }
         return { hitsByAsset: byAsset, globalHits: global };
-    }, [acknowledgedRuleHits]);
+    }, [ruleHits]);
+
+    // BLOCK hits take the user back to the Order Review step, scrolled to
+    // the line the rule objects to.
+    const lineFocus = useCartLineFocus();
+    const focusCartLine = (assetId: string) => {
+        setPendingRuleHits([]);
+        setCurrentStep("cart");
+        lineFocus.focusLine(assetId);
+    };
 
     // Item 6: evaluate commerce rules on the "Order Review" step
     // (currentStep === "cart") AND on the final "review" step — so the
@@ -721,137 +852,34 @@ function CheckoutPageInner() {
     // are declared earlier (before the feasibility hook) — see the block
     // that wires the consolidated useFeasibilityPreview subscription.
 
-    const canProceed = () => {
-        switch (currentStep) {
-            case "mode":
-                return pendingMode !== null;
-            case "cart":
-                return (
-                    items.length > 0 &&
-                    missingOrangeDecisions.length === 0 &&
-                    missingRedAcknowledgements.length === 0 &&
-                    repairChoiceBlockedItems.length === 0
-                );
-            case "installation": {
-                // is_permanent_placement moved here from the venue step — it's
-                // asked once and decides whether the pickup block is shown.
-                // Always required (explicit Yes/No).
-                if (formData.is_permanent_placement === null) return false;
-                const deliveryComplete = Boolean(
-                    formData.requested_delivery_date &&
-                        formData.requested_delivery_time_start &&
-                        formData.requested_delivery_time_end
-                );
-                const pickupComplete = Boolean(
-                    formData.requested_pickup_date &&
-                        formData.requested_pickup_time_start &&
-                        formData.requested_pickup_time_end
-                );
-                // When the event-dates flag is OFF, delivery is the source of
-                // truth for event start and is always required. Pickup
-                // completeness + the delivery<=pickup ordering are required
-                // ONLY for temporary orders (needsCollection); a permanent
-                // order has no pickup.
-                if (!eventDateInputsEnabled) {
-                    return Boolean(
-                        deliveryComplete &&
-                            (!needsCollection ||
-                                (pickupComplete &&
-                                    new Date(formData.requested_delivery_date) <=
-                                        new Date(formData.requested_pickup_date))) &&
-                            feasibility.userDateFeasible !== false
-                    );
-                }
-                return Boolean(
-                    formData.event_start_date &&
-                        formData.event_end_date &&
-                        new Date(formData.event_start_date) <= new Date(formData.event_end_date) &&
-                        // Hard-block when we KNOW the picked date is too soon.
-                        // Always enforced — independent of the helper flag.
-                        feasibility.userDateFeasible !== false
-                );
-            }
-            case "review":
-                // Block submit path from review-level Next if ORANGE FIX
-                // decisions pushed the earliest date past the picked event
-                // date. Submit handler also checks as a last line of defense.
-                return feasibility.userDateFeasible !== false;
-            case "venue":
-                // Permit decision is mandatory: client must explicitly answer
-                // yes or no. If yes, they must also pick an owner (CLIENT or
-                // PLATFORM — UNKNOWN is rejected to prevent ambiguity).
-                // (is_permanent_placement moved to the installation step.)
-                return Boolean(
-                    formData.venue_name &&
-                        formData.venue_country_id &&
-                        formData.venue_city_id &&
-                        formData.venue_address &&
-                        formData.permit_decision !== null &&
-                        (formData.permit_decision === "no" ||
-                            formData.permit_owner === "CLIENT" ||
-                            formData.permit_owner === "PLATFORM")
-                );
-            case "contact":
-                return (
-                    formData.contact_name &&
-                    formData.contact_phone &&
-                    isValidPhoneNumber(formData.contact_phone) &&
-                    /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.contact_email)
-                );
-            default:
-                return false;
-        }
-    };
-
-    const handleNext = async () => {
-        if (!canProceed()) {
-            if (
-                currentStep === "contact" &&
-                formData.contact_email &&
-                !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.contact_email)
-            ) {
-                toast.error("Please enter a valid email address");
-            } else if (currentStep === "cart" && missingOrangeDecisions.length > 0) {
-                toast.error("Select a decision for each ORANGE item");
-            } else if (currentStep === "cart" && missingRedAcknowledgements.length > 0) {
-                toast.error("Acknowledge repair before event for each RED item");
-            } else if (currentStep === "cart" && repairChoiceBlockedItems.length > 0) {
-                toast.error("Repair before event is unavailable until refurb days are recorded");
-            } else if (currentStep === "mode") {
-                toast.error("Please pick a delivery mode to continue");
-            } else {
-                toast.error("Please fill all required fields");
-            }
-            return;
-        }
+    const currentStepDefinition = STEPS[currentStepIndex];
+    const StepView = currentStepDefinition?.component;
+    const stepValidation = validateCheckoutStep(currentStepDefinition, {
+        form: formData,
+        items,
+        pendingMode,
+        eventDateInputsEnabled,
+        userDateFeasible: feasibility.userDateFeasible,
+    });
 
+    // Implementations of the async guards steps declare in the registry.
+    // Each reports its own failure and returns false to hold the step.
+    const guardHandlers: CheckoutGuardHandlers = {
         // Item 6: commerce-rules checkpoint — pops only when the client
         // tries to advance PAST the Order Review (cart) step. Any active
         // hits not yet acknowledged for the current cart signature gate
         // the next-step transition. Acknowledging binds the signature, so
         // re-clicking Continue proceeds. If they edit the cart and come
         // back, the signature change invalidates and the gate re-fires.
-        if (
-            currentStep === "cart" &&
-            acknowledgedRuleHits.length > 0 &&
-            !commerceRulesAcknowledged
-        ) {
-            setPendingRuleHits(acknowledgedRuleHits);
-            return;
-        }
-
-        // Commit the Delivery Mode selection on Continue (not on card click).
-        if (currentStep === "mode" && pendingMode) {
-            setCheckoutMode(pendingMode);
-            if (pendingMode === "self-pickup") {
-                // Self-pickup flow takes over rendering via the checkoutMode branch.
-                return;
+        "commerce-rules": async () => {
+            if (ruleHits.notices.length > 0 && !commerceRulesAcknowledged) {
+                setPendingRuleHits(ruleHits.notices);
+                return false;
             }
-            setCurrentStep("cart");
-            return;
-        }
-
-        if (currentStep === "installation" && items.length > 0) {
+            return true;
+        },
+        "maintenance-feasibility": async () => {
+            if (items.length === 0) return true;
             try {
                 // Authoritative check before advancing. Sends ALL items (not
                 // just RED) — server filters to RED + ORANGE-w/-FIX_IN_ORDER
@@ -879,12 +907,40 @@ function CheckoutPageInner() {
                     toast.error(
                         "Some items cannot be ready before the picked event start. Choose a later date/time."
                     );
-                    return;
+                    return false;
                 }
+                return true;
             } catch (error) {
                 toast.error(error instanceof Error ? error.message : "Failed feasibility check");
+                return false;
+            }
+        },
+        availability: async () => {
+            if (availabilityIssues.length > 0) {
+                toast.error("Please resolve availability issues before submitting");
+                return false;
+            }
+            return true;
+        },
+    };
+
+    const handleNext = async () => {
+        if (!stepValidation.ok) {
+            toast.error(stepValidation.message);
+            return;
+        }
+
+        if (!(await runCheckoutStepGuards(currentStepDefinition, guardHandlers))) return;
+
+        // Commit the Delivery Mode selection on Continue (not on card click).
+        if (currentStep === "mode" && pendingMode) {
+            setCheckoutMode(pendingMode);
+            if (pendingMode === "self-pickup") {
+                // Self-pickup flow takes over rendering via the checkoutMode branch.
                 return;
             }
+            setCurrentStep("cart");
+            return;
         }
 
         const nextIndex = currentStepIndex + 1;
@@ -893,6 +949,25 @@ function CheckoutPageInner() {
         }
     };
 
+    // Leaving the Order Review step for the split flow clears the same
+    // checks as Continue, so every destination starts from a settled cart.
+    const handleSplitDestinations = async () => {
+        if (!stepValidation.ok) {
+            toast.error(stepValidation.message);
+            return;
+        }
+        if (!(await runCheckoutStepGuards(currentStepDefinition, guardHandlers))) return;
+        setCheckoutMode("multi-destination");
+    };
+
+    const handleSplitSubmitted = (orders: SplitOrderSummary[]) => {
+        clearCheckoutCheckpoint();
+        if (getAccessToken()) discardDraft();
+        setIsLeavingAfterSubmit(true);
+        setSplitOrders(orders);
+        clearCart({ afterSubmit: true });
+    };
+
     const handleBack = () => {
         const prevIndex = currentStepIndex - 1;
         if (prevIndex >= 0) {
@@ -913,10 +988,7 @@ function CheckoutPageInner() {
             toast.error("Repair before event is unavailable until refurb days are recorded");
             return;
         }
-        if (availabilityIssues.length > 0) {
-            toast.error("Please resolve availability issues before submitting");
-            return;
-        }
+        if (!(await runCheckoutStepGuards(currentStepDefinition, guardHandlers))) return;
 
         if (items.length === 0) {
             toast.error("Cart is empty");
@@ -930,18 +1002,12 @@ function CheckoutPageInner() {
 
         setIsSubmitting(true);
         try {
-            // When the event-dates flag is off, delivery_date stands in for
-            // event_start_date. The backend still requires both fields, so we
-            // auto-derive them below.
-            const submitEventStart = effectiveEventStart;
-            const submitEventEnd = effectiveEventEnd;
-
             const maintenanceResult = await maintenanceFeasibilityCheck.mutateAsync({
                 items: items.map((item) => ({
                     asset_id: item.assetId,
                     maintenance_decision: item.maintenanceDecision,
                 })),
-                event_start_date: submitEventStart,
+                event_start_date: effectiveEventStart,
                 ...(effectiveEventStartDatetime
                     ? { event_start_datetime: effectiveEventStartDatetime }
                     : {}),
@@ -957,153 +1023,30 @@ function CheckoutPageInner() {
                 return;
             }
 
-            const submitData = {
-                ...(formData.brand_id ? { brand_id: formData.brand_id } : {}),
-                items: items.map((item) => ({
-                    asset_id: item.assetId,
-                    quantity: item.quantity,
-                    ...(item.fromCollection ? { from_collection_id: item.fromCollection } : {}),
-                    ...(item.maintenanceDecision
-                        ? { maintenance_decision: item.maintenanceDecision }
-                        : {}),
-                })),
-                event_start_date: submitEventStart,
-                event_end_date: submitEventEnd,
-                // Also send ISO datetimes so the server-side feasibility
-                // re-check in submitOrderFromCart uses the precise moment
-                // (not midnight UTC from date-only parse). Without these,
-                // Phase 3's datetime comparison falsely rejects same-day
-                // submissions on westward timezones — the exact dafe89e
-                // regression class Phase 2 was supposed to prevent.
-                ...(effectiveEventStartDatetime
-                    ? { event_start_datetime: effectiveEventStartDatetime }
-                    : {}),
-                ...(effectiveEventEndDatetime
-                    ? { event_end_datetime: effectiveEventEndDatetime }
-                    : {}),
-                venue_name: formData.venue_name,
-                venue_country_id: formData.venue_country_id,
-                venue_city_id: formData.venue_city_id,
-                venue_address: formData.venue_address,
-                // Item 7: required at the venue step; the canProceed gate
-                // ensures this is non-null by the time we hit submit.
-                is_permanent_placement: formData.is_permanent_placement === true,
-                ...(formData.venue_access_notes
-                    ? { venue_access_notes: formData.venue_access_notes }
-                    : {}),
-                ...(formData.permit_decision !== null
-                    ? {
-                          permit_requirements: {
-                              requires_permit: formData.requires_permit,
-                              permit_owner: formData.requires_permit
-                                  ? formData.permit_owner
-                                  : "UNKNOWN",
-                              requires_vehicle_docs: formData.requires_vehicle_docs,
-                              requires_staff_ids: formData.requires_staff_ids,
-                              ...(formData.permit_notes ? { notes: formData.permit_notes } : {}),
-                          },
-                      }
-                    : {}),
-                contact_name: formData.contact_name,
-                contact_email: formData.contact_email,
-                contact_phone: formData.contact_phone,
-                // Venue contact (top-level, separate from permit_requirements)
-                ...(formData.venue_contact_name ||
-                formData.venue_contact_email ||
-                formData.venue_contact_phone
-                    ? {
-                          venue_contact: {
-                              ...(formData.venue_contact_name
-                                  ? { name: formData.venue_contact_name }
-                                  : {}),
-                              ...(formData.venue_contact_email
-                                  ? { email: formData.venue_contact_email }
-                                  : {}),
-                              ...(formData.venue_contact_phone
-                                  ? { phone: formData.venue_contact_phone }
-                                  : {}),
-                          },
-                      }
-                    : {}),
-                // Client-requested delivery window (optional) — date auto-falls-back
-                // to event_start_date if user set times but not date explicitly.
-                ...(() => {
-                    const deliveryDate =
-                        formData.requested_delivery_date || formData.event_start_date;
-                    const tz = feasibilityConfig?.timezone;
-                    if (
-                        deliveryDate &&
-                        formData.requested_delivery_time_start &&
-                        formData.requested_delivery_time_end &&
-                        tz
-                    ) {
-                        // TZ-aware: produces "YYYY-MM-DDThh:mm:ss±HH:MM". The
-                        // naive form (no offset) was being parsed as UTC by the
-                        // server, drifting by the platform offset (e.g. 4h on
-                        // Dubai). Mirrors event_start_datetime + the SP flow.
-                        const start = composeZonedISO({
-                            date: deliveryDate,
-                            time: formData.requested_delivery_time_start,
-                            timezone: tz,
-                        });
-                        const end = composeZonedISO({
-                            date: deliveryDate,
-                            time: formData.requested_delivery_time_end,
-                            timezone: tz,
-                        });
-                        if (start && end) {
-                            return { requested_delivery_window: { start, end } };
-                        }
-                    }
-                    return {};
-                })(),
-                // Client-requested pickup window (optional) — date auto-falls-back
-                // to event_end_date if user set times but not date explicitly.
-                ...(() => {
-                    // No pickup window for permanent / no-return orders — the
-                    // pickup step is hidden and event_end is a sentinel.
-                    if (!needsCollection) return {};
-                    const pickupDate = formData.requested_pickup_date || formData.event_end_date;
-                    const tz = feasibilityConfig?.timezone;
-                    if (
-                        pickupDate &&
-                        formData.requested_pickup_time_start &&
-                        formData.requested_pickup_time_end &&
-                        tz
-                    ) {
-                        const start = composeZonedISO({
-                            date: pickupDate,
-                            time: formData.requested_pickup_time_start,
-                            timezone: tz,
-                        });
-                        const end = composeZonedISO({
-                            date: pickupDate,
-                            time: formData.requested_pickup_time_end,
-                            timezone: tz,
-                        });
-                        if (start && end) {
-                            return { requested_pickup_window: { start, end } };
-                        }
-                    }
-                    return {};
-                })(),
-                ...(formData.special_instructions
-                    ? { special_instructions: formData.special_instructions }
-                    : {}),
-                commerce_rule_acknowledgements: acknowledgedRuleHits.map((hit) => ({
-                    rule_id: hit.rule_id,
-                })),
-            };
+            const submitData = buildOrderSubmitPayload(formData, items, {
+                timezone: feasibilityConfig?.timezone,
+                eventDateInputsEnabled,
+                commerceRuleIds: acknowledgedRuleHits.map((hit) => hit.rule_id),
+                tripType: formData.trip_type,
+                // Only a vehicle picked in the scenario table is sent; left
+                // alone, logistics plans the fleet.
+                vehicles: formData.vehicle_type ? estimateVehicles : undefined,
+            });
 
-            const result = await submitMutation.mutateAsync(submitData);
+            const result = await submitMutation.mutateAsync({
+                payload: submitData,
+                idempotencyKey: submitAttempt.keyFor(submitData),
+                label: `Order for ${formData.venue_name}`,
+            });
 
             toast.success("Order submitted successfully!", {
                 description: `Order ID: ${result.orderId}`,
             });
 
-            localStorage.removeItem(CHECKOUT_STORAGE_KEY);
+            clearCheckoutCheckpoint();
+            if (getAccessToken()) discardDraft();
             setIsLeavingAfterSubmit(true);
-            clearCart();
+            clearCart({ afterSubmit: true });
             router.push(`/orders/${result.orderId}`);
         } catch (error) {
             toast.error(error instanceof Error ? error.message : "Failed to submit order");
@@ -1124,6 +1067,14 @@ function CheckoutPageInner() {
         );
     }
 
+    if (splitOrders) {
+        return (
+            <div className="min-h-screen bg-linear-to-br from-background via-muted/10 to-background">
+                <SplitOrderConfirmation orders={splitOrders} />
+            </div>
+        );
+    }
+
     if (items.length === 0) {
         return (
             <div className="min-h-screen bg-background flex items-center justify-center p-8">
@@ -1144,6 +1095,48 @@ function CheckoutPageInner() {
         );
     }
 
+    // What the current step's component reads through `useCheckoutStep`.
+    const stepContext: CheckoutStepContextValue = {
+        formData,
+        setFormData,
+        setCurrentStep,
+        stepValidation,
+        pendingMode,
+        setPendingMode,
+        eventDateInputsEnabled,
+        needsCollection,
+        effectiveEventStart,
+        effectiveEventEnd,
+        calculateMinDate,
+        feasibility,
+        feasibilityPreview,
+        feasibilityHelperEnabled,
+        availability,
+        availabilityPreview,
+        availabilityWindow,
+        availabilityIssues,
+        cartAvailability,
+        heatmapItems,
+        heatmapShape,
+        redItems,
+        maintenanceFeasibilityCheck,
+        maintenanceFeasibilityIssues,
+        setMaintenanceFeasibilityIssues,
+        hasCheckedMaintenanceFeasibility,
+        setHasCheckedMaintenanceFeasibility,
+        ruleHits,
+        hitsByAsset,
+        globalHits,
+        focusCartLine,
+        lineFocus,
+        loadPlan,
+        handleSplitDestinations,
+        isEstimateFeatureEnabled,
+        estimateData,
+        isEstimateLoading,
+        isEstimateError,
+    };
+
     return (
         <div className="min-h-screen bg-linear-to-br from-background via-muted/10 to-background">
             {/* Progress Header — hidden in self-pickup mode (that flow has its
@@ -1207,65 +1200,6 @@ function CheckoutPageInner() {
                 </div>
             )}
 
-            {/* Step 0 — Delivery Mode (only rendered when feature enabled). */}
-            {checkoutMode === "standard" && currentStep === "mode" && (
-                <div className="max-w-5xl mx-auto px-8 pt-8 pb-4 space-y-6">
-                    <div>
-                        <h2 className="text-3xl font-bold mb-2">Delivery Method</h2>
-                        <p className="text-muted-foreground">
-                            Choose delivery for our logistics team to bring items to your venue, or
-                            self-pickup to collect them yourself from the warehouse. You can change
-                            this at any time before submitting.
-                        </p>
-                    </div>
-
-                    <Card className="p-6 bg-card/50 border-border/50">
-                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                            <button
-                                type="button"
-                                onClick={() => setPendingMode("standard")}
-                                className={`group relative text-left rounded-xl border-2 p-5 transition-all ${
-                                    pendingMode === "standard"
-                                        ? "border-primary bg-primary/5 ring-2 ring-primary/30 shadow-sm"
-                                        : "border-border hover:border-primary/50 hover:bg-muted/30"
-                                }`}
-                            >
-                                <div className="flex items-center gap-3 mb-2">
-                                    <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
-                                        <Truck className="h-5 w-5 text-primary" />
-                                    </div>
-                                    <p className="font-semibold text-base">Delivery</p>
-                                </div>
-                                <p className="text-sm text-muted-foreground">
-                                    Our logistics team delivers to your venue on the date and window
-                                    you pick.
-                                </p>
-                            </button>
-                            <button
-                                type="button"
-                                onClick={() => setPendingMode("self-pickup")}
-                                className={`group relative text-left rounded-xl border-2 p-5 transition-all ${
-                                    pendingMode === "self-pickup"
-                                        ? "border-primary bg-primary/5 ring-2 ring-primary/30 shadow-sm"
-                                        : "border-border hover:border-primary/50 hover:bg-muted/30"
-                                }`}
-                            >
-                                <div className="flex items-center gap-3 mb-2">
-                                    <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
-                                        <WarehouseIcon className="h-5 w-5 text-primary" />
-                                    </div>
-                                    <p className="font-semibold text-base">Self-Pickup</p>
-                                </div>
-                                <p className="text-sm text-muted-foreground">
-                                    Collect the items yourself from the warehouse. You provide the
-                                    collector and return window.
-                                </p>
-                            </button>
-                        </div>
-                    </Card>
-                </div>
-            )}
-
             {/* Self-pickup flow (replaces standard steps). The component
                 provides its own sticky stepper + content layout matching the
                 standard-order flow. */}
@@ -1273,6 +1207,27 @@ function CheckoutPageInner() {
                 <SelfPickupCheckoutFlow onSwitchToStandard={() => setCheckoutMode("standard")} />
             )}
 
+            {/* Split checkout — one order per destination, entered from the
+                Order Review step. */}
+            {checkoutMode === "multi-destination" && (
+                <MultiDestinationCheckoutFlow
+                    contactDefaults={{
+                        brand_id: formData.brand_id,
+                        contact_name: formData.contact_name,
+                        contact_email: formData.contact_email,
+                        contact_phone: formData.contact_phone,
+                        special_instructions: formData.special_instructions,
+                    }}
+                    commerceRuleIds={acknowledgedRuleHits.map((hit) => hit.rule_id)}
+                    transport={{
+                        tripType: formData.trip_type,
+                        vehicleType: formData.vehicle_type,
+                    }}
+                    onSwitchToStandard={() => setCheckoutMode("standard")}
+                    onSubmitted={handleSplitSubmitted}
+                />
+            )}
+
             {/* Standard order flow continues below — hidden when self-pickup mode */}
             {checkoutMode === "standard" && (
                 <>
@@ -1305,1785 +1260,22 @@ function CheckoutPageInner() {
 
                     {/* Content */}
                     <div className="max-w-5xl mx-auto px-8 py-10">
-                        <AnimatePresence mode="wait">
-                            {/* Step 1: Cart Review */}
-                            {currentStep === "cart" && (
-                                <motion.div
-                                    key="cart"
-                                    initial={{ opacity: 0, x: 20 }}
-                                    animate={{ opacity: 1, x: 0 }}
-                                    exit={{ opacity: 0, x: -20 }}
-                                    transition={{ duration: 0.3 }}
-                                    className="space-y-6"
-                                >
-                                    <div>
-                                        <h2 className="text-3xl font-bold mb-2">
-                                            Review Your Order
-                                        </h2>
-                                        <p className="text-muted-foreground">
-                                            Verify your items before proceeding to event details
-                                        </p>
-                                    </div>
-
-                                    {/* Item 6: global commerce-rule hits (no
-                                        related asset) surface at top as a
-                                        compact strip. Per-item hits render
-                                        inline inside each item row below. */}
-                                    {globalHits.length > 0 && (
-                                        <div className="rounded-md border border-amber-500/50 bg-amber-50 px-3 py-2 text-xs text-amber-900">
-                                            {globalHits.map((hit) => (
-                                                <div
-                                                    key={hit.rule_id}
-                                                    className="flex items-start gap-1.5"
-                                                >
-                                                    <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
-                                                    <span>{hit.message}</span>
-                                                </div>
-                                            ))}
-                                        </div>
-                                    )}
-
-                                    <Card className="p-6 bg-card/50 border-border/50">
-                                        <div className="space-y-4">
-                                            {items.map((item) => {
-                                                const itemHits =
-                                                    hitsByAsset.get(item.assetId) || [];
-                                                return (
-                                                    <div
-                                                        key={item.assetId}
-                                                        className="flex gap-4 pb-4 border-b border-border last:border-0 last:pb-0"
-                                                    >
-                                                        <div className="w-24 h-24 rounded-lg overflow-hidden border border-border shrink-0 bg-muted">
-                                                            {item.image ? (
-                                                                <Image
-                                                                    src={item.image}
-                                                                    alt={item.assetName}
-                                                                    width={96}
-                                                                    height={96}
-                                                                    className="object-cover w-full h-full"
-                                                                />
-                                                            ) : (
-                                                                <div className="w-full h-full flex items-center justify-center">
-                                                                    <Package className="h-10 w-10 text-muted-foreground/30" />
-                                                                </div>
-                                                            )}
-                                                        </div>
-
-                                                        <div className="flex-1">
-                                                            <h4 className="font-semibold mb-1">
-                                                                {item.assetName}
-                                                            </h4>
-                                                            <div className="flex items-center gap-3 text-sm text-muted-foreground font-mono mb-2">
-                                                                <span>Qty: {item.quantity}</span>
-                                                                <span>•</span>
-                                                                <span>{item.volume} m³ each</span>
-                                                                <span>•</span>
-                                                                <span>{item.weight} kg each</span>
-                                                            </div>
-                                                            {item.condition === "RED" && (
-                                                                <div className="mt-2 space-y-2 rounded-md border border-red-200 bg-red-50 p-3">
-                                                                    <div className="flex flex-wrap items-center gap-2">
-                                                                        <span className="inline-flex items-center gap-1 text-xs font-medium px-1.5 py-0.5 rounded-full bg-red-100 text-red-700">
-                                                                            <AlertCircle className="h-3 w-3" />{" "}
-                                                                            RED
-                                                                        </span>
-                                                                        <span className="text-xs text-red-700">
-                                                                            Repair before event is
-                                                                            required.
-                                                                        </span>
-                                                                    </div>
-                                                                    {!item.refurbDaysEstimate && (
-                                                                        <p className="text-xs text-red-700">
-                                                                            Repair cannot be
-                                                                            scheduled until refurb
-                                                                            days are recorded.
-                                                                        </p>
-                                                                    )}
-                                                                    <div className="flex flex-wrap gap-2">
-                                                                        <Button
-                                                                            type="button"
-                                                                            size="sm"
-                                                                            variant={
-                                                                                item.maintenanceDecision ===
-                                                                                "FIX_IN_ORDER"
-                                                                                    ? "default"
-                                                                                    : "outline"
-                                                                            }
-                                                                            disabled={
-                                                                                !item.refurbDaysEstimate
-                                                                            }
-                                                                            onClick={() =>
-                                                                                updateItemMaintenanceDecision(
-                                                                                    item.assetId,
-                                                                                    "FIX_IN_ORDER"
-                                                                                )
-                                                                            }
-                                                                        >
-                                                                            Repair before event
-                                                                        </Button>
-                                                                    </div>
-                                                                    <details className="text-xs text-red-700">
-                                                                        <summary className="cursor-pointer font-medium">
-                                                                            Condition details
-                                                                        </summary>
-                                                                        <div className="mt-2 space-y-2">
-                                                                            {item.conditionNotes && (
-                                                                                <p>
-                                                                                    {
-                                                                                        item.conditionNotes
-                                                                                    }
-                                                                                </p>
-                                                                            )}
-                                                                            {item.conditionImages
-                                                                                ?.length ? (
-                                                                                <div className="grid grid-cols-3 gap-2">
-                                                                                    {item.conditionImages
-                                                                                        .slice(0, 6)
-                                                                                        .map(
-                                                                                            (
-                                                                                                photo,
-                                                                                                photoIndex
-                                                                                            ) => (
-                                                                                                <div
-                                                                                                    key={`${photo.url}-${photoIndex}`}
-                                                                                                    className="relative aspect-square overflow-hidden rounded-md border border-red-200 bg-white"
-                                                                                                >
-                                                                                                    <Image
-                                                                                                        src={
-                                                                                                            photo.url
-                                                                                                        }
-                                                                                                        alt={`Condition photo ${photoIndex + 1}`}
-                                                                                                        fill
-                                                                                                        className="object-cover"
-                                                                                                    />
-                                                                                                </div>
-                                                                                            )
-                                                                                        )}
-                                                                                </div>
-                                                                            ) : null}
-                                                                            {item.refurbDaysEstimate && (
-                                                                                <p>
-                                                                                    Est. repair:{" "}
-                                                                                    {
-                                                                                        item.refurbDaysEstimate
-                                                                                    }{" "}
-                                                                                    days
-                                                                                </p>
-                                                                            )}
-                                                                        </div>
-                                                                    </details>
-                                                                </div>
-                                                            )}
-                                                            {item.condition === "ORANGE" && (
-                                                                <div className="mt-2 space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3">
-                                                                    <div className="flex flex-wrap items-center gap-2">
-                                                                        <span className="inline-flex items-center gap-1 text-xs font-medium px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700">
-                                                                            <AlertCircle className="h-3 w-3" />{" "}
-                                                                            ORANGE
-                                                                        </span>
-                                                                        <span className="text-xs text-amber-700">
-                                                                            Choose how this item
-                                                                            should be handled.
-                                                                        </span>
-                                                                    </div>
-                                                                    {!item.refurbDaysEstimate && (
-                                                                        <p className="text-xs text-amber-700">
-                                                                            Repair before event is
-                                                                            unavailable until refurb
-                                                                            days are recorded.
-                                                                        </p>
-                                                                    )}
-                                                                    <div className="flex flex-wrap gap-2">
-                                                                        <Button
-                                                                            type="button"
-                                                                            size="sm"
-                                                                            aria-pressed={
-                                                                                item.maintenanceDecision ===
-                                                                                "FIX_IN_ORDER"
-                                                                            }
-                                                                            variant={
-                                                                                item.maintenanceDecision ===
-                                                                                "FIX_IN_ORDER"
-                                                                                    ? "default"
-                                                                                    : "outline"
-                                                                            }
-                                                                            className={
-                                                                                item.maintenanceDecision ===
-                                                                                "FIX_IN_ORDER"
-                                                                                    ? "gap-1.5"
-                                                                                    : "gap-1.5 opacity-70 hover:opacity-100"
-                                                                            }
-                                                                            disabled={
-                                                                                !item.refurbDaysEstimate
-                                                                            }
-                                                                            onClick={() =>
-                                                                                updateItemMaintenanceDecision(
-                                                                                    item.assetId,
-                                                                                    "FIX_IN_ORDER"
-                                                                                )
-                                                                            }
-                                                                        >
-                                                                            {item.maintenanceDecision ===
-                                                                            "FIX_IN_ORDER" ? (
-                                                                                <CircleCheck className="h-4 w-4" />
-                                                                            ) : (
-                                                                                <Circle className="h-4 w-4" />
-                                                                            )}
-                                                                            Repair before event
-                                                                        </Button>
-                                                                        <Button
-                                                                            type="button"
-                                                                            size="sm"
-                                                                            aria-pressed={
-                                                                                item.maintenanceDecision ===
-                                                                                "USE_AS_IS"
-                                                                            }
-                                                                            variant={
-                                                                                item.maintenanceDecision ===
-                                                                                "USE_AS_IS"
-                                                                                    ? "default"
-                                                                                    : "outline"
-                                                                            }
-                                                                            className={
-                                                                                item.maintenanceDecision ===
-                                                                                "USE_AS_IS"
-                                                                                    ? "gap-1.5"
-                                                                                    : "gap-1.5 opacity-70 hover:opacity-100"
-                                                                            }
-                                                                            onClick={() =>
-                                                                                updateItemMaintenanceDecision(
-                                                                                    item.assetId,
-                                                                                    "USE_AS_IS"
-                                                                                )
-                                                                            }
-                                                                        >
-                                                                            {item.maintenanceDecision ===
-                                                                            "USE_AS_IS" ? (
-                                                                                <CircleCheck className="h-4 w-4" />
-                                                                            ) : (
-                                                                                <Circle className="h-4 w-4" />
-                                                                            )}
-                                                                            Accept current condition
-                                                                        </Button>
-                                                                    </div>
-                                                                    <details className="text-xs text-amber-700">
-                                                                        <summary className="cursor-pointer font-medium">
-                                                                            Condition details
-                                                                        </summary>
-                                                                        <div className="mt-2 space-y-2">
-                                                                            {item.conditionNotes && (
-                                                                                <p>
-                                                                                    {
-                                                                                        item.conditionNotes
-                                                                                    }
-                                                                                </p>
-                                                                            )}
-                                                                            {item.conditionImages
-                                                                                ?.length ? (
-                                                                                <div className="grid grid-cols-3 gap-2">
-                                                                                    {item.conditionImages
-                                                                                        .slice(0, 6)
-                                                                                        .map(
-                                                                                            (
-                                                                                                photo,
-                                                                                                photoIndex
-                                                                                            ) => (
-                                                                                                <div
-                                                                                                    key={`${photo.url}-${photoIndex}`}
-                                                                                                    className="relative aspect-square overflow-hidden rounded-md border border-amber-200 bg-white"
-                                                                                                >
-                                                                                                    <Image
-                                                                                                        src={
-                                                                                                            photo.url
-                                                                                                        }
-                                                                                                        alt={`Condition photo ${photoIndex + 1}`}
-                                                                                                        fill
-                                                                                                        className="object-cover"
-                                                                                                    />
-                                                                                                </div>
-                                                                                            )
-                                                                                        )}
-                                                                                </div>
-                                                                            ) : null}
-                                                                            {item.refurbDaysEstimate && (
-                                                                                <p>
-                                                                                    Est. repair:{" "}
-                                                                                    {
-                                                                                        item.refurbDaysEstimate
-                                                                                    }{" "}
-                                                                                    days
-                                                                                </p>
-                                                                            )}
-                                                                        </div>
-                                                                    </details>
-                                                                </div>
-                                                            )}
-                                                            {item.fromCollectionName && (
-                                                                <p className="text-xs text-muted-foreground font-mono">
-                                                                    From collection:{" "}
-                                                                    {item.fromCollectionName}
-                                                                </p>
-                                                            )}
-                                                            {/* Item 6: per-item commerce-rule hits —
-                                                            small, sits inline with the item's
-                                                            metadata so it's contextually anchored
-                                                            to the right SKU. */}
-                                                            {itemHits.length > 0 && (
-                                                                <div className="mt-2 space-y-1">
-                                                                    {itemHits.map((hit) => (
-                                                                        <div
-                                                                            key={hit.rule_id}
-                                                                            className="flex items-start gap-1.5 text-xs text-amber-700 bg-amber-50 border border-amber-300/60 rounded px-2 py-1"
-                                                                        >
-                                                                            <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
-                                                                            <span>
-                                                                                {hit.message}
-                                                                            </span>
-                                                                        </div>
-                                                                    ))}
-                                                                </div>
-                                                            )}
-                                                        </div>
-                                                    </div>
-                                                );
-                                            })}
-                                        </div>
-                                    </Card>
-
-                                    {/* Totals Card */}
-                                    <Card className="p-6 bg-primary/5 border-primary/20">
-                                        <div className="grid grid-cols-3 gap-6">
-                                            <div>
-                                                <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide mb-1">
-                                                    Total Items
-                                                </p>
-                                                <p className="text-2xl font-bold font-mono">
-                                                    {itemCount}
-                                                </p>
-                                            </div>
-                                            <div>
-                                                <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide mb-1">
-                                                    Total Volume
-                                                </p>
-                                                <p className="text-2xl font-bold font-mono text-primary">
-                                                    {totalVolume.toFixed(2)} m³
-                                                </p>
-                                            </div>
-                                            <div>
-                                                <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide mb-1">
-                                                    Total Weight
-                                                </p>
-                                                <p className="text-2xl font-bold font-mono">
-                                                    {totalWeight.toFixed(1)} kg
-                                                </p>
-                                            </div>
-                                        </div>
-                                    </Card>
-                                </motion.div>
-                            )}
-
-                            {/* Step 2: Event Details */}
-                            {currentStep === "installation" && (
-                                <motion.div
-                                    key="installation"
-                                    initial={{ opacity: 0, x: 20 }}
-                                    animate={{ opacity: 1, x: 0 }}
-                                    exit={{ opacity: 0, x: -20 }}
-                                    transition={{ duration: 0.3 }}
-                                    className="space-y-6"
-                                >
-                                    <div>
-                                        <h2 className="text-3xl font-bold mb-2">
-                                            Installation Details
-                                        </h2>
-                                        <p className="text-muted-foreground">
-                                            When do you need these assets to be installed?
-                                        </p>
-                                    </div>
-
-                                    <Card className="p-8 bg-card/50 border-border/50 space-y-6">
-                                        <div className="space-y-6">
-                                            {eventDateInputsEnabled && (
-                                                <div className="space-y-2">
-                                                    <p className="text-xs text-muted-foreground font-mono">
-                                                        Dates &amp; times are in{" "}
-                                                        {feasibilityConfig?.timezone
-                                                            ? feasibilityConfig.timezone.replace(
-                                                                  "_",
-                                                                  " "
-                                                              )
-                                                            : "platform timezone"}
-                                                    </p>
-                                                </div>
-                                            )}
-                                            {eventDateInputsEnabled && (
-                                                <div className="grid grid-cols-2 gap-6">
-                                                    <div className="space-y-2">
-                                                        <Label
-                                                            htmlFor="eventStartDate"
-                                                            className="font-mono uppercase text-xs tracking-wide"
-                                                        >
-                                                            Event Start Date *
-                                                        </Label>
-                                                        <Input
-                                                            id="eventStartDate"
-                                                            type="date"
-                                                            data-testid="checkout-event-start"
-                                                            value={formData.event_start_date}
-                                                            onChange={(e) => {
-                                                                setFormData({
-                                                                    ...formData,
-                                                                    event_start_date:
-                                                                        e.target.value,
-                                                                });
-                                                                setHasCheckedMaintenanceFeasibility(
-                                                                    false
-                                                                );
-                                                                setMaintenanceFeasibilityIssues([]);
-                                                            }}
-                                                            required
-                                                            min={calculateMinDate()}
-                                                            className="h-12 font-mono"
-                                                        />
-                                                    </div>
-
-                                                    <div className="space-y-2">
-                                                        <Label
-                                                            htmlFor="eventEndDate"
-                                                            className="font-mono uppercase text-xs tracking-wide"
-                                                        >
-                                                            Event End Date *
-                                                        </Label>
-                                                        <Input
-                                                            id="eventEndDate"
-                                                            type="date"
-                                                            data-testid="checkout-event-end"
-                                                            value={formData.event_end_date}
-                                                            onChange={(e) => {
-                                                                setFormData({
-                                                                    ...formData,
-                                                                    event_end_date: e.target.value,
-                                                                });
-                                                                setHasCheckedMaintenanceFeasibility(
-                                                                    false
-                                                                );
-                                                                setMaintenanceFeasibilityIssues([]);
-                                                            }}
-                                                            required
-                                                            min={
-                                                                formData.event_start_date ||
-                                                                calculateMinDate()
-                                                            }
-                                                            className="h-12 font-mono"
-                                                        />
-                                                    </div>
-                                                </div>
-                                            )}
-
-                                            {/* Feasibility helper — inline under the date fields.
-                                        Helper copy is gated by the enable_feasibility_helper
-                                        platform flag; the hard block on Next is always
-                                        enforced via canProceed(). */}
-                                            <FeasibilityHelper
-                                                helperEnabled={feasibilityHelperEnabled}
-                                                isLoading={feasibilityPreview.isLoading}
-                                                floorDate={feasibility.floorDate}
-                                                floorDatetime={feasibility.floorDatetime}
-                                                userEventDate={
-                                                    eventDateInputsEnabled
-                                                        ? formData.event_start_date
-                                                        : formData.requested_delivery_date
-                                                }
-                                                userDateFeasible={feasibility.userDateFeasible}
-                                                blockingItems={feasibility.blockingItems}
-                                                config={feasibilityPreview.data?.config ?? null}
-                                                onUseFloorDate={() => {
-                                                    if (!feasibility.floorDate) return;
-                                                    // Round the floor up to the next 30-min wall-
-                                                    // clock boundary, so an exact-match time
-                                                    // doesn't lose the race with the server's
-                                                    // continuously-advancing `Date.now() + lead`
-                                                    // floor. Also bumps the date if rounding
-                                                    // crossed midnight.
-                                                    const rounded = roundedFloorTimeInZone(
-                                                        feasibility.floorDatetime,
-                                                        feasibilityConfig?.timezone
-                                                    );
-                                                    const targetDate = rounded
-                                                        ? shiftDateStr(
-                                                              feasibility.floorDate,
-                                                              rounded.dayOffset
-                                                          )
-                                                        : feasibility.floorDate;
-                                                    const floorTime = rounded?.time ?? null;
-                                                    if (eventDateInputsEnabled) {
-                                                        setFormData({
-                                                            ...formData,
-                                                            event_start_date: targetDate,
-                                                            event_end_date:
-                                                                formData.event_end_date &&
-                                                                formData.event_end_date >=
-                                                                    targetDate
-                                                                    ? formData.event_end_date
-                                                                    : targetDate,
-                                                            ...(floorTime
-                                                                ? {
-                                                                      requested_delivery_time_start:
-                                                                          floorTime,
-                                                                  }
-                                                                : {}),
-                                                        });
-                                                    } else {
-                                                        setFormData({
-                                                            ...formData,
-                                                            requested_delivery_date: targetDate,
-                                                            requested_pickup_date:
-                                                                formData.requested_pickup_date &&
-                                                                formData.requested_pickup_date >=
-                                                                    targetDate
-                                                                    ? formData.requested_pickup_date
-                                                                    : targetDate,
-                                                            ...(floorTime
-                                                                ? {
-                                                                      requested_delivery_time_start:
-                                                                          floorTime,
-                                                                  }
-                                                                : {}),
-                                                        });
-                                                    }
-                                                }}
-                                            />
-
-                                            {/* Availability sibling — shows cart items that
-                                        can't be booked in the chosen window (insufficient
-                                        pool, transformed, etc.) so the user sees it before
-                                        the review step. Renders nothing when everything's
-                                        available. */}
-                                            <AvailabilityHelper
-                                                isLoading={availabilityPreview.isLoading}
-                                                blockingItems={availability.blockingItems}
-                                            />
-
-                                            {/* Collection question — asked once here and decides
-                                        whether the pickup block is shown. Maps to
-                                        is_permanent_placement (collect => false, permanent => true).
-                                        Required. */}
-                                            <div className="space-y-3 pt-4 border-t border-border/40">
-                                                <div className="space-y-1">
-                                                    <Label className="font-mono uppercase text-xs tracking-wide">
-                                                        Do you need these items uplifted? *
-                                                    </Label>
-                                                    <p className="text-xs text-muted-foreground">
-                                                        Choose whether you want us to schedule an
-                                                        uplift and return of items, or the items
-                                                        will not be returned.
-                                                    </p>
-                                                </div>
-                                                <RadioGroup
-                                                    value={
-                                                        formData.is_permanent_placement === null
-                                                            ? ""
-                                                            : formData.is_permanent_placement
-                                                              ? "permanent"
-                                                              : "collect"
-                                                    }
-                                                    onValueChange={(value) =>
-                                                        setFormData({
-                                                            ...formData,
-                                                            is_permanent_placement:
-                                                                value === "permanent",
-                                                        })
-                                                    }
-                                                    className="flex gap-3"
-                                                >
-                                                    <label className="flex items-center gap-2 rounded-md border border-border/60 bg-background/70 px-4 py-2 cursor-pointer flex-1">
-                                                        <RadioGroupItem
-                                                            value="collect"
-                                                            id="collectYes"
-                                                        />
-                                                        <span className="text-sm font-medium">
-                                                            Yes — schedule a collection
-                                                        </span>
-                                                    </label>
-                                                    <label className="flex items-center gap-2 rounded-md border border-border/60 bg-background/70 px-4 py-2 cursor-pointer flex-1">
-                                                        <RadioGroupItem
-                                                            value="permanent"
-                                                            id="collectNo"
-                                                        />
-                                                        <span className="text-sm font-medium">
-                                                            No — no collection needed (permanent)
-                                                        </span>
-                                                    </label>
-                                                </RadioGroup>
-                                            </div>
-
-                                            {/* Delivery + Pickup windows.
-                                        When event-dates flag is OFF, these are the primary
-                                        input and BOTH are required. Native <input type="date">
-                                        + <input type="time"> match the rest of the form's
-                                        styling. */}
-                                            <div className="space-y-4 pt-4 border-t border-border/40">
-                                                <div className="space-y-1">
-                                                    <Label className="font-mono uppercase text-xs tracking-wide">
-                                                        Delivery &amp; Pickup{" "}
-                                                        {eventDateInputsEnabled
-                                                            ? "(Optional)"
-                                                            : "*"}
-                                                    </Label>
-                                                    {!eventDateInputsEnabled && (
-                                                        <p className="text-xs text-muted-foreground">
-                                                            When do you need the items delivered and
-                                                            picked up?
-                                                        </p>
-                                                    )}
-                                                    <p className="text-xs text-muted-foreground font-mono">
-                                                        Times are in{" "}
-                                                        {feasibilityConfig?.timezone
-                                                            ? feasibilityConfig.timezone.replace(
-                                                                  "_",
-                                                                  " "
-                                                              )
-                                                            : "platform timezone"}
-                                                    </p>
-                                                </div>
-
-                                                <div className="space-y-5">
-                                                    {/* Delivery */}
-                                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                                                        <div className="space-y-2">
-                                                            <Label className="font-mono uppercase text-xs tracking-wide">
-                                                                Delivery Date{" "}
-                                                                {eventDateInputsEnabled ? "" : "*"}
-                                                            </Label>
-                                                            <Input
-                                                                type="date"
-                                                                value={
-                                                                    formData.requested_delivery_date
-                                                                }
-                                                                onChange={(e) =>
-                                                                    setFormData({
-                                                                        ...formData,
-                                                                        requested_delivery_date:
-                                                                            e.target.value,
-                                                                    })
-                                                                }
-                                                                min={calculateMinDate()}
-                                                                required={!eventDateInputsEnabled}
-                                                                className="h-12 font-mono"
-                                                            />
-                                                        </div>
-                                                        <div className="space-y-2">
-                                                            <Label className="font-mono uppercase text-xs tracking-wide">
-                                                                From{" "}
-                                                                {eventDateInputsEnabled ? "" : "*"}
-                                                            </Label>
-                                                            <Input
-                                                                type="time"
-                                                                value={
-                                                                    formData.requested_delivery_time_start
-                                                                }
-                                                                onChange={(e) =>
-                                                                    setFormData({
-                                                                        ...formData,
-                                                                        requested_delivery_time_start:
-                                                                            e.target.value,
-                                                                    })
-                                                                }
-                                                                required={!eventDateInputsEnabled}
-                                                                className="h-12 font-mono"
-                                                            />
-                                                        </div>
-                                                        <div className="space-y-2">
-                                                            <Label className="font-mono uppercase text-xs tracking-wide">
-                                                                To{" "}
-                                                                {eventDateInputsEnabled ? "" : "*"}
-                                                            </Label>
-                                                            <Input
-                                                                type="time"
-                                                                value={
-                                                                    formData.requested_delivery_time_end
-                                                                }
-                                                                onChange={(e) =>
-                                                                    setFormData({
-                                                                        ...formData,
-                                                                        requested_delivery_time_end:
-                                                                            e.target.value,
-                                                                    })
-                                                                }
-                                                                required={!eventDateInputsEnabled}
-                                                                className="h-12 font-mono"
-                                                            />
-                                                        </div>
-                                                    </div>
-
-                                                    {/* Pickup — only shown for temporary orders
-                                                        (needsCollection). Permanent / no-return
-                                                        orders have no pickup. */}
-                                                    {needsCollection && (
-                                                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                                                            <div className="space-y-2">
-                                                                <Label className="font-mono uppercase text-xs tracking-wide">
-                                                                    Pickup Date{" "}
-                                                                    {eventDateInputsEnabled
-                                                                        ? ""
-                                                                        : "*"}
-                                                                </Label>
-                                                                <Input
-                                                                    type="date"
-                                                                    value={
-                                                                        formData.requested_pickup_date
-                                                                    }
-                                                                    onChange={(e) =>
-                                                                        setFormData({
-                                                                            ...formData,
-                                                                            requested_pickup_date:
-                                                                                e.target.value,
-                                                                        })
-                                                                    }
-                                                                    min={
-                                                                        formData.requested_delivery_date ||
-                                                                        calculateMinDate()
-                                                                    }
-                                                                    required={
-                                                                        !eventDateInputsEnabled
-                                                                    }
-                                                                    className="h-12 font-mono"
-                                                                />
-                                                            </div>
-                                                            <div className="space-y-2">
-                                                                <Label className="font-mono uppercase text-xs tracking-wide">
-                                                                    From{" "}
-                                                                    {eventDateInputsEnabled
-                                                                        ? ""
-                                                                        : "*"}
-                                                                </Label>
-                                                                <Input
-                                                                    type="time"
-                                                                    value={
-                                                                        formData.requested_pickup_time_start
-                                                                    }
-                                                                    onChange={(e) =>
-                                                                        setFormData({
-                                                                            ...formData,
-                                                                            requested_pickup_time_start:
-                                                                                e.target.value,
-                                                                        })
-                                                                    }
-                                                                    required={
-                                                                        !eventDateInputsEnabled
-                                                                    }
-                                                                    className="h-12 font-mono"
-                                                                />
-                                                            </div>
-                                                            <div className="space-y-2">
-                                                                <Label className="font-mono uppercase text-xs tracking-wide">
-                                                                    To{" "}
-                                                                    {eventDateInputsEnabled
-                                                                        ? ""
-                                                                        : "*"}
-                                                                </Label>
-                                                                <Input
-                                                                    type="time"
-                                                                    value={
-                                                                        formData.requested_pickup_time_end
-                                                                    }
-                                                                    onChange={(e) =>
-                                                                        setFormData({
-                                                                            ...formData,
-                                                                            requested_pickup_time_end:
-                                                                                e.target.value,
-                                                                        })
-                                                                    }
-                                                                    required={
-                                                                        !eventDateInputsEnabled
-                                                                    }
-                                                                    className="h-12 font-mono"
-                                                                />
-                                                            </div>
-                                                        </div>
-                                                    )}
-                                                </div>
-                                            </div>
-
-                                            {/* Duration is meaningless for a permanent / no-return
-                                            order (event_end is the far-future sentinel, which would
-                                            render ~26,943 days). Only show it when there's a real
-                                            return date. */}
-                                            {needsCollection &&
-                                                effectiveEventStart &&
-                                                effectiveEventEnd && (
-                                                    <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
-                                                        <div className="flex items-center gap-3">
-                                                            <Calendar className="h-5 w-5 text-primary" />
-                                                            <div>
-                                                                <p className="text-sm font-medium">
-                                                                    {eventDateInputsEnabled
-                                                                        ? "Event Duration"
-                                                                        : "Rental Duration"}
-                                                                </p>
-                                                                <p className="text-xs text-muted-foreground font-mono">
-                                                                    {Math.ceil(
-                                                                        (new Date(
-                                                                            effectiveEventEnd
-                                                                        ).getTime() -
-                                                                            new Date(
-                                                                                effectiveEventStart
-                                                                            ).getTime()) /
-                                                                            (1000 * 60 * 60 * 24)
-                                                                    ) + 1}{" "}
-                                                                    days
-                                                                </p>
-                                                            </div>
-                                                        </div>
-                                                    </div>
-                                                )}
-
-                                            {redItems.length > 0 && (
-                                                <div className="space-y-3">
-                                                    <Card className="p-4 border-red-300 bg-red-50/40">
-                                                        <p className="text-sm text-red-800">
-                                                            Your cart includes RED items. These are
-                                                            fix-only items and must pass feasibility
-                                                            before you can continue.
-                                                        </p>
-                                                    </Card>
-                                                    <RedFeasibilityAlert
-                                                        issues={maintenanceFeasibilityIssues}
-                                                        hasChecked={
-                                                            hasCheckedMaintenanceFeasibility
-                                                        }
-                                                        isChecking={
-                                                            maintenanceFeasibilityCheck.isPending
-                                                        }
-                                                    />
-                                                </div>
-                                            )}
-                                        </div>
-                                    </Card>
-                                </motion.div>
-                            )}
-
-                            {/* Step 3: Venue Information */}
-                            {currentStep === "venue" && (
-                                <motion.div
-                                    key="venue"
-                                    initial={{ opacity: 0, x: 20 }}
-                                    animate={{ opacity: 1, x: 0 }}
-                                    exit={{ opacity: 0, x: -20 }}
-                                    transition={{ duration: 0.3 }}
-                                    className="space-y-6"
-                                >
-                                    <div>
-                                        <h2 className="text-3xl font-bold mb-2">
-                                            Installation Information
-                                        </h2>
-                                        <p className="text-muted-foreground">
-                                            Where will the installation take place?
-                                        </p>
-                                    </div>
-
-                                    <Card className="p-8 bg-card/50 border-border/50">
-                                        <div className="space-y-6">
-                                            <div className="space-y-2">
-                                                <Label
-                                                    htmlFor="venueName"
-                                                    className="font-mono uppercase text-xs tracking-wide"
-                                                >
-                                                    Venue Name *
-                                                </Label>
-                                                <Input
-                                                    id="venueName"
-                                                    data-testid="checkout-venue-name"
-                                                    value={formData.venue_name}
-                                                    onChange={(e) =>
-                                                        setFormData({
-                                                            ...formData,
-                                                            venue_name: e.target.value,
-                                                        })
-                                                    }
-                                                    placeholder="e.g., Dubai Festival City"
-                                                    required
-                                                    className="h-12"
-                                                />
-                                            </div>
-
-                                            <div className="grid grid-cols-2 gap-6">
-                                                <div className="space-y-2">
-                                                    <Label
-                                                        htmlFor="venueCountry"
-                                                        className="font-mono uppercase text-xs tracking-wide"
-                                                    >
-                                                        Country
-                                                    </Label>
-                                                    <div className="h-12 px-3 border border-border rounded-md bg-muted/30 flex items-center text-sm font-mono">
-                                                        {formData.venue_country_name ||
-                                                            "Loading..."}
-                                                    </div>
-                                                </div>
-
-                                                <div className="space-y-2">
-                                                    <Label
-                                                        htmlFor="venueCity"
-                                                        className="font-mono uppercase text-xs tracking-wide"
-                                                    >
-                                                        City *
-                                                    </Label>
-                                                    <Select
-                                                        value={formData.venue_city_id}
-                                                        onValueChange={(value) => {
-                                                            const selectedCity = cities.find(
-                                                                (c) => c.id === value
-                                                            );
-                                                            setFormData({
-                                                                ...formData,
-                                                                venue_city_id: value,
-                                                                venue_city_name:
-                                                                    selectedCity?.name || "",
-                                                            });
-                                                        }}
-                                                        disabled={!formData.venue_country_id}
-                                                    >
-                                                        <SelectTrigger
-                                                            className="h-12 font-mono"
-                                                            data-testid="checkout-venue-city"
-                                                        >
-                                                            <SelectValue placeholder="Select city" />
-                                                        </SelectTrigger>
-                                                        <SelectContent>
-                                                            {cities.map((city) => (
-                                                                <SelectItem
-                                                                    key={city.id}
-                                                                    value={city.id}
-                                                                    className="font-mono"
-                                                                >
-                                                                    {city.name}
-                                                                </SelectItem>
-                                                            ))}
-                                                        </SelectContent>
-                                                    </Select>
-                                                </div>
-                                            </div>
-
-                                            <div className="space-y-2">
-                                                <Label
-                                                    htmlFor="venueAddress"
-                                                    className="font-mono uppercase text-xs tracking-wide"
-                                                >
-                                                    Full Address *
-                                                </Label>
-                                                <Textarea
-                                                    id="venueAddress"
-                                                    data-testid="checkout-venue-address"
-                                                    value={formData.venue_address}
-                                                    onChange={(e) =>
-                                                        setFormData({
-                                                            ...formData,
-                                                            venue_address: e.target.value,
-                                                        })
-                                                    }
-                                                    placeholder="Complete venue address"
-                                                    required
-                                                    rows={3}
-                                                    className="font-mono text-sm"
-                                                />
-                                            </div>
-
-                                            {/* Venue Contact — always visible, not gated by permits */}
-                                            <div className="rounded-lg border border-border/60 bg-card/80 p-4 space-y-4">
-                                                <div>
-                                                    <Label className="font-mono uppercase text-xs tracking-wide">
-                                                        Venue Contact
-                                                    </Label>
-                                                    <p className="text-xs text-muted-foreground mt-1">
-                                                        The person at the venue who can coordinate
-                                                        arrival, access, unloading, or handover.
-                                                    </p>
-                                                </div>
-                                                <div className="grid gap-4 md:grid-cols-3">
-                                                    <div className="space-y-1">
-                                                        <Label
-                                                            htmlFor="venueContactName"
-                                                            className="text-xs"
-                                                        >
-                                                            Name
-                                                        </Label>
-                                                        <Input
-                                                            id="venueContactName"
-                                                            value={formData.venue_contact_name}
-                                                            onChange={(e) =>
-                                                                setFormData({
-                                                                    ...formData,
-                                                                    venue_contact_name:
-                                                                        e.target.value,
-                                                                })
-                                                            }
-                                                            placeholder="Contact name"
-                                                        />
-                                                    </div>
-                                                    <div className="space-y-1">
-                                                        <Label
-                                                            htmlFor="venueContactEmail"
-                                                            className="text-xs"
-                                                        >
-                                                            Email
-                                                        </Label>
-                                                        <Input
-                                                            id="venueContactEmail"
-                                                            type="email"
-                                                            value={formData.venue_contact_email}
-                                                            onChange={(e) =>
-                                                                setFormData({
-                                                                    ...formData,
-                                                                    venue_contact_email:
-                                                                        e.target.value,
-                                                                })
-                                                            }
-                                                            placeholder="contact@venue.com"
-                                                        />
-                                                    </div>
-                                                    <div className="space-y-1">
-                                                        <Label
-                                                            htmlFor="venueContactPhone"
-                                                            className="text-xs"
-                                                        >
-                                                            Phone
-                                                        </Label>
-                                                        <Input
-                                                            id="venueContactPhone"
-                                                            value={formData.venue_contact_phone}
-                                                            onChange={(e) =>
-                                                                setFormData({
-                                                                    ...formData,
-                                                                    venue_contact_phone:
-                                                                        e.target.value,
-                                                                })
-                                                            }
-                                                            placeholder="+971..."
-                                                        />
-                                                    </div>
-                                                </div>
-                                            </div>
-
-                                            <PermitSection
-                                                value={{
-                                                    permit_decision: formData.permit_decision,
-                                                    requires_permit: formData.requires_permit,
-                                                    permit_owner: formData.permit_owner,
-                                                    requires_vehicle_docs:
-                                                        formData.requires_vehicle_docs,
-                                                    requires_staff_ids: formData.requires_staff_ids,
-                                                    permit_notes: formData.permit_notes,
-                                                    venue_access_notes: formData.venue_access_notes,
-                                                }}
-                                                onChange={(patch) =>
-                                                    setFormData((prev) => ({ ...prev, ...patch }))
-                                                }
-                                                companyName={platform?.company_name ?? null}
-                                            />
-                                        </div>
-                                    </Card>
-                                </motion.div>
-                            )}
-
-                            {/* Step 4: Contact Information */}
-                            {currentStep === "contact" && (
-                                <motion.div
-                                    key="contact"
-                                    initial={{ opacity: 0, x: 20 }}
-                                    animate={{ opacity: 1, x: 0 }}
-                                    exit={{ opacity: 0, x: -20 }}
-                                    transition={{ duration: 0.3 }}
-                                    className="space-y-6"
-                                >
-                                    <div>
-                                        <h2 className="text-3xl font-bold mb-2">
-                                            Point of Contact
-                                        </h2>
-                                        <p className="text-muted-foreground">
-                                            Provide the on-site contact for this order. Our team
-                                            will reach out to this person for coordination and
-                                            updates.
-                                        </p>
-                                    </div>
-
-                                    <Card className="p-8 bg-card/50 border-border/50">
-                                        <div className="space-y-6">
-                                            <div className="space-y-2">
-                                                <Label
-                                                    htmlFor="contactName"
-                                                    className="font-mono uppercase text-xs tracking-wide"
-                                                >
-                                                    Contact Person Name *
-                                                </Label>
-                                                <Input
-                                                    id="contactName"
-                                                    data-testid="checkout-contact-name"
-                                                    value={formData.contact_name}
-                                                    onChange={(e) =>
-                                                        setFormData({
-                                                            ...formData,
-                                                            contact_name: e.target.value,
-                                                        })
-                                                    }
-                                                    placeholder="e.g., John Smith"
-                                                    required
-                                                    className="h-12"
-                                                />
-                                            </div>
-
-                                            <div className="grid grid-cols-2 gap-6">
-                                                <div className="space-y-2">
-                                                    <Label
-                                                        htmlFor="contactEmail"
-                                                        className="font-mono uppercase text-xs tracking-wide"
-                                                    >
-                                                        Email Address *
-                                                    </Label>
-                                                    <Input
-                                                        id="contactEmail"
-                                                        type="email"
-                                                        data-testid="checkout-contact-email"
-                                                        value={formData.contact_email}
-                                                        onChange={(e) =>
-                                                            setFormData({
-                                                                ...formData,
-                                                                contact_email: e.target.value,
-                                                            })
-                                                        }
-                                                        placeholder="john@company.com"
-                                                        required
-                                                        className={`h-12 ${formData.contact_email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.contact_email) ? "border-destructive" : ""}`}
-                                                    />
-                                                    {formData.contact_email &&
-                                                        !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(
-                                                            formData.contact_email
-                                                        ) && (
-                                                            <p className="text-xs text-destructive">
-                                                                Please enter a valid email address
-                                                            </p>
-                                                        )}
-                                                </div>
-
-                                                <div className="space-y-2">
-                                                    <Label
-                                                        htmlFor="contactPhone"
-                                                        className="font-mono uppercase text-xs tracking-wide"
-                                                    >
-                                                        Phone Number *
-                                                    </Label>
-                                                    <PhoneInput
-                                                        international
-                                                        defaultCountry="AE"
-                                                        data-testid="checkout-contact-phone"
-                                                        value={formData.contact_phone}
-                                                        onChange={(value) =>
-                                                            setFormData({
-                                                                ...formData,
-                                                                contact_phone: value || "",
-                                                            })
-                                                        }
-                                                        className="h-12 rounded-md border border-input bg-background px-3 text-sm [&>input]:border-0 [&>input]:bg-transparent [&>input]:outline-none [&>input]:h-full"
-                                                    />
-                                                    {formData.contact_phone &&
-                                                        !isValidPhoneNumber(
-                                                            formData.contact_phone
-                                                        ) && (
-                                                            <p className="text-xs text-destructive">
-                                                                Please enter a valid phone number
-                                                            </p>
-                                                        )}
-                                                </div>
-                                            </div>
-
-                                            <div className="space-y-2">
-                                                <Label
-                                                    htmlFor="specialInstructions"
-                                                    className="font-mono uppercase text-xs tracking-wide"
-                                                >
-                                                    Special Instructions (Optional)
-                                                </Label>
-                                                <Textarea
-                                                    id="specialInstructions"
-                                                    value={formData.special_instructions}
-                                                    onChange={(e) =>
-                                                        setFormData({
-                                                            ...formData,
-                                                            special_instructions: e.target.value,
-                                                        })
-                                                    }
-                                                    placeholder="Any special handling requirements, setup preferences, or branding requests..."
-                                                    rows={4}
-                                                    className="font-mono text-sm"
-                                                />
-                                                <p className="text-xs text-muted-foreground">
-                                                    Include details about setup, branding, or any
-                                                    special requirements
-                                                </p>
-                                            </div>
-                                        </div>
-                                    </Card>
-                                </motion.div>
-                            )}
-
-                            {/* Step 5: Review & Submit */}
-                            {currentStep === "review" && (
-                                <motion.div
-                                    key="review"
-                                    initial={{ opacity: 0, x: 20 }}
-                                    animate={{ opacity: 1, x: 0 }}
-                                    exit={{ opacity: 0, x: -20 }}
-                                    transition={{ duration: 0.3 }}
-                                    className="space-y-6"
-                                >
-                                    <div>
-                                        <h2 className="text-3xl font-bold mb-2">Review & Submit</h2>
-                                        <p className="text-muted-foreground">
-                                            Double-check all details before submitting your order
-                                        </p>
-                                    </div>
-
-                                    {/* Item 6: per-item hits are embedded
-                                        inline below in the Order Items card.
-                                        Only global hits (without related
-                                        asset) surface at the top here. */}
-                                    {globalHits.length > 0 && (
-                                        <div className="rounded-md border border-amber-500/50 bg-amber-50 px-3 py-2 text-xs text-amber-900">
-                                            {globalHits.map((hit) => (
-                                                <div
-                                                    key={hit.rule_id}
-                                                    className="flex items-start gap-1.5"
-                                                >
-                                                    <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
-                                                    <span>{hit.message}</span>
-                                                </div>
-                                            ))}
-                                        </div>
-                                    )}
-
-                                    {/* Order Summary */}
-                                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                                        {/* Items */}
-                                        <Card className="p-6 bg-card/50 border-border/50">
-                                            <h3 className="text-lg font-semibold mb-4 font-mono uppercase tracking-wide">
-                                                Order Items
-                                            </h3>
-                                            <div className="space-y-3">
-                                                {items.map((item) => {
-                                                    const itemHits =
-                                                        hitsByAsset.get(item.assetId) || [];
-                                                    return (
-                                                        <div key={item.assetId} className="text-sm">
-                                                            <div className="flex items-center gap-3">
-                                                                <div className="w-12 h-12 rounded border border-border overflow-hidden shrink-0">
-                                                                    {item.image ? (
-                                                                        <Image
-                                                                            src={item.image}
-                                                                            alt={item.assetName}
-                                                                            width={48}
-                                                                            height={48}
-                                                                            className="object-cover"
-                                                                        />
-                                                                    ) : (
-                                                                        <div className="w-full h-full bg-muted flex items-center justify-center">
-                                                                            <Package className="h-5 w-5 text-muted-foreground/30" />
-                                                                        </div>
-                                                                    )}
-                                                                </div>
-                                                                <div className="flex-1 min-w-0">
-                                                                    <p className="font-medium truncate">
-                                                                        {item.assetName}
-                                                                    </p>
-                                                                    <p className="text-xs text-muted-foreground font-mono">
-                                                                        Qty: {item.quantity}
-                                                                    </p>
-                                                                    {(item.condition === "ORANGE" ||
-                                                                        item.condition ===
-                                                                            "RED") && (
-                                                                        <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
-                                                                            <span
-                                                                                className={
-                                                                                    item.condition ===
-                                                                                    "RED"
-                                                                                        ? "rounded-full bg-red-100 px-1.5 py-0.5 font-medium text-red-700"
-                                                                                        : "rounded-full bg-amber-100 px-1.5 py-0.5 font-medium text-amber-700"
-                                                                                }
-                                                                            >
-                                                                                {item.condition}
-                                                                            </span>
-                                                                            <span className="text-muted-foreground">
-                                                                                {item.maintenanceDecision ===
-                                                                                "FIX_IN_ORDER"
-                                                                                    ? "Repair before event"
-                                                                                    : item.maintenanceDecision ===
-                                                                                        "USE_AS_IS"
-                                                                                      ? "Accept current condition"
-                                                                                      : "Decision missing"}
-                                                                            </span>
-                                                                            <button
-                                                                                type="button"
-                                                                                className="font-medium text-primary underline-offset-2 hover:underline"
-                                                                                onClick={() =>
-                                                                                    setCurrentStep(
-                                                                                        "cart"
-                                                                                    )
-                                                                                }
-                                                                            >
-                                                                                Edit
-                                                                            </button>
-                                                                        </div>
-                                                                    )}
-                                                                </div>
-                                                            </div>
-                                                            {itemHits.length > 0 && (
-                                                                <div className="mt-1.5 ml-15 space-y-1">
-                                                                    {itemHits.map((hit) => (
-                                                                        <div
-                                                                            key={hit.rule_id}
-                                                                            className="flex items-start gap-1.5 text-xs text-amber-700 bg-amber-50 border border-amber-300/60 rounded px-2 py-1"
-                                                                        >
-                                                                            <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
-                                                                            <span>
-                                                                                {hit.message}
-                                                                            </span>
-                                                                        </div>
-                                                                    ))}
-                                                                </div>
-                                                            )}
-                                                        </div>
-                                                    );
-                                                })}
-                                            </div>
-
-                                            <Separator className="my-4" />
-
-                                            <div className="space-y-2 text-sm font-mono">
-                                                <div className="flex justify-between">
-                                                    <span className="text-muted-foreground">
-                                                        Total Items:
-                                                    </span>
-                                                    <span className="font-bold">{itemCount}</span>
-                                                </div>
-                                                <div className="flex justify-between">
-                                                    <span className="text-muted-foreground">
-                                                        Total Volume:
-                                                    </span>
-                                                    <span className="font-bold text-primary">
-                                                        {totalVolume.toFixed(2)} m³
-                                                    </span>
-                                                </div>
-                                                <div className="flex justify-between">
-                                                    <span className="text-muted-foreground">
-                                                        Total Weight:
-                                                    </span>
-                                                    <span className="font-bold">
-                                                        {totalWeight.toFixed(1)} kg
-                                                    </span>
-                                                </div>
-                                            </div>
-                                        </Card>
-
-                                        {/* Details Summary */}
-                                        <div className="space-y-6">
-                                            {/* Schedule (delivery + pickup always shown; event dates only when flag on) */}
-                                            <Card className="p-6 bg-card/50 border-border/50">
-                                                <h3 className="text-lg font-semibold mb-4 font-mono uppercase tracking-wide">
-                                                    Schedule
-                                                </h3>
-                                                <div className="space-y-3 text-sm">
-                                                    {eventDateInputsEnabled &&
-                                                        formData.event_start_date && (
-                                                            <div>
-                                                                <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                                    Event Start
-                                                                </p>
-                                                                <p className="font-medium">
-                                                                    {new Date(
-                                                                        formData.event_start_date
-                                                                    ).toLocaleDateString("en-US", {
-                                                                        weekday: "long",
-                                                                        year: "numeric",
-                                                                        month: "long",
-                                                                        day: "numeric",
-                                                                    })}
-                                                                </p>
-                                                            </div>
-                                                        )}
-                                                    {eventDateInputsEnabled &&
-                                                        formData.event_end_date && (
-                                                            <div>
-                                                                <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                                    Event End
-                                                                </p>
-                                                                <p className="font-medium">
-                                                                    {new Date(
-                                                                        formData.event_end_date
-                                                                    ).toLocaleDateString("en-US", {
-                                                                        weekday: "long",
-                                                                        year: "numeric",
-                                                                        month: "long",
-                                                                        day: "numeric",
-                                                                    })}
-                                                                </p>
-                                                            </div>
-                                                        )}
-                                                    {formData.requested_delivery_date && (
-                                                        <div>
-                                                            <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                                Delivery
-                                                            </p>
-                                                            <p className="font-medium">
-                                                                {new Date(
-                                                                    formData.requested_delivery_date
-                                                                ).toLocaleDateString("en-US", {
-                                                                    weekday: "long",
-                                                                    year: "numeric",
-                                                                    month: "long",
-                                                                    day: "numeric",
-                                                                })}
-                                                                {formData.requested_delivery_time_start &&
-                                                                formData.requested_delivery_time_end ? (
-                                                                    <span className="text-muted-foreground font-mono">
-                                                                        {" "}
-                                                                        ·{" "}
-                                                                        {
-                                                                            formData.requested_delivery_time_start
-                                                                        }
-                                                                        –
-                                                                        {
-                                                                            formData.requested_delivery_time_end
-                                                                        }
-                                                                    </span>
-                                                                ) : null}
-                                                            </p>
-                                                        </div>
-                                                    )}
-                                                    {formData.requested_pickup_date && (
-                                                        <div>
-                                                            <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                                Pickup
-                                                            </p>
-                                                            <p className="font-medium">
-                                                                {new Date(
-                                                                    formData.requested_pickup_date
-                                                                ).toLocaleDateString("en-US", {
-                                                                    weekday: "long",
-                                                                    year: "numeric",
-                                                                    month: "long",
-                                                                    day: "numeric",
-                                                                })}
-                                                                {formData.requested_pickup_time_start &&
-                                                                formData.requested_pickup_time_end ? (
-                                                                    <span className="text-muted-foreground font-mono">
-                                                                        {" "}
-                                                                        ·{" "}
-                                                                        {
-                                                                            formData.requested_pickup_time_start
-                                                                        }
-                                                                        –
-                                                                        {
-                                                                            formData.requested_pickup_time_end
-                                                                        }
-                                                                    </span>
-                                                                ) : null}
-                                                            </p>
-                                                        </div>
-                                                    )}
-                                                </div>
-                                            </Card>
-
-                                            {/* Venue Info */}
-                                            <Card className="p-6 bg-card/50 border-border/50">
-                                                <h3 className="text-lg font-semibold mb-4 font-mono uppercase tracking-wide">
-                                                    Venue
-                                                </h3>
-                                                <div className="space-y-3 text-sm">
-                                                    <div>
-                                                        <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                            Venue Name
-                                                        </p>
-                                                        <p className="font-medium">
-                                                            {formData.venue_name}
-                                                        </p>
-                                                    </div>
-                                                    <div>
-                                                        <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                            Location
-                                                        </p>
-                                                        <p className="font-medium">
-                                                            {formData.venue_city_name},{" "}
-                                                            {formData.venue_country_name}
-                                                        </p>
-                                                    </div>
-                                                    <div>
-                                                        <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                            Address
-                                                        </p>
-                                                        <p className="font-medium leading-relaxed">
-                                                            {formData.venue_address}
-                                                        </p>
-                                                    </div>
-                                                    {formData.venue_access_notes && (
-                                                        <div>
-                                                            <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                                Access Notes
-                                                            </p>
-                                                            <p className="font-medium leading-relaxed">
-                                                                {formData.venue_access_notes}
-                                                            </p>
-                                                        </div>
-                                                    )}
-                                                    {/* Re-show the contextual permit warning on the
-                                                        Review step so clients re-confirm the
-                                                        decision at the commitment moment. */}
-                                                    {formData.permit_decision !== null && (
-                                                        <PermitWarningAlert
-                                                            choice={derivePermitChoice(
-                                                                formData.requires_permit,
-                                                                formData.permit_owner
-                                                            )}
-                                                            companyName={
-                                                                platform?.company_name ?? null
-                                                            }
-                                                        />
-                                                    )}
-                                                    {formData.requires_permit && (
-                                                        <div className="rounded-md border border-border/60 bg-muted/20 p-3 space-y-2">
-                                                            <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide">
-                                                                Permit / Access Coordination
-                                                            </p>
-                                                            <p className="font-medium">
-                                                                {formData.permit_owner ===
-                                                                    "CLIENT" &&
-                                                                    `${platform?.company_name || "We"} will arrange permits`}
-                                                                {formData.permit_owner ===
-                                                                    "PLATFORM" &&
-                                                                    "Ops will arrange permits"}
-                                                                {formData.permit_owner ===
-                                                                    "UNKNOWN" &&
-                                                                    "Permit ownership still to be confirmed"}
-                                                            </p>
-                                                            <div className="flex flex-wrap gap-2 text-xs font-mono">
-                                                                {formData.requires_vehicle_docs && (
-                                                                    <span className="rounded-full border px-2 py-1">
-                                                                        Vehicle docs required
-                                                                    </span>
-                                                                )}
-                                                                {formData.requires_staff_ids && (
-                                                                    <span className="rounded-full border px-2 py-1">
-                                                                        Staff IDs required
-                                                                    </span>
-                                                                )}
-                                                            </div>
-                                                            {formData.permit_notes && (
-                                                                <p className="text-sm leading-relaxed">
-                                                                    {formData.permit_notes}
-                                                                </p>
-                                                            )}
-                                                        </div>
-                                                    )}
-                                                </div>
-                                            </Card>
-
-                                            {/* Contact Info */}
-                                            <Card className="p-6 bg-card/50 border-border/50">
-                                                <h3 className="text-lg font-semibold mb-4 font-mono uppercase tracking-wide">
-                                                    Contact
-                                                </h3>
-                                                <div className="space-y-3 text-sm">
-                                                    <div>
-                                                        <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                            Name
-                                                        </p>
-                                                        <p className="font-medium">
-                                                            {formData.contact_name}
-                                                        </p>
-                                                    </div>
-                                                    <div>
-                                                        <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                            Email
-                                                        </p>
-                                                        <p className="font-medium">
-                                                            {formData.contact_email}
-                                                        </p>
-                                                    </div>
-                                                    <div>
-                                                        <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                            Phone
-                                                        </p>
-                                                        <p className="font-medium">
-                                                            {formData.contact_phone}
-                                                        </p>
-                                                    </div>
-                                                    {formData.special_instructions && (
-                                                        <div>
-                                                            <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
-                                                                Special Instructions
-                                                            </p>
-                                                            <p className="font-medium leading-relaxed">
-                                                                {formData.special_instructions}
-                                                            </p>
-                                                        </div>
-                                                    )}
-                                                </div>
-                                            </Card>
-                                        </div>
-                                    </div>
-
-                                    {/* Availability Issues Banner */}
-                                    {availabilityIssues.length > 0 && (
-                                        <Card className="border-destructive/50 bg-destructive/5 p-6">
-                                            <div className="flex items-start gap-3">
-                                                <AlertCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
-                                                <div className="flex-1">
-                                                    <p className="text-sm font-semibold text-destructive mb-2">
-                                                        Availability Issues
-                                                    </p>
-                                                    <ul className="text-sm text-muted-foreground space-y-1 mb-4">
-                                                        {availabilityIssues.map((issue, i) => (
-                                                            <li
-                                                                key={i}
-                                                                className="flex items-start gap-2"
-                                                            >
-                                                                <span className="text-destructive">
-                                                                    •
-                                                                </span>
-                                                                <span>{issue}</span>
-                                                            </li>
-                                                        ))}
-                                                    </ul>
-                                                    <Button
-                                                        variant="outline"
-                                                        size="sm"
-                                                        onClick={() => router.push("/catalog")}
-                                                    >
-                                                        Return to Catalog
-                                                    </Button>
-                                                </div>
-                                            </div>
-                                        </Card>
-                                    )}
-
-                                    {/* NEW: Hybrid Pricing Estimate */}
-                                    {isEstimateFeatureEnabled &&
-                                        availabilityIssues.length === 0 &&
-                                        estimateData?.data?.estimate?.transport && (
-                                            <OrderEstimate
-                                                estimate={estimateData.data.estimate}
-                                                hasRebrandItems={false}
-                                            />
-                                        )}
-
-                                    {/* Loading Estimate */}
-                                    {isEstimateFeatureEnabled &&
-                                        availabilityIssues.length === 0 &&
-                                        isEstimateLoading &&
-                                        formData.venue_city_id && (
-                                            <Card className="p-6 bg-muted/30 border-border">
-                                                <div className="flex items-center gap-3">
-                                                    <div className="h-4 w-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
-                                                    <p className="text-sm text-muted-foreground">
-                                                        Calculating estimate...
-                                                    </p>
-                                                </div>
-                                            </Card>
-                                        )}
-
-                                    {/* Estimate Error */}
-                                    {isEstimateFeatureEnabled &&
-                                        availabilityIssues.length === 0 &&
-                                        isEstimateError &&
-                                        formData.venue_city_id && (
-                                            <Card className="p-6 bg-muted/30 border-border">
-                                                <div className="flex items-start gap-3">
-                                                    <AlertCircle className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
-                                                    <div className="flex-1">
-                                                        <p className="text-sm font-medium mb-1">
-                                                            Unable to Calculate Estimate for{" "}
-                                                            <b>{formData.venue_city_name}</b>, You
-                                                            will receive a custom quote via email
-                                                            within 24-48 hours after submitting your
-                                                            order.
-                                                        </p>
-                                                    </div>
-                                                </div>
-                                            </Card>
-                                        )}
-
-                                    {/* Pre-submit readiness checks. Placed at the bottom of
-                                the review step so the user sees them immediately above the
-                                Submit button. FeasibilityHelper re-fires when ORANGE FIX
-                                decisions push the earliest date past the chosen event date;
-                                AvailabilityHelper reflects live booking overlap for the
-                                chosen window. Both block the Submit button when they fail. */}
-                                    <FeasibilityHelper
-                                        helperEnabled={feasibilityHelperEnabled}
-                                        isLoading={feasibilityPreview.isLoading}
-                                        floorDate={feasibility.floorDate}
-                                        floorDatetime={feasibility.floorDatetime}
-                                        userEventDate={
-                                            eventDateInputsEnabled
-                                                ? formData.event_start_date
-                                                : formData.requested_delivery_date
-                                        }
-                                        userDateFeasible={feasibility.userDateFeasible}
-                                        blockingItems={feasibility.blockingItems}
-                                        config={feasibilityPreview.data?.config ?? null}
-                                        onUseFloorDate={() => {
-                                            if (!feasibility.floorDate) return;
-                                            const rounded = roundedFloorTimeInZone(
-                                                feasibility.floorDatetime,
-                                                feasibilityConfig?.timezone
-                                            );
-                                            const targetDate = rounded
-                                                ? shiftDateStr(
-                                                      feasibility.floorDate,
-                                                      rounded.dayOffset
-                                                  )
-                                                : feasibility.floorDate;
-                                            const floorTime = rounded?.time ?? null;
-                                            if (eventDateInputsEnabled) {
-                                                setFormData({
-                                                    ...formData,
-                                                    event_start_date: targetDate,
-                                                    event_end_date:
-                                                        formData.event_end_date &&
-                                                        formData.event_end_date >= targetDate
-                                                            ? formData.event_end_date
-                                                            : targetDate,
-                                                    ...(floorTime
-                                                        ? {
-                                                              requested_delivery_time_start:
-                                                                  floorTime,
-                                                          }
-                                                        : {}),
-                                                });
-                                            } else {
-                                                setFormData({
-                                                    ...formData,
-                                                    requested_delivery_date: targetDate,
-                                                    requested_pickup_date:
-                                                        formData.requested_pickup_date &&
-                                                        formData.requested_pickup_date >= targetDate
-                                                            ? formData.requested_pickup_date
-                                                            : targetDate,
-                                                    ...(floorTime
-                                                        ? {
-                                                              requested_delivery_time_start:
-                                                                  floorTime,
-                                                          }
-                                                        : {}),
-                                                });
-                                            }
-                                        }}
-                                    />
-
-                                    <AvailabilityHelper
-                                        isLoading={availabilityPreview.isLoading}
-                                        blockingItems={availability.blockingItems}
-                                    />
-                                </motion.div>
-                            )}
-                        </AnimatePresence>
+                        <CheckoutStepProvider value={stepContext}>
+                            <AnimatePresence mode="wait">
+                                {StepView && (
+                                    <motion.div
+                                        key={currentStep}
+                                        initial={{ opacity: 0, x: 20 }}
+                                        animate={{ opacity: 1, x: 0 }}
+                                        exit={{ opacity: 0, x: -20 }}
+                                        transition={{ duration: 0.3 }}
+                                        className="space-y-6"
+                                    >
+                                        <StepView />
+                                    </motion.div>
+                                )}
+                            </AnimatePresence>
+                        </CheckoutStepProvider>
 
                         {/* Navigation Buttons */}
                         <div className="flex items-center justify-between gap-4 mt-10">
@@ -3126,14 +1318,18 @@ function CheckoutPageInner() {
                                     size="lg"
                                     data-testid="checkout-submit"
                                 >
-                                    {isSubmitting ? "Submitting..." : "Submit Order"}
+                                    {submitAttempt.pending.length > 0
+                                        ? "Retrying..."
+                                        : isSubmitting
+                                          ? "Submitting..."
+                                          : "Submit Order"}
                                     <Check className="h-4 w-4" />
                                 </Button>
                             ) : (
                                 <Button
                                     onClick={handleNext}
                                     disabled={
-                                        !canProceed() || maintenanceFeasibilityCheck.isPending
+                                        !stepValidation.ok || maintenanceFeasibilityCheck.isPending
                                     }
                                     className="gap-2 font-mono"
                                     size="lg"
@@ -3148,6 +1344,77 @@ function CheckoutPageInner() {
                 </>
             )}
 
+            {/* Another device's draft differs from this one — let the user
+                pick which to continue. */}
+            <AlertDialog
+                open={draftConflict !== null}
+                onOpenChange={(open) => {
+                    if (!open) setDraftConflict(null);
+                }}
+            >
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Continue from another device?</AlertDialogTitle>
+                        <AlertDialogDescription asChild>
+                            <div className="space-y-3 text-sm">
+                                <p>
+                                    This checkout was also started on another device, with different
+                                    details. Which one do you want to continue?
+                                </p>
+                                <div className="grid grid-cols-2 gap-3 text-foreground">
+                                    {[
+                                        { title: "This device", checkpoint: draftConflict?.local },
+                                        {
+                                            title: "Other device",
+                                            checkpoint: draftConflict?.remote,
+                                        },
+                                    ].map(({ title, checkpoint }) => (
+                                        <div
+                                            key={title}
+                                            className="rounded-md border border-border p-3 space-y-1"
+                                        >
+                                            <p className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+                                                {title}
+                                            </p>
+                                            <p className="font-medium">
+                                                {STEPS.find((s) => s.key === checkpoint?.step)
+                                                    ?.label ?? "Start"}
+                                            </p>
+                                            {typeof checkpoint?.form?.venue_name === "string" &&
+                                                checkpoint.form.venue_name && (
+                                                    <p className="text-xs text-muted-foreground truncate">
+                                                        {checkpoint.form.venue_name}
+                                                    </p>
+                                                )}
+                                            {checkpoint?.savedAt && (
+                                                <p className="text-xs text-muted-foreground">
+                                                    {formatDistanceToNow(checkpoint.savedAt, {
+                                                        addSuffix: true,
+                                                    })}
+                                                </p>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel onClick={() => setDraftConflict(null)}>
+                            Keep this device&apos;s
+                        </AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={() => {
+                                applyCheckpoint(draftConflict?.remote ?? null);
+                                setDraftConflict(null);
+                            }}
+                        >
+                            Use the other device&apos;s
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+
             {/* Item 6: commerce rules confirm dialog. Surfaces WARN hits
                 from /commerce-rules/evaluate before final submit. */}
             <AlertDialog
@@ -3194,6 +1461,18 @@ function CheckoutPageInner() {
                                                     <p className="text-muted-foreground">
                                                         {hit.message}
                                                     </p>
+                                                    {hit.severity === "BLOCK" && item && (
+                                                        <button
+                                                            type="button"
+                                                            className="mt-1 inline-flex items-center gap-1 text-xs font-medium text-red-700 hover:underline"
+                                                            onClick={() =>
+                                                                focusCartLine(item.assetId)
+                                                            }
+                                                        >
+                                                            Fix this line
+                                                            <ArrowRight className="h-3 w-3" />
+                                                        </button>
+                                                    )}
                                                 </div>
                                             </li>
                                         );
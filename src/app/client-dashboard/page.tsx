@@ -26,6 +26,7 @@ import Link from "next/link";
 import { ClientNav } from "@/components/client-nav";
 import { ClientHeader } from "@/components/client-header";
 import { usePlatform } from "@/contexts/platform-context";
+import { ContinueCheckoutCard } from "@/components/checkout/ContinueCheckoutCard";
 
 // Order status display configuration
 const ORDER_STATUS_CONFIG = {
@@ -145,6 +146,8 @@ export default function ClientDashboardPage() {
                         </Card>
                     </a>
 
+                    <ContinueCheckoutCard />
+
                     {/* Summary Statistics */}
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
                         {summaryLoading ? (
@@ -1,10 +1,10 @@
 "use client";
 
-import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { ShoppingCart, ChevronLeft, ChevronRight, X } from "lucide-react";
 import { ClientNav } from "@/components/client-nav";
 import { ClientHeader } from "@/components/client-header";
+import { SavedViewTabs } from "@/components/shared/saved-view-tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -27,10 +27,14 @@ import {
 } from "@/components/ui/table";
 import { CompanyGate } from "../company-gate";
 import { useCompanyOrders } from "@/hooks/use-company";
+import { useDebouncedFilterInput, useUrlListFilters } from "@/hooks/use-list-views";
+import { FINANCIAL_STATUS_FILTERS, getFinancialStatusText } from "@/lib/order-helpers";
 import { ORDER_STATUS_CONFIG, statusBadge } from "@/lib/order-status";
 
 const ORDER_STATUSES = Object.keys(ORDER_STATUS_CONFIG);
 
+const FILTER_KEYS = ["status", "financial_status", "search", "page"];
+
 const fmtDate = (v?: string | null) =>
     v
         ? new Date(v).toLocaleDateString(undefined, {
@@ -42,27 +46,29 @@ const fmtDate = (v?: string | null) =>
 
 export default function CompanyOrdersPage() {
     const router = useRouter();
-    const [page, setPage] = useState(1);
-    const [search, setSearch] = useState("");
-    const [status, setStatus] = useState("");
+    const { filters, setFilters, replaceFilters } = useUrlListFilters(FILTER_KEYS);
+    const [search, setSearch] = useDebouncedFilterInput(filters.search ?? "", (value) =>
+        setFilters({ search: value })
+    );
+    const page = Math.max(1, Number(filters.page) || 1);
+    const setPage = (next: number) => setFilters({ page: next > 1 ? String(next) : "" });
 
     const { data, isLoading } = useCompanyOrders({
         page,
         limit: 20,
-        order_status: status || undefined,
-        search_term: search || undefined,
+        order_status: filters.status || undefined,
+        financial_status: filters.financial_status || undefined,
+        search_term: filters.search || undefined,
     });
 
     const orders: any[] = data?.data?.data || [];
     const total: number = data?.data?.meta?.total || 0;
     const totalPages = Math.max(1, Math.ceil(total / 20));
-    const activeFilters = (status ? 1 : 0) + (search ? 1 : 0);
+    const activeFilters = ["status", "financial_status", "search"].filter(
+        (key) => filters[key]
+    ).length;
 
-    const clearFilters = () => {
-        setStatus("");
-        setSearch("");
-        setPage(1);
-    };
+    const clearFilters = () => replaceFilters({});
 
     return (
         <CompanyGate requiredPermission="company:view_all_orders">
@@ -75,6 +81,13 @@ export default function CompanyOrdersPage() {
                 />
                 <div className="min-h-screen bg-linear-to-br from-background via-muted/30 to-background">
                     <div className="container mx-auto px-6 py-8">
+                        <SavedViewTabs
+                            scope="company-orders"
+                            filters={filters}
+                            onApply={replaceFilters}
+                            className="mb-4"
+                        />
+
                         {/* Filters */}
                         <Card className="bg-card/80 backdrop-blur-sm border-border/40 mb-6">
                             <CardContent className="pt-6">
@@ -82,18 +95,14 @@ export default function CompanyOrdersPage() {
                                     <Input
                                         placeholder="Search by order ID, contact or asset..."
                                         value={search}
-                                        onChange={(e) => {
-                                            setSearch(e.target.value);
-                                            setPage(1);
-                                        }}
+                                        onChange={(e) => setSearch(e.target.value)}
                                         className="flex-1"
                                     />
                                     <Select
-                                        value={status || "all"}
-                                        onValueChange={(v) => {
-                                            setStatus(v === "all" ? "" : v);
-                                            setPage(1);
-                                        }}
+                                        value={filters.status || "all"}
+                                        onValueChange={(v) =>
+                                            setFilters({ status: v === "all" ? "" : v })
+                                        }
                                     >
                                         <SelectTrigger className="w-full md:w-[200px]">
                                             <SelectValue placeholder="All Statuses" />
@@ -107,6 +116,24 @@ export default function CompanyOrdersPage() {
                                             ))}
                                         </SelectContent>
                                     </Select>
+                                    <Select
+                                        value={filters.financial_status || "all"}
+                                        onValueChange={(v) =>
+                                            setFilters({ financial_status: v === "all" ? "" : v })
+                                        }
+                                    >
+                                        <SelectTrigger className="w-full md:w-[200px]">
+                                            <SelectValue placeholder="Any Quote Status" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="all">Any Quote Status</SelectItem>
+                                            {FINANCIAL_STATUS_FILTERS.map((s) => (
+                                                <SelectItem key={s} value={s}>
+                                                    {getFinancialStatusText(s)}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
                                     {activeFilters > 0 && (
                                         <Button
                                             onClick={clearFilters}
@@ -202,7 +229,7 @@ export default function CompanyOrdersPage() {
                                     variant="outline"
                                     size="sm"
                                     disabled={page <= 1}
-                                    onClick={() => setPage((p) => Math.max(1, p - 1))}
+                                    onClick={() => setPage(Math.max(1, page - 1))}
                                 >
                                     <ChevronLeft className="h-4 w-4" />
                                 </Button>
@@ -213,7 +240,7 @@ export default function CompanyOrdersPage() {
                                     variant="outline"
                                     size="sm"
                                     disabled={page >= totalPages}
-                                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                                    onClick={() => setPage(Math.min(totalPages, page + 1))}
                                 >
                                     <ChevronRight className="h-4 w-4" />
                                 </Button>
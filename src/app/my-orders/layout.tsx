@@ -0,0 +1,12 @@
+/**
+ * My Orders Layout
+ *
+ * Force dynamic rendering — the list reads its filters from useSearchParams
+ */
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default function MyOrdersLayout({ children }: { children: React.ReactNode }) {
+    return children;
+}
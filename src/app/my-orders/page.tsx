@@ -2,10 +2,11 @@
 
 /**
  * Phase 13: Client Orders List Page
- * Professional order list interface with filtering and search
+ * Professional order list interface with filtering and search. Filters live
+ * in the URL so they survive a refresh and can be saved as views.
  */
 
-import { useState, useMemo } from "react";
+import { useMemo } from "react";
 import Link from "next/link";
 import { useClientOrders } from "@/hooks/use-client-orders";
 import { Button } from "@/components/ui/button";
@@ -33,6 +34,11 @@ import {
 } from "lucide-react";
 import { ClientNav } from "@/components/client-nav";
 import { ClientHeader } from "@/components/client-header";
+import { ReorderDialog } from "@/components/orders/ReorderDialog";
+import { SavedViewTabs } from "@/components/shared/saved-view-tabs";
+import { useDebouncedFilterInput, useUrlListFilters } from "@/hooks/use-list-views";
+import { DATE_RANGE_PRESETS, resolveDateRange } from "@/lib/list-views";
+import { FINANCIAL_STATUS_FILTERS, getFinancialStatusText } from "@/lib/order-helpers";
 
 // Order status display configuration
 const ORDER_STATUS_CONFIG = {
@@ -65,34 +71,66 @@ const ORDER_STATUS_CONFIG = {
     CLOSED: { label: "Closed", color: "bg-muted text-foreground border-border" },
 };
 
+const SORT_OPTIONS = {
+    newest: { label: "Newest first", sortBy: "created_at", sortOrder: "desc" },
+    event_soonest: { label: "Event date (soonest)", sortBy: "event_start_date", sortOrder: "asc" },
+    event_latest: { label: "Event date (latest)", sortBy: "event_start_date", sortOrder: "desc" },
+} as const;
+
+const FILTER_KEYS = ["status", "financial_status", "search", "range", "from", "to", "sort", "page"];
+
 export default function MyOrdersPage() {
-    // Filters state
-    const [page, setPage] = useState(1);
-    const [limit] = useState(10);
-    const [status, setStatus] = useState<string>("");
-    const [search, setSearch] = useState<string>("");
+    const { filters, setFilters, replaceFilters } = useUrlListFilters(FILTER_KEYS);
+    const [search, setSearch] = useDebouncedFilterInput(filters.search ?? "", (value) =>
+        setFilters({ search: value })
+    );
+    const page = Math.max(1, Number(filters.page) || 1);
+    const limit = 10;
+    const setPage = (next: number) => setFilters({ page: next > 1 ? String(next) : "" });
+    const sort = SORT_OPTIONS[filters.sort as keyof typeof SORT_OPTIONS];
+    // A preset wins over fixed dates; the inputs show whichever applies.
+    const dateRange = resolveDateRange(filters);
+    const rangeChoice = filters.range || (filters.from || filters.to ? "custom" : "any");
+    const setRangeChoice = (choice: string) =>
+        choice === "custom"
+            ? setFilters({ range: "", from: dateRange.from ?? "", to: dateRange.to ?? "" })
+            : setFilters({ range: choice === "any" ? "" : choice, from: "", to: "" });
+    // Editing a date turns a preset into the fixed dates it stood for.
+    const setDate = (key: "from" | "to", value: string) =>
+        setFilters({
+            range: "",
+            from: dateRange.from ?? "",
+            to: dateRange.to ?? "",
+            [key]: value,
+        });
 
-    const queryParams = useMemo(() => {
-        const params: Record<string, string> = {
-            limit: "100",
-            offset: "0",
-        };
-        if (search) params.search = search;
-        if (status) params.status = status;
-        return params;
-    }, [search, status]);
+    const queryParams = useMemo(
+        () => ({
+            limit: 100,
+            ...(filters.search ? { search: filters.search } : {}),
+            ...(filters.status ? { status: filters.status } : {}),
+            ...(filters.financial_status ? { financialStatus: filters.financial_status } : {}),
+            ...(dateRange.from ? { dateFrom: dateRange.from } : {}),
+            ...(dateRange.to ? { dateTo: dateRange.to } : {}),
+            ...(sort ? { sortBy: sort.sortBy, sortOrder: sort.sortOrder } : {}),
+        }),
+        [filters, sort, dateRange.from, dateRange.to]
+    );
 
     // Data fetching
     const { data, isLoading, error } = useClientOrders(queryParams);
 
     // Clear filters
-    const clearFilters = () => {
-        setStatus("");
-        setSearch("");
-        setPage(1);
-    };
+    const clearFilters = () => replaceFilters({});
 
-    const activeFiltersCount = (status ? 1 : 0) + (search ? 1 : 0);
+    const activeFiltersCount = [
+        "status",
+        "financial_status",
+        "search",
+        "range",
+        "from",
+        "to",
+    ].filter((key) => filters[key]).length;
 
     return (
         <ClientNav>
@@ -112,6 +150,13 @@ export default function MyOrdersPage() {
 
             <div className="min-h-screen bg-linear-gradient-to-br from-background via-muted/30 to-background">
                 <div className="container mx-auto px-6 py-8">
+                    <SavedViewTabs
+                        scope="my-orders"
+                        filters={filters}
+                        onApply={replaceFilters}
+                        className="mb-4"
+                    />
+
                     {/* Filters Bar */}
                     <Card className="bg-card/80 backdrop-blur-sm border-border/40 mb-6">
                         <CardContent className="pt-6">
@@ -128,11 +173,10 @@ export default function MyOrdersPage() {
 
                                 {/* Status Filter */}
                                 <Select
-                                    value={status}
-                                    onValueChange={(val) => {
-                                        setStatus(val === "all" ? "" : val);
-                                        setPage(1);
-                                    }}
+                                    value={filters.status ?? ""}
+                                    onValueChange={(val) =>
+                                        setFilters({ status: val === "all" ? "" : val })
+                                    }
                                 >
                                     <SelectTrigger className="w-full md:w-[200px]">
                                         <SelectValue placeholder="All Statuses" />
@@ -149,6 +193,26 @@ export default function MyOrdersPage() {
                                     </SelectContent>
                                 </Select>
 
+                                {/* Quote / Invoice Filter */}
+                                <Select
+                                    value={filters.financial_status ?? ""}
+                                    onValueChange={(val) =>
+                                        setFilters({ financial_status: val === "all" ? "" : val })
+                                    }
+                                >
+                                    <SelectTrigger className="w-full md:w-[200px]">
+                                        <SelectValue placeholder="Any Quote Status" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="all">Any Quote Status</SelectItem>
+                                        {FINANCIAL_STATUS_FILTERS.map((key) => (
+                                            <SelectItem key={key} value={key}>
+                                                {getFinancialStatusText(key)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+
                                 {/* Clear Filters */}
                                 {activeFiltersCount > 0 && (
                                     <Button
@@ -161,6 +225,60 @@ export default function MyOrdersPage() {
                                     </Button>
                                 )}
                             </div>
+
+                            {/* Event Dates and Sort */}
+                            <div className="mt-4 flex flex-col gap-4 md:flex-row md:items-center">
+                                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                    <span className="shrink-0">Event</span>
+                                    <Select value={rangeChoice} onValueChange={setRangeChoice}>
+                                        <SelectTrigger className="w-36" aria-label="Event dates">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="any">Any time</SelectItem>
+                                            {DATE_RANGE_PRESETS.map((preset) => (
+                                                <SelectItem key={preset.value} value={preset.value}>
+                                                    {preset.label}
+                                                </SelectItem>
+                                            ))}
+                                            <SelectItem value="custom">Between</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                    <Input
+                                        type="date"
+                                        value={dateRange.from ?? ""}
+                                        onChange={(e) => setDate("from", e.target.value)}
+                                        className="w-40 font-mono"
+                                        aria-label="Event from"
+                                    />
+                                    <span>and</span>
+                                    <Input
+                                        type="date"
+                                        value={dateRange.to ?? ""}
+                                        min={dateRange.from}
+                                        onChange={(e) => setDate("to", e.target.value)}
+                                        className="w-40 font-mono"
+                                        aria-label="Event to"
+                                    />
+                                </div>
+                                <Select
+                                    value={sort ? filters.sort : "newest"}
+                                    onValueChange={(val) =>
+                                        setFilters({ sort: val === "newest" ? "" : val })
+                                    }
+                                >
+                                    <SelectTrigger className="w-full md:ml-auto md:w-[200px]">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(SORT_OPTIONS).map(([key, option]) => (
+                                            <SelectItem key={key} value={key}>
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
                         </CardContent>
                     </Card>
 
@@ -266,13 +384,19 @@ export default function MyOrdersPage() {
                                                                 order.order_status
                                                             ]?.label || order.order_status}
                                                         </Badge>
-                                                        <Button
-                                                            variant="ghost"
-                                                            size="sm"
-                                                            className="opacity-0 group-hover:opacity-100 transition-opacity"
-                                                        >
-                                                            View Details →
-                                                        </Button>
+                                                        <div className="flex items-center gap-2">
+                                                            <ReorderDialog
+                                                                kind="order"
+                                                                id={order.order_id}
+                                                            />
+                                                            <Button
+                                                                variant="ghost"
+                                                                size="sm"
+                                                                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                                                            >
+                                                                View Details →
+                                                            </Button>
+                                                        </div>
                                                     </div>
                                                 </div>
                                             </CardContent>
@@ -293,9 +417,7 @@ export default function MyOrdersPage() {
                                             </p>
                                             <div className="flex gap-2">
                                                 <Button
-                                                    onClick={() =>
-                                                        setPage((p) => Math.max(1, p - 1))
-                                                    }
+                                                    onClick={() => setPage(Math.max(1, page - 1))}
                                                     disabled={page === 1}
                                                     variant="outline"
                                                     size="sm"
@@ -306,9 +428,7 @@ export default function MyOrdersPage() {
                                                 </Button>
                                                 <Button
                                                     onClick={() =>
-                                                        setPage((p) =>
-                                                            Math.min(data.meta.page, p + 1)
-                                                        )
+                                                        setPage(Math.min(data.meta.page, page + 1))
                                                     }
                                                     disabled={page === data.meta.page}
                                                     variant="outline"
@@ -43,10 +43,15 @@ import { OrderStatusBanner } from "@/components/orders/OrderStatusBanner";
 import { QuoteReviewSection } from "@/components/orders/QuoteReviewSection";
 import { PricingBreakdown } from "@/components/orders/PricingBreakdown";
 import { OrderItemsList } from "@/components/orders/OrderItemsList";
+import { ReorderDialog } from "@/components/orders/ReorderDialog";
+import { ConvertToSelfPickupDialog } from "@/components/orders/ConvertToSelfPickupDialog";
+import { RequestCancellationDialog } from "@/components/orders/RequestCancellationDialog";
+import { FulfilmentLinkNotice } from "@/components/orders/FulfilmentLinkNotice";
 import { ScanActivityTimeline } from "@/components/scanning/scan-activity-timeline";
+import { RevisionHistoryCard } from "@/components/orders/RevisionHistoryCard";
 import { EntityAttachmentsCard } from "@/components/shared/entity-attachments-card";
 import { ClientWorkflowRequestsCard } from "@/components/workflows/workflow-requests-card";
-import { canEditOrderDetails } from "@/lib/order-helpers";
+import { canEditOrderDetails, canRequestOrderCancellation } from "@/lib/order-helpers";
 import { useChangePulse } from "@/hooks/use-change-pulse";
 import { useUpdateOrderDetails } from "@/hooks/use-order-editing";
 import { useEditableEntity } from "@/hooks/use-editable-entity";
@@ -74,6 +79,7 @@ import { OrderEventDatesSection } from "@/components/orders/editing/OrderEventDa
 import { OrderItemsEditableCard } from "@/components/orders/editing/OrderItemsEditableCard";
 import { permitSectionValue, applyPermitPatch } from "@/components/orders/editing/permit-bridge";
 import { PermitSection } from "@/components/permits/PermitSection";
+import { SaveOrderVenueButton } from "@/components/venues/SaveOrderVenueButton";
 
 const costEstimatedStatus = [
     "QUOTED",
@@ -339,6 +345,19 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
         isPreConfirmed &&
         canEditDetailsPermission &&
         (isOwnOrder || isCompanyManagerViewingCompanyOrder);
+    // Switching to self-pickup follows the same band and ownership rules as
+    // editing, once per order.
+    const selfPickupEnabled =
+        (platform?.features as Record<string, boolean> | undefined)?.enable_self_pickup === true;
+    const canSwitchToSelfPickup = canEditOrder && selfPickupEnabled && !order.converted_to;
+    // Cancellation is a request to ops, open to the same people a little
+    // further into fulfilment than editing; one pending request at a time.
+    const pendingCancellation =
+        order.cancellation_request?.status === "PENDING" ? order.cancellation_request : null;
+    const canRequestCancellation =
+        canRequestOrderCancellation(order.order_status) &&
+        (isOwnOrder || isCompanyManagerViewingCompanyOrder) &&
+        !pendingCancellation;
 
     return (
         <ClientNav>
@@ -552,11 +571,19 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                                 </div>
                                 <Cuboid className="h-12 w-12 text-primary/20" />
                             </div>
+                            {(order.converted_from || order.converted_to) && (
+                                <div className="mt-4">
+                                    <FulfilmentLinkNotice
+                                        convertedFrom={order.converted_from}
+                                        convertedTo={order.converted_to}
+                                    />
+                                </div>
+                            )}
                         </Card>
                     </motion.div>
 
                     {/* Status Banner for special states */}
-                    {isCancelled && (
+                    {(isCancelled || pendingCancellation) && (
                         <motion.div
                             initial={{ opacity: 0, y: 20 }}
                             animate={{ opacity: 1, y: 0 }}
@@ -568,6 +595,7 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                                 cancellationReason={order.cancellation_reason}
                                 cancellationNotes={order.cancellation_notes}
                                 cancelledAt={order.cancelled_at}
+                                cancellationRequest={pendingCancellation}
                             />
                         </motion.div>
                     )}
@@ -750,6 +778,21 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                                                     {(() => {
                                                         const sortedHistory = [
                                                             ...order.order_status_history,
+                                                            // The open cancellation request sits
+                                                            // in the timeline until ops act on it.
+                                                            ...(pendingCancellation
+                                                                ? [
+                                                                      {
+                                                                          id: pendingCancellation.id,
+                                                                          status: "CANCELLATION_REQUESTED",
+                                                                          status_label:
+                                                                              "Cancellation requested",
+                                                                          timestamp:
+                                                                              pendingCancellation.requested_at,
+                                                                          pending: true,
+                                                                      },
+                                                                  ]
+                                                                : []),
                                                         ].sort(
                                                             (a: any, b: any) =>
                                                                 new Date(b.timestamp).getTime() -
@@ -790,9 +833,11 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                                                                         <div className="flex flex-col items-center">
                                                                             <div
                                                                                 className={`w-3 h-3 rounded-full shrink-0 mt-1.5 ${
-                                                                                    isFirst
-                                                                                        ? "bg-primary ring-4 ring-primary/20"
-                                                                                        : "bg-muted-foreground/40"
+                                                                                    entry.pending
+                                                                                        ? "bg-amber-500 ring-4 ring-amber-500/20"
+                                                                                        : isFirst
+                                                                                          ? "bg-primary ring-4 ring-primary/20"
+                                                                                          : "bg-muted-foreground/40"
                                                                                 }`}
                                                                             />
                                                                             {index <
@@ -803,9 +848,11 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                                                                         </div>
                                                                         <div className="flex-1 pb-2">
                                                                             <p
-                                                                                className={`text-sm font-semibold font-mono ${isFirst ? "text-primary" : "text-muted-foreground"}`}
+                                                                                className={`text-sm font-semibold font-mono ${entry.pending ? "text-amber-700" : isFirst ? "text-primary" : "text-muted-foreground"}`}
                                                                             >
                                                                                 {label}
+                                                                                {entry.pending &&
+                                                                                    " · Pending"}
                                                                             </p>
                                                                             <p className="text-xs text-muted-foreground mt-0.5">
                                                                                 {ts.toLocaleDateString()}{" "}
@@ -828,6 +875,14 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                                         </motion.div>
                                     )}
 
+                                <motion.div
+                                    initial={{ opacity: 0, y: 20 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    transition={{ delay: 0.35 }}
+                                >
+                                    <RevisionHistoryCard entityType="ORDER" entityId={order.id} />
+                                </motion.div>
+
                                 {/* Order Items */}
                                 {Array.isArray((order as any)?.linked_service_requests) &&
                                     (order as any).linked_service_requests.length > 0 && (
@@ -1481,11 +1536,14 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                                                             Venue & Logistics
                                                         </h4>
                                                     </div>
-                                                    <EditAffordance
-                                                        binding={descriptiveBinding}
-                                                        variant="client"
-                                                        mode="modal"
-                                                    />
+                                                    <div className="flex items-center gap-2">
+                                                        <SaveOrderVenueButton order={order} />
+                                                        <EditAffordance
+                                                            binding={descriptiveBinding}
+                                                            variant="client"
+                                                            mode="modal"
+                                                        />
+                                                    </div>
                                                 </div>
                                                 <SectionEditModal
                                                     binding={descriptiveBinding}
@@ -1760,6 +1818,26 @@ export default function OrderPage({ params }: { params: Promise<{ orderId: strin
                             <Package className="w-4 h-4" />
                             Browse Catalog
                         </Button>
+                        <ReorderDialog
+                            kind="order"
+                            id={orderId}
+                            company={isCompanyView}
+                            className="font-mono gap-2 h-10 px-4"
+                        />
+                        {canSwitchToSelfPickup && (
+                            <ConvertToSelfPickupDialog
+                                orderId={orderId}
+                                order={order}
+                                className="font-mono gap-2"
+                            />
+                        )}
+                        {canRequestCancellation && (
+                            <RequestCancellationDialog
+                                orderId={order.id}
+                                orderReference={order.order_id}
+                                className="font-mono gap-2 text-destructive hover:text-destructive border-destructive/40"
+                            />
+                        )}
                     </motion.div>
                 </div>
             </div>
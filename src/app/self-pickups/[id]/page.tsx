@@ -8,8 +8,13 @@ import {
     useClientSelfPickupDetail,
     useClientApproveSelfPickupQuote,
     useClientDeclineSelfPickupQuote,
-    useTriggerSelfPickupReturn,
 } from "@/hooks/use-self-pickups";
+import {
+    hasOutstandingUnits,
+    returnTallies,
+    type ItemReturnTally,
+    type SelfPickupReturn,
+} from "@/lib/self-pickup-returns";
 import {
     useCompanyApproveSelfPickupQuote,
     useCompanyDeclineSelfPickupQuote,
@@ -38,13 +43,20 @@ import {
     Truck,
     Archive,
     FileText,
+    IdCard,
+    Undo2,
 } from "lucide-react";
 import { toast } from "sonner";
 import { SelfPickupQuoteReviewSection } from "@/components/self-pickups/QuoteReviewSection";
 import { SelfPickupStatusBanner } from "@/components/self-pickups/SelfPickupStatusBanner";
-import { StartReturnDialog } from "@/components/self-pickups/StartReturnDialog";
+import { ReturnWizardDialog } from "@/components/self-pickups/ReturnWizardDialog";
 import { ClientWorkflowRequestsCard } from "@/components/workflows/workflow-requests-card";
 import { SelfPickupEditPanel } from "@/components/self-pickups/editing/SelfPickupEditPanel";
+import { ReorderDialog } from "@/components/orders/ReorderDialog";
+import { FulfilmentLinkNotice } from "@/components/orders/FulfilmentLinkNotice";
+import { RevisionHistoryCard } from "@/components/orders/RevisionHistoryCard";
+import { ConvertToDeliveryDialog } from "@/components/self-pickups/ConvertToDeliveryDialog";
+import { CollectorPassCard } from "@/components/self-pickups/CollectorPassCard";
 
 // Order-editing (Phase 4): the pre-CONFIRMED "editable band" for self-pickups.
 // Mirrors canEditOrderDetails — details can be edited while still being
@@ -54,6 +66,16 @@ function canEditSelfPickupDetails(status: string | null | undefined): boolean {
     return !!status && SELF_PICKUP_EDIT_BAND.includes(status);
 }
 
+// A collector pass is useful until the items have left the warehouse.
+const COLLECTOR_PASS_STATUSES = [
+    "SUBMITTED",
+    "PRICING_REVIEW",
+    "PENDING_APPROVAL",
+    "QUOTED",
+    "CONFIRMED",
+    "READY_FOR_PICKUP",
+];
+
 const PICKUP_STATUS_CONFIG: Record<
     string,
     {
@@ -190,7 +212,6 @@ export default function ClientSelfPickupDetailPage({
     const declineQuote = useClientDeclineSelfPickupQuote();
     const companyApproveQuote = useCompanyApproveSelfPickupQuote();
     const companyDeclineQuote = useCompanyDeclineSelfPickupQuote();
-    const triggerReturn = useTriggerSelfPickupReturn();
 
     const [returnDialogOpen, setReturnDialogOpen] = useState(false);
 
@@ -237,6 +258,14 @@ export default function ClientSelfPickupDetailPage({
     const isNoCostConfirmed = isNoCost && pickup.self_pickup_status === "CONFIRMED";
     const statusHistory: any[] = pickup.self_pickup_status_history || [];
 
+    // Returns can come back over several trips; tallies drive both the item
+    // rows and whether another return can be started.
+    const returns: SelfPickupReturn[] = pickup.returns || [];
+    const tallies = returnTallies(items, returns);
+    const isReturnPhase = ["PICKED_UP", "AWAITING_RETURN"].includes(pickup.self_pickup_status);
+    const canStartReturn = isReturnPhase && hasOutstandingUnits(tallies);
+    const showReturnTallies = returns.length > 0;
+
     // Order-editing (Phase 4): show the edit panel only inside the pre-CONFIRMED
     // band AND only to someone allowed to edit this pickup — its creator (owner
     // view), or a company manager viewing a colleague's pickup via ?company=1.
@@ -248,6 +277,8 @@ export default function ClientSelfPickupDetailPage({
         isPreConfirmed &&
         canEditDetailsPermission &&
         (isOwnPickup || isCompanyManagerViewingCompanyPickup);
+    // Switching to delivery follows the editing rules, once per pickup.
+    const canSwitchToDelivery = canEditPickup && !pickup.converted_to;
 
     return (
         <ClientNav>
@@ -366,8 +397,26 @@ export default function ClientSelfPickupDetailPage({
                                         </p>
                                     )}
                                 </div>
-                                <Cuboid className="h-10 w-10 sm:h-12 sm:w-12 text-primary/20" />
+                                <div className="flex items-center gap-4">
+                                    {canSwitchToDelivery && (
+                                        <ConvertToDeliveryDialog pickupId={id} pickup={pickup} />
+                                    )}
+                                    <ReorderDialog
+                                        kind="self-pickup"
+                                        id={id}
+                                        company={isCompanyView}
+                                    />
+                                    <Cuboid className="h-10 w-10 sm:h-12 sm:w-12 text-primary/20" />
+                                </div>
                             </div>
+                            {(pickup.converted_from || pickup.converted_to) && (
+                                <div className="mt-4">
+                                    <FulfilmentLinkNotice
+                                        convertedFrom={pickup.converted_from}
+                                        convertedTo={pickup.converted_to}
+                                    />
+                                </div>
+                            )}
                         </Card>
                     </motion.div>
 
@@ -529,6 +578,17 @@ export default function ClientSelfPickupDetailPage({
                                 </motion.div>
                             )}
 
+                            <motion.div
+                                initial={{ opacity: 0, y: 20 }}
+                                animate={{ opacity: 1, y: 0 }}
+                                transition={{ delay: 0.35 }}
+                            >
+                                <RevisionHistoryCard
+                                    entityType="SELF_PICKUP"
+                                    entityId={pickup.id}
+                                />
+                            </motion.div>
+
                             {/* Items */}
                             <motion.div
                                 initial={{ opacity: 0, y: 20 }}
@@ -644,6 +704,14 @@ export default function ClientSelfPickupDetailPage({
                                                                     </span>
                                                                 )}
                                                             </div>
+                                                            {showReturnTallies &&
+                                                                tallies.has(item.id) && (
+                                                                    <ReturnTallyLine
+                                                                        tally={
+                                                                            tallies.get(item.id)!
+                                                                        }
+                                                                    />
+                                                                )}
                                                         </div>
                                                         <Badge
                                                             variant="outline"
@@ -684,8 +752,20 @@ export default function ClientSelfPickupDetailPage({
                                 </motion.div>
                             )}
 
-                            {/* Start Return CTA (PICKED_UP only) */}
-                            {pickup.self_pickup_status === "PICKED_UP" && (
+                            {/* Returns booked so far, newest first */}
+                            {returns.length > 0 && (
+                                <motion.div
+                                    initial={{ opacity: 0, y: 20 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    transition={{ delay: 0.5 }}
+                                >
+                                    <ReturnsCard returns={returns} items={items} />
+                                </motion.div>
+                            )}
+
+                            {/* Return CTA — open while anything is still out; each
+                                return can cover part of the items */}
+                            {canStartReturn && (
                                 <motion.div
                                     initial={{ opacity: 0, y: 20 }}
                                     animate={{ opacity: 1, y: 0 }}
@@ -694,16 +774,20 @@ export default function ClientSelfPickupDetailPage({
                                     <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/40">
                                         <div className="flex flex-col sm:flex-row sm:items-center gap-3 justify-between">
                                             <div>
-                                                <p className="font-semibold">Ready to return?</p>
+                                                <p className="font-semibold">
+                                                    {returns.length > 0
+                                                        ? "Returning more items?"
+                                                        : "Ready to return?"}
+                                                </p>
                                                 <p className="text-sm text-muted-foreground">
-                                                    Let us know the items are on their way back.
+                                                    Book a drop-off for some or all of what you
+                                                    still have, and report anything lost or damaged.
                                                 </p>
                                             </div>
-                                            <Button
-                                                onClick={() => setReturnDialogOpen(true)}
-                                                disabled={triggerReturn.isPending}
-                                            >
-                                                Start Return
+                                            <Button onClick={() => setReturnDialogOpen(true)}>
+                                                {returns.length > 0
+                                                    ? "Start Another Return"
+                                                    : "Start Return"}
                                             </Button>
                                         </div>
                                     </Card>
@@ -809,26 +893,137 @@ export default function ClientSelfPickupDetailPage({
                                                 <span>{pickup.collector_email}</span>
                                             </div>
                                         )}
+                                        {pickup.collector_id_reference && (
+                                            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                                <IdCard className="h-3.5 w-3.5 shrink-0" />
+                                                <span>{pickup.collector_id_reference}</span>
+                                            </div>
+                                        )}
                                     </CardContent>
                                 </Card>
                             </motion.div>
+
+                            {/* Collector pass — shown at the warehouse desk */}
+                            {COLLECTOR_PASS_STATUSES.includes(pickup.self_pickup_status) && (
+                                <motion.div
+                                    initial={{ opacity: 0, y: 20 }}
+                                    animate={{ opacity: 1, y: 0 }}
+                                    transition={{ delay: 0.4 }}
+                                >
+                                    <CollectorPassCard pickup={pickup} company={isCompanyView} />
+                                </motion.div>
+                            )}
                         </div>
                     </div>
                 </div>
             </div>
 
-            <StartReturnDialog
+            <ReturnWizardDialog
                 open={returnDialogOpen}
                 onOpenChange={setReturnDialogOpen}
-                onConfirm={async () => {
-                    await triggerReturn.mutateAsync(pickup.id);
-                    toast.success("Return initiated");
-                }}
+                pickupId={pickup.id}
+                items={items}
+                tallies={tallies}
             />
         </ClientNav>
     );
 }
 
+// Returned / booked / lost / outstanding counts under an item row once any
+// return exists.
+function ReturnTallyLine({ tally }: { tally: ItemReturnTally }) {
+    return (
+        <div className="text-xs font-mono flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+            <span className="text-green-700">Returned {tally.returned}</span>
+            {tally.booked > 0 && <span className="text-blue-700">Booked {tally.booked}</span>}
+            {tally.lost > 0 && <span className="text-red-600">Lost {tally.lost}</span>}
+            {tally.damaged > 0 && <span className="text-amber-700">Damaged {tally.damaged}</span>}
+            <span className={tally.outstanding > 0 ? "text-foreground" : "text-muted-foreground"}>
+                Outstanding {tally.outstanding}
+            </span>
+        </div>
+    );
+}
+
+const RETURN_STATUS_STYLES: Record<SelfPickupReturn["status"], { label: string; color: string }> = {
+    SCHEDULED: { label: "Booked", color: "bg-blue-100 text-blue-700 border-blue-300" },
+    RECEIVED: { label: "Received", color: "bg-green-100 text-green-700 border-green-300" },
+    CANCELLED: { label: "Cancelled", color: "bg-gray-100 text-gray-700 border-gray-300" },
+};
+
+function ReturnsCard({
+    returns,
+    items,
+}: {
+    returns: SelfPickupReturn[];
+    items: { id: string; asset_name: string }[];
+}) {
+    const nameOf = (id: string) => items.find((item) => item.id === id)?.asset_name || "Item";
+    const sorted = [...returns].sort(
+        (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    );
+
+    return (
+        <Card className="bg-card/50 backdrop-blur-sm border-border/40">
+            <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2 font-mono uppercase tracking-wide">
+                    <Undo2 className="h-5 w-5 text-primary" />
+                    Returns ({returns.length})
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {sorted.map((ret, index) => {
+                    const style =
+                        RETURN_STATUS_STYLES[ret.status] ?? RETURN_STATUS_STYLES.SCHEDULED;
+                    return (
+                        <div
+                            key={ret.id}
+                            className="p-3 border border-border/40 rounded-lg bg-muted/10 space-y-2"
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <p className="font-semibold text-sm">
+                                    Return #{ret.return_number ?? sorted.length - index}
+                                </p>
+                                <Badge variant="outline" className={`text-xs ${style.color}`}>
+                                    {style.label}
+                                </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground font-mono">
+                                {ret.drop_off_window
+                                    ? `Drop-off ${new Date(
+                                          ret.drop_off_window.start
+                                      ).toLocaleString()} – ${new Date(
+                                          ret.drop_off_window.end
+                                      ).toLocaleTimeString()}`
+                                    : "Loss declaration — nothing to drop off"}
+                            </p>
+                            <ul className="text-xs space-y-0.5">
+                                {ret.lines.map((line) => (
+                                    <li
+                                        key={line.self_pickup_item_id}
+                                        className="flex justify-between gap-2"
+                                    >
+                                        <span className="truncate">
+                                            {nameOf(line.self_pickup_item_id)}
+                                        </span>
+                                        <span className="font-mono shrink-0">
+                                            {line.quantity > 0 && `${line.quantity} back`}
+                                            {!!line.damaged_quantity &&
+                                                ` · ${line.damaged_quantity} damaged`}
+                                            {!!line.lost_quantity &&
+                                                `${line.quantity > 0 ? " · " : ""}${line.lost_quantity} lost`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    );
+                })}
+            </CardContent>
+        </Card>
+    );
+}
+
 // Per-status "what happens next" guidance. Mirrors the orders detail
 // pattern but scoped to SP lifecycle — only the statuses clients will
 // reasonably see (no PENDING_APPROVAL / QUOTED since those are STANDARD-
@@ -867,7 +1062,7 @@ function WhatsNextCard({
             case "PICKED_UP":
                 return [
                     "Items collected",
-                    "When you're ready to return the items, click 'Start Return' above so our team can prepare to receive them.",
+                    "When you're ready to return the items, click 'Start Return' above to book a drop-off — you can return them in several trips.",
                 ];
             case "AWAITING_RETURN":
                 return [
@@ -1,12 +1,14 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useClientSelfPickups } from "@/hooks/use-self-pickups";
+import { useDebouncedFilterInput, useUrlListFilters } from "@/hooks/use-list-views";
 import { usePlatform } from "@/contexts/platform-context";
 import { ClientNav } from "@/components/client-nav";
 import { ClientHeader } from "@/components/client-header";
+import { SavedViewTabs } from "@/components/shared/saved-view-tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -21,6 +23,8 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { ChevronLeft, ChevronRight, Clock, Package, Plus, Truck, User, X } from "lucide-react";
 
+const FILTER_KEYS = ["status", "search", "page"];
+
 const PICKUP_STATUS_CONFIG: Record<string, { label: string; color: string }> = {
     SUBMITTED: { label: "Submitted", color: "bg-blue-100 text-blue-700 border-blue-300" },
     PRICING_REVIEW: {
@@ -58,25 +62,23 @@ export default function ClientSelfPickupsPage() {
         }
     }, [platformLoading, selfPickupEnabled, router]);
 
-    const [page, setPage] = useState(1);
-    const [limit] = useState(10);
-    const [search, setSearch] = useState("");
-    const [status, setStatus] = useState("");
+    const { filters, setFilters, replaceFilters } = useUrlListFilters(FILTER_KEYS);
+    const [search, setSearch] = useDebouncedFilterInput(filters.search ?? "", (value) =>
+        setFilters({ search: value })
+    );
+    const page = Math.max(1, Number(filters.page) || 1);
+    const setPage = (next: number) => setFilters({ page: next > 1 ? String(next) : "" });
 
     const { data, isLoading, error } = useClientSelfPickups({
         page,
         limit: 100,
-        self_pickup_status: status || undefined,
-        search: search || undefined,
+        self_pickup_status: filters.status || undefined,
+        search: filters.search || undefined,
     });
 
-    const clearFilters = () => {
-        setStatus("");
-        setSearch("");
-        setPage(1);
-    };
+    const clearFilters = () => replaceFilters({});
 
-    const activeFiltersCount = useMemo(() => (status ? 1 : 0) + (search ? 1 : 0), [status, search]);
+    const activeFiltersCount = (filters.status ? 1 : 0) + (filters.search ? 1 : 0);
 
     if (platformLoading || !selfPickupEnabled) {
         return null;
@@ -104,6 +106,13 @@ export default function ClientSelfPickupsPage() {
 
             <div className="min-h-screen bg-linear-gradient-to-br from-background via-muted/30 to-background">
                 <div className="container mx-auto px-6 py-8">
+                    <SavedViewTabs
+                        scope="self-pickups"
+                        filters={filters}
+                        onApply={replaceFilters}
+                        className="mb-4"
+                    />
+
                     {/* Filters Bar */}
                     <Card className="bg-card/80 backdrop-blur-sm border-border/40 mb-6">
                         <CardContent className="pt-6">
@@ -112,20 +121,16 @@ export default function ClientSelfPickupsPage() {
                                     <Input
                                         placeholder="Search by pickup ID or collector..."
                                         value={search}
-                                        onChange={(e) => {
-                                            setSearch(e.target.value);
-                                            setPage(1);
-                                        }}
+                                        onChange={(e) => setSearch(e.target.value)}
                                         className="flex-1"
                                     />
                                 </div>
 
                                 <Select
-                                    value={status || "all"}
-                                    onValueChange={(val) => {
-                                        setStatus(val === "all" ? "" : val);
-                                        setPage(1);
-                                    }}
+                                    value={filters.status || "all"}
+                                    onValueChange={(val) =>
+                                        setFilters({ status: val === "all" ? "" : val })
+                                    }
                                 >
                                     <SelectTrigger className="w-full md:w-[200px]">
                                         <SelectValue placeholder="All Statuses" />
@@ -308,9 +313,7 @@ export default function ClientSelfPickupsPage() {
                                             </p>
                                             <div className="flex gap-2">
                                                 <Button
-                                                    onClick={() =>
-                                                        setPage((p) => Math.max(1, p - 1))
-                                                    }
+                                                    onClick={() => setPage(Math.max(1, page - 1))}
                                                     disabled={page <= 1}
                                                     variant="outline"
                                                     size="sm"
@@ -321,7 +324,7 @@ export default function ClientSelfPickupsPage() {
                                                 </Button>
                                                 <Button
                                                     onClick={() =>
-                                                        setPage((p) => Math.min(totalPages, p + 1))
+                                                        setPage(Math.min(totalPages, page + 1))
                                                     }
                                                     disabled={page >= totalPages}
                                                     variant="outline"
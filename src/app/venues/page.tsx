@@ -0,0 +1,203 @@
+"use client";
+
+/**
+ * Venues — the company's saved venue library. Venues added here (or saved
+ * from an order) show up in the "Use a saved venue" pickers in checkout and
+ * order editing.
+ */
+
+import { useState } from "react";
+import { Archive, ArchiveRestore, MapPin, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { ClientNav } from "@/components/client-nav";
+import { ClientHeader } from "@/components/client-header";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { VenueFormDialog } from "@/components/venues/VenueFormDialog";
+import { useSetVenueArchived, useVenues } from "@/hooks/use-venues";
+import type { SavedVenue } from "@/types/venue";
+
+export default function VenuesPage() {
+    const [showArchived, setShowArchived] = useState(false);
+    const [dialogOpen, setDialogOpen] = useState(false);
+    const [editing, setEditing] = useState<SavedVenue | null>(null);
+    const { data: venues = [], isLoading } = useVenues({ includeArchived: showArchived });
+    const setArchived = useSetVenueArchived();
+
+    const openDialog = (venue: SavedVenue | null) => {
+        setEditing(venue);
+        setDialogOpen(true);
+    };
+
+    const toggleArchived = async (venue: SavedVenue) => {
+        try {
+            await setArchived.mutateAsync({ id: venue.id, archived: !venue.is_archived });
+            toast.success(venue.is_archived ? "Venue restored" : "Venue archived");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update venue");
+        }
+    };
+
+    return (
+        <ClientNav>
+            <ClientHeader
+                icon={MapPin}
+                title="Venues"
+                description="Saved venues your team can reuse in checkout and order edits."
+                actions={
+                    <Button className="gap-2 font-mono" onClick={() => openDialog(null)}>
+                        <Plus className="h-4 w-4" />
+                        New Venue
+                    </Button>
+                }
+            />
+            <div className="min-h-screen bg-linear-to-br from-background via-muted/30 to-background">
+                <div className="container mx-auto px-6 py-8 space-y-4">
+                    <div className="flex items-center justify-end gap-2">
+                        <Switch
+                            id="showArchivedVenues"
+                            checked={showArchived}
+                            onCheckedChange={setShowArchived}
+                        />
+                        <Label htmlFor="showArchivedVenues" className="font-mono text-xs uppercase">
+                            Show archived
+                        </Label>
+                    </div>
+                    <div className="border border-border rounded-lg overflow-hidden bg-card">
+                        <Table>
+                            <TableHeader>
+                                <TableRow className="bg-muted/50 border-border/50">
+                                    <TableHead className="font-mono text-xs font-bold uppercase">
+                                        Venue
+                                    </TableHead>
+                                    <TableHead className="font-mono text-xs font-bold uppercase">
+                                        Address
+                                    </TableHead>
+                                    <TableHead className="font-mono text-xs font-bold uppercase">
+                                        Venue Contact
+                                    </TableHead>
+                                    <TableHead className="font-mono text-xs font-bold uppercase">
+                                        Permit
+                                    </TableHead>
+                                    <TableHead className="font-mono text-xs font-bold uppercase text-right">
+                                        Actions
+                                    </TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {isLoading ? (
+                                    [...Array(5)].map((_, i) => (
+                                        <TableRow key={i}>
+                                            <TableCell colSpan={5}>
+                                                <Skeleton className="h-6 w-full" />
+                                            </TableCell>
+                                        </TableRow>
+                                    ))
+                                ) : venues.length === 0 ? (
+                                    <TableRow>
+                                        <TableCell
+                                            colSpan={5}
+                                            className="text-center py-10 text-muted-foreground font-mono text-sm"
+                                        >
+                                            No saved venues yet. Add one here, or save a venue from
+                                            an order.
+                                        </TableCell>
+                                    </TableRow>
+                                ) : (
+                                    venues.map((venue) => (
+                                        <TableRow
+                                            key={venue.id}
+                                            className={`border-border/50 ${
+                                                venue.is_archived ? "opacity-60" : ""
+                                            }`}
+                                        >
+                                            <TableCell>
+                                                <div className="font-medium">{venue.name}</div>
+                                                <div className="text-xs text-muted-foreground font-mono">
+                                                    {[venue.city_name, venue.country_name]
+                                                        .filter(Boolean)
+                                                        .join(", ")}
+                                                </div>
+                                                {venue.is_archived && (
+                                                    <Badge className="mt-1 font-mono text-[10px] uppercase border bg-muted text-muted-foreground border-border">
+                                                        Archived
+                                                    </Badge>
+                                                )}
+                                            </TableCell>
+                                            <TableCell className="text-sm text-muted-foreground max-w-xs">
+                                                <p className="line-clamp-2">{venue.address}</p>
+                                            </TableCell>
+                                            <TableCell className="text-sm">
+                                                {venue.venue_contact_name ||
+                                                venue.venue_contact_email
+                                                    ? [
+                                                          venue.venue_contact_name,
+                                                          venue.venue_contact_email,
+                                                      ]
+                                                          .filter(Boolean)
+                                                          .join(" · ")
+                                                    : "—"}
+                                            </TableCell>
+                                            <TableCell className="font-mono text-xs">
+                                                {!venue.permit_defaults
+                                                    ? "—"
+                                                    : venue.permit_defaults.requires_permit
+                                                      ? "Required"
+                                                      : "Not required"}
+                                            </TableCell>
+                                            <TableCell className="text-right">
+                                                <div className="flex justify-end gap-1">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="gap-1 font-mono"
+                                                        onClick={() => openDialog(venue)}
+                                                        disabled={venue.is_archived}
+                                                    >
+                                                        <Pencil className="h-3.5 w-3.5" />
+                                                        Edit
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="gap-1 font-mono"
+                                                        onClick={() => toggleArchived(venue)}
+                                                        disabled={setArchived.isPending}
+                                                    >
+                                                        {venue.is_archived ? (
+                                                            <>
+                                                                <ArchiveRestore className="h-3.5 w-3.5" />
+                                                                Restore
+                                                            </>
+                                                        ) : (
+                                                            <>
+                                                                <Archive className="h-3.5 w-3.5" />
+                                                                Archive
+                                                            </>
+                                                        )}
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))
+                                )}
+                            </TableBody>
+                        </Table>
+                    </div>
+                </div>
+            </div>
+            <VenueFormDialog open={dialogOpen} onOpenChange={setDialogOpen} venue={editing} />
+        </ClientNav>
+    );
+}
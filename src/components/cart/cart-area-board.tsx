@@ -0,0 +1,316 @@
+"use client";
+
+/**
+ * Cart Area Board
+ * Cart lines grouped by event area. Lines are dragged between areas (or
+ * reordered) by their grip handle; areas can be added, renamed and
+ * ungrouped. Areas are the cart's own list, so an empty area stays put
+ * until it's ungrouped.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCart } from "@/contexts/cart-context";
+import { groupByArea, normalizeAreaName } from "@/lib/cart/event-areas";
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+import { cn } from "@/lib/utils";
+import {
+    closestCenter,
+    DndContext,
+    KeyboardSensor,
+    PointerSensor,
+    useDroppable,
+    useSensor,
+    useSensors,
+    type DragEndEvent,
+} from "@dnd-kit/core";
+import {
+    SortableContext,
+    sortableKeyboardCoordinates,
+    useSortable,
+    verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
+import { Check, FolderPlus, GripVertical, MapPin, Pencil, Ungroup, X } from "lucide-react";
+import { useMemo, useState, type ReactNode } from "react";
+
+const AREA_PREFIX = "area:";
+const areaDropId = (area: string | null) => `${AREA_PREFIX}${area ?? ""}`;
+
+function SortableLine({
+    item,
+    children,
+}: {
+    item: LocalCartItem;
+    children: (handle: ReactNode) => ReactNode;
+}) {
+    const {
+        attributes,
+        listeners,
+        setNodeRef,
+        setActivatorNodeRef,
+        transform,
+        transition,
+        isDragging,
+    } = useSortable({ id: item.assetId });
+
+    const handle = (
+        <button
+            type="button"
+            ref={setActivatorNodeRef}
+            {...attributes}
+            {...listeners}
+            aria-label={`Move ${item.assetName}`}
+            className="flex h-8 w-5 shrink-0 cursor-grab items-center justify-center text-muted-foreground hover:text-foreground active:cursor-grabbing"
+        >
+            <GripVertical className="h-4 w-4" />
+        </button>
+    );
+
+    return (
+        <div
+            ref={setNodeRef}
+            style={{ transform: CSS.Transform.toString(transform), transition }}
+            className={cn(isDragging && "relative z-10 opacity-60")}
+        >
+            {children(handle)}
+        </div>
+    );
+}
+
+function AreaNameForm({
+    initial = "",
+    onSubmit,
+    onCancel,
+}: {
+    initial?: string;
+    onSubmit: (name: string) => void;
+    onCancel: () => void;
+}) {
+    const [name, setName] = useState(initial);
+    const trimmed = name.trim();
+
+    return (
+        <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+                e.preventDefault();
+                if (trimmed) onSubmit(trimmed);
+            }}
+        >
+            <Input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && onCancel()}
+                placeholder="e.g. Main stage"
+                className="h-7 text-xs"
+                maxLength={60}
+            />
+            <Button
+                type="submit"
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                disabled={!trimmed}
+                aria-label="Save area"
+            >
+                <Check className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-7 w-7 p-0"
+                onClick={onCancel}
+                aria-label="Cancel"
+            >
+                <X className="h-3.5 w-3.5" />
+            </Button>
+        </form>
+    );
+}
+
+function AreaSection({
+    area,
+    items,
+    showHeader,
+    onRename,
+    onUngroup,
+    renderItem,
+}: {
+    area: string | null;
+    items: LocalCartItem[];
+    showHeader: boolean;
+    onRename: (to: string) => void;
+    onUngroup: () => void;
+    renderItem: (item: LocalCartItem, handle: ReactNode) => ReactNode;
+}) {
+    const { isOver, setNodeRef } = useDroppable({ id: areaDropId(area) });
+    const [renaming, setRenaming] = useState(false);
+
+    return (
+        <section
+            ref={setNodeRef}
+            className={cn(
+                "rounded-lg transition-colors",
+                showHeader && "border border-dashed border-border/60 p-2",
+                isOver && "border-primary/60 bg-primary/5"
+            )}
+            data-testid="cart-area"
+        >
+            {showHeader && (
+                <div className="mb-2 flex min-h-7 items-center gap-2 px-1">
+                    <MapPin className="h-3.5 w-3.5 shrink-0 text-primary" />
+                    {renaming && area ? (
+                        <AreaNameForm
+                            initial={area}
+                            onSubmit={(name) => {
+                                onRename(name);
+                                setRenaming(false);
+                            }}
+                            onCancel={() => setRenaming(false)}
+                        />
+                    ) : (
+                        <>
+                            <p className="flex-1 truncate text-[10px] font-mono font-bold uppercase tracking-[0.15em]">
+                                {area ?? "Unassigned"}
+                                <span className="ml-2 font-normal text-muted-foreground">
+                                    {items.length}
+                                </span>
+                            </p>
+                            {area && (
+                                <>
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-6 w-6 p-0"
+                                        onClick={() => setRenaming(true)}
+                                        aria-label={`Rename ${area}`}
+                                    >
+                                        <Pencil className="h-3 w-3" />
+                                    </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        className="h-6 w-6 p-0"
+                                        onClick={onUngroup}
+                                        aria-label={`Ungroup ${area}`}
+                                        title="Ungroup"
+                                    >
+                                        <Ungroup className="h-3 w-3" />
+                                    </Button>
+                                </>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+            <SortableContext
+                items={items.map((item) => item.assetId)}
+                strategy={verticalListSortingStrategy}
+            >
+                <div className="space-y-4">
+                    {items.map((item) => (
+                        <SortableLine key={item.assetId} item={item}>
+                            {(handle) => renderItem(item, handle)}
+                        </SortableLine>
+                    ))}
+                    {items.length === 0 && (
+                        <p className="rounded-md py-4 text-center text-xs text-muted-foreground">
+                            Drag items here
+                        </p>
+                    )}
+                </div>
+            </SortableContext>
+        </section>
+    );
+}
+
+export function CartAreaBoard({
+    renderItem,
+}: {
+    // `handle` is the drag grip; place it inside the line's card.
+    renderItem: (item: LocalCartItem, handle: ReactNode) => ReactNode;
+}) {
+    const { items, areas, addArea, moveItemToArea, renameArea } = useCart();
+    const [adding, setAdding] = useState(false);
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+        useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+    );
+
+    const groups = useMemo(
+        () => groupByArea(items, (item) => item.eventArea, areas),
+        [items, areas]
+    );
+    const hasAreas = groups.some((group) => group.area !== null);
+
+    const handleDragEnd = ({ active, over }: DragEndEvent) => {
+        if (!over || active.id === over.id) return;
+        const activeId = String(active.id);
+        const overId = String(over.id);
+
+        if (overId.startsWith(AREA_PREFIX)) {
+            moveItemToArea(activeId, normalizeAreaName(overId.slice(AREA_PREFIX.length)));
+            return;
+        }
+
+        const overItem = items.find((item) => item.assetId === overId);
+        if (!overItem) return;
+        const targetArea = normalizeAreaName(overItem.eventArea);
+        const targetItems =
+            groups.find((group) => group.area === targetArea)?.items ?? ([] as LocalCartItem[]);
+        const activeIndex = targetItems.findIndex((item) => item.assetId === activeId);
+        const overIndex = targetItems.findIndex((item) => item.assetId === overId);
+        // Dragging down within an area lands after the line it's dropped on.
+        const before =
+            activeIndex >= 0 && activeIndex < overIndex
+                ? targetItems[overIndex + 1]?.assetId
+                : overId;
+        moveItemToArea(activeId, targetArea, before);
+    };
+
+    return (
+        <div className="space-y-4">
+            <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                onDragEnd={handleDragEnd}
+            >
+                {groups.map((group) => (
+                    <AreaSection
+                        key={group.area ?? ""}
+                        area={group.area}
+                        items={group.items}
+                        showHeader={hasAreas}
+                        onRename={(to) => group.area && renameArea(group.area, to)}
+                        onUngroup={() => group.area && renameArea(group.area, null)}
+                        renderItem={renderItem}
+                    />
+                ))}
+            </DndContext>
+
+            {adding ? (
+                <AreaNameForm
+                    onSubmit={(name) => {
+                        addArea(name);
+                        setAdding(false);
+                    }}
+                    onCancel={() => setAdding(false)}
+                />
+            ) : (
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setAdding(true)}
+                    className="w-full gap-2 border-dashed font-mono text-xs uppercase tracking-wide"
+                >
+                    <FolderPlus className="h-3.5 w-3.5" />
+                    Add event area
+                </Button>
+            )}
+        </div>
+    );
+}
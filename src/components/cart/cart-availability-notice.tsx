@@ -0,0 +1,109 @@
+"use client";
+
+/**
+ * Inline availability flag for a cart line, with one-click fixes: clamp the
+ * quantity to what's available, remove the line, or open in-stock
+ * alternatives to swap in. Shared by the cart drawer and the checkout cart step.
+ */
+
+import { useState } from "react";
+import { SubstitutionAssistant } from "@/components/checkout/SubstitutionAssistant";
+import { Button } from "@/components/ui/button";
+import { useCart } from "@/contexts/cart-context";
+import type { CartAvailabilityIssue } from "@/hooks/use-cart-availability";
+import type { AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+import { format } from "date-fns";
+import { AlertCircle, ArrowLeftRight, Minus, Trash2 } from "lucide-react";
+
+function describeIssue(issue: CartAvailabilityIssue, quantity: number, hasWindow: boolean) {
+    const when = hasWindow ? "for your dates" : "right now";
+    switch (issue.reasonCode) {
+        case "INSUFFICIENT_QUANTITY":
+            return issue.availableQuantity > 0
+                ? `Only ${issue.availableQuantity} of ${quantity} available ${when}`
+                : `None available ${when}`;
+        case "MAINTENANCE":
+            return "In maintenance";
+        case "TRANSFORMED":
+            return "No longer available — this asset was transformed";
+        case "NOT_FOUND":
+        case "SOFT_DELETED":
+            return "No longer in the catalog";
+        default:
+            return `Unavailable ${when}`;
+    }
+}
+
+export function CartAvailabilityNotice({
+    assetId,
+    quantity,
+    issue,
+    window,
+}: {
+    assetId: string;
+    quantity: number;
+    issue: CartAvailabilityIssue;
+    // Booking window the line was checked against; null = current stock.
+    window: AvailabilityWindow | null;
+}) {
+    const { updateQuantity, removeItem } = useCart();
+    const [showAlternatives, setShowAlternatives] = useState(false);
+
+    return (
+        <div
+            className="mb-3 space-y-2 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-700"
+            data-testid="cart-availability-notice"
+        >
+            <div className="flex items-start gap-1.5">
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                <span>
+                    {describeIssue(issue, quantity, window !== null)}
+                    {issue.nextAvailableDate &&
+                        ` · back ${format(new Date(issue.nextAvailableDate), "d MMM")}`}
+                </span>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+                {issue.fixes.includes("clamp") && (
+                    <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="h-6 gap-1 px-2 text-xs"
+                        onClick={() => updateQuantity(assetId, issue.availableQuantity)}
+                    >
+                        <Minus className="h-3 w-3" />
+                        Set to {issue.availableQuantity}
+                    </Button>
+                )}
+                {issue.fixes.includes("alternatives") && (
+                    <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="h-6 gap-1 px-2 text-xs"
+                        onClick={() => setShowAlternatives((shown) => !shown)}
+                        aria-expanded={showAlternatives}
+                    >
+                        <ArrowLeftRight className="h-3 w-3" />
+                        {showAlternatives ? "Hide alternatives" : "See alternatives"}
+                    </Button>
+                )}
+                {issue.fixes.includes("remove") && (
+                    <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="h-6 gap-1 px-2 text-xs text-destructive"
+                        onClick={() => removeItem(assetId)}
+                    >
+                        <Trash2 className="h-3 w-3" />
+                        Remove
+                    </Button>
+                )}
+            </div>
+            {showAlternatives && (
+                <SubstitutionAssistant blockingItems={[issue.result]} window={window} />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,359 @@
+"use client";
+
+/**
+ * Import into Cart
+ * Bulk-add from a pasted list or an uploaded CSV/XLSX bill of materials.
+ * Rows are resolved against the catalog (asset id → QR code → fuzzy name),
+ * reviewed in a resolution report, and confirmed rows go through `addItem`.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useCart } from "@/contexts/cart-context";
+import {
+    useResolveCartImport,
+    type ImportCandidate,
+    type ResolvedImportRow,
+} from "@/hooks/use-cart-import";
+import { parseImportFile, parseImportText, type ImportRow } from "@/lib/cart/bulk-import";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+
+// Per-row choices made in the review step.
+interface RowSelection {
+    include: boolean;
+    quantity: number;
+    candidate: ImportCandidate | null;
+}
+
+const STATUS_BADGE: Record<ResolvedImportRow["status"], { label: string; className: string }> = {
+    matched: { label: "Matched", className: "bg-emerald-100 text-emerald-700" },
+    ambiguous: { label: "Ambiguous", className: "bg-amber-100 text-amber-700" },
+    not_found: { label: "Not found", className: "bg-red-100 text-red-700" },
+};
+
+function initialSelection(row: ResolvedImportRow): RowSelection {
+    return {
+        include: row.status === "matched",
+        quantity: row.quantity,
+        candidate: row.status === "matched" ? row.match : null,
+    };
+}
+
+export function CartImportDialog() {
+    const { addItem, openCart } = useCart();
+    const resolveImport = useResolveCartImport();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [open, setOpen] = useState(false);
+    const [text, setText] = useState("");
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [rows, setRows] = useState<ResolvedImportRow[] | null>(null);
+    const [selection, setSelection] = useState<RowSelection[]>([]);
+
+    const reset = () => {
+        setText("");
+        setFileName(null);
+        setRows(null);
+        setSelection([]);
+        resolveImport.reset();
+    };
+
+    const handleOpenChange = (next: boolean) => {
+        if (!next) reset();
+        setOpen(next);
+    };
+
+    const resolve = async (parsed: ImportRow[]) => {
+        if (parsed.length === 0) {
+            toast.error("No rows found", {
+                description: "Add one asset per line, optionally with a quantity.",
+            });
+            return;
+        }
+        try {
+            const resolved = await resolveImport.mutateAsync(parsed);
+            setRows(resolved);
+            setSelection(resolved.map(initialSelection));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to resolve rows");
+        }
+    };
+
+    const handleFile = async (file: File) => {
+        setFileName(file.name);
+        try {
+            await resolve(await parseImportFile(file));
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Could not read file");
+        }
+    };
+
+    const updateSelection = (index: number, patch: Partial<RowSelection>) =>
+        setSelection((current) =>
+            current.map((entry, i) => (i === index ? { ...entry, ...patch } : entry))
+        );
+
+    const confirmed = selection.filter((entry) => entry.include && entry.candidate);
+
+    const handleAdd = () => {
+        // Rows pointing at the same asset are merged so the cart gets one
+        // line with the combined quantity.
+        const byAsset = new Map<string, { candidate: ImportCandidate; quantity: number }>();
+        for (const entry of confirmed) {
+            const candidate = entry.candidate!;
+            const existing = byAsset.get(candidate.assetId);
+            byAsset.set(candidate.assetId, {
+                candidate,
+                quantity: (existing?.quantity ?? 0) + entry.quantity,
+            });
+        }
+        byAsset.forEach(({ candidate, quantity }) =>
+            addItem(candidate.assetId, quantity, candidate.details, { silent: true })
+        );
+        toast.success(`Added ${byAsset.size} ${byAsset.size === 1 ? "asset" : "assets"} to cart`);
+        handleOpenChange(false);
+        openCart();
+    };
+
+    const counts = rows
+        ? {
+              matched: rows.filter((row) => row.status === "matched").length,
+              ambiguous: rows.filter((row) => row.status === "ambiguous").length,
+              notFound: rows.filter((row) => row.status === "not_found").length,
+          }
+        : null;
+
+    return (
+        <>
+            <Button variant="outline" onClick={() => setOpen(true)} className="gap-2">
+                <FileSpreadsheet className="h-4 w-4" />
+                Import into cart
+            </Button>
+
+            <Dialog open={open} onOpenChange={handleOpenChange}>
+                <DialogContent className="sm:max-w-3xl">
+                    <DialogHeader>
+                        <DialogTitle className="flex items-center gap-2">
+                            <FileSpreadsheet className="h-5 w-5 text-primary" />
+                            Import into cart
+                        </DialogTitle>
+                        <DialogDescription>
+                            {rows
+                                ? "Review how each row was matched before adding to your cart."
+                                : "Paste a list or upload a CSV/XLSX file. Each row needs a QR code, asset ID or asset name, and optionally a quantity."}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {!rows ? (
+                        <div className="space-y-4 py-2">
+                            <Textarea
+                                value={text}
+                                onChange={(e) => setText(e.target.value)}
+                                placeholder={"QR-000123, 4\nBar stool, 12\n6 x Cocktail table"}
+                                rows={8}
+                                className="font-mono text-sm"
+                                disabled={resolveImport.isPending}
+                            />
+                            <div className="flex items-center gap-3">
+                                <input
+                                    ref={fileInputRef}
+                                    type="file"
+                                    accept=".csv,.tsv,.txt,.xlsx"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) handleFile(file);
+                                        e.target.value = "";
+                                    }}
+                                />
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => fileInputRef.current?.click()}
+                                    disabled={resolveImport.isPending}
+                                    className="gap-2"
+                                >
+                                    <Upload className="h-4 w-4" />
+                                    Upload CSV / XLSX
+                                </Button>
+                                {fileName && (
+                                    <span className="truncate font-mono text-xs text-muted-foreground">
+                                        {fileName}
+                                    </span>
+                                )}
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="space-y-3 py-2">
+                            {counts && (
+                                <div className="flex flex-wrap gap-2 font-mono text-xs">
+                                    <Badge className={STATUS_BADGE.matched.className}>
+                                        {counts.matched} matched
+                                    </Badge>
+                                    <Badge className={STATUS_BADGE.ambiguous.className}>
+                                        {counts.ambiguous} ambiguous
+                                    </Badge>
+                                    <Badge className={STATUS_BADGE.not_found.className}>
+                                        {counts.notFound} not found
+                                    </Badge>
+                                </div>
+                            )}
+                            <ScrollArea className="h-[50vh] rounded-md border border-border">
+                                <div className="divide-y divide-border">
+                                    {rows.map((row, index) => {
+                                        const choice = selection[index];
+                                        const badge = STATUS_BADGE[row.status];
+                                        return (
+                                            <div
+                                                key={`${row.rowNumber}-${index}`}
+                                                className="flex items-center gap-3 p-3"
+                                            >
+                                                <Checkbox
+                                                    checked={choice.include}
+                                                    disabled={!choice.candidate}
+                                                    onCheckedChange={(checked) =>
+                                                        updateSelection(index, {
+                                                            include: checked === true,
+                                                        })
+                                                    }
+                                                    aria-label={`Include row ${row.rowNumber}`}
+                                                />
+                                                <div className="min-w-0 flex-1 space-y-1">
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="font-mono text-[10px] text-muted-foreground">
+                                                            #{row.rowNumber}
+                                                        </span>
+                                                        <span className="truncate text-sm">
+                                                            {row.reference}
+                                                        </span>
+                                                        <Badge className={badge.className}>
+                                                            {badge.label}
+                                                        </Badge>
+                                                    </div>
+                                                    {row.status === "matched" && (
+                                                        <p className="truncate text-xs text-muted-foreground">
+                                                            → {row.match.name}
+                                                            {row.match.code &&
+                                                                ` · ${row.match.code}`}{" "}
+                                                            · {row.match.availableQuantity}{" "}
+                                                            available
+                                                        </p>
+                                                    )}
+                                                    {row.status === "ambiguous" && (
+                                                        <Select
+                                                            value={choice.candidate?.assetId ?? ""}
+                                                            onValueChange={(assetId) =>
+                                                                updateSelection(index, {
+                                                                    candidate:
+                                                                        row.candidates.find(
+                                                                            (c) =>
+                                                                                c.assetId ===
+                                                                                assetId
+                                                                        ) ?? null,
+                                                                    include: true,
+                                                                })
+                                                            }
+                                                        >
+                                                            <SelectTrigger className="h-8 text-xs">
+                                                                <SelectValue placeholder="Choose the right asset…" />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                {row.candidates.map((c) => (
+                                                                    <SelectItem
+                                                                        key={c.assetId}
+                                                                        value={c.assetId}
+                                                                    >
+                                                                        {c.name}
+                                                                        {c.code
+                                                                            ? ` · ${c.code}`
+                                                                            : ""}{" "}
+                                                                        ({c.availableQuantity}{" "}
+                                                                        available)
+                                                                    </SelectItem>
+                                                                ))}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    )}
+                                                </div>
+                                                <Input
+                                                    type="number"
+                                                    min={1}
+                                                    value={choice.quantity}
+                                                    onChange={(e) =>
+                                                        updateSelection(index, {
+                                                            quantity: Math.max(
+                                                                1,
+                                                                Math.floor(
+                                                                    Number(e.target.value) || 1
+                                                                )
+                                                            ),
+                                                        })
+                                                    }
+                                                    className="h-8 w-20 font-mono text-sm"
+                                                    aria-label={`Quantity for row ${row.rowNumber}`}
+                                                />
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </ScrollArea>
+                        </div>
+                    )}
+
+                    <DialogFooter>
+                        {rows ? (
+                            <>
+                                <Button variant="outline" onClick={reset}>
+                                    Start over
+                                </Button>
+                                <Button onClick={handleAdd} disabled={confirmed.length === 0}>
+                                    Add {confirmed.length} {confirmed.length === 1 ? "row" : "rows"}{" "}
+                                    to cart
+                                </Button>
+                            </>
+                        ) : (
+                            <>
+                                <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                                    Cancel
+                                </Button>
+                                <Button
+                                    onClick={() => resolve(parseImportText(text))}
+                                    disabled={!text.trim() || resolveImport.isPending}
+                                >
+                                    {resolveImport.isPending ? (
+                                        <>
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            Matching…
+                                        </>
+                                    ) : (
+                                        "Match rows"
+                                    )}
+                                </Button>
+                            </>
+                        )}
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+/**
+ * Per-line note for ops ("left of the bar, facing the entrance"). Collapsed
+ * to a link until there is a note; commits on blur like the quantity field.
+ */
+
+import { Textarea } from "@/components/ui/textarea";
+import { useCart } from "@/contexts/cart-context";
+import { StickyNote } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+const NOTE_MAX_LENGTH = 500;
+
+export function CartLineNote({ assetId, note }: { assetId: string; note?: string }) {
+    const { updateItemNote } = useCart();
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(note ?? "");
+    const cancelledRef = useRef(false);
+
+    useEffect(() => {
+        setDraft(note ?? "");
+    }, [note]);
+
+    if (!editing && !note) {
+        return (
+            <button
+                type="button"
+                onClick={() => setEditing(true)}
+                className="mt-2 inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            >
+                <StickyNote className="h-3 w-3" />
+                Add note
+            </button>
+        );
+    }
+
+    if (!editing) {
+        return (
+            <button
+                type="button"
+                onClick={() => setEditing(true)}
+                className="mt-2 flex w-full items-start gap-1 rounded-md bg-muted/40 px-2 py-1 text-left text-xs text-muted-foreground hover:bg-muted"
+                title="Edit note"
+            >
+                <StickyNote className="mt-0.5 h-3 w-3 shrink-0" />
+                <span className="whitespace-pre-wrap break-words">{note}</span>
+            </button>
+        );
+    }
+
+    return (
+        <Textarea
+            autoFocus
+            value={draft}
+            maxLength={NOTE_MAX_LENGTH}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => {
+                if (cancelledRef.current) {
+                    cancelledRef.current = false;
+                    setDraft(note ?? "");
+                } else {
+                    updateItemNote(assetId, draft);
+                }
+                setEditing(false);
+            }}
+            onKeyDown={(e) => {
+                if (e.key === "Escape") {
+                    cancelledRef.current = true;
+                    e.currentTarget.blur();
+                }
+            }}
+            placeholder="Placement or handling notes for our team"
+            className="mt-2 min-h-[60px] text-xs"
+            aria-label="Line note"
+        />
+    );
+}
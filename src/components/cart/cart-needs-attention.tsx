@@ -0,0 +1,77 @@
+"use client";
+
+/**
+ * Needs Attention
+ * Cart entries that failed validation when a stored cart was loaded. They're
+ * kept aside instead of wiping the cart — the user can put each one back
+ * (when it still points at an asset) or dismiss it.
+ */
+
+import { Button } from "@/components/ui/button";
+import { useCart } from "@/contexts/cart-context";
+import { AlertTriangle, RotateCcw, X } from "lucide-react";
+
+export function CartNeedsAttention() {
+    const { quarantinedItems, restoreQuarantinedItem, dismissQuarantinedItem } = useCart();
+
+    if (quarantinedItems.length === 0) return null;
+
+    return (
+        <div
+            className="mb-4 rounded-lg border border-amber-300 bg-amber-50 p-3 dark:border-amber-700 dark:bg-amber-950/30"
+            data-testid="cart-needs-attention"
+        >
+            <div className="mb-2 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-amber-600" />
+                <p className="text-[10px] font-mono font-bold uppercase tracking-[0.15em] text-amber-800 dark:text-amber-300">
+                    Needs attention ({quarantinedItems.length})
+                </p>
+            </div>
+            <p className="mb-3 text-xs text-muted-foreground">
+                These items couldn&apos;t be restored from your saved cart.
+            </p>
+            <div className="space-y-2">
+                {quarantinedItems.map((entry) => (
+                    <div
+                        key={entry.id}
+                        className="flex items-center gap-2 rounded-md border border-border bg-background p-2"
+                    >
+                        <div className="min-w-0 flex-1">
+                            <p className="truncate text-sm font-medium">
+                                {entry.assetName || "Unknown item"}
+                                {entry.quantity !== null && (
+                                    <span className="ml-1 font-mono text-xs text-muted-foreground">
+                                        × {entry.quantity}
+                                    </span>
+                                )}
+                            </p>
+                            <p className="text-xs text-amber-700 dark:text-amber-400">
+                                {entry.reason}
+                            </p>
+                        </div>
+                        {entry.assetId && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => restoreQuarantinedItem(entry.id)}
+                                className="h-7 gap-1 px-2 text-xs"
+                            >
+                                <RotateCcw className="h-3 w-3" />
+                                Add back
+                            </Button>
+                        )}
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => dismissQuarantinedItem(entry.id)}
+                            aria-label="Dismiss"
+                            className="h-7 w-7 shrink-0 p-0"
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </Button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
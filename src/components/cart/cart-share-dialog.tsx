@@ -0,0 +1,113 @@
+"use client";
+
+/**
+ * Share Cart
+ * Creates a read-only link to the current cart lines so a colleague (e.g. the
+ * budget holder) can review them and merge them into their own cart.
+ */
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useCart } from "@/contexts/cart-context";
+import { useCreateCartShareLink } from "@/hooks/use-shared-cart";
+import { getAccessToken } from "@/lib/api/api-client";
+import { format } from "date-fns";
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+export function CartShareDialog() {
+    const { items } = useCart();
+    const createLink = useCreateCartShareLink();
+    const [open, setOpen] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    // Links are created server-side, so they need a session.
+    if (items.length === 0 || !getAccessToken()) return null;
+
+    const handleOpen = () => {
+        setOpen(true);
+        setCopied(false);
+        createLink.mutate(items, {
+            onError: (error) => toast.error(error.message || "Couldn't create a share link"),
+        });
+    };
+
+    const handleCopy = async () => {
+        if (!createLink.data) return;
+        try {
+            await navigator.clipboard.writeText(createLink.data.url);
+            setCopied(true);
+        } catch {
+            toast.error("Couldn't copy — select the link and copy it manually");
+        }
+    };
+
+    return (
+        <>
+            <Button
+                variant="outline"
+                onClick={handleOpen}
+                className="w-full gap-2 font-mono text-xs uppercase tracking-wide"
+                data-testid="cart-share"
+            >
+                <Link2 className="h-4 w-4" />
+                Share cart
+            </Button>
+
+            <Dialog open={open} onOpenChange={setOpen}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Share this cart</DialogTitle>
+                        <DialogDescription>
+                            Anyone in your company with the link can preview these {items.length}{" "}
+                            {items.length === 1 ? "item" : "items"} and add them to their own cart.
+                            Later changes to your cart won&apos;t change the link.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {createLink.isPending ? (
+                        <div className="flex items-center gap-2 py-4 text-sm text-muted-foreground">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Creating link…
+                        </div>
+                    ) : createLink.data ? (
+                        <div className="space-y-2">
+                            <div className="flex gap-2">
+                                <Input
+                                    readOnly
+                                    value={createLink.data.url}
+                                    onFocus={(e) => e.currentTarget.select()}
+                                    className="font-mono text-xs"
+                                    aria-label="Share link"
+                                />
+                                <Button onClick={handleCopy} className="shrink-0 gap-2">
+                                    {copied ? (
+                                        <Check className="h-4 w-4" />
+                                    ) : (
+                                        <Copy className="h-4 w-4" />
+                                    )}
+                                    {copied ? "Copied" : "Copy"}
+                                </Button>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                Expires {format(new Date(createLink.data.expires_at), "d MMM yyyy")}
+                            </p>
+                        </div>
+                    ) : (
+                        <Button variant="outline" onClick={handleOpen} className="w-full">
+                            Try again
+                        </Button>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
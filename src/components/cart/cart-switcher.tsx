@@ -0,0 +1,254 @@
+"use client";
+
+/**
+ * Cart Switcher
+ * Named saved carts inside the cart drawer — switch between carts, create,
+ * rename, duplicate, share with the company, or delete the active one.
+ * Carts teammates shared are never edited in place; picking one copies it
+ * to the user's own carts.
+ */
+
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuCheckboxItem,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCart } from "@/contexts/cart-context";
+import { Check, ChevronDown, Copy, Pencil, Plus, Trash2, Users } from "lucide-react";
+import { useState } from "react";
+
+type NameDialogMode = { kind: "create" } | { kind: "rename"; cartId: string; current: string };
+
+function CartNameDialog({
+    mode,
+    onOpenChange,
+    onSubmit,
+}: {
+    mode: NameDialogMode | null;
+    onOpenChange: (open: boolean) => void;
+    onSubmit: (name: string) => Promise<void>;
+}) {
+    const [name, setName] = useState("");
+    const [pending, setPending] = useState(false);
+
+    const handleOpenChange = (open: boolean) => {
+        if (!open) setName("");
+        onOpenChange(open);
+    };
+
+    const handleSubmit = async () => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        setPending(true);
+        try {
+            await onSubmit(trimmed);
+            handleOpenChange(false);
+        } finally {
+            setPending(false);
+        }
+    };
+
+    return (
+        <Dialog open={mode !== null} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-sm">
+                <DialogHeader>
+                    <DialogTitle>
+                        {mode?.kind === "rename" ? "Rename cart" : "New cart"}
+                    </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-2 py-2">
+                    <Label htmlFor="cartName" className="font-mono uppercase text-xs tracking-wide">
+                        Cart name
+                    </Label>
+                    <Input
+                        id="cartName"
+                        autoFocus
+                        value={name}
+                        placeholder={
+                            mode?.kind === "rename" ? mode.current : "e.g., Dubai Expo stand"
+                        }
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter") handleSubmit();
+                        }}
+                        maxLength={80}
+                    />
+                </div>
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => handleOpenChange(false)}
+                        disabled={pending}
+                    >
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={pending || !name.trim()}>
+                        {pending ? "Saving…" : mode?.kind === "rename" ? "Rename" : "Create"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+export function CartSwitcher() {
+    const {
+        activeCartId,
+        savedCarts,
+        switchCart,
+        createCart,
+        renameCart,
+        duplicateCart,
+        deleteCart,
+        setCartShared,
+    } = useCart();
+    const [nameDialog, setNameDialog] = useState<NameDialogMode | null>(null);
+    const [confirmDelete, setConfirmDelete] = useState(false);
+
+    // Nothing to switch between until the first cart has been saved
+    // (signed-out or offline sessions stay on the local cart).
+    if (savedCarts.length === 0 && !activeCartId) return null;
+
+    const activeCart = savedCarts.find((cart) => cart.id === activeCartId) ?? null;
+    const ownCarts = savedCarts.filter((cart) => cart.is_owner);
+    const sharedCarts = savedCarts.filter((cart) => !cart.is_owner);
+
+    const renderCartItem = (cart: (typeof savedCarts)[number]) => (
+        <DropdownMenuItem
+            key={cart.id}
+            onSelect={() => (cart.is_owner ? switchCart(cart.id) : duplicateCart(cart.id))}
+            className="flex items-center gap-2"
+        >
+            <Check
+                className={`h-3.5 w-3.5 shrink-0 ${cart.id === activeCartId ? "opacity-100" : "opacity-0"}`}
+            />
+            <span className="flex-1 truncate">
+                {cart.name}
+                {!cart.is_owner && cart.owner && (
+                    <span className="text-muted-foreground"> · {cart.owner.name}</span>
+                )}
+            </span>
+            {cart.is_owner ? (
+                cart.is_shared && <Users className="h-3 w-3 text-muted-foreground" />
+            ) : (
+                <Copy className="h-3 w-3 text-muted-foreground" aria-label="Copy to my carts" />
+            )}
+            <span className="font-mono text-[10px] text-muted-foreground">{cart.item_count}</span>
+        </DropdownMenuItem>
+    );
+
+    return (
+        <>
+            <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-8 max-w-full gap-2 font-mono text-xs"
+                        data-testid="cart-switcher"
+                    >
+                        <span className="truncate">{activeCart?.name ?? "My cart"}</span>
+                        <ChevronDown className="h-3.5 w-3.5 shrink-0" />
+                    </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start" className="w-72">
+                    <DropdownMenuLabel className="font-mono text-[10px] uppercase tracking-[0.15em] text-muted-foreground">
+                        Your carts
+                    </DropdownMenuLabel>
+                    {ownCarts.map(renderCartItem)}
+                    {sharedCarts.length > 0 && (
+                        <>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuLabel className="font-mono text-[10px] uppercase tracking-[0.15em] text-muted-foreground">
+                                Shared with you — pick one to copy it
+                            </DropdownMenuLabel>
+                            {sharedCarts.map(renderCartItem)}
+                        </>
+                    )}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => setNameDialog({ kind: "create" })}>
+                        <Plus className="h-3.5 w-3.5" />
+                        New cart…
+                    </DropdownMenuItem>
+                    {activeCart?.is_owner && (
+                        <>
+                            <DropdownMenuItem
+                                onSelect={() =>
+                                    setNameDialog({
+                                        kind: "rename",
+                                        cartId: activeCart.id,
+                                        current: activeCart.name,
+                                    })
+                                }
+                            >
+                                <Pencil className="h-3.5 w-3.5" />
+                                Rename…
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onSelect={() => duplicateCart(activeCart.id)}>
+                                <Copy className="h-3.5 w-3.5" />
+                                Duplicate
+                            </DropdownMenuItem>
+                            <DropdownMenuCheckboxItem
+                                checked={activeCart.is_shared}
+                                onCheckedChange={(checked) =>
+                                    setCartShared(activeCart.id, checked === true)
+                                }
+                            >
+                                Share with my company
+                            </DropdownMenuCheckboxItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                                onSelect={() => setConfirmDelete(true)}
+                                className="text-destructive focus:text-destructive"
+                            >
+                                <Trash2 className="h-3.5 w-3.5" />
+                                Delete cart
+                            </DropdownMenuItem>
+                        </>
+                    )}
+                </DropdownMenuContent>
+            </DropdownMenu>
+
+            <CartNameDialog
+                mode={nameDialog}
+                onOpenChange={(open) => {
+                    if (!open) setNameDialog(null);
+                }}
+                onSubmit={async (name) => {
+                    if (nameDialog?.kind === "rename") {
+                        await renameCart(nameDialog.cartId, name);
+                    } else {
+                        await createCart(name);
+                    }
+                }}
+            />
+
+            <ConfirmDialog
+                open={confirmDelete}
+                onOpenChange={setConfirmDelete}
+                onConfirm={() => {
+                    if (activeCart) deleteCart(activeCart.id);
+                }}
+                title="Delete this cart?"
+                description={`"${activeCart?.name ?? "This cart"}" and its items will be removed on all your devices. This can't be undone.`}
+                confirmText="Delete cart"
+                variant="destructive"
+            />
+        </>
+    );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+/**
+ * BLOCK commerce-rule hits as a list of "this line has to change" notices,
+ * each linking to the offending cart line. Shared by the cart drawer and the
+ * checkout cart and review steps, which decide what "go to the line" means.
+ */
+
+import { Button } from "@/components/ui/button";
+import { useCart } from "@/contexts/cart-context";
+import type { CommerceRuleBlock } from "@/lib/cart/commerce-rules";
+import { ArrowRight, Ban } from "lucide-react";
+
+export function CommerceRuleBlocks({
+    blocks,
+    onFix,
+}: {
+    blocks: CommerceRuleBlock[];
+    onFix: (assetId: string) => void;
+}) {
+    const { items } = useCart();
+
+    if (blocks.length === 0) return null;
+
+    return (
+        <div
+            className="space-y-1.5 rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700"
+            data-testid="commerce-rule-blocks"
+        >
+            {blocks.map(({ hit, assetId }) => {
+                const line = assetId ? items.find((item) => item.assetId === assetId) : null;
+                return (
+                    <div key={hit.rule_id} className="flex items-start gap-1.5">
+                        <Ban className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                        <span className="flex-1">
+                            {line && <span className="font-medium">{line.assetName}: </span>}
+                            {hit.message}
+                        </span>
+                        {assetId && (
+                            <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                className="h-6 shrink-0 gap-1 border-red-200 bg-white px-2 text-xs text-red-700 hover:bg-red-100"
+                                onClick={() => onFix(assetId)}
+                            >
+                                Fix this line
+                                <ArrowRight className="h-3 w-3" />
+                            </Button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+/**
+ * Recommendation cards for SUGGEST commerce-rule hits ("Add cable covers for
+ * these screens"): the suggested asset's image and availability with a
+ * one-click add. Shared by the cart drawer and the checkout cart and review
+ * steps; a card disappears once its asset is in the cart.
+ */
+
+import { Button } from "@/components/ui/button";
+import { useCart } from "@/contexts/cart-context";
+import { useRuleSuggestionAssets, type CommerceRuleHit } from "@/hooks/use-commerce-rules";
+import { cartDetails } from "@/lib/cart/cart-details";
+import type { AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+import { cn } from "@/lib/utils";
+import type { CatalogAssetDetails } from "@/types/collection";
+import { format } from "date-fns";
+import { Lightbulb, Package, Plus } from "lucide-react";
+import Image from "next/image";
+import { toast } from "sonner";
+
+export function CommerceRuleSuggestions({
+    hits,
+    window,
+    compact = false,
+}: {
+    // SUGGEST hits for assets not yet in the cart (see `sortRuleHits`).
+    hits: CommerceRuleHit[];
+    window: AvailabilityWindow | null;
+    compact?: boolean;
+}) {
+    const { addItem, undo } = useCart();
+    const assets = useRuleSuggestionAssets({ hits, window });
+
+    // Silent so the drawer doesn't pop open over checkout; the toast still
+    // offers the undo.
+    const add = (asset: CatalogAssetDetails) => {
+        addItem(asset.id, 1, cartDetails(asset), { silent: true });
+        toast.success("Added to cart", {
+            description: asset.name,
+            action: { label: "Undo", onClick: () => undo() },
+        });
+    };
+
+    if (hits.length === 0) return null;
+    const when = window ? "for your dates" : "right now";
+
+    return (
+        <div className="space-y-2" data-testid="commerce-rule-suggestions">
+            <p className="flex items-center gap-1.5 text-xs font-mono uppercase tracking-wide text-muted-foreground">
+                <Lightbulb className="h-3.5 w-3.5 text-primary" />
+                Recommended for this order
+            </p>
+            <div className={cn("grid gap-2", !compact && "sm:grid-cols-2")}>
+                {hits.map((hit) => {
+                    const suggestion = assets.data?.get(hit.related_asset_id!);
+                    const asset = suggestion?.asset;
+                    const image = asset ? asset.onDisplayImage || asset.images[0]?.url : null;
+                    return (
+                        <div
+                            key={hit.rule_id}
+                            className="flex items-center gap-3 rounded-md border border-primary/20 bg-primary/5 p-2"
+                            data-testid="commerce-rule-suggestion"
+                        >
+                            <div className="h-12 w-12 shrink-0 overflow-hidden rounded border border-border bg-muted">
+                                {image ? (
+                                    <Image
+                                        src={image}
+                                        alt={asset!.name}
+                                        width={48}
+                                        height={48}
+                                        className="h-full w-full object-cover"
+                                    />
+                                ) : (
+                                    <div className="flex h-full w-full items-center justify-center">
+                                        <Package className="h-5 w-5 text-muted-foreground/40" />
+                                    </div>
+                                )}
+                            </div>
+                            <div className="min-w-0 flex-1">
+                                <p className="text-sm font-medium">{hit.message}</p>
+                                {asset && (
+                                    <p className="truncate text-xs text-muted-foreground">
+                                        {asset.name}
+                                        <span
+                                            className={cn(
+                                                "font-mono",
+                                                !suggestion.isAvailable && "text-red-700"
+                                            )}
+                                        >
+                                            {" · "}
+                                            {suggestion.isAvailable
+                                                ? `${suggestion.availableQuantity} available ${when}`
+                                                : `Not available ${when}`}
+                                            {!suggestion.isAvailable &&
+                                                suggestion.nextAvailableDate &&
+                                                ` · back ${format(new Date(suggestion.nextAvailableDate), "d MMM")}`}
+                                        </span>
+                                    </p>
+                                )}
+                            </div>
+                            <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                className="h-7 shrink-0 gap-1 px-2 text-xs"
+                                disabled={!asset || !suggestion.isAvailable}
+                                onClick={() => asset && add(asset)}
+                            >
+                                <Plus className="h-3 w-3" />
+                                Add to cart
+                            </Button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -5,9 +5,26 @@
  * Slide-out cart with industrial-luxury aesthetic
  */
 
+import { CartAreaBoard } from "@/components/cart/cart-area-board";
+import { CartAvailabilityNotice } from "@/components/cart/cart-availability-notice";
+import { CommerceRuleBlocks } from "@/components/cart/commerce-rule-blocks";
+import { CommerceRuleSuggestions } from "@/components/cart/commerce-rule-suggestions";
+import { CartLineNote } from "@/components/cart/cart-line-note";
+import { CartShareDialog } from "@/components/cart/cart-share-dialog";
+import { CartNeedsAttention } from "@/components/cart/cart-needs-attention";
+import { LoadPlannerPanel } from "@/components/cart/load-planner-panel";
+import { CartSwitcher } from "@/components/cart/cart-switcher";
+import { RecentlyRemovedTray } from "@/components/cart/recently-removed-tray";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useCart } from "@/contexts/cart-context";
+import { useCartAvailability } from "@/hooks/use-cart-availability";
+import { useCartLineFocus } from "@/hooks/use-cart-line-focus";
+import { useCommerceRuleHits } from "@/hooks/use-commerce-rules";
+import { useLoadPlan } from "@/hooks/use-load-plan";
+import { commerceRulePayload, sortRuleHits } from "@/lib/cart/commerce-rules";
+import { loadCheckoutWindow } from "@/lib/checkout/checkout-storage";
+import { cn } from "@/lib/utils";
 import { AnimatePresence, motion } from "framer-motion";
 import {
     AlertCircle,
@@ -16,13 +33,15 @@ import {
     Minus,
     Package,
     Plus,
+    Redo2,
     ShoppingCart,
     Trash2,
+    Undo2,
     X,
 } from "lucide-react";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 
 // Lets the user type a quantity directly (paper cups etc. need thousands).
 // Local string state so intermediate values like "1" → "12" → "123" don't
@@ -73,10 +92,30 @@ export function FloatingCart() {
         closeCart,
         removeItem,
         updateQuantity,
+        canUndo,
+        canRedo,
+        undo,
+        redo,
     } = useCart();
 
     const router = useRouter();
 
+    // Re-check against the dates picked at checkout, if any. Read once per
+    // open — the checkpoint only changes on the checkout page.
+    const checkoutWindow = useMemo(() => (isOpen ? loadCheckoutWindow() : null), [isOpen]);
+    const availability = useCartAvailability({ window: checkoutWindow, enabled: isOpen });
+    const loadPlan = useLoadPlan(items, { enabled: isOpen });
+
+    // Commerce rules re-run on every cart change while the drawer is open,
+    // not just at checkout.
+    const rulePayload = useMemo(() => commerceRulePayload(items), [items]);
+    const rules = useCommerceRuleHits({ payload: rulePayload, enabled: isOpen });
+    const ruleHits = useMemo(
+        () => sortRuleHits(rules.data?.hits ?? [], items),
+        [rules.data, items]
+    );
+    const lineFocus = useCartLineFocus();
+
     const handleCheckout = () => {
         closeCart();
         router.push("/checkout");
@@ -133,14 +172,42 @@ export function FloatingCart() {
                                     </div>
                                 </div>
 
-                                <Button
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={closeCart}
-                                    className="h-8 w-8 p-0"
-                                >
-                                    <X className="h-4 w-4" />
-                                </Button>
+                                <div className="flex items-center gap-1">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={undo}
+                                        disabled={!canUndo}
+                                        aria-label="Undo"
+                                        title="Undo (Ctrl+Z)"
+                                        className="h-8 w-8 p-0"
+                                    >
+                                        <Undo2 className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={redo}
+                                        disabled={!canRedo}
+                                        aria-label="Redo"
+                                        title="Redo (Ctrl+Shift+Z)"
+                                        className="h-8 w-8 p-0"
+                                    >
+                                        <Redo2 className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={closeCart}
+                                        className="h-8 w-8 p-0"
+                                    >
+                                        <X className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                            </div>
+
+                            <div className="mt-3 relative z-10">
+                                <CartSwitcher />
                             </div>
 
                             {/* Stats Bar */}
@@ -168,6 +235,7 @@ export function FloatingCart() {
 
                         {/* Cart Items */}
                         <ScrollArea className="flex-1 p-6">
+                            <CartNeedsAttention />
                             {items.length === 0 ? (
                                 <div className="flex flex-col items-center justify-center h-full text-center py-12">
                                     <div className="h-20 w-20 rounded-full bg-muted/50 flex items-center justify-center mb-4">
@@ -182,140 +250,200 @@ export function FloatingCart() {
                                 </div>
                             ) : (
                                 <div className="space-y-4">
-                                    {items.map((item, index) => (
-                                        <motion.div
-                                            key={item.assetId}
-                                            initial={{ opacity: 0, y: 20 }}
-                                            animate={{ opacity: 1, y: 0 }}
-                                            exit={{ opacity: 0, x: 100 }}
-                                            transition={{ delay: index * 0.05 }}
-                                            className="bg-background rounded-lg border border-border p-4 group hover:border-primary/30 transition-colors"
-                                        >
-                                            <div className="flex gap-4">
-                                                {/* Thumbnail */}
-                                                <div className="w-20 h-20 rounded-md overflow-hidden border border-border shrink-0 bg-muted">
-                                                    {item.image ? (
-                                                        <Image
-                                                            src={item.image}
-                                                            alt={item.assetName}
-                                                            width={80}
-                                                            height={80}
-                                                            className="object-cover w-full h-full"
-                                                        />
-                                                    ) : (
-                                                        <div className="w-full h-full flex items-center justify-center">
-                                                            <Package className="h-8 w-8 text-muted-foreground/30" />
-                                                        </div>
-                                                    )}
-                                                </div>
-
-                                                {/* Details */}
-                                                <div className="flex-1 min-w-0">
-                                                    <div className="flex items-start justify-between gap-2 mb-2">
-                                                        <div className="flex-1 min-w-0">
-                                                            <h4 className="font-medium text-sm line-clamp-2 break-words">
-                                                                {item.assetName}
-                                                            </h4>
-                                                            {item.fromCollectionName && (
-                                                                <p className="text-xs text-muted-foreground font-mono line-clamp-1 break-words">
-                                                                    From: {item.fromCollectionName}
-                                                                </p>
-                                                            )}
-                                                        </div>
-                                                        <Button
-                                                            variant="ghost"
-                                                            size="sm"
-                                                            onClick={() => removeItem(item.assetId)}
-                                                            aria-label="Remove item"
-                                                            className="h-8 w-8 p-0 shrink-0 hover:bg-destructive/10"
-                                                        >
-                                                            <Trash2 className="h-4 w-4 text-destructive" />
-                                                        </Button>
-                                                    </div>
-
-                                                    {/* Specs */}
-                                                    <div className="flex items-center gap-3 text-xs text-muted-foreground font-mono mb-3">
-                                                        <span>{item.volume} m³</span>
-                                                        <span className="text-border">•</span>
-                                                        <span>{item.weight} kg</span>
+                                    <CommerceRuleBlocks
+                                        blocks={ruleHits.blocks}
+                                        onFix={lineFocus.focusLine}
+                                    />
+                                    <CartAreaBoard
+                                        renderItem={(item, dragHandle) => (
+                                            <motion.div
+                                                ref={lineFocus.lineRef(item.assetId)}
+                                                initial={{ opacity: 0, y: 20 }}
+                                                animate={{ opacity: 1, y: 0 }}
+                                                exit={{ opacity: 0, x: 100 }}
+                                                transition={{ delay: items.indexOf(item) * 0.05 }}
+                                                className={cn(
+                                                    "bg-background rounded-lg border border-border p-4 group hover:border-primary/30 transition-colors",
+                                                    lineFocus.focusedLine === item.assetId &&
+                                                        "ring-2 ring-red-400 ring-offset-1"
+                                                )}
+                                            >
+                                                <div className="flex gap-4">
+                                                    {dragHandle}
+                                                    {/* Thumbnail */}
+                                                    <div className="w-20 h-20 rounded-md overflow-hidden border border-border shrink-0 bg-muted">
+                                                        {item.image ? (
+                                                            <Image
+                                                                src={item.image}
+                                                                alt={item.assetName}
+                                                                width={80}
+                                                                height={80}
+                                                                className="object-cover w-full h-full"
+                                                            />
+                                                        ) : (
+                                                            <div className="w-full h-full flex items-center justify-center">
+                                                                <Package className="h-8 w-8 text-muted-foreground/30" />
+                                                            </div>
+                                                        )}
                                                     </div>
 
-                                                    {(item.condition === "ORANGE" ||
-                                                        item.condition === "RED") && (
-                                                        <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
-                                                            <span
-                                                                className={
-                                                                    item.condition === "RED"
-                                                                        ? "inline-flex items-center gap-1 rounded-full bg-red-100 px-1.5 py-0.5 font-medium text-red-700"
-                                                                        : "inline-flex items-center gap-1 rounded-full bg-amber-100 px-1.5 py-0.5 font-medium text-amber-700"
-                                                                }
-                                                            >
-                                                                <AlertCircle className="h-3 w-3" />
-                                                                {item.condition}
-                                                            </span>
-                                                            <span className="text-muted-foreground">
-                                                                {item.maintenanceDecision ===
-                                                                "FIX_IN_ORDER"
-                                                                    ? "Repair before event"
-                                                                    : item.maintenanceDecision ===
-                                                                        "USE_AS_IS"
-                                                                      ? "Accept current condition"
-                                                                      : "Decision needed"}
-                                                            </span>
-                                                        </div>
-                                                    )}
-
-                                                    {/* Quantity Controls */}
-                                                    <div className="flex items-center gap-2">
-                                                        <div className="flex items-center border border-border rounded-md overflow-hidden">
+                                                    {/* Details */}
+                                                    <div className="flex-1 min-w-0">
+                                                        <div className="flex items-start justify-between gap-2 mb-2">
+                                                            <div className="flex-1 min-w-0">
+                                                                <h4 className="font-medium text-sm line-clamp-2 break-words">
+                                                                    {item.assetName}
+                                                                </h4>
+                                                                {item.fromCollectionName && (
+                                                                    <p className="text-xs text-muted-foreground font-mono line-clamp-1 break-words">
+                                                                        From:{" "}
+                                                                        {item.fromCollectionName}
+                                                                    </p>
+                                                                )}
+                                                            </div>
                                                             <Button
                                                                 variant="ghost"
                                                                 size="sm"
                                                                 onClick={() =>
-                                                                    updateQuantity(
-                                                                        item.assetId,
-                                                                        item.quantity - 1
-                                                                    )
+                                                                    removeItem(item.assetId)
                                                                 }
-                                                                disabled={item.quantity <= 1}
-                                                                className="h-7 w-7 p-0 rounded-none border-r border-border hover:bg-muted"
+                                                                aria-label="Remove item"
+                                                                className="h-8 w-8 p-0 shrink-0 hover:bg-destructive/10"
                                                             >
-                                                                <Minus className="h-3 w-3" />
+                                                                <Trash2 className="h-4 w-4 text-destructive" />
                                                             </Button>
-                                                            <QuantityField
-                                                                value={item.quantity}
-                                                                onCommit={(next) =>
-                                                                    updateQuantity(
-                                                                        item.assetId,
-                                                                        next
-                                                                    )
+                                                        </div>
+
+                                                        {/* Specs */}
+                                                        <div className="flex items-center gap-3 text-xs text-muted-foreground font-mono mb-3">
+                                                            <span>{item.volume} m³</span>
+                                                            <span className="text-border">•</span>
+                                                            <span>{item.weight} kg</span>
+                                                        </div>
+
+                                                        {(item.condition === "ORANGE" ||
+                                                            item.condition === "RED") && (
+                                                            <div className="mb-3 flex flex-wrap items-center gap-2 text-xs">
+                                                                <span
+                                                                    className={
+                                                                        item.condition === "RED"
+                                                                            ? "inline-flex items-center gap-1 rounded-full bg-red-100 px-1.5 py-0.5 font-medium text-red-700"
+                                                                            : "inline-flex items-center gap-1 rounded-full bg-amber-100 px-1.5 py-0.5 font-medium text-amber-700"
+                                                                    }
+                                                                >
+                                                                    <AlertCircle className="h-3 w-3" />
+                                                                    {item.condition}
+                                                                </span>
+                                                                <span className="text-muted-foreground">
+                                                                    {item.maintenanceDecision ===
+                                                                    "FIX_IN_ORDER"
+                                                                        ? "Repair before event"
+                                                                        : item.maintenanceDecision ===
+                                                                            "USE_AS_IS"
+                                                                          ? "Accept current condition"
+                                                                          : "Decision needed"}
+                                                                </span>
+                                                            </div>
+                                                        )}
+
+                                                        {availability.issues.has(item.assetId) && (
+                                                            <CartAvailabilityNotice
+                                                                assetId={item.assetId}
+                                                                quantity={item.quantity}
+                                                                issue={
+                                                                    availability.issues.get(
+                                                                        item.assetId
+                                                                    )!
                                                                 }
+                                                                window={availability.window}
                                                             />
-                                                            <Button
-                                                                variant="ghost"
-                                                                size="sm"
-                                                                onClick={() =>
-                                                                    updateQuantity(
-                                                                        item.assetId,
-                                                                        item.quantity + 1
-                                                                    )
-                                                                }
-                                                                className="h-7 w-7 p-0 rounded-none border-l border-border hover:bg-muted"
-                                                            >
-                                                                <Plus className="h-3 w-3" />
-                                                            </Button>
+                                                        )}
+
+                                                        {ruleHits.notices
+                                                            .filter(
+                                                                (hit) =>
+                                                                    hit.severity === "WARN" &&
+                                                                    hit.related_asset_id ===
+                                                                        item.assetId
+                                                            )
+                                                            .map((hit) => (
+                                                                <div
+                                                                    key={hit.rule_id}
+                                                                    className="mb-3 flex items-start gap-1.5 rounded border border-amber-300/60 bg-amber-50 px-2 py-1 text-xs text-amber-700"
+                                                                >
+                                                                    <AlertCircle className="mt-0.5 h-3 w-3 shrink-0" />
+                                                                    <span>{hit.message}</span>
+                                                                </div>
+                                                            ))}
+
+                                                        {/* Quantity Controls */}
+                                                        <div className="flex items-center gap-2">
+                                                            <div className="flex items-center border border-border rounded-md overflow-hidden">
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    size="sm"
+                                                                    onClick={() =>
+                                                                        updateQuantity(
+                                                                            item.assetId,
+                                                                            item.quantity - 1
+                                                                        )
+                                                                    }
+                                                                    disabled={item.quantity <= 1}
+                                                                    className="h-7 w-7 p-0 rounded-none border-r border-border hover:bg-muted"
+                                                                >
+                                                                    <Minus className="h-3 w-3" />
+                                                                </Button>
+                                                                <QuantityField
+                                                                    value={item.quantity}
+                                                                    onCommit={(next) =>
+                                                                        updateQuantity(
+                                                                            item.assetId,
+                                                                            next
+                                                                        )
+                                                                    }
+                                                                />
+                                                                <Button
+                                                                    variant="ghost"
+                                                                    size="sm"
+                                                                    onClick={() =>
+                                                                        updateQuantity(
+                                                                            item.assetId,
+                                                                            item.quantity + 1
+                                                                        )
+                                                                    }
+                                                                    className="h-7 w-7 p-0 rounded-none border-l border-border hover:bg-muted"
+                                                                >
+                                                                    <Plus className="h-3 w-3" />
+                                                                </Button>
+                                                            </div>
+                                                            <span className="text-xs text-muted-foreground font-mono">
+                                                                {availability.availableQuantities.get(
+                                                                    item.assetId
+                                                                ) ?? item.availableQuantity}{" "}
+                                                                {availability.hasWindow
+                                                                    ? "available for your dates"
+                                                                    : "currently available"}
+                                                            </span>
                                                         </div>
-                                                        <span className="text-xs text-muted-foreground font-mono">
-                                                            {item.availableQuantity} currently
-                                                            available
-                                                        </span>
+
+                                                        <CartLineNote
+                                                            assetId={item.assetId}
+                                                            note={item.note}
+                                                        />
                                                     </div>
                                                 </div>
-                                            </div>
-                                        </motion.div>
-                                    ))}
+                                            </motion.div>
+                                        )}
+                                    />
+                                    <CommerceRuleSuggestions
+                                        hits={ruleHits.suggestions}
+                                        window={checkoutWindow}
+                                        compact
+                                    />
+                                    <LoadPlannerPanel plan={loadPlan.plan} compact />
                                 </div>
                             )}
+                            <RecentlyRemovedTray />
                         </ScrollArea>
 
                         {/* Footer */}
@@ -362,6 +490,8 @@ export function FloatingCart() {
                                         <ArrowRight className="h-4 w-4 ml-auto" />
                                     </Button>
 
+                                    <CartShareDialog />
+
                                     <Button
                                         variant="ghost"
                                         onClick={closeCart}
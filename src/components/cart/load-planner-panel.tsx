@@ -0,0 +1,91 @@
+"use client";
+
+/**
+ * Load Planner Panel
+ * Vehicles the cart needs, how full they'd be, and items too big or heavy
+ * for any vehicle. `compact` is the cart drawer variant.
+ */
+
+import type { LoadPlan } from "@/lib/cart/load-planner";
+import { AlertTriangle, Truck } from "lucide-react";
+
+function UtilisationBar({ label, value }: { label: string; value: number }) {
+    const percent = Math.round(value * 100);
+    return (
+        <div className="flex-1">
+            <div className="mb-1 flex justify-between font-mono text-[10px] uppercase tracking-wide text-muted-foreground">
+                <span>{label}</span>
+                <span>{percent}%</span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-muted">
+                <div
+                    className={`h-full rounded-full ${percent > 90 ? "bg-amber-500" : "bg-primary"}`}
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+        </div>
+    );
+}
+
+export function LoadPlannerPanel({
+    plan,
+    compact = false,
+}: {
+    plan: LoadPlan | null;
+    compact?: boolean;
+}) {
+    if (!plan || plan.vehicles.length === 0) return null;
+
+    const summary = plan.vehicles
+        .map((vehicle) => `${vehicle.count} × ${vehicle.label}`)
+        .join(" + ");
+
+    return (
+        <div
+            className={`rounded-lg border border-border/50 bg-background/50 ${compact ? "p-3" : "p-4"}`}
+            data-testid="load-planner"
+        >
+            <div className="flex items-start gap-3">
+                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md border border-primary/30 bg-primary/10">
+                    <Truck className="h-4 w-4 text-primary" />
+                </div>
+                <div className="min-w-0 flex-1">
+                    <p className="font-mono text-[10px] uppercase tracking-[0.15em] text-muted-foreground">
+                        Suggested transport
+                    </p>
+                    <p className="text-sm font-semibold">{summary}</p>
+                    {!compact && (
+                        <p className="mt-0.5 text-xs text-muted-foreground">
+                            Smallest vehicle set that fits {plan.totalVolume.toFixed(2)} m³ and{" "}
+                            {plan.totalWeight.toFixed(1)} kg. Used for your transport estimate.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            <div className="mt-3 flex gap-4">
+                <UtilisationBar label="Volume" value={plan.volumeUtilisation} />
+                <UtilisationBar label="Weight" value={plan.weightUtilisation} />
+            </div>
+
+            {plan.oversizeItems.length > 0 && (
+                <div className="mt-3 space-y-1 rounded-md border border-amber-300 bg-amber-50 p-2 text-xs text-amber-800">
+                    <div className="flex items-center gap-1.5 font-medium">
+                        <AlertTriangle className="h-3.5 w-3.5" />
+                        Won&apos;t fit a standard vehicle — our team will arrange special transport
+                    </div>
+                    <ul className="ml-5 list-disc">
+                        {plan.oversizeItems.map((item) => (
+                            <li key={item.assetId}>
+                                {item.assetName}{" "}
+                                <span className="text-amber-700">
+                                    ({item.reason === "WEIGHT" ? "too heavy" : "oversize"})
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+/**
+ * Recently Removed
+ * The last few lines taken out of the cart this session, so a removal can be
+ * reversed after other edits have pushed it out of undo reach.
+ */
+
+import { Button } from "@/components/ui/button";
+import { useCart } from "@/contexts/cart-context";
+import { ChevronDown, ChevronRight, History, RotateCcw } from "lucide-react";
+import { useState } from "react";
+
+export function RecentlyRemovedTray() {
+    const { recentlyRemoved, restoreRemovedItem, clearRecentlyRemoved } = useCart();
+    const [expanded, setExpanded] = useState(false);
+
+    if (recentlyRemoved.length === 0) return null;
+
+    return (
+        <div
+            className="mt-4 rounded-lg border border-border/50 bg-background/50 p-3"
+            data-testid="cart-recently-removed"
+        >
+            <div className="flex items-center justify-between gap-2">
+                <button
+                    type="button"
+                    onClick={() => setExpanded((value) => !value)}
+                    className="flex items-center gap-2 text-left"
+                    aria-expanded={expanded}
+                >
+                    {expanded ? (
+                        <ChevronDown className="h-3.5 w-3.5 text-muted-foreground" />
+                    ) : (
+                        <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />
+                    )}
+                    <History className="h-3.5 w-3.5 text-muted-foreground" />
+                    <span className="text-[10px] font-mono font-bold uppercase tracking-[0.15em] text-muted-foreground">
+                        Recently removed ({recentlyRemoved.length})
+                    </span>
+                </button>
+                {expanded && (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={clearRecentlyRemoved}
+                        className="h-6 px-2 text-xs text-muted-foreground"
+                    >
+                        Clear
+                    </Button>
+                )}
+            </div>
+
+            {expanded && (
+                <div className="mt-3 space-y-2">
+                    {recentlyRemoved.map((item) => (
+                        <div
+                            key={item.assetId}
+                            className="flex items-center gap-2 rounded-md border border-border bg-background p-2"
+                        >
+                            <p className="min-w-0 flex-1 truncate text-sm">
+                                {item.assetName}
+                                <span className="ml-1 font-mono text-xs text-muted-foreground">
+                                    × {item.quantity}
+                                </span>
+                            </p>
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => restoreRemovedItem(item.assetId)}
+                                className="h-7 gap-1 px-2 text-xs"
+                            >
+                                <RotateCcw className="h-3 w-3" />
+                                Restore
+                            </Button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
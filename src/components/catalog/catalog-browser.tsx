@@ -24,6 +24,7 @@ import { useClientTeams } from "@/hooks/use-client-teams";
 import { useToken } from "@/lib/auth/use-token";
 import type { CatalogItem } from "@/types/collection";
 import { CatalogCard } from "@/components/catalog/catalog-card";
+import { CartImportDialog } from "@/components/cart/cart-import-dialog";
 
 /**
  * Shared catalog browser — the single source of the search + brand/category/team
@@ -271,11 +272,15 @@ export function CatalogBrowser({
                             </TabsList>
                         </Tabs>
 
-                        {hasActiveFilters && (
-                            <Button variant="outline" onClick={clearFilters}>
-                                Clear filters
-                            </Button>
-                        )}
+                        <div className="flex flex-wrap items-center gap-2">
+                            {hasActiveFilters && (
+                                <Button variant="outline" onClick={clearFilters}>
+                                    Clear filters
+                                </Button>
+                            )}
+                            {/* Bulk add only makes sense with the add-to-cart cards */}
+                            {!renderCard && <CartImportDialog />}
+                        </div>
                     </div>
 
                     {isLoading ? (
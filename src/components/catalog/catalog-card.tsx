@@ -14,7 +14,8 @@ import {
     DialogTitle,
     DialogTrigger,
 } from "@/components/ui/dialog";
-import type { CatalogAssetDetails, CatalogAssetItem, CatalogItem } from "@/types/collection";
+import { cartDetails, catalogAssetCartDetails } from "@/lib/cart/cart-details";
+import type { CatalogItem } from "@/types/collection";
 
 function hexWithAlpha(hex: string | null | undefined, alphaHex: string) {
     if (!hex) return undefined;
@@ -22,44 +23,6 @@ function hexWithAlpha(hex: string | null | undefined, alphaHex: string) {
     return `${normalized}${alphaHex}`;
 }
 
-function cartDetails(asset: CatalogAssetDetails) {
-    return {
-        assetName: asset.name,
-        availableQuantity: asset.availableQuantity,
-        volume: Number(asset.volume),
-        weight: Number(asset.weight),
-        image: asset.onDisplayImage || asset.images[0]?.url,
-        condition: asset.condition,
-        conditionNotes: asset.conditionNotes,
-        // Condition/maintenance views show scan/return imagery only — exclude the
-        // client-curated catalogue photos that now also live in `images`.
-        conditionImages: asset.images.filter((img) => img.source !== "CLIENT"),
-        refurbDaysEstimate: asset.refurbDaysEstimate,
-        dimensionLength: Number(asset.dimensionLength),
-        dimensionWidth: Number(asset.dimensionWidth),
-        dimensionHeight: Number(asset.dimensionHeight),
-        category: asset.category,
-    };
-}
-
-function catalogAssetCartDetails(asset: CatalogAssetItem) {
-    return {
-        assetName: asset.name,
-        availableQuantity: asset.availableQuantity,
-        volume: Number(asset.volume),
-        weight: Number(asset.weight),
-        image: asset.onDisplayImage || asset.images[0],
-        condition: asset.condition,
-        conditionNotes: asset.conditionNotes || undefined,
-        conditionImages: asset.images.map((url) => ({ url })),
-        refurbDaysEstimate: asset.refurbDaysEstimate || undefined,
-        dimensionLength: Number(asset.dimensionLength),
-        dimensionWidth: Number(asset.dimensionWidth),
-        dimensionHeight: Number(asset.dimensionHeight),
-        category: asset.category || "",
-    };
-}
-
 export function CatalogCard({ item }: { item: CatalogItem }) {
     const { addItem, openCart } = useCart();
     const [pickerOpen, setPickerOpen] = useState(false);
@@ -0,0 +1,107 @@
+"use client";
+
+/**
+ * ContinueCheckoutCard — dashboard entry for a checkout the user started
+ * (on any device) and hasn't submitted. Shows where they stopped and, when
+ * the draft belongs to a different saved cart, switches to that cart before
+ * opening checkout so the restored step matches the items.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowRight, ClipboardList, MapPin, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useCart } from "@/contexts/cart-context";
+import { useCheckoutDraft, useDiscardCheckoutDraft } from "@/hooks/use-checkout-draft";
+import { CHECKOUT_STEPS } from "@/lib/checkout/checkout-steps";
+import { clearCheckoutCheckpoint } from "@/lib/checkout/checkout-storage";
+import { toast } from "sonner";
+
+export function ContinueCheckoutCard() {
+    const router = useRouter();
+    const { activeCartId, switchCart } = useCart();
+    const { data: draft } = useCheckoutDraft();
+    const discardDraft = useDiscardCheckoutDraft();
+    const [opening, setOpening] = useState(false);
+
+    if (!draft) return null;
+
+    const stepLabel = CHECKOUT_STEPS.find((step) => step.key === draft.step)?.label;
+    const venueName = typeof draft.form.venue_name === "string" ? draft.form.venue_name : "";
+
+    const handleContinue = async () => {
+        setOpening(true);
+        try {
+            // A failed switch has been reported; checkout would open the
+            // wrong cart's items under this draft.
+            if (draft.cart_id && draft.cart_id !== activeCartId) {
+                if (!(await switchCart(draft.cart_id))) return;
+            }
+            router.push("/checkout");
+        } finally {
+            setOpening(false);
+        }
+    };
+
+    return (
+        <Card className="mb-8 border-border/40 bg-card/80 backdrop-blur-sm">
+            <CardContent className="p-6">
+                <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+                    <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-xl border border-border bg-muted">
+                        <ClipboardList className="h-6 w-6 text-primary" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                        <h3 className="text-lg font-semibold text-foreground">
+                            Continue where you left off
+                        </h3>
+                        <div className="mt-1 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground">
+                            {stepLabel && <span>Checkout · {stepLabel}</span>}
+                            {venueName && (
+                                <span className="inline-flex min-w-0 items-center gap-1">
+                                    <MapPin className="h-3.5 w-3.5 shrink-0" />
+                                    <span className="truncate">{venueName}</span>
+                                </span>
+                            )}
+                            <span className="text-xs">
+                                Updated{" "}
+                                {formatDistanceToNow(new Date(draft.updated_at), {
+                                    addSuffix: true,
+                                })}
+                            </span>
+                        </div>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            className="gap-1 text-muted-foreground"
+                            disabled={discardDraft.isPending || opening}
+                            onClick={() =>
+                                discardDraft.mutate(undefined, {
+                                    // This device's copy too, or checkout would re-save it.
+                                    onSuccess: clearCheckoutCheckpoint,
+                                    onError: (error) =>
+                                        toast.error(error.message || "Couldn't discard the draft"),
+                                })
+                            }
+                        >
+                            <X className="h-4 w-4" />
+                            Discard
+                        </Button>
+                        <Button
+                            className="gap-2"
+                            disabled={opening}
+                            onClick={handleContinue}
+                            data-testid="continue-checkout"
+                        >
+                            Continue checkout
+                            <ArrowRight className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
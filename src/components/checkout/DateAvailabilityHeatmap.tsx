@@ -0,0 +1,203 @@
+"use client";
+
+/**
+ * DateAvailabilityHeatmap — "which start dates work?" calendar for the
+ * checkout date step. Colors each day of the next 12 weeks by whether the
+ * whole cart is both ready (lead time + item preparation) and bookable for a
+ * stay starting that day; hovering a day lists what's limiting it, clicking
+ * it moves the stay there. Collapsed by default — the availability lookups
+ * only run once it's opened.
+ */
+
+import * as React from "react";
+import { format, getISODay, parse } from "date-fns";
+import { CalendarSearch, ChevronDown, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { MaintenanceDecision } from "@/hooks/use-feasibility-check";
+import { useDateHeatmap } from "@/hooks/use-date-heatmap";
+import type {
+    HeatmapDay,
+    HeatmapDayStatus,
+    LimitingReason,
+    StayShape,
+} from "@/lib/checkout/date-heatmap";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const STATUS_STYLES: Record<HeatmapDayStatus, string> = {
+    available: "bg-green-500/20 border-green-500/40 text-green-900 hover:bg-green-500/30",
+    blocked: "bg-red-500/15 border-red-500/30 text-red-900 hover:bg-red-500/25",
+    unknown: "bg-muted/60 border-border/60 text-muted-foreground",
+    past: "bg-transparent border-transparent text-muted-foreground/40",
+};
+
+const STATUS_LABELS: Record<HeatmapDayStatus, string> = {
+    available: "Everything available",
+    blocked: "Not possible",
+    unknown: "Not checked",
+    past: "In the past",
+};
+
+const parseDay = (ymd: string) => parse(ymd, "yyyy-MM-dd", new Date());
+
+function describeLimit(limit: LimitingReason): string {
+    switch (limit.kind) {
+        case "lead_time":
+            return `Minimum lead time — earliest ${format(parseDay(limit.floorDate), "d MMM")}`;
+        case "preparation":
+            return `${limit.name} — ready ${format(parseDay(limit.readyDate), "d MMM")}`;
+        case "booking":
+            return `${limit.name} — ${limit.available} of ${limit.requested} free`;
+        case "unavailable":
+            return `${limit.name} — not available`;
+    }
+}
+
+function DayCell({
+    day,
+    selected,
+    onSelect,
+}: {
+    day: HeatmapDay;
+    selected: boolean;
+    onSelect: (date: string) => void;
+}) {
+    const date = parseDay(day.date);
+    const cell = (
+        <button
+            type="button"
+            disabled={day.status === "past"}
+            onClick={() => onSelect(day.date)}
+            className={cn(
+                "h-9 w-full rounded border text-xs font-mono transition-colors",
+                STATUS_STYLES[day.status],
+                selected && "ring-2 ring-primary ring-offset-1"
+            )}
+            aria-label={`${format(date, "EEE d MMM")}: ${STATUS_LABELS[day.status]}`}
+            data-testid={`heatmap-day-${day.date}`}
+        >
+            {date.getDate() === 1 ? format(date, "d MMM") : date.getDate()}
+        </button>
+    );
+    if (day.status === "past") return cell;
+
+    return (
+        <Tooltip>
+            <TooltipTrigger asChild>{cell}</TooltipTrigger>
+            <TooltipContent className="max-w-xs">
+                <p className="font-medium">{format(date, "EEE d MMM yyyy")}</p>
+                <p className="text-xs opacity-80">{STATUS_LABELS[day.status]}</p>
+                {day.limiting.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 text-xs">
+                        {day.limiting.map((limit, i) => (
+                            <li key={i}>{describeLimit(limit)}</li>
+                        ))}
+                    </ul>
+                )}
+            </TooltipContent>
+        </Tooltip>
+    );
+}
+
+interface DateAvailabilityHeatmapProps {
+    items: Array<{
+        asset_id: string;
+        quantity: number;
+        maintenance_decision?: MaintenanceDecision;
+    }>;
+    shape: StayShape;
+    timezone: string | null | undefined;
+    /** The start date currently on the form (YYYY-MM-DD or ""). */
+    selectedDate: string;
+    onSelectDate: (date: string) => void;
+}
+
+export function DateAvailabilityHeatmap({
+    items,
+    shape,
+    timezone,
+    selectedDate,
+    onSelectDate,
+}: DateAvailabilityHeatmapProps) {
+    const [open, setOpen] = React.useState(false);
+    const heatmap = useDateHeatmap({ items, shape, timezone, enabled: open });
+
+    // Monday-first grid; pad the first week up to the first day's weekday.
+    const leadingBlanks = heatmap.days.length ? getISODay(parseDay(heatmap.days[0].date)) - 1 : 0;
+
+    return (
+        <div className="rounded-lg border border-border/60 bg-card/80" data-testid="date-heatmap">
+            <button
+                type="button"
+                onClick={() => setOpen((v) => !v)}
+                className="flex w-full items-center justify-between gap-2 p-3 text-left"
+                aria-expanded={open}
+            >
+                <span className="flex items-center gap-2 text-sm font-medium">
+                    <CalendarSearch className="h-4 w-4 text-primary" />
+                    Find a date that works for the whole cart
+                </span>
+                <span className="flex items-center gap-2">
+                    {open && heatmap.isLoading && (
+                        <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+                    )}
+                    <ChevronDown
+                        className={cn("h-4 w-4 transition-transform", open && "rotate-180")}
+                    />
+                </span>
+            </button>
+
+            {open && (
+                <div className="space-y-3 border-t border-border/40 p-3">
+                    <p className="text-xs text-muted-foreground">
+                        Each day shows whether everything in your cart can be ready and booked for
+                        an event starting that day
+                        {shape.leadInDays || shape.spanDays
+                            ? ", keeping your current delivery and pickup spacing"
+                            : ""}
+                        . Hover for what's limiting a day; click to use it.
+                    </p>
+                    {heatmap.isError && (
+                        <p className="text-xs text-muted-foreground">
+                            Some days couldn't be checked right now.
+                        </p>
+                    )}
+                    <TooltipProvider delayDuration={100}>
+                        <div className="grid grid-cols-7 gap-1">
+                            {WEEKDAYS.map((weekday) => (
+                                <div
+                                    key={weekday}
+                                    className="text-center text-[10px] font-mono uppercase text-muted-foreground"
+                                >
+                                    {weekday}
+                                </div>
+                            ))}
+                            {Array.from({ length: leadingBlanks }, (_, i) => (
+                                <div key={`blank-${i}`} />
+                            ))}
+                            {heatmap.days.map((day) => (
+                                <DayCell
+                                    key={day.date}
+                                    day={day}
+                                    selected={day.date === selectedDate}
+                                    onSelect={onSelectDate}
+                                />
+                            ))}
+                        </div>
+                    </TooltipProvider>
+                    <div className="flex flex-wrap gap-3 text-[11px] text-muted-foreground">
+                        {(["available", "blocked", "unknown"] as const).map((status) => (
+                            <span key={status} className="flex items-center gap-1.5">
+                                <span
+                                    className={cn("h-3 w-3 rounded border", STATUS_STYLES[status])}
+                                />
+                                {STATUS_LABELS[status]}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+/**
+ * Estimate Scenario Table
+ * Prices the cart for each trip type × vehicle option side by side so budget
+ * owners can compare before committing. Choosing a column writes its trip
+ * type and vehicle back into the checkout form.
+ */
+
+import { useMemo } from "react";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useEstimateScenarios } from "@/hooks/use-order-submission";
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+import type { VehicleTypeSpec } from "@/lib/cart/load-planner";
+import {
+    buildEstimateScenarios,
+    estimateBreakdown,
+    fleetLabel,
+    vehicleOptions,
+    type EstimateBreakdown,
+    type EstimateScenario,
+} from "@/lib/checkout/estimate-scenarios";
+import type { OrderEstimate, TripType } from "@/types/hybrid-pricing";
+
+interface EstimateScenarioTableProps {
+    items: LocalCartItem[];
+    venueCity: string;
+    vehicleTypes: VehicleTypeSpec[];
+    tripType: TripType;
+    // null = the planner's pick.
+    vehicleType: string | null;
+    onChoose: (choice: { tripType: TripType; vehicleType: string | null }) => void;
+}
+
+const TRIP_LABELS: Record<TripType, string> = {
+    ONE_WAY: "One-way",
+    ROUND_TRIP: "Round-trip",
+};
+
+const money = (amount: number) => `${amount.toFixed(2)} AED`;
+
+export function EstimateScenarioTable({
+    items,
+    venueCity,
+    vehicleTypes,
+    tripType,
+    vehicleType,
+    onChoose,
+}: EstimateScenarioTableProps) {
+    const scenarios = useMemo(
+        () => buildEstimateScenarios(vehicleOptions(items, vehicleTypes)),
+        [items, vehicleTypes]
+    );
+    const results = useEstimateScenarios(
+        items,
+        venueCity,
+        scenarios.map((scenario) => ({
+            tripType: scenario.tripType,
+            vehicles: scenario.vehicle.vehicles.map((v) => ({
+                vehicle_type: v.vehicle_type,
+                count: v.count,
+            })),
+        })),
+        scenarios.length > 1
+    );
+
+    // A scenario without a transport rate can't be compared — the server
+    // quotes it by hand.
+    const breakdowns: Array<EstimateBreakdown | null> = results.map((result) => {
+        const estimate: OrderEstimate | undefined = result.data?.data?.estimate;
+        return estimate?.transport ? estimateBreakdown(estimate) : null;
+    });
+    const priced = breakdowns.filter((b): b is EstimateBreakdown => b !== null);
+    const lowest = priced.length > 1 ? Math.min(...priced.map((b) => b.total)) : null;
+
+    if (scenarios.length <= 1) return null;
+
+    const isSelected = (scenario: EstimateScenario) =>
+        scenario.tripType === tripType && scenario.vehicle.vehicleType === vehicleType;
+
+    const cell = (index: number, render: (b: EstimateBreakdown) => string) => {
+        if (results[index].isLoading) {
+            return <span className="text-muted-foreground">…</span>;
+        }
+        const breakdown = breakdowns[index];
+        return breakdown ? render(breakdown) : <span className="text-muted-foreground">—</span>;
+    };
+
+    const columnClass = (scenario: EstimateScenario) =>
+        `px-3 py-2 text-right ${isSelected(scenario) ? "bg-primary/10" : ""}`;
+
+    return (
+        <div
+            className="border border-border rounded-lg p-6 space-y-3"
+            data-testid="estimate-scenario-table"
+        >
+            <div>
+                <h3 className="text-lg font-semibold">Compare Transport Options</h3>
+                <p className="text-xs text-muted-foreground">
+                    Estimates for each trip type and vehicle. Choose one to use it for this order.
+                </p>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="border-b border-border">
+                            <th className="px-3 py-2 text-left font-normal text-muted-foreground" />
+                            {scenarios.map((scenario) => (
+                                <th
+                                    key={scenario.key}
+                                    className={`${columnClass(scenario)} align-bottom`}
+                                >
+                                    <div className="font-semibold">
+                                        {TRIP_LABELS[scenario.tripType]}
+                                    </div>
+                                    <div className="text-xs font-medium">
+                                        {scenario.vehicle.label}
+                                    </div>
+                                    <div className="text-xs font-normal text-muted-foreground">
+                                        {fleetLabel(scenario.vehicle.vehicles)}
+                                    </div>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody className="font-mono">
+                        <tr className="border-b border-border">
+                            <td className="px-3 py-2 font-sans text-muted-foreground">
+                                Transport rate
+                            </td>
+                            {scenarios.map((scenario, index) => (
+                                <td key={scenario.key} className={columnClass(scenario)}>
+                                    {cell(index, (b) => money(b.transportRate))}
+                                </td>
+                            ))}
+                        </tr>
+                        <tr className="border-b border-border">
+                            <td className="px-3 py-2 font-sans text-muted-foreground">Margin</td>
+                            {scenarios.map((scenario, index) => (
+                                <td key={scenario.key} className={columnClass(scenario)}>
+                                    {cell(index, (b) => money(b.marginAmount))}
+                                </td>
+                            ))}
+                        </tr>
+                        <tr>
+                            <td className="px-3 py-2 font-sans font-semibold">Estimated total</td>
+                            {scenarios.map((scenario, index) => (
+                                <td
+                                    key={scenario.key}
+                                    className={`${columnClass(scenario)} font-semibold ${
+                                        breakdowns[index]?.total === lowest ? "text-primary" : ""
+                                    }`}
+                                >
+                                    {cell(index, (b) => money(b.total))}
+                                </td>
+                            ))}
+                        </tr>
+                        <tr>
+                            <td />
+                            {scenarios.map((scenario, index) => (
+                                <td key={scenario.key} className={columnClass(scenario)}>
+                                    {isSelected(scenario) ? (
+                                        <span className="inline-flex items-center gap-1 font-sans text-xs font-medium text-primary">
+                                            <Check className="h-3.5 w-3.5" />
+                                            Selected
+                                        </span>
+                                    ) : (
+                                        <Button
+                                            type="button"
+                                            size="sm"
+                                            variant="outline"
+                                            className="h-7 px-2 font-sans text-xs"
+                                            disabled={!breakdowns[index]}
+                                            onClick={() =>
+                                                onChoose({
+                                                    tripType: scenario.tripType,
+                                                    vehicleType: scenario.vehicle.vehicleType,
+                                                })
+                                            }
+                                        >
+                                            Use this
+                                        </Button>
+                                    )}
+                                </td>
+                            ))}
+                        </tr>
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
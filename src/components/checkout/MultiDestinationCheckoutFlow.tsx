@@ -0,0 +1,500 @@
+"use client";
+
+/**
+ * MultiDestinationCheckoutFlow — checkout for a cart that goes to several
+ * venues. The user splits the cart's quantities across destinations, fills
+ * in dates, venue and permits per destination, and submits once; each
+ * destination becomes its own order, linked by a shared group id.
+ *
+ * Entered from the standard flow's Order Review step, so maintenance
+ * decisions and commerce-rule acknowledgements are already settled for the
+ * whole cart. Each destination runs its own feasibility and availability
+ * previews against its own dates.
+ *
+ * This component owns the state and the submit; the step bodies, leg cards
+ * and confirmation live in `multi-destination/`.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState, type ComponentType } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import type { LucideIcon } from "lucide-react";
+import { Check, ChevronLeft, ChevronRight, FileText, MapPin, Split, User } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { DestinationsStep } from "@/components/checkout/multi-destination/DestinationsStep";
+import {
+    SplitCheckoutProvider,
+    type LegCheckStatus,
+    type SplitCheckoutContextValue,
+} from "@/components/checkout/multi-destination/SplitCheckoutContext";
+import { SplitContactStep } from "@/components/checkout/multi-destination/SplitContactStep";
+import { SplitItemsStep } from "@/components/checkout/multi-destination/SplitItemsStep";
+import { SplitReviewStep } from "@/components/checkout/multi-destination/SplitReviewStep";
+import { useCart } from "@/contexts/cart-context";
+import { useSubmissionAttempt } from "@/contexts/submission-queue-context";
+import { usePlatform } from "@/contexts/platform-context";
+import { useCountries } from "@/hooks/use-countries";
+import {
+    useFeasibilityConfig,
+    useMaintenanceFeasibilityCheck,
+} from "@/hooks/use-feasibility-check";
+import { useVehicleTypes } from "@/hooks/use-load-plan";
+import { useSubmitOrderFromCart } from "@/hooks/use-orders";
+import {
+    validateCheckoutContact,
+    type CheckoutStepValidation,
+} from "@/lib/checkout/checkout-steps";
+import { fleetFor } from "@/lib/checkout/estimate-scenarios";
+import {
+    assignRemainder,
+    createDestinationLeg,
+    legCartItems,
+    unallocatedQuantities,
+    validateDestinationLeg,
+    validateLegAllocation,
+    type DestinationLeg,
+    type DestinationLegForm,
+    type DestinationOrderContact,
+    type SplitOrderSummary,
+} from "@/lib/checkout/multi-destination";
+import { buildOrderSubmitPayload, orderEventDates } from "@/lib/checkout/order-payload";
+import { composeZonedISO } from "@/lib/feasibility/compose-datetime";
+import type { TripType } from "@/types/hybrid-pricing";
+
+type SplitStep = "split" | "destinations" | "contact" | "review";
+
+interface SplitStepDefinition {
+    key: SplitStep;
+    label: string;
+    icon: LucideIcon;
+    // Step body; reads the flow's state through `useSplitCheckout`.
+    component: ComponentType;
+}
+
+const SPLIT_STEPS: SplitStepDefinition[] = [
+    { key: "split", label: "Split Items", icon: Split, component: SplitItemsStep },
+    { key: "destinations", label: "Destinations", icon: MapPin, component: DestinationsStep },
+    { key: "contact", label: "Execution Contact", icon: User, component: SplitContactStep },
+    { key: "review", label: "Review & Submit", icon: FileText, component: SplitReviewStep },
+];
+
+interface MultiDestinationCheckoutFlowProps {
+    // Brand and contact from the standard flow, so nothing typed there is lost.
+    contactDefaults: DestinationOrderContact;
+    // Rules acknowledged on the Order Review step; sent with every order.
+    commerceRuleIds: string[];
+    // Transport picked in the Order Review step's scenario table; every
+    // order goes with it. vehicleType null = the planner's fleet.
+    transport: { tripType: TripType; vehicleType: string | null };
+    onSwitchToStandard: () => void;
+    // Called once every destination has an order.
+    onSubmitted: (orders: SplitOrderSummary[]) => void;
+}
+
+function newGroupId(): string {
+    return typeof crypto !== "undefined" && "randomUUID" in crypto
+        ? crypto.randomUUID()
+        : `grp-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function MultiDestinationCheckoutFlow({
+    contactDefaults,
+    commerceRuleIds,
+    transport,
+    onSwitchToStandard,
+    onSubmitted,
+}: MultiDestinationCheckoutFlowProps) {
+    const { platform } = usePlatform();
+    const { items } = useCart();
+    const submitMutation = useSubmitOrderFromCart();
+    const submitAttempt = useSubmissionAttempt();
+    const maintenanceFeasibilityCheck = useMaintenanceFeasibilityCheck();
+    const { data: feasibilityConfig } = useFeasibilityConfig();
+    const { data: countriesData } = useCountries();
+    const { data: vehicleTypes } = useVehicleTypes();
+    const eventDateInputsEnabled = (platform?.features as any)?.enable_event_date_inputs === true;
+
+    const nextLegNumber = useRef(3);
+    // Everything starts at the first destination; the user moves units out.
+    const [legs, setLegs] = useState<DestinationLeg[]>(() => {
+        const first = createDestinationLeg("leg-1");
+        return assignRemainder(items, [first, createDestinationLeg("leg-2", first.form)], "leg-1");
+    });
+    const [legChecks, setLegChecks] = useState<Record<string, LegCheckStatus>>({});
+    const [contact, setContact] = useState<DestinationOrderContact>(contactDefaults);
+    const [currentStep, setCurrentStep] = useState<SplitStep>("split");
+    const [groupId] = useState(newGroupId);
+    // legId → order id, kept across a partly failed submit so a retry only
+    // sends the destinations that didn't go through.
+    const [submitted, setSubmitted] = useState<Record<string, string>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    // Once an order exists the split is fixed; only unsent destinations can
+    // still be edited.
+    const hasSubmittedAny = Object.keys(submitted).length > 0;
+
+    // Default every destination's country to the first one (UAE), like the
+    // standard venue step.
+    const defaultCountry = countriesData?.data?.[0];
+    useEffect(() => {
+        if (!defaultCountry) return;
+        setLegs((prev) =>
+            prev.some((leg) => !leg.form.venue_country_id)
+                ? prev.map((leg) =>
+                      leg.form.venue_country_id
+                          ? leg
+                          : {
+                                ...leg,
+                                form: {
+                                    ...leg.form,
+                                    venue_country_id: defaultCountry.id,
+                                    venue_country_name: defaultCountry.name,
+                                },
+                            }
+                  )
+                : prev
+        );
+    }, [defaultCountry, legs.length]);
+
+    const remaining = useMemo(() => unallocatedQuantities(items, legs), [items, legs]);
+
+    const updateLegForm = (legId: string, patch: Partial<DestinationLegForm>) =>
+        setLegs((prev) =>
+            prev.map((leg) =>
+                leg.id === legId ? { ...leg, form: { ...leg.form, ...patch } } : leg
+            )
+        );
+
+    const setLegQuantity = (legId: string, assetId: string, quantity: number) =>
+        setLegs((prev) =>
+            prev.map((leg) =>
+                leg.id === legId
+                    ? {
+                          ...leg,
+                          quantities: {
+                              ...leg.quantities,
+                              [assetId]: Math.max(0, Math.floor(quantity) || 0),
+                          },
+                      }
+                    : leg
+            )
+        );
+
+    const addLeg = () => {
+        const id = `leg-${nextLegNumber.current++}`;
+        setLegs((prev) => [...prev, createDestinationLeg(id, prev[prev.length - 1]?.form)]);
+    };
+
+    const removeLeg = (legId: string) => {
+        setLegs((prev) => prev.filter((leg) => leg.id !== legId));
+        setLegChecks((prev) =>
+            Object.fromEntries(Object.entries(prev).filter(([id]) => id !== legId))
+        );
+    };
+
+    const reportLegCheck = useCallback(
+        (legId: string, status: LegCheckStatus) =>
+            setLegChecks((prev) => {
+                const current = prev[legId];
+                if (
+                    current &&
+                    current.isLoading === status.isLoading &&
+                    current.userDateFeasible === status.userDateFeasible &&
+                    current.unavailableCount === status.unavailableCount
+                ) {
+                    return prev;
+                }
+                return { ...prev, [legId]: status };
+            }),
+        []
+    );
+
+    const validateDestinations = (): CheckoutStepValidation => {
+        for (const [index, leg] of legs.entries()) {
+            const check = legChecks[leg.id];
+            const result = validateDestinationLeg(leg, {
+                items,
+                eventDateInputsEnabled,
+                userDateFeasible: check?.userDateFeasible,
+            });
+            if (!result.ok)
+                return { ok: false, message: `Destination ${index + 1}: ${result.message}` };
+            if (check?.unavailableCount) {
+                return {
+                    ok: false,
+                    message: `Destination ${index + 1}: some items aren't available for its dates`,
+                };
+            }
+        }
+        return { ok: true, message: null };
+    };
+
+    const validateContact = () => validateCheckoutContact(contact);
+
+    const stepValidation: CheckoutStepValidation =
+        currentStep === "split"
+            ? validateLegAllocation(items, legs)
+            : currentStep === "destinations"
+              ? validateDestinations()
+              : currentStep === "contact"
+                ? validateContact()
+                : validateDestinations();
+    const anyCheckLoading = legs.some((leg) => legChecks[leg.id]?.isLoading);
+    const currentStepIndex = SPLIT_STEPS.findIndex((step) => step.key === currentStep);
+    const StepView = SPLIT_STEPS[currentStepIndex]?.component;
+
+    const handleNext = () => {
+        if (!stepValidation.ok) {
+            toast.error(stepValidation.message);
+            return;
+        }
+        const next = SPLIT_STEPS[currentStepIndex + 1];
+        if (next) setCurrentStep(next.key);
+    };
+
+    const handleBack = () => {
+        const previous = SPLIT_STEPS[currentStepIndex - 1];
+        if (previous) setCurrentStep(previous.key);
+    };
+
+    const summarize = (leg: DestinationLeg, orderId: string): SplitOrderSummary => ({
+        orderId,
+        venueName: leg.form.venue_name,
+        eventStartDate: orderEventDates(leg.form, eventDateInputsEnabled).start,
+        itemCount: legCartItems(items, leg).reduce((sum, item) => sum + item.quantity, 0),
+    });
+
+    // One order per destination, in order. Each destination gets the same
+    // authoritative maintenance-feasibility check as the single checkout
+    // before it is sent. A failure stops the run; orders already created
+    // stay created and are skipped on the next attempt.
+    const handleSubmit = async () => {
+        const validation = validateDestinations();
+        if (!validation.ok) {
+            toast.error(validation.message);
+            return;
+        }
+        setIsSubmitting(true);
+        const created = { ...submitted };
+        try {
+            for (const [index, leg] of legs.entries()) {
+                if (created[leg.id]) continue;
+                try {
+                    const legItems = legCartItems(items, leg);
+                    const eventStart = orderEventDates(leg.form, eventDateInputsEnabled).start;
+                    const eventStartDatetime = composeZonedISO({
+                        date: eventStart,
+                        time: leg.form.requested_delivery_time_start,
+                        timezone: feasibilityConfig?.timezone,
+                    });
+                    const maintenance = await maintenanceFeasibilityCheck.mutateAsync({
+                        items: legItems.map((item) => ({
+                            asset_id: item.assetId,
+                            maintenance_decision: item.maintenanceDecision,
+                        })),
+                        event_start_date: eventStart,
+                        ...(eventStartDatetime ? { event_start_datetime: eventStartDatetime } : {}),
+                    });
+                    if (!maintenance.feasible) {
+                        const details = maintenance.issues
+                            .map((issue) => `${issue.asset_name}: ${issue.earliest_feasible_date}`)
+                            .join(" | ");
+                        throw new Error(`maintenance timeline is not feasible. ${details}`);
+                    }
+                    const payload = buildOrderSubmitPayload({ ...leg.form, ...contact }, legItems, {
+                        groupId,
+                        timezone: feasibilityConfig?.timezone,
+                        eventDateInputsEnabled,
+                        commerceRuleIds,
+                        tripType: transport.tripType,
+                        // A picked vehicle is fitted to this destination's load.
+                        vehicles:
+                            transport.vehicleType && vehicleTypes?.length
+                                ? fleetFor(legItems, vehicleTypes, transport.vehicleType).map(
+                                      (vehicle) => ({
+                                          vehicle_type: vehicle.vehicle_type,
+                                          count: vehicle.count,
+                                      })
+                                  )
+                                : undefined,
+                    });
+                    const result = await submitMutation.mutateAsync({
+                        payload,
+                        idempotencyKey: submitAttempt.keyFor(payload),
+                        label: `Order for ${leg.form.venue_name}`,
+                        // One leg is not the whole cart.
+                        keepCart: true,
+                    });
+                    created[leg.id] = result.orderId;
+                    setSubmitted({ ...created });
+                } catch (error) {
+                    const done = Object.keys(created).length;
+                    toast.error(
+                        `Destination ${index + 1} wasn't submitted: ${
+                            error instanceof Error ? error.message : "unknown error"
+                        }`,
+                        done > 0
+                            ? {
+                                  description: `${done} of ${legs.length} orders were created. Fix this destination and submit again to send the rest.`,
+                              }
+                            : undefined
+                    );
+                    return;
+                }
+            }
+            toast.success(`${legs.length} orders submitted`);
+            onSubmitted(legs.map((leg) => summarize(leg, created[leg.id])));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const stepContext: SplitCheckoutContextValue = {
+        legs,
+        setLegs,
+        remaining,
+        submitted,
+        hasSubmittedAny,
+        contact,
+        setContact,
+        transport,
+        eventDateInputsEnabled,
+        updateLegForm,
+        setLegQuantity,
+        addLeg,
+        removeLeg,
+        reportLegCheck,
+    };
+
+    return (
+        <SplitCheckoutProvider value={stepContext}>
+            {/* Progress Header — same stepper as the other checkout flows. */}
+            <div className="border-b border-border bg-card/80 backdrop-blur-sm sticky top-0 z-10">
+                <div className="max-w-5xl mx-auto px-8 py-6">
+                    <div className="flex items-center justify-between">
+                        {SPLIT_STEPS.map((step, index) => {
+                            const isActive = step.key === currentStep;
+                            const isCompleted = index < currentStepIndex;
+                            const Icon = step.icon;
+
+                            return (
+                                <div key={step.key} className="flex items-center flex-1">
+                                    <div className="flex items-center gap-3">
+                                        <div
+                                            className={`h-10 w-10 rounded-full flex items-center justify-center border-2 transition-all ${
+                                                isCompleted
+                                                    ? "bg-primary border-primary text-primary-foreground"
+                                                    : isActive
+                                                      ? "bg-primary/10 border-primary text-primary"
+                                                      : "bg-muted border-border text-muted-foreground"
+                                            }`}
+                                        >
+                                            {isCompleted ? (
+                                                <Check className="h-5 w-5" />
+                                            ) : (
+                                                <Icon className="h-5 w-5" />
+                                            )}
+                                        </div>
+                                        <div className="hidden sm:block">
+                                            <p
+                                                className={`text-sm font-medium font-mono uppercase tracking-wide ${
+                                                    isActive
+                                                        ? "text-foreground"
+                                                        : "text-muted-foreground"
+                                                }`}
+                                            >
+                                                {step.label}
+                                            </p>
+                                            <p className="text-xs text-muted-foreground font-mono">
+                                                Step {index + 1} of {SPLIT_STEPS.length}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    {index < SPLIT_STEPS.length - 1 && (
+                                        <div
+                                            className={`flex-1 h-0.5 mx-4 transition-colors ${
+                                                isCompleted ? "bg-primary" : "bg-border"
+                                            }`}
+                                        />
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+
+            <div className="max-w-5xl mx-auto px-8 py-10">
+                <AnimatePresence mode="wait">
+                    <motion.div
+                        key={currentStep}
+                        initial={{ opacity: 0, x: 20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: -20 }}
+                        transition={{ duration: 0.25 }}
+                        className="space-y-6"
+                    >
+                        {StepView && <StepView />}
+                    </motion.div>
+                </AnimatePresence>
+
+                <div className="flex items-center justify-between gap-4 mt-10">
+                    {currentStepIndex === 0 ? (
+                        <Button
+                            variant="outline"
+                            onClick={onSwitchToStandard}
+                            disabled={hasSubmittedAny}
+                            className="gap-2 font-mono"
+                            size="lg"
+                        >
+                            <ChevronLeft className="h-4 w-4" />
+                            Single Destination
+                        </Button>
+                    ) : (
+                        <Button
+                            variant="outline"
+                            onClick={handleBack}
+                            disabled={isSubmitting}
+                            className="gap-2 font-mono"
+                            size="lg"
+                        >
+                            <ChevronLeft className="h-4 w-4" />
+                            Back
+                        </Button>
+                    )}
+
+                    <div className="text-sm text-muted-foreground font-mono">
+                        Step {currentStepIndex + 1} of {SPLIT_STEPS.length}
+                    </div>
+
+                    {currentStep === "review" ? (
+                        <Button
+                            onClick={handleSubmit}
+                            disabled={isSubmitting || anyCheckLoading || !stepValidation.ok}
+                            className="gap-2 font-mono uppercase tracking-wide"
+                            size="lg"
+                        >
+                            {submitAttempt.pending.length > 0
+                                ? "Retrying..."
+                                : isSubmitting
+                                  ? "Submitting..."
+                                  : hasSubmittedAny
+                                    ? "Submit Remaining"
+                                    : `Submit ${legs.length} Orders`}
+                            <Check className="h-4 w-4" />
+                        </Button>
+                    ) : (
+                        <Button
+                            onClick={handleNext}
+                            disabled={!stepValidation.ok}
+                            className="gap-2 font-mono"
+                            size="lg"
+                        >
+                            Continue
+                            <ChevronRight className="h-4 w-4" />
+                        </Button>
+                    )}
+                </div>
+            </div>
+        </SplitCheckoutProvider>
+    );
+}
@@ -5,6 +5,7 @@
  * Shows itemized estimate at checkout (before submission)
  */
 
+import { estimateBreakdown } from "@/lib/checkout/estimate-scenarios";
 import type { OrderEstimate } from "@/types/hybrid-pricing";
 
 interface OrderEstimateProps {
@@ -13,16 +14,7 @@ interface OrderEstimateProps {
 }
 
 export function OrderEstimate({ estimate, hasRebrandItems }: OrderEstimateProps) {
-    const marginPercent = Number(estimate.margin?.percent || 0);
-    const transportRate = Number(
-        estimate.transport?.rate ?? estimate.suggested_transport?.estimated_rate ?? 0
-    );
-    const hasMarginBreakdown = typeof estimate.margin?.transport_rate_amount === "number";
-    const transportSubtotal = hasMarginBreakdown
-        ? transportRate + Number(estimate.margin.transport_rate_amount)
-        : transportRate * (1 + marginPercent / 100);
-    const totalEstimate = Number(estimate.estimate_total || transportSubtotal.toFixed(2));
-    const tripType = estimate.transport?.trip_type || "ROUND_TRIP";
+    const { transportSubtotal, total: totalEstimate, tripType } = estimateBreakdown(estimate);
 
     return (
         <div className="border border-border rounded-lg p-6 space-y-3">
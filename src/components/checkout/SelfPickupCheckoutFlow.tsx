@@ -21,15 +21,14 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useEvaluateCommerceRules, type CommerceRuleHit } from "@/hooks/use-commerce-rules";
 import { useCart } from "@/contexts/cart-context";
+import { useSubmissionAttempt } from "@/contexts/submission-queue-context";
 import { useToken } from "@/lib/auth/use-token";
 import { useSubmitSelfPickupFromCart } from "@/hooks/use-self-pickups";
 import { useFeasibilityConfig } from "@/hooks/use-feasibility-check";
-import {
-    composeZonedISO,
-    computeSpLeadFloor,
-    roundedFloorTimeInZone,
-    shiftDateStr,
-} from "@/lib/feasibility/compose-datetime";
+import { useDockSlotHold } from "@/hooks/use-dock-slots";
+import { DockSlotPicker } from "@/components/self-pickups/DockSlotPicker";
+import { composeZonedISO } from "@/lib/feasibility/compose-datetime";
+import { zonedDateKey, zonedTime } from "@/lib/feasibility/dock-slots";
 import { AnimatePresence, motion } from "framer-motion";
 import {
     ShoppingCart,
@@ -51,12 +50,6 @@ const PICKUP_STEPS: { key: PickupStep; label: string; icon: any }[] = [
     { key: "review", label: "Review & Submit", icon: FileText },
 ];
 
-const PICKUP_HOURS_MIN = "08:00";
-const PICKUP_HOURS_MAX = "18:00";
-
-const isWithinPickupHours = (time: string): boolean =>
-    Boolean(time) && time >= PICKUP_HOURS_MIN && time <= PICKUP_HOURS_MAX;
-
 interface SelfPickupCheckoutFlowProps {
     onSwitchToStandard: () => void;
 }
@@ -66,17 +59,18 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
     const { user } = useToken();
     const { items, itemCount, totalVolume, totalWeight, clearCart } = useCart();
     const submitMutation = useSubmitSelfPickupFromCart();
+    const submitAttempt = useSubmissionAttempt();
     const { data: feasibilityConfig } = useFeasibilityConfig();
     const [currentStep, setCurrentStep] = useState<PickupStep>("cart");
     const [isSubmitting, setIsSubmitting] = useState(false);
+    // Owned here rather than by the picker so going back to the cart step
+    // doesn't drop the held slot.
+    const slotHold = useDockSlotHold("PICKUP");
 
     const [formData, setFormData] = useState({
         collector_name: "",
         collector_phone: "",
         collector_email: "",
-        pickup_date: "",
-        pickup_time_start: "09:00",
-        pickup_time_end: "11:00",
         expected_return_date: "",
         notes: "",
         // Item 7: required Yes/No on permanent placement. Blocks proceed.
@@ -122,6 +116,22 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
         return { hitsByAsset: byAsset, globalHits: global };
     }, [acknowledgedRuleHits]);
 
+    // A submit parked in the retry queue still carries this hold. Hand it to
+    // the queue so leaving checkout doesn't release the slot under it.
+    const { hold: heldSlot, keep: keepSlot } = slotHold;
+    const queuedWithHold =
+        !!heldSlot &&
+        submitAttempt.pending.some((entry) => entry.payload.slot_hold_id === heldSlot.hold_id);
+    useEffect(() => {
+        if (queuedWithHold) keepSlot();
+    }, [keepSlot, queuedWithHold]);
+    // What the review step shows once the hold has been handed over.
+    const shownSlot =
+        heldSlot ??
+        (submitAttempt.pending[0]?.payload.pickup_window as
+            | { start: string; end: string }
+            | undefined);
+
     // Auto-fill collector from user
     useEffect(() => {
         if (!user) return;
@@ -161,37 +171,6 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [currentStep, cartSignature, lastEvaluatedSignature]);
 
-    // SP lead-floor projection. Server validates on submit, but this keeps
-    // the helper + Next gate in sync with the server's verdict so the user
-    // sees the issue while picking the date, not after clicking Submit.
-    const spFloor = useMemo(
-        () =>
-            feasibilityConfig
-                ? computeSpLeadFloor({
-                      sp_minimum_lead_hours: feasibilityConfig.sp_minimum_lead_hours,
-                      exclude_weekends: feasibilityConfig.exclude_weekends,
-                      weekend_days: feasibilityConfig.weekend_days,
-                      timezone: feasibilityConfig.timezone,
-                  })
-                : null,
-        [feasibilityConfig]
-    );
-    const userPickupIso = useMemo(
-        () =>
-            feasibilityConfig?.timezone && formData.pickup_date && formData.pickup_time_start
-                ? composeZonedISO({
-                      date: formData.pickup_date,
-                      time: formData.pickup_time_start,
-                      timezone: feasibilityConfig.timezone,
-                  })
-                : null,
-        [feasibilityConfig?.timezone, formData.pickup_date, formData.pickup_time_start]
-    );
-    const userPickupFeasible =
-        spFloor && userPickupIso
-            ? new Date(userPickupIso).getTime() >= new Date(spFloor.floorDatetime).getTime()
-            : null;
-
     const canProceed = () => {
         switch (currentStep) {
             case "cart":
@@ -200,16 +179,11 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
                 return Boolean(
                     formData.collector_name &&
                         formData.collector_phone &&
-                        formData.pickup_date &&
-                        formData.pickup_time_start &&
-                        formData.pickup_time_end &&
-                        formData.is_permanent_placement !== null &&
-                        isWithinPickupHours(formData.pickup_time_start) &&
-                        isWithinPickupHours(formData.pickup_time_end) &&
-                        userPickupFeasible !== false
+                        slotHold.hold &&
+                        formData.is_permanent_placement !== null
                 );
             case "review":
-                return userPickupFeasible !== false;
+                return Boolean(slotHold.hold);
             default:
                 return false;
         }
@@ -246,28 +220,9 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
 
         setIsSubmitting(true);
         try {
-            // Compose timezone-aware ISO strings using the platform timezone.
-            // Naive `${date}T${time}:00` strings get parsed by the server as
-            // UTC, which for Dubai (+04:00) surfaces as a 4-hour shift on
-            // display — 16:00 entered became 20:00 shown. composeZonedISO
-            // resolves the correct offset at that specific moment (DST-aware,
-            // half/quarter-hour zone aware). Falls back to naive composition
-            // only if the platform TZ hasn't loaded yet — but the submit
-            // button is disabled until formData is complete, so in practice
-            // the config is always resolved by the time we get here.
             const tz = feasibilityConfig?.timezone;
-            const pickupWindowStart =
-                composeZonedISO({
-                    date: formData.pickup_date,
-                    time: formData.pickup_time_start,
-                    timezone: tz,
-                }) ?? `${formData.pickup_date}T${formData.pickup_time_start}:00`;
-            const pickupWindowEnd =
-                composeZonedISO({
-                    date: formData.pickup_date,
-                    time: formData.pickup_time_end,
-                    timezone: tz,
-                }) ?? `${formData.pickup_date}T${formData.pickup_time_end}:00`;
+            // canProceed gates on a live hold, so it's set by the time we get here.
+            const held = slotHold.hold!;
 
             const payload = {
                 items: items.map((item) => ({
@@ -279,13 +234,14 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
                 collector_phone: formData.collector_phone,
                 ...(formData.collector_email ? { collector_email: formData.collector_email } : {}),
                 pickup_window: {
-                    start: pickupWindowStart,
-                    end: pickupWindowEnd,
+                    start: held.start,
+                    end: held.end,
                 },
+                slot_hold_id: held.hold_id,
                 ...(formData.expected_return_date
                     ? {
-                          // Same TZ-aware composition as the pickup window
-                          // above — don't let a naive string reach the API.
+                          // Naive `${date}T${time}:00` strings get parsed
+                          // by the server as UTC — compose in the platform TZ.
                           expected_return_at:
                               composeZonedISO({
                                   date: formData.expected_return_date,
@@ -303,11 +259,16 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
                 })),
             };
 
-            const result = await submitMutation.mutateAsync(payload);
+            const result = await submitMutation.mutateAsync({
+                payload,
+                idempotencyKey: submitAttempt.keyFor(payload),
+                label: `Self-pickup for ${formData.collector_name}`,
+            });
             const pickupId = result?.data?.id || result?.data?.self_pickup_id;
+            slotHold.keep();
 
             toast.success("Self-pickup submitted successfully");
-            clearCart();
+            clearCart({ afterSubmit: true });
 
             if (pickupId) {
                 router.push(`/self-pickups/${pickupId}`);
@@ -626,108 +587,12 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
                                                 Pickup Window *
                                             </Label>
                                             <p className="text-xs text-muted-foreground">
-                                                When do you plan to collect these items from the
-                                                warehouse? Pickup hours are 8:00 AM – 6:00 PM.
+                                                Pick a warehouse dock slot. Slots start once the{" "}
+                                                {feasibilityConfig?.sp_minimum_lead_hours ?? 2}h of
+                                                warehouse prep is done.
                                             </p>
                                         </div>
-                                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                                            <div className="space-y-2">
-                                                <Label
-                                                    htmlFor="pickup_date"
-                                                    className="font-mono uppercase text-xs tracking-wide"
-                                                >
-                                                    Pickup Date *
-                                                </Label>
-                                                <Input
-                                                    id="pickup_date"
-                                                    type="date"
-                                                    value={formData.pickup_date}
-                                                    onChange={(e) =>
-                                                        setFormData((prev) => ({
-                                                            ...prev,
-                                                            pickup_date: e.target.value,
-                                                        }))
-                                                    }
-                                                    className="h-12 font-mono"
-                                                />
-                                            </div>
-                                            <div className="space-y-2">
-                                                <Label
-                                                    htmlFor="pickup_start"
-                                                    className="font-mono uppercase text-xs tracking-wide"
-                                                >
-                                                    From *
-                                                </Label>
-                                                <Input
-                                                    id="pickup_start"
-                                                    type="time"
-                                                    min={PICKUP_HOURS_MIN}
-                                                    max={PICKUP_HOURS_MAX}
-                                                    value={formData.pickup_time_start}
-                                                    onChange={(e) =>
-                                                        setFormData((prev) => ({
-                                                            ...prev,
-                                                            pickup_time_start: e.target.value,
-                                                        }))
-                                                    }
-                                                    className="h-12 font-mono"
-                                                />
-                                            </div>
-                                            <div className="space-y-2">
-                                                <Label
-                                                    htmlFor="pickup_end"
-                                                    className="font-mono uppercase text-xs tracking-wide"
-                                                >
-                                                    To *
-                                                </Label>
-                                                <Input
-                                                    id="pickup_end"
-                                                    type="time"
-                                                    min={PICKUP_HOURS_MIN}
-                                                    max={PICKUP_HOURS_MAX}
-                                                    value={formData.pickup_time_end}
-                                                    onChange={(e) =>
-                                                        setFormData((prev) => ({
-                                                            ...prev,
-                                                            pickup_time_end: e.target.value,
-                                                        }))
-                                                    }
-                                                    className="h-12 font-mono"
-                                                />
-                                            </div>
-                                        </div>
-
-                                        {/* SP lead-time helper. Mirrors the one on the standard
-                                        order flow but uses sp_minimum_lead_hours (server-
-                                        validated at submit, client-projected here for UX). */}
-                                        <SpLeadHelper
-                                            floor={spFloor}
-                                            userDateFeasible={userPickupFeasible}
-                                            leadHours={
-                                                feasibilityConfig?.sp_minimum_lead_hours ?? 2
-                                            }
-                                            timezone={feasibilityConfig?.timezone}
-                                            onUseFloor={() => {
-                                                if (!spFloor) return;
-                                                const rounded = roundedFloorTimeInZone(
-                                                    spFloor.floorDatetime,
-                                                    feasibilityConfig?.timezone
-                                                );
-                                                const targetDate = rounded
-                                                    ? shiftDateStr(
-                                                          spFloor.floorDate,
-                                                          rounded.dayOffset
-                                                      )
-                                                    : spFloor.floorDate;
-                                                setFormData((prev) => ({
-                                                    ...prev,
-                                                    pickup_date: targetDate,
-                                                    ...(rounded
-                                                        ? { pickup_time_start: rounded.time }
-                                                        : {}),
-                                                }));
-                                            }}
-                                        />
+                                        <DockSlotPicker controller={slotHold} />
                                     </div>
 
                                     <div className="space-y-4 pt-4 border-t border-border/40">
@@ -974,14 +839,34 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
                                                     <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
                                                         Pickup
                                                     </p>
-                                                    <p className="font-medium">
-                                                        {formData.pickup_date}
-                                                        <span className="text-muted-foreground font-mono">
-                                                            {" "}
-                                                            · {formData.pickup_time_start}–
-                                                            {formData.pickup_time_end}
-                                                        </span>
-                                                    </p>
+                                                    {shownSlot ? (
+                                                        <p className="font-medium">
+                                                            {zonedDateKey(
+                                                                shownSlot.start,
+                                                                feasibilityConfig?.timezone
+                                                            )}
+                                                            <span className="text-muted-foreground font-mono">
+                                                                {" "}
+                                                                ·{" "}
+                                                                {zonedTime(
+                                                                    shownSlot.start,
+                                                                    feasibilityConfig?.timezone
+                                                                )}
+                                                                –
+                                                                {zonedTime(
+                                                                    shownSlot.end,
+                                                                    feasibilityConfig?.timezone
+                                                                )}
+                                                            </span>
+                                                        </p>
+                                                    ) : (
+                                                        slotHold.expired && (
+                                                            <p className="text-sm font-medium text-amber-700">
+                                                                Slot hold expired — go back and pick
+                                                                a slot again.
+                                                            </p>
+                                                        )
+                                                    )}
                                                 </div>
                                                 {formData.expected_return_date && (
                                                     <div>
@@ -1056,7 +941,11 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
                             className="gap-2 font-mono uppercase tracking-wide"
                             size="lg"
                         >
-                            {isSubmitting ? "Submitting..." : "Submit Pickup Request"}
+                            {submitAttempt.pending.length > 0
+                                ? "Retrying..."
+                                : isSubmitting
+                                  ? "Submitting..."
+                                  : "Submit Pickup Request"}
                             <Check className="h-4 w-4" />
                         </Button>
                     ) : (
@@ -1152,102 +1041,3 @@ export function SelfPickupCheckoutFlow({ onSwitchToStandard }: SelfPickupCheckou
         </>
     );
 }
-
-/**
- * Inline helper on the SP pickup-window step. Shorter than the order-side
- * FeasibilityHelper because self-pickups don't have maintenance decisions
- * or per-item refurb timelines — just a platform-wide lead-hours check.
- *
- *   - No pickup date picked yet → show the soonest-possible start as a hint.
- *   - User picked a workable date → subtle green confirmation.
- *   - User picked a too-soon date → amber warning + "Use this date" shortcut.
- */
-function SpLeadHelper({
-    floor,
-    userDateFeasible,
-    leadHours,
-    timezone,
-    onUseFloor,
-}: {
-    floor: { floorDate: string; floorDatetime: string } | null;
-    userDateFeasible: boolean | null;
-    leadHours: number;
-    timezone: string | undefined;
-    onUseFloor: () => void;
-}) {
-    if (!floor) return null;
-
-    const fmt = (iso: string) => {
-        try {
-            return new Intl.DateTimeFormat("en-GB", {
-                timeZone: timezone,
-                weekday: "short",
-                day: "numeric",
-                month: "short",
-                year: "numeric",
-                hour: "2-digit",
-                minute: "2-digit",
-                hour12: false,
-            }).format(new Date(iso));
-        } catch {
-            return iso;
-        }
-    };
-    const floorLabel = fmt(floor.floorDatetime);
-
-    if (userDateFeasible === null) {
-        return (
-            <div className="rounded-md border border-border/60 bg-muted/40 p-3 text-sm space-y-1">
-                <p className="font-mono text-xs uppercase tracking-wide text-muted-foreground">
-                    Soonest possible pickup
-                </p>
-                <p className="font-mono font-medium">{floorLabel}</p>
-                <p className="text-xs text-muted-foreground">
-                    {leadHours}h of warehouse prep is required before pickup.
-                </p>
-            </div>
-        );
-    }
-
-    if (userDateFeasible) {
-        return (
-            <div className="flex items-center gap-2 rounded-md border border-emerald-500/20 bg-emerald-500/5 px-3 py-2 text-sm">
-                <Check className="h-4 w-4 text-emerald-600 shrink-0" />
-                <p className="text-xs text-emerald-700">
-                    Your pickup time works — we can have everything ready in time.
-                </p>
-            </div>
-        );
-    }
-
-    return (
-        <div className="rounded-md border border-amber-500/30 bg-amber-500/5 p-3 space-y-2">
-            <div className="flex items-start gap-2">
-                <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
-                <div className="space-y-1 min-w-0">
-                    <p className="text-sm font-medium text-amber-900">
-                        This pickup time is a bit too soon.
-                    </p>
-                    <p className="text-xs text-amber-800">
-                        Soonest we can have everything ready:{" "}
-                        <span className="font-mono font-semibold">{floorLabel}</span>
-                    </p>
-                    <p className="text-[11px] text-amber-700">
-                        Self-pickups need at least {leadHours}h of warehouse prep.
-                    </p>
-                </div>
-            </div>
-            <div className="flex items-center justify-start gap-2 pt-1">
-                <Button
-                    type="button"
-                    size="sm"
-                    variant="outline"
-                    className="h-7 text-xs"
-                    onClick={onUseFloor}
-                >
-                    Use this time
-                </Button>
-            </div>
-        </div>
-    );
-}
@@ -0,0 +1,148 @@
+"use client";
+
+/**
+ * SubmissionQueueStatus — corner pill for order and self-pickup submits in
+ * flight or waiting to be retried, so a dropped connection never leaves the
+ * user guessing whether their order went through. When a record that only
+ * looks like the attempt turns up, the user says whether it's theirs.
+ * Rendered once, app-wide.
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { AlertCircle, Check, Loader2, RotateCw, Send, WifiOff, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    recordHref,
+    useSubmissionQueue,
+    type SubmissionEntry,
+} from "@/contexts/submission-queue-context";
+
+function describe(entry: SubmissionEntry, now: number): string {
+    switch (entry.status) {
+        case "submitting":
+            return "Submitting…";
+        case "retrying":
+            return "Checking whether it went through…";
+        case "waiting": {
+            const seconds = Math.max(0, Math.ceil((entry.nextAttemptAt - now) / 1000));
+            return seconds > 0 ? `Connection lost — retrying in ${seconds}s` : "Retrying…";
+        }
+        case "failed":
+            return entry.lastError || "Couldn't be submitted";
+        case "unconfirmed":
+            return `May already have gone through as ${
+                entry.possibleMatch?.record.reference || "a recent submission"
+            } — is that this one?`;
+    }
+}
+
+export function SubmissionQueueStatus() {
+    const { entries, retryNow, discard, confirmMatch, sendAnyway } = useSubmissionQueue();
+    const [now, setNow] = useState(() => Date.now());
+
+    const counting = entries.some((entry) => entry.status === "waiting");
+    useEffect(() => {
+        if (!counting) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [counting]);
+
+    if (entries.length === 0) return null;
+
+    return (
+        <div
+            className="fixed bottom-4 left-4 z-50 flex w-80 flex-col gap-2"
+            data-testid="submission-queue-status"
+        >
+            {entries.map((entry) => (
+                <div
+                    key={entry.key}
+                    className={`rounded-lg border bg-card p-3 shadow-lg ${
+                        entry.status === "failed" ? "border-red-200" : "border-border"
+                    }`}
+                >
+                    <div className="flex items-start gap-2">
+                        {entry.status === "waiting" ? (
+                            <WifiOff className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                        ) : entry.status === "failed" ? (
+                            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />
+                        ) : entry.status === "unconfirmed" ? (
+                            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+                        ) : (
+                            <Loader2 className="mt-0.5 h-4 w-4 shrink-0 animate-spin text-primary" />
+                        )}
+                        <div className="min-w-0 flex-1">
+                            <p className="truncate text-sm font-medium">{entry.label}</p>
+                            <p className="text-xs text-muted-foreground">{describe(entry, now)}</p>
+                        </div>
+                    </div>
+                    {entry.status === "unconfirmed" && (
+                        <div className="mt-2 flex flex-wrap justify-end gap-1.5">
+                            {entry.possibleMatch?.record.id && (
+                                <Button
+                                    asChild
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 px-2 text-xs"
+                                >
+                                    <Link
+                                        href={recordHref(entry.kind, entry.possibleMatch.record.id)}
+                                    >
+                                        View
+                                    </Link>
+                                </Button>
+                            )}
+                            <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                className="h-7 gap-1 px-2 text-xs"
+                                onClick={() => confirmMatch(entry.key)}
+                            >
+                                <Check className="h-3 w-3" />
+                                That&apos;s it
+                            </Button>
+                            <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                className="h-7 gap-1 px-2 text-xs"
+                                onClick={() => sendAnyway(entry.key)}
+                            >
+                                <Send className="h-3 w-3" />
+                                Send anyway
+                            </Button>
+                        </div>
+                    )}
+                    {(entry.status === "waiting" || entry.status === "failed") && (
+                        <div className="mt-2 flex justify-end gap-1.5">
+                            <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                className="h-7 gap-1 px-2 text-xs"
+                                onClick={() => retryNow(entry.key)}
+                            >
+                                <RotateCw className="h-3 w-3" />
+                                Retry now
+                            </Button>
+                            {entry.status === "failed" && (
+                                <Button
+                                    type="button"
+                                    size="sm"
+                                    variant="ghost"
+                                    className="h-7 gap-1 px-2 text-xs"
+                                    onClick={() => discard(entry.key)}
+                                >
+                                    <X className="h-3 w-3" />
+                                    Dismiss
+                                </Button>
+                            )}
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
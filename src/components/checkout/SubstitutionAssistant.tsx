@@ -0,0 +1,141 @@
+"use client";
+
+/**
+ * SubstitutionAssistant — follows AvailabilityHelper. For each cart line that
+ * can't be booked in the chosen window it offers up to three in-stock
+ * alternatives (same family, then same category at a similar size) and swaps
+ * one in with a click. The quantity stays; a rebrand request carries over
+ * unless the alternative already carries the target brand.
+ */
+
+import Image from "next/image";
+import { format } from "date-fns";
+import { ArrowLeftRight, Loader2, Package } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useCart } from "@/contexts/cart-context";
+import type { AvailabilityPreviewItem } from "@/hooks/use-availability-preview";
+import { useSubstituteSuggestions } from "@/hooks/use-substitutes";
+import { substituteCartItem } from "@/lib/cart/substitutes";
+import type { AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+
+interface SubstitutionAssistantProps {
+    blockingItems: AvailabilityPreviewItem[];
+    window: AvailabilityWindow | null;
+}
+
+export function SubstitutionAssistant({ blockingItems, window }: SubstitutionAssistantProps) {
+    const { items, swapItem } = useCart();
+    const suggestions = useSubstituteSuggestions({ blockingItems, window });
+
+    if (blockingItems.length === 0) return null;
+
+    return (
+        <div
+            className="rounded-md border border-border/60 bg-card/60 p-3 space-y-3"
+            data-testid="substitution-assistant"
+        >
+            <div className="flex items-center gap-2">
+                <ArrowLeftRight className="h-4 w-4 text-primary" />
+                <p className="text-sm font-medium">Swap in an alternative</p>
+                {suggestions.isFetching && (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+                )}
+            </div>
+
+            {suggestions.isError && (
+                <p className="text-xs text-muted-foreground">
+                    Couldn't look up alternatives right now.
+                </p>
+            )}
+
+            {(suggestions.data ?? []).map((suggestion) => {
+                const line = items.find((item) => item.assetId === suggestion.assetId);
+                if (!line) return null;
+                return (
+                    <div key={suggestion.assetId} className="space-y-2">
+                        <p className="text-xs text-muted-foreground">
+                            Instead of <span className="font-medium">{line.assetName}</span> ×
+                            {line.quantity}
+                            {suggestion.nextAvailableDate && (
+                                <span className="font-mono">
+                                    {" "}
+                                    · back {format(new Date(suggestion.nextAvailableDate), "d MMM")}
+                                </span>
+                            )}
+                        </p>
+                        {suggestion.substitutes.length === 0 ? (
+                            <p className="text-xs text-muted-foreground italic">
+                                No in-stock alternatives for these dates.
+                            </p>
+                        ) : (
+                            <ul className="space-y-1.5">
+                                {suggestion.substitutes.map((substitute) => {
+                                    const replacement = substituteCartItem(line, substitute);
+                                    const rebrandDropped =
+                                        !!line.isReskinRequest && !replacement.isReskinRequest;
+                                    return (
+                                        <li
+                                            key={substitute.assetId}
+                                            className="flex items-center gap-3 rounded-md border border-border/40 bg-background/70 p-2"
+                                        >
+                                            {substitute.details.image ? (
+                                                <Image
+                                                    src={substitute.details.image}
+                                                    alt={substitute.name}
+                                                    width={36}
+                                                    height={36}
+                                                    className="h-9 w-9 rounded object-cover"
+                                                />
+                                            ) : (
+                                                <div className="flex h-9 w-9 items-center justify-center rounded bg-muted">
+                                                    <Package className="h-4 w-4 text-muted-foreground" />
+                                                </div>
+                                            )}
+                                            <div className="min-w-0 flex-1">
+                                                <p className="truncate text-sm font-medium">
+                                                    {substitute.name}
+                                                </p>
+                                                <div className="flex flex-wrap items-center gap-1.5 text-[11px] text-muted-foreground">
+                                                    <span className="font-mono">
+                                                        {substitute.availableQuantity} available
+                                                    </span>
+                                                    {substitute.familyId &&
+                                                        substitute.familyId ===
+                                                            suggestion.familyId && (
+                                                            <Badge
+                                                                variant="outline"
+                                                                className="h-4 px-1 text-[10px]"
+                                                            >
+                                                                Same family
+                                                            </Badge>
+                                                        )}
+                                                    {line.isReskinRequest &&
+                                                        (rebrandDropped
+                                                            ? "· already in the target brand"
+                                                            : "· rebrand carries over")}
+                                                </div>
+                                            </div>
+                                            <Button
+                                                type="button"
+                                                size="sm"
+                                                variant="outline"
+                                                className="h-7 gap-1 px-2 text-xs"
+                                                onClick={() =>
+                                                    swapItem(suggestion.assetId, replacement)
+                                                }
+                                            >
+                                                <ArrowLeftRight className="h-3 w-3" />
+                                                Swap
+                                            </Button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
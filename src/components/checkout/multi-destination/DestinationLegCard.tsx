@@ -0,0 +1,292 @@
+"use client";
+
+/**
+ * Destination Leg Card
+ * Dates, windows, venue and permits for one destination that hasn't been
+ * submitted yet, with its live previews.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { PermitSection } from "@/components/permits/PermitSection";
+import { SavedVenuePicker } from "@/components/venues/SavedVenuePicker";
+import { useCart } from "@/contexts/cart-context";
+import { usePlatform } from "@/contexts/platform-context";
+import { useCountries } from "@/hooks/use-countries";
+import {
+    legCartItems,
+    type DestinationLeg,
+    type DestinationLegForm,
+} from "@/lib/checkout/multi-destination";
+import { venueToCheckoutFields } from "@/lib/venue-library";
+import { DestinationLegChecks } from "./DestinationLegChecks";
+import { useSplitCheckout } from "./SplitCheckoutContext";
+
+export function DestinationLegCard({ index, leg }: { index: number; leg: DestinationLeg }) {
+    const { platform } = usePlatform();
+    const { items } = useCart();
+    const { data: countriesData } = useCountries();
+    const { eventDateInputsEnabled, updateLegForm } = useSplitCheckout();
+    const onChange = (patch: Partial<DestinationLegForm>) => updateLegForm(leg.id, patch);
+    const cities =
+        countriesData?.data?.find((country) => country.id === leg.form.venue_country_id)?.cities ??
+        [];
+    const { form } = leg;
+    const needsCollection = form.is_permanent_placement === false;
+    const itemCount = legCartItems(items, leg).reduce((sum, item) => sum + item.quantity, 0);
+    const fieldId = (name: string) => `${leg.id}-${name}`;
+    const labelClass = "font-mono uppercase text-xs tracking-wide";
+
+    const windowRow = (
+        kind: "delivery" | "pickup",
+        fields: {
+            date: keyof DestinationLegForm;
+            start: keyof DestinationLegForm;
+            end: keyof DestinationLegForm;
+        }
+    ) => (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+                <Label htmlFor={fieldId(`${kind}-date`)} className={labelClass}>
+                    {kind === "delivery" ? "Delivery" : "Pickup"} Date{" "}
+                    {eventDateInputsEnabled ? "" : "*"}
+                </Label>
+                <Input
+                    id={fieldId(`${kind}-date`)}
+                    type="date"
+                    value={form[fields.date] as string}
+                    onChange={(e) => onChange({ [fields.date]: e.target.value })}
+                    min={kind === "pickup" ? form.requested_delivery_date || undefined : undefined}
+                    className="h-12 font-mono"
+                />
+            </div>
+            <div className="space-y-2">
+                <Label className={labelClass}>From</Label>
+                <Input
+                    type="time"
+                    value={form[fields.start] as string}
+                    onChange={(e) => onChange({ [fields.start]: e.target.value })}
+                    className="h-12 font-mono"
+                />
+            </div>
+            <div className="space-y-2">
+                <Label className={labelClass}>To</Label>
+                <Input
+                    type="time"
+                    value={form[fields.end] as string}
+                    onChange={(e) => onChange({ [fields.end]: e.target.value })}
+                    className="h-12 font-mono"
+                />
+            </div>
+        </div>
+    );
+
+    return (
+        <Card className="p-8 bg-card/50 border-border/50 space-y-6">
+            <div className="flex items-center justify-between gap-3">
+                <h3 className="text-lg font-semibold">Destination {index + 1}</h3>
+                <Badge variant="outline" className="font-mono">
+                    {itemCount} item{itemCount === 1 ? "" : "s"}
+                </Badge>
+            </div>
+
+            <div className="space-y-2">
+                <Label className={labelClass}>Will these items stay at the venue? *</Label>
+                <RadioGroup
+                    value={
+                        form.is_permanent_placement === null
+                            ? ""
+                            : form.is_permanent_placement
+                              ? "permanent"
+                              : "temporary"
+                    }
+                    onValueChange={(value) =>
+                        onChange({ is_permanent_placement: value === "permanent" })
+                    }
+                    className="flex gap-6"
+                >
+                    <div className="flex items-center gap-2">
+                        <RadioGroupItem value="temporary" id={fieldId("temporary")} />
+                        <Label htmlFor={fieldId("temporary")} className="font-normal">
+                            No, collect them after the event
+                        </Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <RadioGroupItem value="permanent" id={fieldId("permanent")} />
+                        <Label htmlFor={fieldId("permanent")} className="font-normal">
+                            Yes, permanent placement
+                        </Label>
+                    </div>
+                </RadioGroup>
+            </div>
+
+            {eventDateInputsEnabled && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor={fieldId("event-start")} className={labelClass}>
+                            Event Start *
+                        </Label>
+                        <Input
+                            id={fieldId("event-start")}
+                            type="date"
+                            value={form.event_start_date}
+                            onChange={(e) => onChange({ event_start_date: e.target.value })}
+                            className="h-12 font-mono"
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor={fieldId("event-end")} className={labelClass}>
+                            Event End *
+                        </Label>
+                        <Input
+                            id={fieldId("event-end")}
+                            type="date"
+                            value={form.event_end_date}
+                            min={form.event_start_date || undefined}
+                            onChange={(e) => onChange({ event_end_date: e.target.value })}
+                            className="h-12 font-mono"
+                        />
+                    </div>
+                </div>
+            )}
+
+            {windowRow("delivery", {
+                date: "requested_delivery_date",
+                start: "requested_delivery_time_start",
+                end: "requested_delivery_time_end",
+            })}
+            {needsCollection &&
+                windowRow("pickup", {
+                    date: "requested_pickup_date",
+                    start: "requested_pickup_time_start",
+                    end: "requested_pickup_time_end",
+                })}
+
+            <DestinationLegChecks leg={leg} />
+
+            <SavedVenuePicker onSelect={(venue) => onChange(venueToCheckoutFields(venue))} />
+
+            <div className="space-y-2">
+                <Label htmlFor={fieldId("venue-name")} className={labelClass}>
+                    Venue Name *
+                </Label>
+                <Input
+                    id={fieldId("venue-name")}
+                    value={form.venue_name}
+                    onChange={(e) => onChange({ venue_name: e.target.value })}
+                    placeholder="e.g., Dubai Festival City"
+                    className="h-12"
+                />
+            </div>
+
+            <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-2">
+                    <Label className={labelClass}>Country</Label>
+                    <div className="h-12 px-3 border border-border rounded-md bg-muted/30 flex items-center text-sm font-mono">
+                        {form.venue_country_name || "Loading..."}
+                    </div>
+                </div>
+                <div className="space-y-2">
+                    <Label className={labelClass}>City *</Label>
+                    <Select
+                        value={form.venue_city_id}
+                        onValueChange={(value) =>
+                            onChange({
+                                venue_city_id: value,
+                                venue_city_name: cities.find((c) => c.id === value)?.name || "",
+                            })
+                        }
+                        disabled={!form.venue_country_id}
+                    >
+                        <SelectTrigger className="h-12 font-mono">
+                            <SelectValue placeholder="Select city" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {cities.map((city) => (
+                                <SelectItem key={city.id} value={city.id} className="font-mono">
+                                    {city.name}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <Label htmlFor={fieldId("venue-address")} className={labelClass}>
+                    Full Address *
+                </Label>
+                <Textarea
+                    id={fieldId("venue-address")}
+                    value={form.venue_address}
+                    onChange={(e) => onChange({ venue_address: e.target.value })}
+                    placeholder="Complete venue address"
+                    rows={2}
+                    className="font-mono text-sm"
+                />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-1">
+                    <Label htmlFor={fieldId("venue-contact-name")} className="text-xs">
+                        Venue Contact Name
+                    </Label>
+                    <Input
+                        id={fieldId("venue-contact-name")}
+                        value={form.venue_contact_name}
+                        onChange={(e) => onChange({ venue_contact_name: e.target.value })}
+                        placeholder="Contact name"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor={fieldId("venue-contact-email")} className="text-xs">
+                        Email
+                    </Label>
+                    <Input
+                        id={fieldId("venue-contact-email")}
+                        type="email"
+                        value={form.venue_contact_email}
+                        onChange={(e) => onChange({ venue_contact_email: e.target.value })}
+                        placeholder="contact@venue.com"
+                    />
+                </div>
+                <div className="space-y-1">
+                    <Label htmlFor={fieldId("venue-contact-phone")} className="text-xs">
+                        Phone
+                    </Label>
+                    <Input
+                        id={fieldId("venue-contact-phone")}
+                        value={form.venue_contact_phone}
+                        onChange={(e) => onChange({ venue_contact_phone: e.target.value })}
+                        placeholder="+971..."
+                    />
+                </div>
+            </div>
+
+            <PermitSection
+                value={{
+                    permit_decision: form.permit_decision,
+                    requires_permit: form.requires_permit,
+                    permit_owner: form.permit_owner,
+                    requires_vehicle_docs: form.requires_vehicle_docs,
+                    requires_staff_ids: form.requires_staff_ids,
+                    permit_notes: form.permit_notes,
+                    venue_access_notes: form.venue_access_notes,
+                }}
+                onChange={onChange}
+                companyName={platform?.company_name ?? null}
+            />
+        </Card>
+    );
+}
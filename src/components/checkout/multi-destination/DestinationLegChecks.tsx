@@ -0,0 +1,141 @@
+"use client";
+
+/**
+ * Destination Leg Checks
+ * Feasibility and availability previews for one destination, against its
+ * own share of the cart and its own dates. Reports the verdict up so the
+ * flow can gate Continue/Submit.
+ *
+ * Destinations are checked independently: two overlapping destinations that
+ * together need more stock than exists both pass here, and the second order
+ * is rejected on submit.
+ */
+
+import { useEffect, useMemo } from "react";
+import { AvailabilityHelper } from "@/components/checkout/AvailabilityHelper";
+import { FeasibilityHelper } from "@/components/checkout/FeasibilityHelper";
+import { useCart } from "@/contexts/cart-context";
+import { usePlatform } from "@/contexts/platform-context";
+import {
+    interpretAvailabilityPreview,
+    useAvailabilityPreview,
+} from "@/hooks/use-availability-preview";
+import {
+    interpretFeasibilityPreview,
+    useFeasibility,
+    useFeasibilityConfig,
+} from "@/hooks/use-feasibility-check";
+import { buildAvailabilityWindow } from "@/lib/checkout/checkout-storage";
+import {
+    applyFeasibilityFloor,
+    legCartItems,
+    type DestinationLeg,
+} from "@/lib/checkout/multi-destination";
+import { orderEventDates } from "@/lib/checkout/order-payload";
+import { composeZonedISO } from "@/lib/feasibility/compose-datetime";
+import { useSplitCheckout } from "./SplitCheckoutContext";
+
+export function DestinationLegChecks({ leg }: { leg: DestinationLeg }) {
+    const { platform } = usePlatform();
+    const { items } = useCart();
+    const { data: feasibilityConfig } = useFeasibilityConfig();
+    const { eventDateInputsEnabled, updateLegForm, reportLegCheck } = useSplitCheckout();
+    const { form } = leg;
+    const legItems = useMemo(() => legCartItems(items, leg), [items, leg]);
+    const eventStart = orderEventDates(form, eventDateInputsEnabled).start;
+
+    const eventStartDatetime = useMemo(
+        () =>
+            composeZonedISO({
+                date: eventStart,
+                time: form.requested_delivery_time_start,
+                timezone: feasibilityConfig?.timezone,
+            }),
+        [eventStart, form.requested_delivery_time_start, feasibilityConfig?.timezone]
+    );
+    const feasibilityItems = useMemo(
+        () =>
+            legItems.map((item) => ({
+                asset_id: item.assetId,
+                maintenance_decision: item.maintenanceDecision,
+            })),
+        [legItems]
+    );
+    const feasibilityPreview = useFeasibility({
+        items: feasibilityItems,
+        eventStartDatetime,
+    });
+    const feasibility = interpretFeasibilityPreview(
+        feasibilityPreview.data,
+        eventStart,
+        eventStartDatetime
+    );
+
+    const availabilityItems = useMemo(
+        () => legItems.map((item) => ({ asset_id: item.assetId, quantity: item.quantity })),
+        [legItems]
+    );
+    const availabilityWindow = useMemo(
+        () =>
+            buildAvailabilityWindow({
+                requested_delivery_date: form.requested_delivery_date,
+                requested_pickup_date: form.requested_pickup_date,
+                event_start_date: form.event_start_date,
+                event_end_date: form.event_end_date,
+            }),
+        [
+            form.requested_delivery_date,
+            form.requested_pickup_date,
+            form.event_start_date,
+            form.event_end_date,
+        ]
+    );
+    const availabilityPreview = useAvailabilityPreview({
+        items: availabilityItems,
+        window: availabilityWindow,
+    });
+    const availability = interpretAvailabilityPreview(availabilityPreview.data);
+
+    const isLoading = feasibilityPreview.isFetching || availabilityPreview.isFetching;
+    const unavailableCount = availability.blockingItems.length;
+    useEffect(() => {
+        reportLegCheck(leg.id, {
+            isLoading,
+            userDateFeasible: feasibility.userDateFeasible,
+            unavailableCount,
+        });
+    }, [reportLegCheck, leg.id, isLoading, feasibility.userDateFeasible, unavailableCount]);
+
+    return (
+        <div className="space-y-3">
+            <FeasibilityHelper
+                helperEnabled={(platform?.features as any)?.enable_feasibility_helper !== false}
+                isLoading={feasibilityPreview.isLoading}
+                floorDate={feasibility.floorDate}
+                floorDatetime={feasibility.floorDatetime}
+                userEventDate={eventStart}
+                userDateFeasible={feasibility.userDateFeasible}
+                blockingItems={feasibility.blockingItems}
+                config={feasibilityPreview.data?.config ?? null}
+                onUseFloorDate={() => {
+                    if (!feasibility.floorDate) return;
+                    updateLegForm(
+                        leg.id,
+                        applyFeasibilityFloor(
+                            form,
+                            {
+                                floorDate: feasibility.floorDate,
+                                floorDatetime: feasibility.floorDatetime,
+                            },
+                            { timezone: feasibilityConfig?.timezone, eventDateInputsEnabled }
+                        )
+                    );
+                }}
+            />
+            <AvailabilityHelper
+                isLoading={availabilityPreview.isLoading}
+                blockingItems={availability.blockingItems}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+/**
+ * Destinations Step
+ * One card per destination for its dates, venue and permits; destinations
+ * already submitted collapse to their order id.
+ */
+
+import { Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { useFeasibilityConfig } from "@/hooks/use-feasibility-check";
+import { DestinationLegCard } from "./DestinationLegCard";
+import { useSplitCheckout } from "./SplitCheckoutContext";
+
+export function DestinationsStep() {
+    const { data: feasibilityConfig } = useFeasibilityConfig();
+    const { legs, submitted } = useSplitCheckout();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Destinations</h2>
+                <p className="text-muted-foreground">
+                    Dates, venue and permits for each order. Times are in{" "}
+                    {feasibilityConfig?.timezone
+                        ? feasibilityConfig.timezone.replace("_", " ")
+                        : "platform timezone"}
+                    .
+                </p>
+            </div>
+
+            {legs.map((leg, index) =>
+                submitted[leg.id] ? (
+                    <Card
+                        key={leg.id}
+                        className="p-6 bg-card/50 border-border/50 flex items-center justify-between gap-3"
+                    >
+                        <div>
+                            <p className="text-xs font-mono uppercase tracking-wide text-muted-foreground">
+                                Destination {index + 1}
+                            </p>
+                            <p className="font-semibold">{leg.form.venue_name}</p>
+                        </div>
+                        <Badge className="gap-1 font-mono">
+                            <Check className="h-3 w-3" />
+                            Submitted · {submitted[leg.id]}
+                        </Badge>
+                    </Card>
+                ) : (
+                    <DestinationLegCard key={leg.id} index={index} leg={leg} />
+                )
+            )}
+        </>
+    );
+}
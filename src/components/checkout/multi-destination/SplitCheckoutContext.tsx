@@ -0,0 +1,57 @@
+"use client";
+
+/**
+ * Split Checkout Context
+ * What the multi-destination flow's step components share with the flow:
+ * the destinations, the shared contact, what has been submitted so far, and
+ * the handlers that edit them. The flow owns all of it — steps and leg cards
+ * only render and edit. Cart, platform and config come from their own hooks.
+ */
+
+import React, { useContext } from "react";
+import type {
+    DestinationLeg,
+    DestinationLegForm,
+    DestinationOrderContact,
+} from "@/lib/checkout/multi-destination";
+import type { TripType } from "@/types/hybrid-pricing";
+
+// What each destination's live previews last reported.
+export interface LegCheckStatus {
+    isLoading: boolean;
+    userDateFeasible: boolean | null;
+    unavailableCount: number;
+}
+
+export interface SplitCheckoutContextValue {
+    legs: DestinationLeg[];
+    setLegs: React.Dispatch<React.SetStateAction<DestinationLeg[]>>;
+    // Units of each cart line not yet sent to any destination.
+    remaining: Record<string, number>;
+    // legId → order id for destinations that already went through.
+    submitted: Record<string, string>;
+    hasSubmittedAny: boolean;
+    contact: DestinationOrderContact;
+    setContact: React.Dispatch<React.SetStateAction<DestinationOrderContact>>;
+    transport: { tripType: TripType; vehicleType: string | null };
+    eventDateInputsEnabled: boolean;
+
+    updateLegForm: (legId: string, patch: Partial<DestinationLegForm>) => void;
+    setLegQuantity: (legId: string, assetId: string, quantity: number) => void;
+    addLeg: () => void;
+    removeLeg: (legId: string) => void;
+    // Stable across renders, so leg checks can report from an effect.
+    reportLegCheck: (legId: string, status: LegCheckStatus) => void;
+}
+
+const SplitCheckoutContext = React.createContext<SplitCheckoutContextValue | undefined>(undefined);
+
+export const SplitCheckoutProvider = SplitCheckoutContext.Provider;
+
+export function useSplitCheckout() {
+    const context = useContext(SplitCheckoutContext);
+    if (!context) {
+        throw new Error("useSplitCheckout must be used within a SplitCheckoutProvider");
+    }
+    return context;
+}
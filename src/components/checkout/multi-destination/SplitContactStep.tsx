@@ -0,0 +1,119 @@
+"use client";
+
+/**
+ * Split Contact Step
+ * The one execution contact shared by every destination's order.
+ */
+
+import PhoneInput, { isValidPhoneNumber } from "react-phone-number-input";
+import "react-phone-number-input/style.css";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useSplitCheckout } from "./SplitCheckoutContext";
+
+export function SplitContactStep() {
+    const { legs, contact, setContact } = useSplitCheckout();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Point of Contact</h2>
+                <p className="text-muted-foreground">
+                    One contact for all {legs.length} orders. Venue contacts are set per
+                    destination.
+                </p>
+            </div>
+
+            <Card className="p-8 bg-card/50 border-border/50">
+                <div className="space-y-6">
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="splitContactName"
+                            className="font-mono uppercase text-xs tracking-wide"
+                        >
+                            Full Name *
+                        </Label>
+                        <Input
+                            id="splitContactName"
+                            value={contact.contact_name}
+                            onChange={(e) =>
+                                setContact({
+                                    ...contact,
+                                    contact_name: e.target.value,
+                                })
+                            }
+                            className="h-12"
+                        />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div className="space-y-2">
+                            <Label
+                                htmlFor="splitContactEmail"
+                                className="font-mono uppercase text-xs tracking-wide"
+                            >
+                                Email *
+                            </Label>
+                            <Input
+                                id="splitContactEmail"
+                                type="email"
+                                value={contact.contact_email}
+                                onChange={(e) =>
+                                    setContact({
+                                        ...contact,
+                                        contact_email: e.target.value,
+                                    })
+                                }
+                                className="h-12 font-mono"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="font-mono uppercase text-xs tracking-wide">
+                                Phone Number *
+                            </Label>
+                            <PhoneInput
+                                international
+                                defaultCountry="AE"
+                                value={contact.contact_phone}
+                                onChange={(value) =>
+                                    setContact({
+                                        ...contact,
+                                        contact_phone: value || "",
+                                    })
+                                }
+                                className="h-12 rounded-md border border-input bg-background px-3 text-sm [&>input]:border-0 [&>input]:bg-transparent [&>input]:outline-none [&>input]:h-full"
+                            />
+                            {contact.contact_phone &&
+                                !isValidPhoneNumber(contact.contact_phone) && (
+                                    <p className="text-xs text-destructive">
+                                        Please enter a valid phone number
+                                    </p>
+                                )}
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="splitSpecialInstructions"
+                            className="font-mono uppercase text-xs tracking-wide"
+                        >
+                            Special Instructions
+                        </Label>
+                        <Textarea
+                            id="splitSpecialInstructions"
+                            value={contact.special_instructions}
+                            onChange={(e) =>
+                                setContact({
+                                    ...contact,
+                                    special_instructions: e.target.value,
+                                })
+                            }
+                            placeholder="Added to every order"
+                            rows={3}
+                        />
+                    </div>
+                </div>
+            </Card>
+        </>
+    );
+}
@@ -0,0 +1,140 @@
+"use client";
+
+/**
+ * Split Items Step
+ * How many units of each cart line go to each destination.
+ */
+
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useCart } from "@/contexts/cart-context";
+import { assignRemainder, MAX_DESTINATION_LEGS } from "@/lib/checkout/multi-destination";
+import { useSplitCheckout } from "./SplitCheckoutContext";
+
+export function SplitItemsStep() {
+    const { items } = useCart();
+    const { legs, setLegs, remaining, hasSubmittedAny, setLegQuantity, addLeg, removeLeg } =
+        useSplitCheckout();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Split Your Cart</h2>
+                <p className="text-muted-foreground">
+                    Decide how many of each item go to each destination. Every destination becomes
+                    its own order.
+                </p>
+            </div>
+
+            <Card className="p-6 bg-card/50 border-border/50 overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left font-mono text-xs uppercase tracking-wide text-muted-foreground">
+                            <th className="pb-3 pr-4 font-medium">Item</th>
+                            {legs.map((leg, index) => (
+                                <th key={leg.id} className="pb-3 px-2 font-medium text-center">
+                                    <div className="flex items-center justify-center gap-1">
+                                        Dest. {index + 1}
+                                        {legs.length > 2 && !hasSubmittedAny && (
+                                            <button
+                                                type="button"
+                                                onClick={() => removeLeg(leg.id)}
+                                                className="text-muted-foreground hover:text-destructive"
+                                                aria-label={`Remove destination ${index + 1}`}
+                                            >
+                                                <Trash2 className="h-3.5 w-3.5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                </th>
+                            ))}
+                            <th className="pb-3 pl-2 font-medium text-right">Left</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.map((item) => {
+                            const left = remaining[item.assetId] ?? 0;
+                            return (
+                                <tr key={item.assetId} className="border-t border-border">
+                                    <td className="py-3 pr-4">
+                                        <p className="font-medium">{item.assetName}</p>
+                                        <p className="text-xs text-muted-foreground font-mono">
+                                            {item.quantity} in cart
+                                        </p>
+                                    </td>
+                                    {legs.map((leg) => (
+                                        <td key={leg.id} className="py-3 px-2">
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                max={item.quantity}
+                                                value={leg.quantities[item.assetId] ?? 0}
+                                                onChange={(e) =>
+                                                    setLegQuantity(
+                                                        leg.id,
+                                                        item.assetId,
+                                                        Number(e.target.value)
+                                                    )
+                                                }
+                                                disabled={hasSubmittedAny}
+                                                className="h-10 w-20 mx-auto text-center font-mono"
+                                                aria-label={`${item.assetName} for this destination`}
+                                            />
+                                        </td>
+                                    ))}
+                                    <td
+                                        className={`py-3 pl-2 text-right font-mono ${
+                                            left === 0
+                                                ? "text-muted-foreground"
+                                                : "text-destructive font-semibold"
+                                        }`}
+                                    >
+                                        {left}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                    <tfoot>
+                        <tr className="border-t border-border">
+                            <td className="pt-3 pr-4" />
+                            {legs.map((leg) => (
+                                <td key={leg.id} className="pt-3 px-2 text-center">
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-7 text-xs"
+                                        disabled={
+                                            hasSubmittedAny ||
+                                            Object.values(remaining).every((count) => count <= 0)
+                                        }
+                                        onClick={() =>
+                                            setLegs((prev) => assignRemainder(items, prev, leg.id))
+                                        }
+                                    >
+                                        Add the rest
+                                    </Button>
+                                </td>
+                            ))}
+                            <td />
+                        </tr>
+                    </tfoot>
+                </table>
+            </Card>
+
+            <Button
+                type="button"
+                variant="outline"
+                className="gap-2 font-mono"
+                onClick={addLeg}
+                disabled={hasSubmittedAny || legs.length >= MAX_DESTINATION_LEGS}
+            >
+                <Plus className="h-4 w-4" />
+                Add destination
+            </Button>
+        </>
+    );
+}
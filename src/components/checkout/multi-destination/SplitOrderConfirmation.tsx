@@ -0,0 +1,67 @@
+"use client";
+
+/**
+ * Split Order Confirmation
+ * The combined confirmation after a split checkout: one row per created
+ * order. Rendered by the checkout page, which outlives the emptied cart.
+ */
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowRight, Check, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { SplitOrderSummary } from "@/lib/checkout/multi-destination";
+
+export function SplitOrderConfirmation({ orders }: { orders: SplitOrderSummary[] }) {
+    const router = useRouter();
+
+    return (
+        <div className="max-w-3xl mx-auto px-8 py-16 space-y-8">
+            <div className="text-center space-y-3">
+                <div className="h-16 w-16 rounded-full bg-primary/10 flex items-center justify-center mx-auto">
+                    <Check className="h-8 w-8 text-primary" />
+                </div>
+                <h2 className="text-3xl font-bold">{orders.length} orders submitted</h2>
+                <p className="text-muted-foreground">
+                    Your cart was split across {orders.length} destinations. Each order is reviewed
+                    and quoted separately.
+                </p>
+            </div>
+
+            <Card className="divide-y divide-border bg-card/50 border-border/50">
+                {orders.map((order) => (
+                    <Link
+                        key={order.orderId}
+                        href={`/orders/${order.orderId}`}
+                        className="flex items-center gap-4 p-5 hover:bg-muted/30 transition-colors"
+                    >
+                        <MapPin className="h-5 w-5 shrink-0 text-primary" />
+                        <div className="min-w-0 flex-1">
+                            <p className="font-semibold truncate">{order.venueName}</p>
+                            <p className="text-sm text-muted-foreground font-mono">
+                                {order.orderId} · {order.eventStartDate} · {order.itemCount} item
+                                {order.itemCount === 1 ? "" : "s"}
+                            </p>
+                        </div>
+                        <ArrowRight className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    </Link>
+                ))}
+            </Card>
+
+            <div className="flex justify-center gap-3">
+                <Button
+                    variant="outline"
+                    className="font-mono"
+                    onClick={() => router.push("/catalog")}
+                >
+                    Back to Catalog
+                </Button>
+                <Button className="font-mono gap-2" onClick={() => router.push("/my-orders")}>
+                    View My Orders
+                    <ArrowRight className="h-4 w-4" />
+                </Button>
+            </div>
+        </div>
+    );
+}
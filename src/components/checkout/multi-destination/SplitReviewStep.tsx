@@ -0,0 +1,100 @@
+"use client";
+
+/**
+ * Split Review Step
+ * Every destination's order as it will be sent, with its live previews.
+ */
+
+import { Check, Package } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { useCart } from "@/contexts/cart-context";
+import { legCartItems } from "@/lib/checkout/multi-destination";
+import { orderEventDates } from "@/lib/checkout/order-payload";
+import { DestinationLegChecks } from "./DestinationLegChecks";
+import { useSplitCheckout } from "./SplitCheckoutContext";
+
+export function SplitReviewStep() {
+    const { items } = useCart();
+    const { legs, submitted, transport, eventDateInputsEnabled } = useSplitCheckout();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Review & Submit</h2>
+                <p className="text-muted-foreground">
+                    {legs.length} orders will be created, one per destination, each with{" "}
+                    {transport.tripType === "ONE_WAY" ? "one-way" : "round-trip"} transport
+                    {transport.vehicleType ? " on the vehicle you picked" : ""}.
+                </p>
+            </div>
+
+            {legs.map((leg, index) => {
+                const legItems = legCartItems(items, leg);
+                const event = orderEventDates(leg.form, eventDateInputsEnabled);
+                const orderId = submitted[leg.id];
+                return (
+                    <Card key={leg.id} className="p-6 bg-card/50 border-border/50 space-y-4">
+                        <div className="flex flex-wrap items-start justify-between gap-3">
+                            <div>
+                                <p className="text-xs font-mono uppercase tracking-wide text-muted-foreground">
+                                    Destination {index + 1}
+                                </p>
+                                <h3 className="text-lg font-semibold">{leg.form.venue_name}</h3>
+                                <p className="text-sm text-muted-foreground">
+                                    {[leg.form.venue_city_name, leg.form.venue_country_name]
+                                        .filter(Boolean)
+                                        .join(", ")}
+                                </p>
+                            </div>
+                            {orderId ? (
+                                <Badge className="gap-1 font-mono">
+                                    <Check className="h-3 w-3" />
+                                    {orderId}
+                                </Badge>
+                            ) : (
+                                <div className="text-right text-sm font-mono">
+                                    <p>
+                                        Delivery {leg.form.requested_delivery_date || event.start}{" "}
+                                        {leg.form.requested_delivery_time_start}–
+                                        {leg.form.requested_delivery_time_end}
+                                    </p>
+                                    {leg.form.is_permanent_placement === false ? (
+                                        <p className="text-muted-foreground">
+                                            Pickup {leg.form.requested_pickup_date || event.end}{" "}
+                                            {leg.form.requested_pickup_time_start}–
+                                            {leg.form.requested_pickup_time_end}
+                                        </p>
+                                    ) : (
+                                        <p className="text-muted-foreground">Permanent placement</p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                        <ul className="text-sm space-y-1">
+                            {legItems.map((item) => (
+                                <li
+                                    key={item.assetId}
+                                    className="flex items-center justify-between gap-2"
+                                >
+                                    <span className="flex items-center gap-2 min-w-0">
+                                        <Package className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                                        <span className="truncate">{item.assetName}</span>
+                                    </span>
+                                    <span className="font-mono text-muted-foreground">
+                                        × {item.quantity}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                        {!orderId && <DestinationLegChecks leg={leg} />}
+                    </Card>
+                );
+            })}
+
+            <p className="text-sm text-muted-foreground text-center">
+                Each order is reviewed separately by our team, with its own quote.
+            </p>
+        </>
+    );
+}
@@ -0,0 +1,406 @@
+"use client";
+
+/**
+ * Cart Step
+ * The lines being ordered, with maintenance decisions, commerce-rule notices,
+ * availability for the picked dates and the vehicle load plan.
+ */
+
+import { CartAvailabilityNotice } from "@/components/cart/cart-availability-notice";
+import { CommerceRuleBlocks } from "@/components/cart/commerce-rule-blocks";
+import { CommerceRuleSuggestions } from "@/components/cart/commerce-rule-suggestions";
+import { LoadPlannerPanel } from "@/components/cart/load-planner-panel";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useCart } from "@/contexts/cart-context";
+import {
+    AlertCircle,
+    Package,
+    MapPin,
+    CircleCheck,
+    Circle,
+    Split,
+    ChevronRight,
+} from "lucide-react";
+import Image from "next/image";
+import { useCheckoutStep } from "./CheckoutStepContext";
+
+export function CartStep() {
+    const {
+        availabilityWindow,
+        cartAvailability,
+        focusCartLine,
+        globalHits,
+        handleSplitDestinations,
+        hitsByAsset,
+        lineFocus,
+        loadPlan,
+        ruleHits,
+        stepValidation,
+    } = useCheckoutStep();
+    const { itemCount, items, totalVolume, totalWeight, updateItemMaintenanceDecision } = useCart();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Review Your Order</h2>
+                <p className="text-muted-foreground">
+                    Verify your items before proceeding to event details
+                </p>
+            </div>
+
+            {/* Item 6: global commerce-rule hits (no
+                                        related asset) surface at top as a
+                                        compact strip. Per-item hits render
+                                        inline inside each item row below. */}
+            {globalHits.length > 0 && (
+                <div className="rounded-md border border-amber-500/50 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                    {globalHits.map((hit) => (
+                        <div key={hit.rule_id} className="flex items-start gap-1.5">
+                            <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                            <span>{hit.message}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <CommerceRuleBlocks blocks={ruleHits.blocks} onFix={focusCartLine} />
+
+            <Card className="p-6 bg-card/50 border-border/50">
+                <div className="space-y-4">
+                    {items.map((item) => {
+                        const itemHits = hitsByAsset.get(item.assetId) || [];
+                        return (
+                            <div
+                                key={item.assetId}
+                                ref={lineFocus.lineRef(item.assetId)}
+                                className={`flex gap-4 pb-4 border-b border-border last:border-0 last:pb-0 rounded-md transition-shadow ${
+                                    lineFocus.focusedLine === item.assetId
+                                        ? "ring-2 ring-red-400 ring-offset-4"
+                                        : ""
+                                }`}
+                            >
+                                <div className="w-24 h-24 rounded-lg overflow-hidden border border-border shrink-0 bg-muted">
+                                    {item.image ? (
+                                        <Image
+                                            src={item.image}
+                                            alt={item.assetName}
+                                            width={96}
+                                            height={96}
+                                            className="object-cover w-full h-full"
+                                        />
+                                    ) : (
+                                        <div className="w-full h-full flex items-center justify-center">
+                                            <Package className="h-10 w-10 text-muted-foreground/30" />
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="flex-1">
+                                    <h4 className="font-semibold mb-1">{item.assetName}</h4>
+                                    <div className="flex items-center gap-3 text-sm text-muted-foreground font-mono mb-2">
+                                        <span>Qty: {item.quantity}</span>
+                                        <span>•</span>
+                                        <span>{item.volume} m³ each</span>
+                                        <span>•</span>
+                                        <span>{item.weight} kg each</span>
+                                    </div>
+                                    {(item.eventArea || item.note) && (
+                                        <div className="mb-2 space-y-0.5 text-xs text-muted-foreground">
+                                            {item.eventArea && (
+                                                <p className="flex items-center gap-1">
+                                                    <MapPin className="h-3 w-3" />
+                                                    {item.eventArea}
+                                                </p>
+                                            )}
+                                            {item.note && (
+                                                <p className="whitespace-pre-wrap break-words">
+                                                    Note: {item.note}
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
+                                    {cartAvailability.issues.has(item.assetId) && (
+                                        <CartAvailabilityNotice
+                                            assetId={item.assetId}
+                                            quantity={item.quantity}
+                                            issue={cartAvailability.issues.get(item.assetId)!}
+                                            window={cartAvailability.window}
+                                        />
+                                    )}
+                                    {item.condition === "RED" && (
+                                        <div className="mt-2 space-y-2 rounded-md border border-red-200 bg-red-50 p-3">
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <span className="inline-flex items-center gap-1 text-xs font-medium px-1.5 py-0.5 rounded-full bg-red-100 text-red-700">
+                                                    <AlertCircle className="h-3 w-3" /> RED
+                                                </span>
+                                                <span className="text-xs text-red-700">
+                                                    Repair before event is required.
+                                                </span>
+                                            </div>
+                                            {!item.refurbDaysEstimate && (
+                                                <p className="text-xs text-red-700">
+                                                    Repair cannot be scheduled until refurb days are
+                                                    recorded.
+                                                </p>
+                                            )}
+                                            <div className="flex flex-wrap gap-2">
+                                                <Button
+                                                    type="button"
+                                                    size="sm"
+                                                    variant={
+                                                        item.maintenanceDecision === "FIX_IN_ORDER"
+                                                            ? "default"
+                                                            : "outline"
+                                                    }
+                                                    disabled={!item.refurbDaysEstimate}
+                                                    onClick={() =>
+                                                        updateItemMaintenanceDecision(
+                                                            item.assetId,
+                                                            "FIX_IN_ORDER"
+                                                        )
+                                                    }
+                                                >
+                                                    Repair before event
+                                                </Button>
+                                            </div>
+                                            <details className="text-xs text-red-700">
+                                                <summary className="cursor-pointer font-medium">
+                                                    Condition details
+                                                </summary>
+                                                <div className="mt-2 space-y-2">
+                                                    {item.conditionNotes && (
+                                                        <p>{item.conditionNotes}</p>
+                                                    )}
+                                                    {item.conditionImages?.length ? (
+                                                        <div className="grid grid-cols-3 gap-2">
+                                                            {item.conditionImages
+                                                                .slice(0, 6)
+                                                                .map((photo, photoIndex) => (
+                                                                    <div
+                                                                        key={`${photo.url}-${photoIndex}`}
+                                                                        className="relative aspect-square overflow-hidden rounded-md border border-red-200 bg-white"
+                                                                    >
+                                                                        <Image
+                                                                            src={photo.url}
+                                                                            alt={`Condition photo ${photoIndex + 1}`}
+                                                                            fill
+                                                                            className="object-cover"
+                                                                        />
+                                                                    </div>
+                                                                ))}
+                                                        </div>
+                                                    ) : null}
+                                                    {item.refurbDaysEstimate && (
+                                                        <p>
+                                                            Est. repair: {item.refurbDaysEstimate}{" "}
+                                                            days
+                                                        </p>
+                                                    )}
+                                                </div>
+                                            </details>
+                                        </div>
+                                    )}
+                                    {item.condition === "ORANGE" && (
+                                        <div className="mt-2 space-y-2 rounded-md border border-amber-200 bg-amber-50 p-3">
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <span className="inline-flex items-center gap-1 text-xs font-medium px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700">
+                                                    <AlertCircle className="h-3 w-3" /> ORANGE
+                                                </span>
+                                                <span className="text-xs text-amber-700">
+                                                    Choose how this item should be handled.
+                                                </span>
+                                            </div>
+                                            {!item.refurbDaysEstimate && (
+                                                <p className="text-xs text-amber-700">
+                                                    Repair before event is unavailable until refurb
+                                                    days are recorded.
+                                                </p>
+                                            )}
+                                            <div className="flex flex-wrap gap-2">
+                                                <Button
+                                                    type="button"
+                                                    size="sm"
+                                                    aria-pressed={
+                                                        item.maintenanceDecision === "FIX_IN_ORDER"
+                                                    }
+                                                    variant={
+                                                        item.maintenanceDecision === "FIX_IN_ORDER"
+                                                            ? "default"
+                                                            : "outline"
+                                                    }
+                                                    className={
+                                                        item.maintenanceDecision === "FIX_IN_ORDER"
+                                                            ? "gap-1.5"
+                                                            : "gap-1.5 opacity-70 hover:opacity-100"
+                                                    }
+                                                    disabled={!item.refurbDaysEstimate}
+                                                    onClick={() =>
+                                                        updateItemMaintenanceDecision(
+                                                            item.assetId,
+                                                            "FIX_IN_ORDER"
+                                                        )
+                                                    }
+                                                >
+                                                    {item.maintenanceDecision === "FIX_IN_ORDER" ? (
+                                                        <CircleCheck className="h-4 w-4" />
+                                                    ) : (
+                                                        <Circle className="h-4 w-4" />
+                                                    )}
+                                                    Repair before event
+                                                </Button>
+                                                <Button
+                                                    type="button"
+                                                    size="sm"
+                                                    aria-pressed={
+                                                        item.maintenanceDecision === "USE_AS_IS"
+                                                    }
+                                                    variant={
+                                                        item.maintenanceDecision === "USE_AS_IS"
+                                                            ? "default"
+                                                            : "outline"
+                                                    }
+                                                    className={
+                                                        item.maintenanceDecision === "USE_AS_IS"
+                                                            ? "gap-1.5"
+                                                            : "gap-1.5 opacity-70 hover:opacity-100"
+                                                    }
+                                                    onClick={() =>
+                                                        updateItemMaintenanceDecision(
+                                                            item.assetId,
+                                                            "USE_AS_IS"
+                                                        )
+                                                    }
+                                                >
+                                                    {item.maintenanceDecision === "USE_AS_IS" ? (
+                                                        <CircleCheck className="h-4 w-4" />
+                                                    ) : (
+                                                        <Circle className="h-4 w-4" />
+                                                    )}
+                                                    Accept current condition
+                                                </Button>
+                                            </div>
+                                            <details className="text-xs text-amber-700">
+                                                <summary className="cursor-pointer font-medium">
+                                                    Condition details
+                                                </summary>
+                                                <div className="mt-2 space-y-2">
+                                                    {item.conditionNotes && (
+                                                        <p>{item.conditionNotes}</p>
+                                                    )}
+                                                    {item.conditionImages?.length ? (
+                                                        <div className="grid grid-cols-3 gap-2">
+                                                            {item.conditionImages
+                                                                .slice(0, 6)
+                                                                .map((photo, photoIndex) => (
+                                                                    <div
+                                                                        key={`${photo.url}-${photoIndex}`}
+                                                                        className="relative aspect-square overflow-hidden rounded-md border border-amber-200 bg-white"
+                                                                    >
+                                                                        <Image
+                                                                            src={photo.url}
+                                                                            alt={`Condition photo ${photoIndex + 1}`}
+                                                                            fill
+                                                                            className="object-cover"
+                                                                        />
+                                                                    </div>
+                                                                ))}
+                                                        </div>
+                                                    ) : null}
+                                                    {item.refurbDaysEstimate && (
+                                                        <p>
+                                                            Est. repair: {item.refurbDaysEstimate}{" "}
+                                                            days
+                                                        </p>
+                                                    )}
+                                                </div>
+                                            </details>
+                                        </div>
+                                    )}
+                                    {item.fromCollectionName && (
+                                        <p className="text-xs text-muted-foreground font-mono">
+                                            From collection: {item.fromCollectionName}
+                                        </p>
+                                    )}
+                                    {/* Item 6: per-item commerce-rule hits —
+                                                            small, sits inline with the item's
+                                                            metadata so it's contextually anchored
+                                                            to the right SKU. */}
+                                    {itemHits.length > 0 && (
+                                        <div className="mt-2 space-y-1">
+                                            {itemHits.map((hit) => (
+                                                <div
+                                                    key={hit.rule_id}
+                                                    className={`flex items-start gap-1.5 text-xs rounded px-2 py-1 border ${
+                                                        hit.severity === "BLOCK"
+                                                            ? "text-red-700 bg-red-50 border-red-200"
+                                                            : "text-amber-700 bg-amber-50 border-amber-300/60"
+                                                    }`}
+                                                >
+                                                    <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                                                    <span>{hit.message}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </Card>
+
+            <CommerceRuleSuggestions hits={ruleHits.suggestions} window={availabilityWindow} />
+
+            {/* Totals Card */}
+            <Card className="p-6 bg-primary/5 border-primary/20">
+                <div className="grid grid-cols-3 gap-6">
+                    <div>
+                        <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide mb-1">
+                            Total Items
+                        </p>
+                        <p className="text-2xl font-bold font-mono">{itemCount}</p>
+                    </div>
+                    <div>
+                        <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide mb-1">
+                            Total Volume
+                        </p>
+                        <p className="text-2xl font-bold font-mono text-primary">
+                            {totalVolume.toFixed(2)} m³
+                        </p>
+                    </div>
+                    <div>
+                        <p className="text-xs font-mono text-muted-foreground uppercase tracking-wide mb-1">
+                            Total Weight
+                        </p>
+                        <p className="text-2xl font-bold font-mono">{totalWeight.toFixed(1)} kg</p>
+                    </div>
+                </div>
+            </Card>
+
+            <LoadPlannerPanel plan={loadPlan.plan} />
+
+            {itemCount > 1 && (
+                <Card className="p-5 bg-card/50 border-border/50 flex flex-col gap-3 sm:flex-row sm:items-center">
+                    <Split className="h-5 w-5 shrink-0 text-primary" />
+                    <div className="flex-1">
+                        <p className="font-semibold">Sending items to more than one venue?</p>
+                        <p className="text-sm text-muted-foreground">
+                            Split this cart into several orders, each with its own venue and dates.
+                        </p>
+                    </div>
+                    <Button
+                        variant="outline"
+                        className="gap-2 font-mono"
+                        onClick={handleSplitDestinations}
+                        disabled={!stepValidation.ok}
+                        data-testid="checkout-split-destinations"
+                    >
+                        Split across destinations
+                        <ChevronRight className="h-4 w-4" />
+                    </Button>
+                </Card>
+            )}
+        </>
+    );
+}
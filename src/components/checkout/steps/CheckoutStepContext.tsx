@@ -0,0 +1,108 @@
+"use client";
+
+/**
+ * Checkout Step Context
+ * What the standard checkout's step components share with the page: the
+ * form, the live previews the page subscribes to, and the handlers that move
+ * between steps. The page owns all of it — steps only render and edit.
+ * Anything a step can read from an app-wide hook (cart, platform, router) it
+ * reads there instead.
+ */
+
+import React, { useContext } from "react";
+import type { CommerceRuleHit } from "@/hooks/use-commerce-rules";
+import type {
+    useAvailabilityPreview,
+    interpretAvailabilityPreview,
+} from "@/hooks/use-availability-preview";
+import type { useCartAvailability } from "@/hooks/use-cart-availability";
+import type { useCartLineFocus } from "@/hooks/use-cart-line-focus";
+import type {
+    interpretFeasibilityPreview,
+    useFeasibilityPreview,
+    useMaintenanceFeasibilityCheck,
+    MaintenanceFeasibilityIssue,
+} from "@/hooks/use-feasibility-check";
+import type { useLoadPlan } from "@/hooks/use-load-plan";
+import type { useCalculateEstimate } from "@/hooks/use-order-submission";
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+import type { SortedRuleHits } from "@/lib/cart/commerce-rules";
+import type { CheckoutStepKey, CheckoutStepValidation } from "@/lib/checkout/checkout-steps";
+import type { AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+import type { StayShape } from "@/lib/checkout/date-heatmap";
+import type { OrderPayloadForm } from "@/lib/checkout/order-payload";
+import type { TripType } from "@/types/hybrid-pricing";
+
+export type CheckoutFormData = OrderPayloadForm & {
+    venue_country_name: string;
+    venue_city_name: string;
+    // Transport choice, priced in the review step's scenario table.
+    // vehicle_type null = the load planner's fleet.
+    trip_type: TripType;
+    vehicle_type: string | null;
+};
+
+export interface CheckoutStepContextValue {
+    formData: CheckoutFormData;
+    setFormData: React.Dispatch<React.SetStateAction<CheckoutFormData>>;
+    setCurrentStep: (step: CheckoutStepKey) => void;
+    stepValidation: CheckoutStepValidation;
+
+    // Delivery mode picked on the mode step, committed on Continue.
+    pendingMode: "standard" | "self-pickup" | null;
+    setPendingMode: (mode: "standard" | "self-pickup") => void;
+
+    eventDateInputsEnabled: boolean;
+    needsCollection: boolean;
+    effectiveEventStart: string;
+    effectiveEventEnd: string;
+    calculateMinDate: () => string;
+
+    feasibility: ReturnType<typeof interpretFeasibilityPreview>;
+    feasibilityPreview: ReturnType<typeof useFeasibilityPreview>;
+    feasibilityHelperEnabled: boolean;
+    availability: ReturnType<typeof interpretAvailabilityPreview>;
+    availabilityPreview: ReturnType<typeof useAvailabilityPreview>;
+    availabilityWindow: AvailabilityWindow | null;
+    availabilityIssues: string[];
+    cartAvailability: ReturnType<typeof useCartAvailability>;
+    heatmapItems: {
+        asset_id: string;
+        quantity: number;
+        maintenance_decision: LocalCartItem["maintenanceDecision"];
+    }[];
+    heatmapShape: StayShape;
+
+    redItems: LocalCartItem[];
+    maintenanceFeasibilityCheck: ReturnType<typeof useMaintenanceFeasibilityCheck>;
+    maintenanceFeasibilityIssues: MaintenanceFeasibilityIssue[];
+    setMaintenanceFeasibilityIssues: (issues: MaintenanceFeasibilityIssue[]) => void;
+    hasCheckedMaintenanceFeasibility: boolean;
+    setHasCheckedMaintenanceFeasibility: (checked: boolean) => void;
+
+    ruleHits: SortedRuleHits;
+    hitsByAsset: Map<string, CommerceRuleHit[]>;
+    globalHits: CommerceRuleHit[];
+    // Back to the Order Review step, scrolled to the line.
+    focusCartLine: (assetId: string) => void;
+    lineFocus: ReturnType<typeof useCartLineFocus>;
+    loadPlan: ReturnType<typeof useLoadPlan>;
+    handleSplitDestinations: () => Promise<void>;
+
+    isEstimateFeatureEnabled: boolean;
+    estimateData: ReturnType<typeof useCalculateEstimate>["data"];
+    isEstimateLoading: boolean;
+    isEstimateError: boolean;
+}
+
+const CheckoutStepContext = React.createContext<CheckoutStepContextValue | undefined>(undefined);
+
+export const CheckoutStepProvider = CheckoutStepContext.Provider;
+
+export function useCheckoutStep() {
+    const context = useContext(CheckoutStepContext);
+    if (!context) {
+        throw new Error("useCheckoutStep must be used within a CheckoutStepProvider");
+    }
+    return context;
+}
@@ -0,0 +1,142 @@
+"use client";
+
+/**
+ * Contact Step
+ * Who our team deals with on the day, plus special instructions.
+ */
+
+import PhoneInput, { isValidPhoneNumber } from "react-phone-number-input";
+import "react-phone-number-input/style.css";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useCheckoutStep } from "./CheckoutStepContext";
+
+export function ContactStep() {
+    const { formData, setFormData } = useCheckoutStep();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Point of Contact</h2>
+                <p className="text-muted-foreground">
+                    Provide the on-site contact for this order. Our team will reach out to this
+                    person for coordination and updates.
+                </p>
+            </div>
+
+            <Card className="p-8 bg-card/50 border-border/50">
+                <div className="space-y-6">
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="contactName"
+                            className="font-mono uppercase text-xs tracking-wide"
+                        >
+                            Contact Person Name *
+                        </Label>
+                        <Input
+                            id="contactName"
+                            data-testid="checkout-contact-name"
+                            value={formData.contact_name}
+                            onChange={(e) =>
+                                setFormData({
+                                    ...formData,
+                                    contact_name: e.target.value,
+                                })
+                            }
+                            placeholder="e.g., John Smith"
+                            required
+                            className="h-12"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-6">
+                        <div className="space-y-2">
+                            <Label
+                                htmlFor="contactEmail"
+                                className="font-mono uppercase text-xs tracking-wide"
+                            >
+                                Email Address *
+                            </Label>
+                            <Input
+                                id="contactEmail"
+                                type="email"
+                                data-testid="checkout-contact-email"
+                                value={formData.contact_email}
+                                onChange={(e) =>
+                                    setFormData({
+                                        ...formData,
+                                        contact_email: e.target.value,
+                                    })
+                                }
+                                placeholder="john@company.com"
+                                required
+                                className={`h-12 ${formData.contact_email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.contact_email) ? "border-destructive" : ""}`}
+                            />
+                            {formData.contact_email &&
+                                !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.contact_email) && (
+                                    <p className="text-xs text-destructive">
+                                        Please enter a valid email address
+                                    </p>
+                                )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label
+                                htmlFor="contactPhone"
+                                className="font-mono uppercase text-xs tracking-wide"
+                            >
+                                Phone Number *
+                            </Label>
+                            <PhoneInput
+                                international
+                                defaultCountry="AE"
+                                data-testid="checkout-contact-phone"
+                                value={formData.contact_phone}
+                                onChange={(value) =>
+                                    setFormData({
+                                        ...formData,
+                                        contact_phone: value || "",
+                                    })
+                                }
+                                className="h-12 rounded-md border border-input bg-background px-3 text-sm [&>input]:border-0 [&>input]:bg-transparent [&>input]:outline-none [&>input]:h-full"
+                            />
+                            {formData.contact_phone &&
+                                !isValidPhoneNumber(formData.contact_phone) && (
+                                    <p className="text-xs text-destructive">
+                                        Please enter a valid phone number
+                                    </p>
+                                )}
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="specialInstructions"
+                            className="font-mono uppercase text-xs tracking-wide"
+                        >
+                            Special Instructions (Optional)
+                        </Label>
+                        <Textarea
+                            id="specialInstructions"
+                            value={formData.special_instructions}
+                            onChange={(e) =>
+                                setFormData({
+                                    ...formData,
+                                    special_instructions: e.target.value,
+                                })
+                            }
+                            placeholder="Any special handling requirements, setup preferences, or branding requests..."
+                            rows={4}
+                            className="font-mono text-sm"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            Include details about setup, branding, or any special requirements
+                        </p>
+                    </div>
+                </div>
+            </Card>
+        </>
+    );
+}
@@ -0,0 +1,459 @@
+"use client";
+
+/**
+ * Installation Step
+ * Permanent vs temporary placement, the event / delivery / pickup dates, and
+ * the feasibility and availability helpers that judge them.
+ */
+
+import { RedFeasibilityAlert } from "@/components/checkout/RedFeasibilityAlert";
+import { FeasibilityHelper } from "@/components/checkout/FeasibilityHelper";
+import { AvailabilityHelper } from "@/components/checkout/AvailabilityHelper";
+import { SubstitutionAssistant } from "@/components/checkout/SubstitutionAssistant";
+import { DateAvailabilityHeatmap } from "@/components/checkout/DateAvailabilityHeatmap";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { moveStayToStart } from "@/lib/checkout/date-heatmap";
+import { Calendar } from "lucide-react";
+import { useFeasibilityConfig } from "@/hooks/use-feasibility-check";
+import { roundedFloorTimeInZone, shiftDateStr } from "@/lib/feasibility/compose-datetime";
+import { useCheckoutStep } from "./CheckoutStepContext";
+
+export function InstallationStep() {
+    const {
+        availability,
+        availabilityPreview,
+        availabilityWindow,
+        calculateMinDate,
+        effectiveEventEnd,
+        effectiveEventStart,
+        eventDateInputsEnabled,
+        feasibility,
+        feasibilityHelperEnabled,
+        feasibilityPreview,
+        formData,
+        hasCheckedMaintenanceFeasibility,
+        heatmapItems,
+        heatmapShape,
+        maintenanceFeasibilityCheck,
+        maintenanceFeasibilityIssues,
+        needsCollection,
+        redItems,
+        setFormData,
+        setHasCheckedMaintenanceFeasibility,
+        setMaintenanceFeasibilityIssues,
+    } = useCheckoutStep();
+    const { data: feasibilityConfig } = useFeasibilityConfig();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Installation Details</h2>
+                <p className="text-muted-foreground">
+                    When do you need these assets to be installed?
+                </p>
+            </div>
+
+            <Card className="p-8 bg-card/50 border-border/50 space-y-6">
+                <div className="space-y-6">
+                    {eventDateInputsEnabled && (
+                        <div className="space-y-2">
+                            <p className="text-xs text-muted-foreground font-mono">
+                                Dates &amp; times are in{" "}
+                                {feasibilityConfig?.timezone
+                                    ? feasibilityConfig.timezone.replace("_", " ")
+                                    : "platform timezone"}
+                            </p>
+                        </div>
+                    )}
+                    {eventDateInputsEnabled && (
+                        <div className="grid grid-cols-2 gap-6">
+                            <div className="space-y-2">
+                                <Label
+                                    htmlFor="eventStartDate"
+                                    className="font-mono uppercase text-xs tracking-wide"
+                                >
+                                    Event Start Date *
+                                </Label>
+                                <Input
+                                    id="eventStartDate"
+                                    type="date"
+                                    data-testid="checkout-event-start"
+                                    value={formData.event_start_date}
+                                    onChange={(e) => {
+                                        setFormData({
+                                            ...formData,
+                                            event_start_date: e.target.value,
+                                        });
+                                        setHasCheckedMaintenanceFeasibility(false);
+                                        setMaintenanceFeasibilityIssues([]);
+                                    }}
+                                    required
+                                    min={calculateMinDate()}
+                                    className="h-12 font-mono"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label
+                                    htmlFor="eventEndDate"
+                                    className="font-mono uppercase text-xs tracking-wide"
+                                >
+                                    Event End Date *
+                                </Label>
+                                <Input
+                                    id="eventEndDate"
+                                    type="date"
+                                    data-testid="checkout-event-end"
+                                    value={formData.event_end_date}
+                                    onChange={(e) => {
+                                        setFormData({
+                                            ...formData,
+                                            event_end_date: e.target.value,
+                                        });
+                                        setHasCheckedMaintenanceFeasibility(false);
+                                        setMaintenanceFeasibilityIssues([]);
+                                    }}
+                                    required
+                                    min={formData.event_start_date || calculateMinDate()}
+                                    className="h-12 font-mono"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    <DateAvailabilityHeatmap
+                        items={heatmapItems}
+                        shape={heatmapShape}
+                        timezone={feasibilityConfig?.timezone}
+                        selectedDate={effectiveEventStart}
+                        onSelectDate={(date) => {
+                            setFormData((prev) => ({
+                                ...prev,
+                                ...moveStayToStart(prev, date, eventDateInputsEnabled),
+                            }));
+                            setHasCheckedMaintenanceFeasibility(false);
+                            setMaintenanceFeasibilityIssues([]);
+                        }}
+                    />
+
+                    {/* Feasibility helper — inline under the date fields.
+                                        Helper copy is gated by the enable_feasibility_helper
+                                        platform flag; the hard block on Next is always
+                                        enforced by the step schema. */}
+                    <FeasibilityHelper
+                        helperEnabled={feasibilityHelperEnabled}
+                        isLoading={feasibilityPreview.isLoading}
+                        floorDate={feasibility.floorDate}
+                        floorDatetime={feasibility.floorDatetime}
+                        userEventDate={
+                            eventDateInputsEnabled
+                                ? formData.event_start_date
+                                : formData.requested_delivery_date
+                        }
+                        userDateFeasible={feasibility.userDateFeasible}
+                        blockingItems={feasibility.blockingItems}
+                        config={feasibilityPreview.data?.config ?? null}
+                        onUseFloorDate={() => {
+                            if (!feasibility.floorDate) return;
+                            // Round the floor up to the next 30-min wall-
+                            // clock boundary, so an exact-match time
+                            // doesn't lose the race with the server's
+                            // continuously-advancing `Date.now() + lead`
+                            // floor. Also bumps the date if rounding
+                            // crossed midnight.
+                            const rounded = roundedFloorTimeInZone(
+                                feasibility.floorDatetime,
+                                feasibilityConfig?.timezone
+                            );
+                            const targetDate = rounded
+                                ? shiftDateStr(feasibility.floorDate, rounded.dayOffset)
+                                : feasibility.floorDate;
+                            const floorTime = rounded?.time ?? null;
+                            if (eventDateInputsEnabled) {
+                                setFormData({
+                                    ...formData,
+                                    event_start_date: targetDate,
+                                    event_end_date:
+                                        formData.event_end_date &&
+                                        formData.event_end_date >= targetDate
+                                            ? formData.event_end_date
+                                            : targetDate,
+                                    ...(floorTime
+                                        ? {
+                                              requested_delivery_time_start: floorTime,
+                                          }
+                                        : {}),
+                                });
+                            } else {
+                                setFormData({
+                                    ...formData,
+                                    requested_delivery_date: targetDate,
+                                    requested_pickup_date:
+                                        formData.requested_pickup_date &&
+                                        formData.requested_pickup_date >= targetDate
+                                            ? formData.requested_pickup_date
+                                            : targetDate,
+                                    ...(floorTime
+                                        ? {
+                                              requested_delivery_time_start: floorTime,
+                                          }
+                                        : {}),
+                                });
+                            }
+                        }}
+                    />
+
+                    {/* Availability sibling — shows cart items that
+                                        can't be booked in the chosen window (insufficient
+                                        pool, transformed, etc.) so the user sees it before
+                                        the review step. Renders nothing when everything's
+                                        available. */}
+                    <AvailabilityHelper
+                        isLoading={availabilityPreview.isLoading}
+                        blockingItems={availability.blockingItems}
+                    />
+                    <SubstitutionAssistant
+                        blockingItems={availability.blockingItems}
+                        window={availabilityWindow}
+                    />
+
+                    {/* Collection question — asked once here and decides
+                                        whether the pickup block is shown. Maps to
+                                        is_permanent_placement (collect => false, permanent => true).
+                                        Required. */}
+                    <div className="space-y-3 pt-4 border-t border-border/40">
+                        <div className="space-y-1">
+                            <Label className="font-mono uppercase text-xs tracking-wide">
+                                Do you need these items uplifted? *
+                            </Label>
+                            <p className="text-xs text-muted-foreground">
+                                Choose whether you want us to schedule an uplift and return of
+                                items, or the items will not be returned.
+                            </p>
+                        </div>
+                        <RadioGroup
+                            value={
+                                formData.is_permanent_placement === null
+                                    ? ""
+                                    : formData.is_permanent_placement
+                                      ? "permanent"
+                                      : "collect"
+                            }
+                            onValueChange={(value) =>
+                                setFormData({
+                                    ...formData,
+                                    is_permanent_placement: value === "permanent",
+                                })
+                            }
+                            className="flex gap-3"
+                        >
+                            <label className="flex items-center gap-2 rounded-md border border-border/60 bg-background/70 px-4 py-2 cursor-pointer flex-1">
+                                <RadioGroupItem value="collect" id="collectYes" />
+                                <span className="text-sm font-medium">
+                                    Yes — schedule a collection
+                                </span>
+                            </label>
+                            <label className="flex items-center gap-2 rounded-md border border-border/60 bg-background/70 px-4 py-2 cursor-pointer flex-1">
+                                <RadioGroupItem value="permanent" id="collectNo" />
+                                <span className="text-sm font-medium">
+                                    No — no collection needed (permanent)
+                                </span>
+                            </label>
+                        </RadioGroup>
+                    </div>
+
+                    {/* Delivery + Pickup windows.
+                                        When event-dates flag is OFF, these are the primary
+                                        input and BOTH are required. Native <input type="date">
+                                        + <input type="time"> match the rest of the form's
+                                        styling. */}
+                    <div className="space-y-4 pt-4 border-t border-border/40">
+                        <div className="space-y-1">
+                            <Label className="font-mono uppercase text-xs tracking-wide">
+                                Delivery &amp; Pickup {eventDateInputsEnabled ? "(Optional)" : "*"}
+                            </Label>
+                            {!eventDateInputsEnabled && (
+                                <p className="text-xs text-muted-foreground">
+                                    When do you need the items delivered and picked up?
+                                </p>
+                            )}
+                            <p className="text-xs text-muted-foreground font-mono">
+                                Times are in{" "}
+                                {feasibilityConfig?.timezone
+                                    ? feasibilityConfig.timezone.replace("_", " ")
+                                    : "platform timezone"}
+                            </p>
+                        </div>
+
+                        <div className="space-y-5">
+                            {/* Delivery */}
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div className="space-y-2">
+                                    <Label className="font-mono uppercase text-xs tracking-wide">
+                                        Delivery Date {eventDateInputsEnabled ? "" : "*"}
+                                    </Label>
+                                    <Input
+                                        type="date"
+                                        value={formData.requested_delivery_date}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                requested_delivery_date: e.target.value,
+                                            })
+                                        }
+                                        min={calculateMinDate()}
+                                        required={!eventDateInputsEnabled}
+                                        className="h-12 font-mono"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="font-mono uppercase text-xs tracking-wide">
+                                        From {eventDateInputsEnabled ? "" : "*"}
+                                    </Label>
+                                    <Input
+                                        type="time"
+                                        value={formData.requested_delivery_time_start}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                requested_delivery_time_start: e.target.value,
+                                            })
+                                        }
+                                        required={!eventDateInputsEnabled}
+                                        className="h-12 font-mono"
+                                    />
+                                </div>
+                                <div className="space-y-2">
+                                    <Label className="font-mono uppercase text-xs tracking-wide">
+                                        To {eventDateInputsEnabled ? "" : "*"}
+                                    </Label>
+                                    <Input
+                                        type="time"
+                                        value={formData.requested_delivery_time_end}
+                                        onChange={(e) =>
+                                            setFormData({
+                                                ...formData,
+                                                requested_delivery_time_end: e.target.value,
+                                            })
+                                        }
+                                        required={!eventDateInputsEnabled}
+                                        className="h-12 font-mono"
+                                    />
+                                </div>
+                            </div>
+
+                            {/* Pickup — only shown for temporary orders
+                                                        (needsCollection). Permanent / no-return
+                                                        orders have no pickup. */}
+                            {needsCollection && (
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                    <div className="space-y-2">
+                                        <Label className="font-mono uppercase text-xs tracking-wide">
+                                            Pickup Date {eventDateInputsEnabled ? "" : "*"}
+                                        </Label>
+                                        <Input
+                                            type="date"
+                                            value={formData.requested_pickup_date}
+                                            onChange={(e) =>
+                                                setFormData({
+                                                    ...formData,
+                                                    requested_pickup_date: e.target.value,
+                                                })
+                                            }
+                                            min={
+                                                formData.requested_delivery_date ||
+                                                calculateMinDate()
+                                            }
+                                            required={!eventDateInputsEnabled}
+                                            className="h-12 font-mono"
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label className="font-mono uppercase text-xs tracking-wide">
+                                            From {eventDateInputsEnabled ? "" : "*"}
+                                        </Label>
+                                        <Input
+                                            type="time"
+                                            value={formData.requested_pickup_time_start}
+                                            onChange={(e) =>
+                                                setFormData({
+                                                    ...formData,
+                                                    requested_pickup_time_start: e.target.value,
+                                                })
+                                            }
+                                            required={!eventDateInputsEnabled}
+                                            className="h-12 font-mono"
+                                        />
+                                    </div>
+                                    <div className="space-y-2">
+                                        <Label className="font-mono uppercase text-xs tracking-wide">
+                                            To {eventDateInputsEnabled ? "" : "*"}
+                                        </Label>
+                                        <Input
+                                            type="time"
+                                            value={formData.requested_pickup_time_end}
+                                            onChange={(e) =>
+                                                setFormData({
+                                                    ...formData,
+                                                    requested_pickup_time_end: e.target.value,
+                                                })
+                                            }
+                                            required={!eventDateInputsEnabled}
+                                            className="h-12 font-mono"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Duration is meaningless for a permanent / no-return
+                                            order (event_end is the far-future sentinel, which would
+                                            render ~26,943 days). Only show it when there's a real
+                                            return date. */}
+                    {needsCollection && effectiveEventStart && effectiveEventEnd && (
+                        <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
+                            <div className="flex items-center gap-3">
+                                <Calendar className="h-5 w-5 text-primary" />
+                                <div>
+                                    <p className="text-sm font-medium">
+                                        {eventDateInputsEnabled
+                                            ? "Event Duration"
+                                            : "Rental Duration"}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground font-mono">
+                                        {Math.ceil(
+                                            (new Date(effectiveEventEnd).getTime() -
+                                                new Date(effectiveEventStart).getTime()) /
+                                                (1000 * 60 * 60 * 24)
+                                        ) + 1}{" "}
+                                        days
+                                    </p>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {redItems.length > 0 && (
+                        <div className="space-y-3">
+                            <Card className="p-4 border-red-300 bg-red-50/40">
+                                <p className="text-sm text-red-800">
+                                    Your cart includes RED items. These are fix-only items and must
+                                    pass feasibility before you can continue.
+                                </p>
+                            </Card>
+                            <RedFeasibilityAlert
+                                issues={maintenanceFeasibilityIssues}
+                                hasChecked={hasCheckedMaintenanceFeasibility}
+                                isChecking={maintenanceFeasibilityCheck.isPending}
+                            />
+                        </div>
+                    )}
+                </div>
+            </Card>
+        </>
+    );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+/**
+ * Mode Step
+ * Delivery vs self-pickup. The choice is committed on Continue, not on click,
+ * so the page decides when the self-pickup flow takes over.
+ */
+
+import { Card } from "@/components/ui/card";
+import { Truck, Warehouse as WarehouseIcon } from "lucide-react";
+import { useCheckoutStep } from "./CheckoutStepContext";
+
+export function ModeStep() {
+    const { pendingMode, setPendingMode } = useCheckoutStep();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Delivery Method</h2>
+                <p className="text-muted-foreground">
+                    Choose delivery for our logistics team to bring items to your venue, or
+                    self-pickup to collect them yourself from the warehouse. You can change this at
+                    any time before submitting.
+                </p>
+            </div>
+
+            <Card className="p-6 bg-card/50 border-border/50">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <button
+                        type="button"
+                        onClick={() => setPendingMode("standard")}
+                        className={`group relative text-left rounded-xl border-2 p-5 transition-all ${
+                            pendingMode === "standard"
+                                ? "border-primary bg-primary/5 ring-2 ring-primary/30 shadow-sm"
+                                : "border-border hover:border-primary/50 hover:bg-muted/30"
+                        }`}
+                    >
+                        <div className="flex items-center gap-3 mb-2">
+                            <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                                <Truck className="h-5 w-5 text-primary" />
+                            </div>
+                            <p className="font-semibold text-base">Delivery</p>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                            Our logistics team delivers to your venue on the date and window you
+                            pick.
+                        </p>
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setPendingMode("self-pickup")}
+                        className={`group relative text-left rounded-xl border-2 p-5 transition-all ${
+                            pendingMode === "self-pickup"
+                                ? "border-primary bg-primary/5 ring-2 ring-primary/30 shadow-sm"
+                                : "border-border hover:border-primary/50 hover:bg-muted/30"
+                        }`}
+                    >
+                        <div className="flex items-center gap-3 mb-2">
+                            <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                                <WarehouseIcon className="h-5 w-5 text-primary" />
+                            </div>
+                            <p className="font-semibold text-base">Self-Pickup</p>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                            Collect the items yourself from the warehouse. You provide the collector
+                            and return window.
+                        </p>
+                    </button>
+                </div>
+            </Card>
+        </>
+    );
+}
@@ -0,0 +1,574 @@
+"use client";
+
+/**
+ * Review Step
+ * Everything entered so far, the estimate with its transport scenarios, and
+ * the last feasibility / availability verdict before submit.
+ */
+
+import { EstimateScenarioTable } from "@/components/checkout/EstimateScenarioTable";
+import { OrderEstimate } from "@/components/checkout/OrderEstimate";
+import { usePlatform } from "@/contexts/platform-context";
+import { FeasibilityHelper } from "@/components/checkout/FeasibilityHelper";
+import { AvailabilityHelper } from "@/components/checkout/AvailabilityHelper";
+import { SubstitutionAssistant } from "@/components/checkout/SubstitutionAssistant";
+import { CommerceRuleBlocks } from "@/components/cart/commerce-rule-blocks";
+import { CommerceRuleSuggestions } from "@/components/cart/commerce-rule-suggestions";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { PermitWarningAlert, derivePermitChoice } from "@/components/permits/permit-warning-alert";
+import { useCart } from "@/contexts/cart-context";
+import { useVehicleTypes } from "@/hooks/use-load-plan";
+import { AlertCircle, Package } from "lucide-react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { useFeasibilityConfig } from "@/hooks/use-feasibility-check";
+import { roundedFloorTimeInZone, shiftDateStr } from "@/lib/feasibility/compose-datetime";
+import { useCheckoutStep } from "./CheckoutStepContext";
+
+export function ReviewStep() {
+    const {
+        availability,
+        availabilityIssues,
+        availabilityPreview,
+        availabilityWindow,
+        estimateData,
+        eventDateInputsEnabled,
+        feasibility,
+        feasibilityHelperEnabled,
+        feasibilityPreview,
+        focusCartLine,
+        formData,
+        globalHits,
+        hitsByAsset,
+        isEstimateError,
+        isEstimateFeatureEnabled,
+        isEstimateLoading,
+        ruleHits,
+        setCurrentStep,
+        setFormData,
+    } = useCheckoutStep();
+    const { itemCount, items, totalVolume, totalWeight } = useCart();
+    const router = useRouter();
+    const { platform } = usePlatform();
+    const { data: feasibilityConfig } = useFeasibilityConfig();
+    const { data: vehicleTypes } = useVehicleTypes();
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Review & Submit</h2>
+                <p className="text-muted-foreground">
+                    Double-check all details before submitting your order
+                </p>
+            </div>
+
+            {/* Item 6: per-item hits are embedded
+                                        inline below in the Order Items card.
+                                        Only global hits (without related
+                                        asset) surface at the top here. */}
+            {globalHits.length > 0 && (
+                <div className="rounded-md border border-amber-500/50 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+                    {globalHits.map((hit) => (
+                        <div key={hit.rule_id} className="flex items-start gap-1.5">
+                            <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                            <span>{hit.message}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <CommerceRuleBlocks blocks={ruleHits.blocks} onFix={focusCartLine} />
+
+            <CommerceRuleSuggestions hits={ruleHits.suggestions} window={availabilityWindow} />
+
+            {/* Order Summary */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Items */}
+                <Card className="p-6 bg-card/50 border-border/50">
+                    <h3 className="text-lg font-semibold mb-4 font-mono uppercase tracking-wide">
+                        Order Items
+                    </h3>
+                    <div className="space-y-3">
+                        {items.map((item) => {
+                            const itemHits = hitsByAsset.get(item.assetId) || [];
+                            return (
+                                <div key={item.assetId} className="text-sm">
+                                    <div className="flex items-center gap-3">
+                                        <div className="w-12 h-12 rounded border border-border overflow-hidden shrink-0">
+                                            {item.image ? (
+                                                <Image
+                                                    src={item.image}
+                                                    alt={item.assetName}
+                                                    width={48}
+                                                    height={48}
+                                                    className="object-cover"
+                                                />
+                                            ) : (
+                                                <div className="w-full h-full bg-muted flex items-center justify-center">
+                                                    <Package className="h-5 w-5 text-muted-foreground/30" />
+                                                </div>
+                                            )}
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-medium truncate">{item.assetName}</p>
+                                            <p className="text-xs text-muted-foreground font-mono">
+                                                Qty: {item.quantity}
+                                            </p>
+                                            {(item.condition === "ORANGE" ||
+                                                item.condition === "RED") && (
+                                                <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                                                    <span
+                                                        className={
+                                                            item.condition === "RED"
+                                                                ? "rounded-full bg-red-100 px-1.5 py-0.5 font-medium text-red-700"
+                                                                : "rounded-full bg-amber-100 px-1.5 py-0.5 font-medium text-amber-700"
+                                                        }
+                                                    >
+                                                        {item.condition}
+                                                    </span>
+                                                    <span className="text-muted-foreground">
+                                                        {item.maintenanceDecision === "FIX_IN_ORDER"
+                                                            ? "Repair before event"
+                                                            : item.maintenanceDecision ===
+                                                                "USE_AS_IS"
+                                                              ? "Accept current condition"
+                                                              : "Decision missing"}
+                                                    </span>
+                                                    <button
+                                                        type="button"
+                                                        className="font-medium text-primary underline-offset-2 hover:underline"
+                                                        onClick={() => setCurrentStep("cart")}
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                    {itemHits.length > 0 && (
+                                        <div className="mt-1.5 ml-15 space-y-1">
+                                            {itemHits.map((hit) => (
+                                                <div
+                                                    key={hit.rule_id}
+                                                    className={`flex items-start gap-1.5 text-xs rounded px-2 py-1 border ${
+                                                        hit.severity === "BLOCK"
+                                                            ? "text-red-700 bg-red-50 border-red-200"
+                                                            : "text-amber-700 bg-amber-50 border-amber-300/60"
+                                                    }`}
+                                                >
+                                                    <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                                                    <span>{hit.message}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <Separator className="my-4" />
+
+                    <div className="space-y-2 text-sm font-mono">
+                        <div className="flex justify-between">
+                            <span className="text-muted-foreground">Total Items:</span>
+                            <span className="font-bold">{itemCount}</span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span className="text-muted-foreground">Total Volume:</span>
+                            <span className="font-bold text-primary">
+                                {totalVolume.toFixed(2)} m³
+                            </span>
+                        </div>
+                        <div className="flex justify-between">
+                            <span className="text-muted-foreground">Total Weight:</span>
+                            <span className="font-bold">{totalWeight.toFixed(1)} kg</span>
+                        </div>
+                    </div>
+                </Card>
+
+                {/* Details Summary */}
+                <div className="space-y-6">
+                    {/* Schedule (delivery + pickup always shown; event dates only when flag on) */}
+                    <Card className="p-6 bg-card/50 border-border/50">
+                        <h3 className="text-lg font-semibold mb-4 font-mono uppercase tracking-wide">
+                            Schedule
+                        </h3>
+                        <div className="space-y-3 text-sm">
+                            {eventDateInputsEnabled && formData.event_start_date && (
+                                <div>
+                                    <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                        Event Start
+                                    </p>
+                                    <p className="font-medium">
+                                        {new Date(formData.event_start_date).toLocaleDateString(
+                                            "en-US",
+                                            {
+                                                weekday: "long",
+                                                year: "numeric",
+                                                month: "long",
+                                                day: "numeric",
+                                            }
+                                        )}
+                                    </p>
+                                </div>
+                            )}
+                            {eventDateInputsEnabled && formData.event_end_date && (
+                                <div>
+                                    <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                        Event End
+                                    </p>
+                                    <p className="font-medium">
+                                        {new Date(formData.event_end_date).toLocaleDateString(
+                                            "en-US",
+                                            {
+                                                weekday: "long",
+                                                year: "numeric",
+                                                month: "long",
+                                                day: "numeric",
+                                            }
+                                        )}
+                                    </p>
+                                </div>
+                            )}
+                            {formData.requested_delivery_date && (
+                                <div>
+                                    <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                        Delivery
+                                    </p>
+                                    <p className="font-medium">
+                                        {new Date(
+                                            formData.requested_delivery_date
+                                        ).toLocaleDateString("en-US", {
+                                            weekday: "long",
+                                            year: "numeric",
+                                            month: "long",
+                                            day: "numeric",
+                                        })}
+                                        {formData.requested_delivery_time_start &&
+                                        formData.requested_delivery_time_end ? (
+                                            <span className="text-muted-foreground font-mono">
+                                                {" "}
+                                                · {formData.requested_delivery_time_start}–
+                                                {formData.requested_delivery_time_end}
+                                            </span>
+                                        ) : null}
+                                    </p>
+                                </div>
+                            )}
+                            {formData.requested_pickup_date && (
+                                <div>
+                                    <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                        Pickup
+                                    </p>
+                                    <p className="font-medium">
+                                        {new Date(
+                                            formData.requested_pickup_date
+                                        ).toLocaleDateString("en-US", {
+                                            weekday: "long",
+                                            year: "numeric",
+                                            month: "long",
+                                            day: "numeric",
+                                        })}
+                                        {formData.requested_pickup_time_start &&
+                                        formData.requested_pickup_time_end ? (
+                                            <span className="text-muted-foreground font-mono">
+                                                {" "}
+                                                · {formData.requested_pickup_time_start}–
+                                                {formData.requested_pickup_time_end}
+                                            </span>
+                                        ) : null}
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+                    </Card>
+
+                    {/* Venue Info */}
+                    <Card className="p-6 bg-card/50 border-border/50">
+                        <h3 className="text-lg font-semibold mb-4 font-mono uppercase tracking-wide">
+                            Venue
+                        </h3>
+                        <div className="space-y-3 text-sm">
+                            <div>
+                                <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                    Venue Name
+                                </p>
+                                <p className="font-medium">{formData.venue_name}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                    Location
+                                </p>
+                                <p className="font-medium">
+                                    {formData.venue_city_name}, {formData.venue_country_name}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                    Address
+                                </p>
+                                <p className="font-medium leading-relaxed">
+                                    {formData.venue_address}
+                                </p>
+                            </div>
+                            {formData.venue_access_notes && (
+                                <div>
+                                    <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                        Access Notes
+                                    </p>
+                                    <p className="font-medium leading-relaxed">
+                                        {formData.venue_access_notes}
+                                    </p>
+                                </div>
+                            )}
+                            {/* Re-show the contextual permit warning on the
+                                                        Review step so clients re-confirm the
+                                                        decision at the commitment moment. */}
+                            {formData.permit_decision !== null && (
+                                <PermitWarningAlert
+                                    choice={derivePermitChoice(
+                                        formData.requires_permit,
+                                        formData.permit_owner
+                                    )}
+                                    companyName={platform?.company_name ?? null}
+                                />
+                            )}
+                            {formData.requires_permit && (
+                                <div className="rounded-md border border-border/60 bg-muted/20 p-3 space-y-2">
+                                    <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide">
+                                        Permit / Access Coordination
+                                    </p>
+                                    <p className="font-medium">
+                                        {formData.permit_owner === "CLIENT" &&
+                                            `${platform?.company_name || "We"} will arrange permits`}
+                                        {formData.permit_owner === "PLATFORM" &&
+                                            "Ops will arrange permits"}
+                                        {formData.permit_owner === "UNKNOWN" &&
+                                            "Permit ownership still to be confirmed"}
+                                    </p>
+                                    <div className="flex flex-wrap gap-2 text-xs font-mono">
+                                        {formData.requires_vehicle_docs && (
+                                            <span className="rounded-full border px-2 py-1">
+                                                Vehicle docs required
+                                            </span>
+                                        )}
+                                        {formData.requires_staff_ids && (
+                                            <span className="rounded-full border px-2 py-1">
+                                                Staff IDs required
+                                            </span>
+                                        )}
+                                    </div>
+                                    {formData.permit_notes && (
+                                        <p className="text-sm leading-relaxed">
+                                            {formData.permit_notes}
+                                        </p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </Card>
+
+                    {/* Contact Info */}
+                    <Card className="p-6 bg-card/50 border-border/50">
+                        <h3 className="text-lg font-semibold mb-4 font-mono uppercase tracking-wide">
+                            Contact
+                        </h3>
+                        <div className="space-y-3 text-sm">
+                            <div>
+                                <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                    Name
+                                </p>
+                                <p className="font-medium">{formData.contact_name}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                    Email
+                                </p>
+                                <p className="font-medium">{formData.contact_email}</p>
+                            </div>
+                            <div>
+                                <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                    Phone
+                                </p>
+                                <p className="font-medium">{formData.contact_phone}</p>
+                            </div>
+                            {formData.special_instructions && (
+                                <div>
+                                    <p className="text-xs text-muted-foreground font-mono uppercase tracking-wide mb-1">
+                                        Special Instructions
+                                    </p>
+                                    <p className="font-medium leading-relaxed">
+                                        {formData.special_instructions}
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+                    </Card>
+                </div>
+            </div>
+
+            {/* Availability Issues Banner */}
+            {availabilityIssues.length > 0 && (
+                <Card className="border-destructive/50 bg-destructive/5 p-6">
+                    <div className="flex items-start gap-3">
+                        <AlertCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+                        <div className="flex-1">
+                            <p className="text-sm font-semibold text-destructive mb-2">
+                                Availability Issues
+                            </p>
+                            <ul className="text-sm text-muted-foreground space-y-1 mb-4">
+                                {availabilityIssues.map((issue, i) => (
+                                    <li key={i} className="flex items-start gap-2">
+                                        <span className="text-destructive">•</span>
+                                        <span>{issue}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => router.push("/catalog")}
+                            >
+                                Return to Catalog
+                            </Button>
+                        </div>
+                    </div>
+                </Card>
+            )}
+
+            {/* NEW: Hybrid Pricing Estimate */}
+            {isEstimateFeatureEnabled &&
+                availabilityIssues.length === 0 &&
+                estimateData?.data?.estimate?.transport && (
+                    <OrderEstimate estimate={estimateData.data.estimate} hasRebrandItems={false} />
+                )}
+
+            {isEstimateFeatureEnabled &&
+                availabilityIssues.length === 0 &&
+                formData.venue_city_id &&
+                vehicleTypes &&
+                vehicleTypes.length > 0 && (
+                    <EstimateScenarioTable
+                        items={items}
+                        venueCity={formData.venue_city_id}
+                        vehicleTypes={vehicleTypes}
+                        tripType={formData.trip_type}
+                        vehicleType={formData.vehicle_type}
+                        onChoose={({ tripType, vehicleType }) =>
+                            setFormData((prev) => ({
+                                ...prev,
+                                trip_type: tripType,
+                                vehicle_type: vehicleType,
+                            }))
+                        }
+                    />
+                )}
+
+            {/* Loading Estimate */}
+            {isEstimateFeatureEnabled &&
+                availabilityIssues.length === 0 &&
+                isEstimateLoading &&
+                formData.venue_city_id && (
+                    <Card className="p-6 bg-muted/30 border-border">
+                        <div className="flex items-center gap-3">
+                            <div className="h-4 w-4 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                            <p className="text-sm text-muted-foreground">Calculating estimate...</p>
+                        </div>
+                    </Card>
+                )}
+
+            {/* Estimate Error */}
+            {isEstimateFeatureEnabled &&
+                availabilityIssues.length === 0 &&
+                isEstimateError &&
+                formData.venue_city_id && (
+                    <Card className="p-6 bg-muted/30 border-border">
+                        <div className="flex items-start gap-3">
+                            <AlertCircle className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+                            <div className="flex-1">
+                                <p className="text-sm font-medium mb-1">
+                                    Unable to Calculate Estimate for{" "}
+                                    <b>{formData.venue_city_name}</b>, You will receive a custom
+                                    quote via email within 24-48 hours after submitting your order.
+                                </p>
+                            </div>
+                        </div>
+                    </Card>
+                )}
+
+            {/* Pre-submit readiness checks. Placed at the bottom of
+                                the review step so the user sees them immediately above the
+                                Submit button. FeasibilityHelper re-fires when ORANGE FIX
+                                decisions push the earliest date past the chosen event date;
+                                AvailabilityHelper reflects live booking overlap for the
+                                chosen window. Both block the Submit button when they fail. */}
+            <FeasibilityHelper
+                helperEnabled={feasibilityHelperEnabled}
+                isLoading={feasibilityPreview.isLoading}
+                floorDate={feasibility.floorDate}
+                floorDatetime={feasibility.floorDatetime}
+                userEventDate={
+                    eventDateInputsEnabled
+                        ? formData.event_start_date
+                        : formData.requested_delivery_date
+                }
+                userDateFeasible={feasibility.userDateFeasible}
+                blockingItems={feasibility.blockingItems}
+                config={feasibilityPreview.data?.config ?? null}
+                onUseFloorDate={() => {
+                    if (!feasibility.floorDate) return;
+                    const rounded = roundedFloorTimeInZone(
+                        feasibility.floorDatetime,
+                        feasibilityConfig?.timezone
+                    );
+                    const targetDate = rounded
+                        ? shiftDateStr(feasibility.floorDate, rounded.dayOffset)
+                        : feasibility.floorDate;
+                    const floorTime = rounded?.time ?? null;
+                    if (eventDateInputsEnabled) {
+                        setFormData({
+                            ...formData,
+                            event_start_date: targetDate,
+                            event_end_date:
+                                formData.event_end_date && formData.event_end_date >= targetDate
+                                    ? formData.event_end_date
+                                    : targetDate,
+                            ...(floorTime
+                                ? {
+                                      requested_delivery_time_start: floorTime,
+                                  }
+                                : {}),
+                        });
+                    } else {
+                        setFormData({
+                            ...formData,
+                            requested_delivery_date: targetDate,
+                            requested_pickup_date:
+                                formData.requested_pickup_date &&
+                                formData.requested_pickup_date >= targetDate
+                                    ? formData.requested_pickup_date
+                                    : targetDate,
+                            ...(floorTime
+                                ? {
+                                      requested_delivery_time_start: floorTime,
+                                  }
+                                : {}),
+                        });
+                    }
+                }}
+            />
+
+            <AvailabilityHelper
+                isLoading={availabilityPreview.isLoading}
+                blockingItems={availability.blockingItems}
+            />
+            <SubstitutionAssistant
+                blockingItems={availability.blockingItems}
+                window={availabilityWindow}
+            />
+        </>
+    );
+}
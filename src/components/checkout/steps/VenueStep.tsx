@@ -0,0 +1,236 @@
+"use client";
+
+/**
+ * Venue Step
+ * Where the items go: saved venue, address, access notes, venue contact and
+ * permit answers.
+ */
+
+import { usePlatform } from "@/contexts/platform-context";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectTrigger,
+    SelectValue,
+    SelectContent,
+    SelectItem,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { PermitSection } from "@/components/permits/PermitSection";
+import { SavedVenuePicker } from "@/components/venues/SavedVenuePicker";
+import { venueToCheckoutFields } from "@/lib/venue-library";
+import { useCountries } from "@/hooks/use-countries";
+import { useCheckoutStep } from "./CheckoutStepContext";
+
+export function VenueStep() {
+    const { formData, setFormData } = useCheckoutStep();
+    const { platform } = usePlatform();
+    const { data: countriesData } = useCountries();
+
+    const cities = formData.venue_country_id
+        ? (countriesData?.data?.find((country) => country.id === formData.venue_country_id)
+              ?.cities ?? [])
+        : [];
+
+    return (
+        <>
+            <div>
+                <h2 className="text-3xl font-bold mb-2">Installation Information</h2>
+                <p className="text-muted-foreground">Where will the installation take place?</p>
+            </div>
+
+            <Card className="p-8 bg-card/50 border-border/50">
+                <div className="space-y-6">
+                    <SavedVenuePicker
+                        onSelect={(venue) =>
+                            setFormData((prev) => ({
+                                ...prev,
+                                ...venueToCheckoutFields(venue),
+                            }))
+                        }
+                    />
+
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="venueName"
+                            className="font-mono uppercase text-xs tracking-wide"
+                        >
+                            Venue Name *
+                        </Label>
+                        <Input
+                            id="venueName"
+                            data-testid="checkout-venue-name"
+                            value={formData.venue_name}
+                            onChange={(e) =>
+                                setFormData({
+                                    ...formData,
+                                    venue_name: e.target.value,
+                                })
+                            }
+                            placeholder="e.g., Dubai Festival City"
+                            required
+                            className="h-12"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-6">
+                        <div className="space-y-2">
+                            <Label
+                                htmlFor="venueCountry"
+                                className="font-mono uppercase text-xs tracking-wide"
+                            >
+                                Country
+                            </Label>
+                            <div className="h-12 px-3 border border-border rounded-md bg-muted/30 flex items-center text-sm font-mono">
+                                {formData.venue_country_name || "Loading..."}
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label
+                                htmlFor="venueCity"
+                                className="font-mono uppercase text-xs tracking-wide"
+                            >
+                                City *
+                            </Label>
+                            <Select
+                                value={formData.venue_city_id}
+                                onValueChange={(value) => {
+                                    const selectedCity = cities.find((c) => c.id === value);
+                                    setFormData({
+                                        ...formData,
+                                        venue_city_id: value,
+                                        venue_city_name: selectedCity?.name || "",
+                                    });
+                                }}
+                                disabled={!formData.venue_country_id}
+                            >
+                                <SelectTrigger
+                                    className="h-12 font-mono"
+                                    data-testid="checkout-venue-city"
+                                >
+                                    <SelectValue placeholder="Select city" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {cities.map((city) => (
+                                        <SelectItem
+                                            key={city.id}
+                                            value={city.id}
+                                            className="font-mono"
+                                        >
+                                            {city.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="venueAddress"
+                            className="font-mono uppercase text-xs tracking-wide"
+                        >
+                            Full Address *
+                        </Label>
+                        <Textarea
+                            id="venueAddress"
+                            data-testid="checkout-venue-address"
+                            value={formData.venue_address}
+                            onChange={(e) =>
+                                setFormData({
+                                    ...formData,
+                                    venue_address: e.target.value,
+                                })
+                            }
+                            placeholder="Complete venue address"
+                            required
+                            rows={3}
+                            className="font-mono text-sm"
+                        />
+                    </div>
+
+                    {/* Venue Contact — always visible, not gated by permits */}
+                    <div className="rounded-lg border border-border/60 bg-card/80 p-4 space-y-4">
+                        <div>
+                            <Label className="font-mono uppercase text-xs tracking-wide">
+                                Venue Contact
+                            </Label>
+                            <p className="text-xs text-muted-foreground mt-1">
+                                The person at the venue who can coordinate arrival, access,
+                                unloading, or handover.
+                            </p>
+                        </div>
+                        <div className="grid gap-4 md:grid-cols-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="venueContactName" className="text-xs">
+                                    Name
+                                </Label>
+                                <Input
+                                    id="venueContactName"
+                                    value={formData.venue_contact_name}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            venue_contact_name: e.target.value,
+                                        })
+                                    }
+                                    placeholder="Contact name"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="venueContactEmail" className="text-xs">
+                                    Email
+                                </Label>
+                                <Input
+                                    id="venueContactEmail"
+                                    type="email"
+                                    value={formData.venue_contact_email}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            venue_contact_email: e.target.value,
+                                        })
+                                    }
+                                    placeholder="contact@venue.com"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="venueContactPhone" className="text-xs">
+                                    Phone
+                                </Label>
+                                <Input
+                                    id="venueContactPhone"
+                                    value={formData.venue_contact_phone}
+                                    onChange={(e) =>
+                                        setFormData({
+                                            ...formData,
+                                            venue_contact_phone: e.target.value,
+                                        })
+                                    }
+                                    placeholder="+971..."
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    <PermitSection
+                        value={{
+                            permit_decision: formData.permit_decision,
+                            requires_permit: formData.requires_permit,
+                            permit_owner: formData.permit_owner,
+                            requires_vehicle_docs: formData.requires_vehicle_docs,
+                            requires_staff_ids: formData.requires_staff_ids,
+                            permit_notes: formData.permit_notes,
+                            venue_access_notes: formData.venue_access_notes,
+                        }}
+                        onChange={(patch) => setFormData((prev) => ({ ...prev, ...patch }))}
+                        companyName={platform?.company_name ?? null}
+                    />
+                </div>
+            </Card>
+        </>
+    );
+}
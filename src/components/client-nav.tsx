@@ -36,6 +36,7 @@ import {
     Calendar,
     Lock,
     PackageCheck,
+    MapPin,
     BookOpen,
     ExternalLink,
     LifeBuoy,
@@ -59,6 +60,7 @@ const clientNav = [
         icon: PackageCheck,
         featureFlag: "enable_self_pickup",
     },
+    { name: "Venues", href: "/venues", icon: MapPin },
     {
         // Company Back Office — visible only to company managers (CLIENT users
         // holding a company:* permission) when the feature flag is on.
@@ -0,0 +1,274 @@
+"use client";
+
+/**
+ * Convert to Self-Pickup Dialog
+ * "We'll collect it ourselves after all" for a submitted delivery order. Items,
+ * quantities and maintenance decisions carry over as they are; the client
+ * only names a collector, books a dock slot and optionally an expected
+ * return. Maintenance feasibility is re-checked against the slot because a
+ * pickup can be much earlier than the delivery was.
+ */
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, Loader2, Truck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DockSlotPicker } from "@/components/self-pickups/DockSlotPicker";
+import { useConvertOrderToSelfPickup } from "@/hooks/use-client-orders";
+import { useDockSlotHold } from "@/hooks/use-dock-slots";
+import { useFeasibility, useFeasibilityConfig } from "@/hooks/use-feasibility-check";
+import { orderToReorderSource } from "@/lib/cart/reorder";
+import {
+    feasibilityItems,
+    fulfilmentHref,
+    selfPickupBlockingItems,
+    type ConvertToSelfPickupPayload,
+} from "@/lib/checkout/fulfilment-conversion";
+import { composeZonedISO } from "@/lib/feasibility/compose-datetime";
+
+const DECISION_LABELS: Record<string, string> = {
+    FIX_IN_ORDER: "Fix before use",
+    USE_AS_IS: "Use as-is",
+};
+
+export function ConvertToSelfPickupDialog({
+    orderId,
+    order,
+    className,
+}: {
+    // Route id of the order.
+    orderId: string;
+    // Client order detail payload.
+    order: any;
+    className?: string;
+}) {
+    const router = useRouter();
+    const [open, setOpen] = useState(false);
+    const { data: feasibilityConfig } = useFeasibilityConfig();
+    const convert = useConvertOrderToSelfPickup();
+    const slotHold = useDockSlotHold("PICKUP");
+
+    const source = useMemo(() => orderToReorderSource(order), [order]);
+    const initialForm = () => ({
+        collector_name: String(source.form.contact_name ?? ""),
+        collector_phone: String(source.form.contact_phone ?? ""),
+        collector_email: String(source.form.contact_email ?? ""),
+        expected_return_date: String(source.form.event_end_date ?? ""),
+    });
+    const [form, setForm] = useState(initialForm);
+
+    const items = useMemo(() => feasibilityItems(source), [source]);
+    const pickupStart = slotHold.hold?.start ?? null;
+    const feasibility = useFeasibility({
+        items,
+        eventStartDatetime: pickupStart,
+        enabled: open,
+    });
+    const blocking = selfPickupBlockingItems(feasibility.data, pickupStart);
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) {
+            setForm(initialForm());
+        } else {
+            slotHold.release();
+        }
+    };
+
+    const canSubmit =
+        !!form.collector_name.trim() &&
+        !!form.collector_phone.trim() &&
+        !!slotHold.hold &&
+        !feasibility.isFetching &&
+        blocking.length === 0;
+
+    const handleSubmit = async () => {
+        const hold = slotHold.hold;
+        if (!canSubmit || !hold) return;
+        const payload: ConvertToSelfPickupPayload = {
+            collector_name: form.collector_name.trim(),
+            collector_phone: form.collector_phone.trim(),
+            ...(form.collector_email.trim()
+                ? { collector_email: form.collector_email.trim() }
+                : {}),
+            pickup_window: { start: hold.start, end: hold.end },
+            slot_hold_id: hold.hold_id,
+            ...(form.expected_return_date
+                ? {
+                      expected_return_at:
+                          composeZonedISO({
+                              date: form.expected_return_date,
+                              time: "18:00",
+                              timezone: feasibilityConfig?.timezone,
+                          }) ?? `${form.expected_return_date}T18:00:00`,
+                  }
+                : {}),
+        };
+        try {
+            const result = await convert.mutateAsync({ orderId, payload });
+            slotHold.keep();
+            setOpen(false);
+            toast.success(`${source.reference} is now a self-pickup`);
+            router.push(fulfilmentHref(result));
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't switch to self-pickup");
+        }
+    };
+
+    return (
+        <>
+            <Button
+                variant="outline"
+                onClick={() => handleOpenChange(true)}
+                className={className ?? "gap-2"}
+                data-testid="convert-to-self-pickup"
+            >
+                <Truck className="h-4 w-4" />
+                Switch to Self-Pickup
+            </Button>
+
+            <Dialog open={open} onOpenChange={handleOpenChange}>
+                <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Switch {source.reference} to self-pickup</DialogTitle>
+                        <DialogDescription>
+                            Your items, quantities and maintenance choices carry over. This order is
+                            cancelled and linked to the new pickup.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-5">
+                        <div className="divide-y divide-border rounded-md border border-border">
+                            {source.lines.map((line) => (
+                                <div
+                                    key={line.assetId}
+                                    className="flex items-center justify-between gap-3 px-3 py-2 text-sm"
+                                >
+                                    <span className="truncate">{line.assetName}</span>
+                                    <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                                        Qty {line.quantity}
+                                        {line.maintenanceDecision &&
+                                            ` · ${DECISION_LABELS[line.maintenanceDecision]}`}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                            <div className="space-y-1.5">
+                                <Label htmlFor="convert-collector-name">Collector *</Label>
+                                <Input
+                                    id="convert-collector-name"
+                                    value={form.collector_name}
+                                    onChange={(e) =>
+                                        setForm((prev) => ({
+                                            ...prev,
+                                            collector_name: e.target.value,
+                                        }))
+                                    }
+                                />
+                            </div>
+                            <div className="space-y-1.5">
+                                <Label htmlFor="convert-collector-phone">Phone *</Label>
+                                <Input
+                                    id="convert-collector-phone"
+                                    type="tel"
+                                    value={form.collector_phone}
+                                    onChange={(e) =>
+                                        setForm((prev) => ({
+                                            ...prev,
+                                            collector_phone: e.target.value,
+                                        }))
+                                    }
+                                    className="font-mono"
+                                />
+                            </div>
+                            <div className="space-y-1.5">
+                                <Label htmlFor="convert-collector-email">Email</Label>
+                                <Input
+                                    id="convert-collector-email"
+                                    type="email"
+                                    value={form.collector_email}
+                                    onChange={(e) =>
+                                        setForm((prev) => ({
+                                            ...prev,
+                                            collector_email: e.target.value,
+                                        }))
+                                    }
+                                    className="font-mono"
+                                />
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>Pickup slot *</Label>
+                            <DockSlotPicker controller={slotHold} disabled={convert.isPending} />
+                        </div>
+
+                        {blocking.length > 0 && (
+                            <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                                <div className="space-y-1">
+                                    <p>Some items won&apos;t be ready by this slot:</p>
+                                    <ul className="list-disc pl-4 text-xs">
+                                        {blocking.map((issue) => (
+                                            <li key={issue.asset_id}>
+                                                {issue.asset_name} — ready from{" "}
+                                                {issue.earliest_feasible_date}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            </div>
+                        )}
+
+                        {source.form.is_permanent_placement !== true && (
+                            <div className="space-y-1.5">
+                                <Label htmlFor="convert-expected-return">
+                                    Expected return (optional)
+                                </Label>
+                                <Input
+                                    id="convert-expected-return"
+                                    type="date"
+                                    value={form.expected_return_date}
+                                    onChange={(e) =>
+                                        setForm((prev) => ({
+                                            ...prev,
+                                            expected_return_date: e.target.value,
+                                        }))
+                                    }
+                                    className="max-w-48 font-mono"
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                            Keep Delivery
+                        </Button>
+                        <Button
+                            onClick={handleSubmit}
+                            disabled={!canSubmit || convert.isPending}
+                            className="gap-2"
+                        >
+                            {convert.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Switch to Self-Pickup
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+/**
+ * Links an order and the self-pickup it was switched to (or from). Renders
+ * nothing for records that were never converted.
+ */
+
+import Link from "next/link";
+import { ArrowRightLeft } from "lucide-react";
+import { fulfilmentHref, type FulfilmentLink } from "@/lib/checkout/fulfilment-conversion";
+
+const KIND_LABELS = { ORDER: "delivery order", SELF_PICKUP: "self-pickup" } as const;
+
+export function FulfilmentLinkNotice({
+    convertedFrom,
+    convertedTo,
+}: {
+    convertedFrom?: FulfilmentLink | null;
+    convertedTo?: FulfilmentLink | null;
+}) {
+    const link = convertedTo ?? convertedFrom;
+    if (!link) return null;
+
+    return (
+        <div
+            className="flex items-center gap-2 rounded-md border border-primary/20 bg-primary/5 px-4 py-3 text-sm"
+            data-testid="fulfilment-link"
+        >
+            <ArrowRightLeft className="h-4 w-4 shrink-0 text-primary" />
+            <span>
+                {convertedTo ? "Switched to" : "Switched from"} {KIND_LABELS[link.kind]}{" "}
+                <Link href={fulfilmentHref(link)} className="font-mono font-semibold underline">
+                    {link.id}
+                </Link>
+                {link.converted_at && (
+                    <span className="text-muted-foreground">
+                        {" "}
+                        on {new Date(link.converted_at).toLocaleDateString()}
+                    </span>
+                )}
+            </span>
+        </div>
+    );
+}
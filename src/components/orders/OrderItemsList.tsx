@@ -6,12 +6,21 @@
  */
 
 import { useState } from "react";
-import { Package, Paintbrush, CheckCircle2, XCircle, AlertCircle } from "lucide-react";
+import {
+    Package,
+    Paintbrush,
+    CheckCircle2,
+    XCircle,
+    AlertCircle,
+    MapPin,
+    StickyNote,
+} from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Button } from "@/components/ui/button";
 import { catalogueThumbUrl } from "@/lib/utils/catalogue-image";
+import { groupByArea } from "@/lib/cart/event-areas";
 import {
     Dialog,
     DialogContent,
@@ -65,6 +74,9 @@ interface OrderItem {
         volume_per_unit: number;
         total_volume: number;
         total_weight: number;
+        // Event area and line note carried over from the cart
+        event_area?: string | null;
+        note?: string | null;
         maintenance_decision?: "FIX_IN_ORDER" | "USE_AS_IS" | null;
         maintenance_decision_label?: string | null;
         accepted_current_condition?: boolean;
@@ -164,6 +176,15 @@ export function OrderItemsList({
     reskinList,
     calculatedTotals,
 }: OrderItemsListProps) {
+    // Numbering follows the grouped order so it reads top to bottom.
+    const grouped = groupByArea(items, (item) => item.order_item.event_area);
+    const hasAreas = grouped.some((group) => group.area !== null);
+    let position = 0;
+    const groups = grouped.map((group) => ({
+        area: group.area,
+        items: group.items.map((item) => ({ item, index: position++ })),
+    }));
+
     return (
         <Card className="p-6 bg-card/50 backdrop-blur-sm border-border/40">
             <div className="flex items-center gap-2 mb-6">
@@ -174,18 +195,37 @@ export function OrderItemsList({
                 </Badge>
             </div>
 
-            <div className="space-y-3">
-                {items.map((item, index) => (
-                    <OrderItemCard
-                        key={
-                            item.id || item.order_item.id || `${item.order_item.asset_id}-${index}`
-                        }
-                        orderStatus={orderStatus}
-                        orderId={orderId}
-                        item={item}
-                        reskinList={reskinList}
-                        index={index}
-                    />
+            <div className="space-y-6">
+                {groups.map((group) => (
+                    <div key={group.area ?? ""}>
+                        {hasAreas && (
+                            <div className="mb-3 flex items-center gap-2">
+                                <MapPin className="w-3.5 h-3.5 text-primary" />
+                                <p className="text-xs font-bold font-mono uppercase tracking-wide">
+                                    {group.area ?? "Unassigned"}
+                                </p>
+                                <span className="text-xs font-mono text-muted-foreground">
+                                    {group.items.length}
+                                </span>
+                            </div>
+                        )}
+                        <div className="space-y-3">
+                            {group.items.map(({ item, index }) => (
+                                <OrderItemCard
+                                    key={
+                                        item.id ||
+                                        item.order_item.id ||
+                                        `${item.order_item.asset_id}-${index}`
+                                    }
+                                    orderStatus={orderStatus}
+                                    orderId={orderId}
+                                    item={item}
+                                    reskinList={reskinList}
+                                    index={index}
+                                />
+                            ))}
+                        </div>
+                    </div>
                 ))}
             </div>
 
@@ -449,6 +489,15 @@ const OrderItemCard = ({
                             </span>
                         </div>
 
+                        {item.order_item.note && (
+                            <p className="mt-2 flex items-start gap-1.5 text-xs text-muted-foreground">
+                                <StickyNote className="w-3 h-3 mt-0.5 shrink-0" />
+                                <span className="whitespace-pre-wrap break-words">
+                                    {item.order_item.note}
+                                </span>
+                            </p>
+                        )}
+
                         {/* Condition section */}
                         {item.asset &&
                             (item.asset.condition !== "GREEN" ||
@@ -1,7 +1,12 @@
 "use client";
 
-import { XCircle } from "lucide-react";
+import { Clock, XCircle } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+    cancellationReasonLabel,
+    formatCancellationFee,
+    type OrderCancellationRequest,
+} from "@/lib/order-cancellation";
 import type { OrderStatus } from "@/types/order";
 
 interface OrderStatusBannerProps {
@@ -9,6 +14,8 @@ interface OrderStatusBannerProps {
     cancellationReason?: string;
     cancellationNotes?: string;
     cancelledAt?: string;
+    // Latest client cancellation request; only a PENDING one is shown.
+    cancellationRequest?: OrderCancellationRequest | null;
 }
 
 export function OrderStatusBanner({
@@ -16,6 +23,7 @@ export function OrderStatusBanner({
     cancellationReason,
     cancellationNotes,
     cancelledAt,
+    cancellationRequest,
 }: OrderStatusBannerProps) {
     if (status === "CANCELLED") {
         return (
@@ -47,5 +55,46 @@ export function OrderStatusBanner({
         );
     }
 
+    if (cancellationRequest?.status === "PENDING") {
+        return (
+            <Alert
+                className="border-amber-400 bg-amber-50 text-amber-900 dark:bg-amber-950/20"
+                data-testid="pending-cancellation-banner"
+            >
+                <Clock className="h-5 w-5" />
+                <AlertTitle>Cancellation Requested</AlertTitle>
+                <AlertDescription>
+                    <p>
+                        Our team is reviewing your request to cancel this order. It stays active
+                        until they confirm.
+                    </p>
+                    <p className="mt-2">
+                        <strong>Reason:</strong>{" "}
+                        {cancellationReasonLabel(cancellationRequest.reason)}
+                    </p>
+                    {cancellationRequest.notes && (
+                        <p className="mt-1">
+                            <strong>Notes:</strong> {cancellationRequest.notes}
+                        </p>
+                    )}
+                    {cancellationRequest.fee_amount > 0 && (
+                        <p className="mt-1">
+                            <strong>Cancellation fee:</strong>{" "}
+                            {formatCancellationFee(
+                                cancellationRequest.fee_amount,
+                                cancellationRequest.currency
+                            )}
+                        </p>
+                    )}
+                    <p className="text-xs mt-2 text-muted-foreground">
+                        Requested on: {new Date(cancellationRequest.requested_at).toLocaleString()}
+                        {cancellationRequest.requested_by &&
+                            ` by ${cancellationRequest.requested_by.name}`}
+                    </p>
+                </AlertDescription>
+            </Alert>
+        );
+    }
+
     return null;
 }
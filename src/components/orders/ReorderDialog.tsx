@@ -0,0 +1,383 @@
+"use client";
+
+/**
+ * Reorder Dialog
+ * Starts a new cart from a past order or self-pickup. The user picks the new
+ * event (or pickup) date, every line is checked against that window, and
+ * lines that can't be supplied as-is need a substitute, a reduced quantity
+ * or to be left out before anything reaches the cart. Venue, contacts,
+ * permit answers and the shifted dates are prefilled into checkout.
+ */
+
+import { useMemo, useState, type MouseEvent } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import { AlertCircle, CheckCircle2, Loader2, MapPin, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useCart } from "@/contexts/cart-context";
+import type { AvailabilityReasonCode } from "@/hooks/use-availability-preview";
+import { useClientOrderDetail } from "@/hooks/use-client-orders";
+import { useCountries } from "@/hooks/use-countries";
+import { useApplyReorder, useReorderCheck, type ReorderCheckLine } from "@/hooks/use-reorder";
+import { useClientSelfPickupDetail } from "@/hooks/use-self-pickups";
+import type { SharedCartApplyMode } from "@/hooks/use-shared-cart";
+import type { SharedCartLine } from "@/lib/api/cart-api";
+import {
+    daysBetween,
+    orderToReorderSource,
+    selfPickupToReorderSource,
+    shiftReorderForm,
+    substituteLine,
+    suggestReorderDate,
+    type ReorderSourceKind,
+} from "@/lib/cart/reorder";
+import { buildAvailabilityWindow } from "@/lib/checkout/checkout-storage";
+
+// Per-line choice for a line that can't be supplied as-is: a substitute's
+// asset id (`sub:<id>`), the quantity that is available, or leave it out.
+type LineChoice = `sub:${string}` | "clamp" | "skip";
+
+function describeReason(entry: ReorderCheckLine): string {
+    const reasons: Record<AvailabilityReasonCode, string> = {
+        NOT_FOUND: "No longer in the catalog",
+        SOFT_DELETED: "No longer in the catalog",
+        TRANSFORMED: "Transformed into another asset",
+        MAINTENANCE: "In maintenance for these dates",
+        INSUFFICIENT_QUANTITY:
+            entry.availableQuantity > 0
+                ? `Only ${entry.availableQuantity} of ${entry.line.quantity} available`
+                : "None available for these dates",
+    };
+    return (entry.reasonCode && reasons[entry.reasonCode]) || "Unavailable for these dates";
+}
+
+function defaultChoice(entry: ReorderCheckLine): LineChoice {
+    const stocked = entry.substitutes.find(
+        (candidate) => candidate.availableQuantity >= entry.line.quantity
+    );
+    if (stocked) return `sub:${stocked.assetId}`;
+    if (entry.reasonCode === "INSUFFICIENT_QUANTITY" && entry.availableQuantity > 0) {
+        return "clamp";
+    }
+    return "skip";
+}
+
+function resolveLine(entry: ReorderCheckLine, choice: LineChoice): SharedCartLine | null {
+    if (!entry.reasonCode) return entry.line;
+    if (choice === "skip") return null;
+    if (choice === "clamp") return { ...entry.line, quantity: entry.availableQuantity };
+    const substitute = entry.substitutes.find((candidate) => `sub:${candidate.assetId}` === choice);
+    return substitute ? substituteLine(entry.line, substitute) : null;
+}
+
+export function ReorderDialog({
+    kind,
+    id,
+    company = false,
+    className,
+}: {
+    kind: ReorderSourceKind;
+    // Route id of the order / self-pickup.
+    id: string;
+    company?: boolean;
+    className?: string;
+}) {
+    const router = useRouter();
+    const [open, setOpen] = useState(false);
+    const { items: cartItems } = useCart();
+    const { data: countriesData } = useCountries();
+
+    // Detail pages already have these cached; list rows fetch on open.
+    const orderDetail = useClientOrderDetail(open && kind === "order" ? id : null, { company });
+    const pickupDetail = useClientSelfPickupDetail(open && kind === "self-pickup" ? id : null, {
+        company,
+    });
+    const detail = kind === "order" ? orderDetail : pickupDetail;
+    const payload = detail.data?.data;
+
+    const source = useMemo(() => {
+        if (!payload) return null;
+        return kind === "order"
+            ? orderToReorderSource(payload)
+            : selfPickupToReorderSource(payload);
+    }, [kind, payload]);
+
+    const [pickedDate, setPickedDate] = useState<string | null>(null);
+    const newDate = pickedDate ?? (source ? suggestReorderDate(source.anchorDate) : "");
+    const minDate = format(new Date(Date.now() + 24 * 60 * 60 * 1000), "yyyy-MM-dd");
+
+    const form = useMemo(() => {
+        if (!source || !newDate) return null;
+        const shifted = shiftReorderForm(source, newDate);
+        // Checkout picks the first country unless told otherwise, so derive
+        // it from the venue city.
+        const cityId = shifted.venue_city_id;
+        const country = cityId
+            ? countriesData?.data?.find((entry) => entry.cities?.some((city) => city.id === cityId))
+            : undefined;
+        return country
+            ? { ...shifted, venue_country_id: country.id, venue_country_name: country.name }
+            : shifted;
+    }, [source, newDate, countriesData?.data]);
+
+    const bookingWindow = useMemo(
+        () => (form ? buildAvailabilityWindow(form as Record<string, string>) : null),
+        [form]
+    );
+    const check = useReorderCheck(source && form ? source : null, bookingWindow);
+    const applyReorder = useApplyReorder();
+
+    const [choices, setChoices] = useState<Record<number, LineChoice>>({});
+    const entries = check.data ?? [];
+    const choiceFor = (entry: ReorderCheckLine, index: number) =>
+        choices[index] ?? defaultChoice(entry);
+    const finalLines = entries
+        .map((entry, index) => resolveLine(entry, choiceFor(entry, index)))
+        .filter((line): line is SharedCartLine => line !== null);
+    const problemCount = entries.filter((entry) => entry.reasonCode).length;
+
+    const shiftDays = source && newDate ? daysBetween(source.anchorDate, newDate) : 0;
+    const dateLabel = kind === "order" ? "New event start" : "New pickup date";
+
+    const handleOpen = (e: MouseEvent) => {
+        // Rows on list pages are links; don't follow them.
+        e.preventDefault();
+        setOpen(true);
+    };
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (!next) {
+            setPickedDate(null);
+            setChoices({});
+        }
+    };
+
+    const apply = (mode: SharedCartApplyMode) => {
+        if (!form || finalLines.length === 0) return;
+        applyReorder.mutate(
+            { lines: finalLines, mode, form },
+            {
+                onSuccess: ({ added }) => {
+                    handleOpenChange(false);
+                    toast.success(
+                        `Added ${added} ${added === 1 ? "item" : "items"} from ${source?.reference}`,
+                        {
+                            description: "Dates, venue and contacts are filled in at checkout.",
+                            action: { label: "Checkout", onClick: () => router.push("/checkout") },
+                        }
+                    );
+                },
+                onError: (error) => toast.error(error.message || "Couldn't reorder"),
+            }
+        );
+    };
+
+    return (
+        // Dialog events bubble through the React tree; keep them away from a
+        // surrounding row link.
+        <span onClick={(e) => e.stopPropagation()}>
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={handleOpen}
+                className={className ?? "gap-2"}
+                data-testid="reorder"
+            >
+                <RotateCcw className="h-4 w-4" />
+                Reorder
+            </Button>
+
+            <Dialog open={open} onOpenChange={handleOpenChange}>
+                <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Reorder {source?.reference ?? ""}</DialogTitle>
+                        <DialogDescription>
+                            Start a new cart from this {kind === "order" ? "order" : "pickup"}.
+                            Every date moves with the new{" "}
+                            {kind === "order" ? "event start" : "pickup date"}.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    {detail.isLoading || !source ? (
+                        <div className="space-y-3">
+                            <Skeleton className="h-10 w-full" />
+                            <Skeleton className="h-16 w-full" />
+                        </div>
+                    ) : (
+                        <div className="space-y-5">
+                            <div className="space-y-1.5">
+                                <Label htmlFor="reorder-date">{dateLabel}</Label>
+                                <Input
+                                    id="reorder-date"
+                                    type="date"
+                                    min={minDate}
+                                    value={newDate}
+                                    onChange={(e) => {
+                                        setPickedDate(e.target.value);
+                                        setChoices({});
+                                    }}
+                                    className="max-w-48"
+                                />
+                                {source.anchorDate && (
+                                    <p className="text-xs text-muted-foreground">
+                                        Was {source.anchorDate}
+                                        {shiftDays !== 0 &&
+                                            ` · dates move ${Math.abs(shiftDays)} ${Math.abs(shiftDays) === 1 ? "day" : "days"} ${shiftDays > 0 ? "later" : "earlier"}`}
+                                    </p>
+                                )}
+                            </div>
+
+                            {typeof form?.venue_name === "string" && form.venue_name && (
+                                <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                                    <MapPin className="h-3.5 w-3.5" />
+                                    {form.venue_name}
+                                </p>
+                            )}
+
+                            {problemCount > 0 && (
+                                <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                                    <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                                    {problemCount} of {entries.length}{" "}
+                                    {entries.length === 1 ? "item" : "items"} can&apos;t be supplied
+                                    as before. Choose what to add instead.
+                                </div>
+                            )}
+
+                            <div className="divide-y divide-border rounded-md border border-border">
+                                {check.isLoading
+                                    ? source.lines.map((line) => (
+                                          <div key={line.assetId} className="p-3">
+                                              <Skeleton className="h-5 w-2/3" />
+                                          </div>
+                                      ))
+                                    : entries.map((entry, index) => (
+                                          <div
+                                              key={`${entry.line.assetId}-${index}`}
+                                              className="space-y-2 p-3"
+                                              data-testid="reorder-line"
+                                          >
+                                              <div className="flex items-start justify-between gap-3">
+                                                  <div className="min-w-0">
+                                                      <p className="truncate text-sm font-medium">
+                                                          {entry.line.assetName}
+                                                      </p>
+                                                      <p className="font-mono text-xs text-muted-foreground">
+                                                          Qty {entry.line.quantity}
+                                                          {entry.line.eventArea &&
+                                                              ` · ${entry.line.eventArea}`}
+                                                      </p>
+                                                  </div>
+                                                  {entry.reasonCode ? (
+                                                      <span className="inline-flex shrink-0 items-center gap-1 text-xs text-red-700">
+                                                          <AlertCircle className="h-3.5 w-3.5" />
+                                                          {describeReason(entry)}
+                                                      </span>
+                                                  ) : (
+                                                      <span className="inline-flex shrink-0 items-center gap-1 text-xs text-green-700">
+                                                          <CheckCircle2 className="h-3.5 w-3.5" />
+                                                          Available
+                                                      </span>
+                                                  )}
+                                              </div>
+                                              {entry.reasonCode && (
+                                                  <Select
+                                                      value={choiceFor(entry, index)}
+                                                      onValueChange={(value) =>
+                                                          setChoices((current) => ({
+                                                              ...current,
+                                                              [index]: value as LineChoice,
+                                                          }))
+                                                      }
+                                                  >
+                                                      <SelectTrigger className="h-8 text-xs">
+                                                          <SelectValue />
+                                                      </SelectTrigger>
+                                                      <SelectContent>
+                                                          {entry.substitutes.map((candidate) => (
+                                                              <SelectItem
+                                                                  key={candidate.assetId}
+                                                                  value={`sub:${candidate.assetId}`}
+                                                              >
+                                                                  Use {candidate.name} (
+                                                                  {candidate.availableQuantity} in
+                                                                  stock)
+                                                              </SelectItem>
+                                                          ))}
+                                                          {entry.reasonCode ===
+                                                              "INSUFFICIENT_QUANTITY" &&
+                                                              entry.availableQuantity > 0 && (
+                                                                  <SelectItem value="clamp">
+                                                                      Add the{" "}
+                                                                      {entry.availableQuantity}{" "}
+                                                                      available
+                                                                  </SelectItem>
+                                                              )}
+                                                          <SelectItem value="skip">
+                                                              Leave it out
+                                                          </SelectItem>
+                                                      </SelectContent>
+                                                  </Select>
+                                              )}
+                                          </div>
+                                      ))}
+                            </div>
+                            {check.isError && (
+                                <p className="text-sm text-destructive">
+                                    Couldn&apos;t check availability. Try again in a moment.
+                                </p>
+                            )}
+                        </div>
+                    )}
+
+                    <DialogFooter className="gap-2 sm:gap-0">
+                        {cartItems.length > 0 && (
+                            <Button
+                                variant="outline"
+                                onClick={() => apply("replace")}
+                                disabled={
+                                    applyReorder.isPending ||
+                                    check.isLoading ||
+                                    finalLines.length === 0
+                                }
+                            >
+                                Replace my cart
+                            </Button>
+                        )}
+                        <Button
+                            onClick={() => apply("merge")}
+                            disabled={
+                                applyReorder.isPending || check.isLoading || finalLines.length === 0
+                            }
+                            className="gap-2"
+                            data-testid="reorder-apply"
+                        >
+                            {applyReorder.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Add {finalLines.length} {finalLines.length === 1 ? "item" : "items"} to
+                            cart
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </span>
+    );
+}
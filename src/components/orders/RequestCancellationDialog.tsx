@@ -0,0 +1,232 @@
+"use client";
+
+/**
+ * Request Cancellation Dialog
+ * Asks ops to cancel a delivery order. The client picks a reason, sees the
+ * fee the platform would charge right now and, when there is one, confirms
+ * it before the request is sent. Ops approve or reject from their side; until
+ * then the order shows the request as pending.
+ */
+
+import { useState } from "react";
+import { AlertTriangle, Ban, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useOrderCancellationFee, useRequestOrderCancellation } from "@/hooks/use-client-orders";
+import {
+    CANCELLATION_REASONS,
+    formatCancellationFee,
+    reasonNeedsNotes,
+    type CancellationReason,
+} from "@/lib/order-cancellation";
+
+export function RequestCancellationDialog({
+    orderId,
+    orderReference,
+    className,
+}: {
+    // Order UUID (`order.id`).
+    orderId: string;
+    // Human order id shown in the copy.
+    orderReference: string;
+    className?: string;
+}) {
+    const [open, setOpen] = useState(false);
+    const [reason, setReason] = useState<CancellationReason | "">("");
+    const [notes, setNotes] = useState("");
+    const [feeAccepted, setFeeAccepted] = useState(false);
+
+    const fee = useOrderCancellationFee(orderId, open);
+    const requestCancellation = useRequestOrderCancellation();
+
+    const feeAmount = fee.data?.fee_amount ?? 0;
+    const hasFee = feeAmount > 0;
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) {
+            setReason("");
+            setNotes("");
+            setFeeAccepted(false);
+        }
+    };
+
+    const canSubmit =
+        !!reason &&
+        (!reasonNeedsNotes(reason) || !!notes.trim()) &&
+        fee.isSuccess &&
+        !fee.isFetching &&
+        (!hasFee || feeAccepted);
+
+    const handleSubmit = async () => {
+        if (!canSubmit || !reason) return;
+        try {
+            await requestCancellation.mutateAsync({
+                orderId,
+                payload: {
+                    reason,
+                    ...(notes.trim() ? { notes: notes.trim() } : {}),
+                    acknowledged_fee_amount: feeAmount,
+                },
+            });
+            setOpen(false);
+            toast.success("Cancellation requested — we'll confirm shortly");
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't request cancellation");
+            // A 409 usually means the fee moved on; show the current one.
+            fee.refetch();
+            setFeeAccepted(false);
+        }
+    };
+
+    return (
+        <>
+            <Button
+                variant="outline"
+                onClick={() => handleOpenChange(true)}
+                className={
+                    className ??
+                    "gap-2 text-destructive hover:text-destructive border-destructive/40"
+                }
+                data-testid="request-cancellation"
+            >
+                <Ban className="h-4 w-4" />
+                Request Cancellation
+            </Button>
+
+            <Dialog open={open} onOpenChange={handleOpenChange}>
+                <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Request cancellation of {orderReference}</DialogTitle>
+                        <DialogDescription>
+                            Our team reviews every request. The order stays as it is until they
+                            confirm the cancellation.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-5">
+                        <div className="space-y-2">
+                            <Label>Why are you cancelling? *</Label>
+                            <RadioGroup
+                                value={reason}
+                                onValueChange={(value) => setReason(value as CancellationReason)}
+                                className="gap-2"
+                            >
+                                {CANCELLATION_REASONS.map((option) => (
+                                    <div key={option.value} className="flex items-center gap-2">
+                                        <RadioGroupItem
+                                            value={option.value}
+                                            id={`cancel-reason-${option.value}`}
+                                        />
+                                        <Label
+                                            htmlFor={`cancel-reason-${option.value}`}
+                                            className="font-normal"
+                                        >
+                                            {option.label}
+                                        </Label>
+                                    </div>
+                                ))}
+                            </RadioGroup>
+                        </div>
+
+                        <div className="space-y-1.5">
+                            <Label htmlFor="cancel-notes">
+                                Notes {reasonNeedsNotes(reason) ? "*" : "(optional)"}
+                            </Label>
+                            <Textarea
+                                id="cancel-notes"
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="Anything our team should know"
+                                rows={3}
+                                maxLength={1000}
+                            />
+                        </div>
+
+                        <div className="rounded-md border border-border p-3 text-sm">
+                            {fee.isLoading ? (
+                                <Skeleton className="h-5 w-48" />
+                            ) : fee.isError ? (
+                                <p className="text-destructive">
+                                    Couldn&apos;t load the cancellation fee. Close and try again.
+                                </p>
+                            ) : hasFee ? (
+                                <div className="space-y-3">
+                                    <div className="flex items-start gap-2 text-amber-800">
+                                        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                                        <div>
+                                            <p>
+                                                A cancellation fee of{" "}
+                                                <span className="font-mono font-semibold">
+                                                    {formatCancellationFee(
+                                                        feeAmount,
+                                                        fee.data?.currency
+                                                    )}
+                                                </span>{" "}
+                                                applies if this is approved.
+                                            </p>
+                                            {fee.data?.fee_basis && (
+                                                <p className="mt-1 text-xs text-muted-foreground">
+                                                    {fee.data.fee_basis}
+                                                </p>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <Checkbox
+                                            id="cancel-fee-accepted"
+                                            checked={feeAccepted}
+                                            onCheckedChange={(checked) =>
+                                                setFeeAccepted(checked === true)
+                                            }
+                                        />
+                                        <Label
+                                            htmlFor="cancel-fee-accepted"
+                                            className="font-normal"
+                                        >
+                                            I understand this fee will be invoiced
+                                        </Label>
+                                    </div>
+                                </div>
+                            ) : (
+                                <p className="text-muted-foreground">
+                                    No cancellation fee applies right now.
+                                </p>
+                            )}
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                            Keep Order
+                        </Button>
+                        <Button
+                            variant="destructive"
+                            onClick={handleSubmit}
+                            disabled={!canSubmit || requestCancellation.isPending}
+                            className="gap-2"
+                        >
+                            {requestCancellation.isPending && (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                            )}
+                            Request Cancellation
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
@@ -0,0 +1,264 @@
+"use client";
+
+/**
+ * Revision History Card
+ * Every saved edit on an order or self-pickup with who made it, when, and a
+ * before/after per field. Item changes show as added / removed / changed
+ * rows; edits that sent the quote back to review are flagged. Compare mode
+ * diffs any two revisions (or the submitted record) against each other.
+ */
+
+import { useMemo, useState } from "react";
+import { ArrowRight, GitCompareArrows, History, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useRevisions } from "@/hooks/use-revisions";
+import {
+    ITEMS_FIELD,
+    compareRevisions,
+    diffItems,
+    formatRevisionValue,
+    revisionFieldLabel,
+    type ItemChangeKind,
+    type RevisionEntityType,
+    type RevisionFieldChange,
+} from "@/lib/revisions";
+import { cn } from "@/lib/utils";
+
+const COLLAPSED_COUNT = 5;
+
+const ITEM_CHANGE_STYLES: Record<ItemChangeKind, { label: string; className: string }> = {
+    added: { label: "Added", className: "bg-green-100 text-green-700 border-green-300" },
+    removed: { label: "Removed", className: "bg-red-100 text-red-700 border-red-300" },
+    changed: { label: "Qty", className: "bg-blue-100 text-blue-700 border-blue-300" },
+};
+
+function ItemChangeRows({ before, after }: { before: unknown; after: unknown }) {
+    const changes = diffItems(before, after);
+    if (changes.length === 0) {
+        return <p className="text-xs text-muted-foreground">No quantity changes</p>;
+    }
+    return (
+        <div className="space-y-1">
+            {changes.map((change) => (
+                <div key={change.asset_id} className="flex items-center gap-2 text-sm">
+                    <Badge
+                        variant="outline"
+                        className={cn(
+                            "w-16 justify-center border text-[10px] font-mono uppercase",
+                            ITEM_CHANGE_STYLES[change.kind].className
+                        )}
+                    >
+                        {ITEM_CHANGE_STYLES[change.kind].label}
+                    </Badge>
+                    <span className={cn("truncate", change.kind === "removed" && "line-through")}>
+                        {change.asset_name}
+                    </span>
+                    <span className="ml-auto shrink-0 font-mono text-xs text-muted-foreground">
+                        {change.before ?? "—"} → {change.after ?? "—"}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function FieldChangeList({ changes }: { changes: RevisionFieldChange[] }) {
+    if (changes.length === 0) {
+        return <p className="text-sm text-muted-foreground">No differences</p>;
+    }
+    return (
+        <div className="divide-y divide-border/50">
+            {changes.map((change) => (
+                <div
+                    key={change.field}
+                    className="grid grid-cols-1 gap-1 py-2 sm:grid-cols-[10rem_1fr]"
+                >
+                    <p className="text-xs font-mono uppercase tracking-wide text-muted-foreground">
+                        {revisionFieldLabel(change.field)}
+                    </p>
+                    {change.field === ITEMS_FIELD ? (
+                        <ItemChangeRows before={change.old} after={change.new} />
+                    ) : (
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="text-muted-foreground line-through">
+                                {formatRevisionValue(change.old)}
+                            </span>
+                            <ArrowRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                            <span className="font-medium">{formatRevisionValue(change.new)}</span>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+const formatWhen = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+export function RevisionHistoryCard({
+    entityType,
+    entityId,
+}: {
+    entityType: RevisionEntityType;
+    // Record UUID (`order.id` / `pickup.id`).
+    entityId: string | null;
+}) {
+    const { data: revisions = [], isLoading } = useRevisions(entityType, entityId);
+    const [showAll, setShowAll] = useState(false);
+    const [comparing, setComparing] = useState(false);
+    const [range, setRange] = useState({ from: 0, to: 0 });
+
+    const newestFirst = useMemo(
+        () => [...revisions].sort((a, b) => b.revision - a.revision),
+        [revisions]
+    );
+    const latest = newestFirst[0]?.revision ?? 0;
+    const comparison = useMemo(
+        () => (comparing ? compareRevisions(revisions, range.from, range.to) : []),
+        [comparing, revisions, range]
+    );
+
+    // Nothing edited yet — the status timeline already covers the record.
+    if (!isLoading && revisions.length === 0) return null;
+
+    const visible = showAll ? newestFirst : newestFirst.slice(0, COLLAPSED_COUNT);
+    const revisionOptions = [
+        { value: 0, label: "As submitted" },
+        ...[...newestFirst]
+            .reverse()
+            .map((rev) => ({ value: rev.revision, label: `Revision ${rev.revision}` })),
+    ];
+
+    const startComparing = () => {
+        setRange({ from: 0, to: latest });
+        setComparing(true);
+    };
+
+    return (
+        <Card
+            className="bg-card/50 backdrop-blur-sm border-border/40"
+            data-testid="revision-history"
+        >
+            <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+                <CardTitle className="text-lg flex items-center gap-2 font-mono uppercase tracking-wide">
+                    <History className="h-5 w-5 text-primary" />
+                    Revisions {revisions.length > 0 && `(${revisions.length})`}
+                </CardTitle>
+                {revisions.length > 0 && (
+                    <Button
+                        variant={comparing ? "secondary" : "outline"}
+                        size="sm"
+                        onClick={() => (comparing ? setComparing(false) : startComparing())}
+                        className="gap-1.5"
+                    >
+                        <GitCompareArrows className="h-4 w-4" />
+                        {comparing ? "Back to list" : "Compare"}
+                    </Button>
+                )}
+            </CardHeader>
+            <CardContent>
+                {isLoading ? (
+                    <div className="space-y-3">
+                        <Skeleton className="h-16 w-full" />
+                        <Skeleton className="h-16 w-full" />
+                    </div>
+                ) : comparing ? (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap items-center gap-2">
+                            {(["from", "to"] as const).map((end, index) => (
+                                <div key={end} className="flex items-center gap-2">
+                                    {index > 0 && (
+                                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                                    )}
+                                    <Select
+                                        value={String(range[end])}
+                                        onValueChange={(value) =>
+                                            setRange((prev) => ({ ...prev, [end]: Number(value) }))
+                                        }
+                                    >
+                                        <SelectTrigger
+                                            className="w-40"
+                                            aria-label={`Compare ${end}`}
+                                        >
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {revisionOptions.map((option) => (
+                                                <SelectItem
+                                                    key={option.value}
+                                                    value={String(option.value)}
+                                                >
+                                                    {option.label}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            ))}
+                        </div>
+                        {range.from === range.to ? (
+                            <p className="text-sm text-muted-foreground">
+                                Pick two different revisions to compare.
+                            </p>
+                        ) : (
+                            <FieldChangeList changes={comparison} />
+                        )}
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        {visible.map((rev) => (
+                            <div
+                                key={rev.id}
+                                className="rounded-md border border-border/60 p-4"
+                                data-testid="revision-entry"
+                            >
+                                <div className="mb-2 flex flex-wrap items-center gap-2">
+                                    <span className="font-mono text-sm font-semibold">
+                                        Revision {rev.revision}
+                                    </span>
+                                    <span className="text-xs text-muted-foreground">
+                                        {rev.actor?.name ?? "Platform team"} ·{" "}
+                                        {formatWhen(rev.created_at)}
+                                    </span>
+                                    {rev.status_reverted && (
+                                        <Badge
+                                            variant="outline"
+                                            className="ml-auto gap-1 border-amber-300 bg-amber-50 text-amber-700"
+                                        >
+                                            <RotateCcw className="h-3 w-3" />
+                                            Quote revised
+                                        </Badge>
+                                    )}
+                                </div>
+                                <FieldChangeList changes={rev.changed_fields} />
+                            </div>
+                        ))}
+                        {newestFirst.length > COLLAPSED_COUNT && (
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setShowAll((prev) => !prev)}
+                                className="w-full"
+                            >
+                                {showAll
+                                    ? "Show fewer"
+                                    : `Show all ${newestFirst.length} revisions`}
+                            </Button>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
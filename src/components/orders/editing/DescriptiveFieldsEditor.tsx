@@ -3,7 +3,8 @@
 /**
  * Descriptive-fields editor (order-editing). Venue name / city / address,
  * special instructions, permanent placement, and PO number. Controlled by the
- * parent.
+ * parent. A saved venue can fill the venue fields (and permit, if it has
+ * defaults) in one pick.
  *
  * NOTE: `job_number` is intentionally NOT here — it is admin-only and must never
  * be exposed or sent from the client.
@@ -11,8 +12,7 @@
  * Permit requirements + venue access notes are NO LONGER here. They render via
  * the shared <PermitSection> (the SAME component checkout uses) so the two
  * surfaces stay 1:1 — a prior hand-rewrite of the permit inputs caused the two
- * to drift. The `PermitDraft` type is still exported from here for back-compat
- * with the parent's draft shape.
+ * to drift. The draft types live in `@/types/order-edit`.
  */
 
 import { useMemo } from "react";
@@ -27,26 +27,10 @@ import {
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
+import { SavedVenuePicker } from "@/components/venues/SavedVenuePicker";
 import { useCountries } from "@/hooks/use-countries";
-
-export interface PermitDraft {
-    requires_permit: boolean;
-    permit_owner: "CLIENT" | "PLATFORM" | "UNKNOWN";
-    requires_vehicle_docs: boolean;
-    requires_staff_ids: boolean;
-    notes: string;
-}
-
-export interface DescriptiveDraft {
-    venue_name: string;
-    venue_city_id: string;
-    venue_address: string;
-    venue_access_notes: string;
-    special_instructions: string;
-    is_permanent_placement: boolean;
-    po_number: string;
-    permit: PermitDraft;
-}
+import { venueToDescriptivePatch } from "@/lib/venue-library";
+import type { DescriptiveDraft } from "@/types/order-edit";
 
 export function DescriptiveFieldsEditor({
     value,
@@ -72,6 +56,11 @@ export function DescriptiveFieldsEditor({
 
     return (
         <div className="space-y-6">
+            <SavedVenuePicker
+                onSelect={(venue) => onChange(venueToDescriptivePatch(venue))}
+                disabled={disabled}
+            />
+
             {/* Venue name */}
             <div className="space-y-2">
                 <Label
@@ -8,12 +8,9 @@
 
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-
-export interface VenueContactDraft {
-    venue_contact_name: string;
-    venue_contact_email: string;
-    venue_contact_phone: string;
-}
+import { SavedVenuePicker } from "@/components/venues/SavedVenuePicker";
+import { venueToVenueContactDraft } from "@/lib/venue-library";
+import type { VenueContactDraft } from "@/types/order-edit";
 
 export function VenueContactEditor({
     value,
@@ -26,9 +23,16 @@ export function VenueContactEditor({
 }) {
     return (
         <div className="space-y-4">
-            <p className="text-xs text-muted-foreground">
-                The person at the venue who can coordinate arrival, access, unloading, or handover.
-            </p>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-xs text-muted-foreground">
+                    The person at the venue who can coordinate arrival, access, unloading, or
+                    handover.
+                </p>
+                <SavedVenuePicker
+                    onSelect={(venue) => onChange(venueToVenueContactDraft(venue))}
+                    disabled={disabled}
+                />
+            </div>
             <div className="grid gap-4 md:grid-cols-3">
                 <div className="space-y-2">
                     <Label
@@ -23,9 +23,8 @@
  */
 
 import type { OrderEditPayload } from "@/hooks/use-order-editing";
+import type { DescriptiveDraft, PermitDraft, VenueContactDraft } from "@/types/order-edit";
 import type { ContactDraft } from "./ContactEditor";
-import type { VenueContactDraft } from "./VenueContactEditor";
-import type { DescriptiveDraft, PermitDraft } from "./DescriptiveFieldsEditor";
 import type {
     ItemQuantitiesDraft,
     QuantityEditorItem,
@@ -318,6 +317,9 @@ export const SECTION_KEYS: Record<SectionKey, (keyof OrderEditPayload)[]> = {
         "special_instructions",
         "is_permanent_placement",
         "po_number",
+        // A saved venue picked here brings its permit defaults along; an
+        // untouched permit produces no diff, so this is a no-op otherwise.
+        "permit_requirements",
     ],
     permit: ["permit_requirements", "venue_location"],
     eventDates: ["event_start_date", "event_end_date"],
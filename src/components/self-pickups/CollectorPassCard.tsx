@@ -0,0 +1,185 @@
+"use client";
+
+/**
+ * Collector pass — sidebar card on the self-pickup detail page with the
+ * on-screen QR (for showing from a phone) and a PDF download. The QR encodes
+ * a server-signed reference, so a pass can't be forged from the pickup id;
+ * editing the collector or window issues a new one.
+ */
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Download, Loader2, QrCode } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useSelfPickupCollectorPass } from "@/hooks/use-self-pickups";
+import { generateQRCode } from "@/lib/qr-code";
+import type { CollectorPassData } from "./CollectorPassDocument";
+
+interface CollectorPassPickup {
+    id: string;
+    self_pickup_id: string;
+    collector_name?: string | null;
+    collector_id_reference?: string | null;
+    pickup_window?: { start?: string | null; end?: string | null } | null;
+    items?: { quantity?: number | null }[] | null;
+}
+
+function windowLabel(pickupWindow: CollectorPassPickup["pickup_window"]): string {
+    if (!pickupWindow?.start) return "—";
+    const start = new Date(pickupWindow.start);
+    const end = pickupWindow.end ? new Date(pickupWindow.end) : null;
+    if (!end) return format(start, "EEE d MMM yyyy, HH:mm");
+    return start.toDateString() === end.toDateString()
+        ? `${format(start, "EEE d MMM yyyy, HH:mm")}–${format(end, "HH:mm")}`
+        : `${format(start, "d MMM, HH:mm")} – ${format(end, "d MMM yyyy, HH:mm")}`;
+}
+
+export function CollectorPassCard({
+    pickup,
+    company,
+}: {
+    pickup: CollectorPassPickup;
+    company?: boolean;
+}) {
+    const { data: pass, isLoading, isError } = useSelfPickupCollectorPass(pickup, { company });
+    const [qrImage, setQrImage] = useState<string | null>(null);
+    const [isDownloading, setIsDownloading] = useState(false);
+    // Token of the last pass downloaded here, to flag a stale copy.
+    const [downloadedToken, setDownloadedToken] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!pass?.token) {
+            setQrImage(null);
+            return;
+        }
+        let cancelled = false;
+        generateQRCode(pass.token)
+            .then((image) => {
+                if (!cancelled) setQrImage(image);
+            })
+            .catch(() => {
+                if (!cancelled) setQrImage(null);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [pass?.token]);
+
+    const items = pickup.items ?? [];
+    const itemCount = items.reduce((sum, item) => sum + (Number(item.quantity) || 0), 0);
+    const label = windowLabel(pickup.pickup_window);
+
+    const handleDownload = async () => {
+        if (!pass?.token || !qrImage) return;
+        setIsDownloading(true);
+        try {
+            const [{ pdf }, { CollectorPassDocument }] = await Promise.all([
+                import("@react-pdf/renderer"),
+                import("./CollectorPassDocument"),
+            ]);
+            const data: CollectorPassData = {
+                selfPickupId: pickup.self_pickup_id,
+                collectorName: pickup.collector_name || "",
+                collectorIdReference: pickup.collector_id_reference,
+                windowLabel: label,
+                itemCount,
+                lineCount: items.length,
+                qrImage,
+                issuedAt: format(
+                    pass.issued_at ? new Date(pass.issued_at) : new Date(),
+                    "d MMM yyyy, HH:mm"
+                ),
+            };
+            const blob = await pdf(<CollectorPassDocument pass={data} />).toBlob();
+
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement("a");
+            link.href = url;
+            link.download = `collector-pass-${pickup.self_pickup_id}.pdf`;
+            link.click();
+            URL.revokeObjectURL(url);
+            setDownloadedToken(pass.token);
+        } catch (error: any) {
+            toast.error(error?.message || "Failed to generate collector pass");
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    const isStale = !!downloadedToken && !!pass?.token && downloadedToken !== pass.token;
+
+    return (
+        <Card
+            className="bg-card/50 backdrop-blur-sm border-border/40"
+            data-testid="collector-pass-card"
+        >
+            <CardHeader>
+                <CardTitle className="text-sm flex items-center gap-2 font-mono uppercase tracking-wide">
+                    <QrCode className="h-4 w-4 text-primary" />
+                    Collector Pass
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {isError ? (
+                    <p className="text-sm text-muted-foreground">
+                        The collector pass isn&apos;t available right now. Try again shortly.
+                    </p>
+                ) : isLoading || !qrImage ? (
+                    <Skeleton className="mx-auto h-40 w-40" />
+                ) : (
+                    <div className="flex justify-center">
+                        <img
+                            src={qrImage}
+                            alt={`Collector pass QR for ${pickup.self_pickup_id}`}
+                            className="h-40 w-40 rounded-md border border-border/40 bg-white p-1"
+                        />
+                    </div>
+                )}
+
+                <div className="space-y-1 text-xs font-mono">
+                    <div className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">ID reference</span>
+                        <span className="text-right">{pickup.collector_id_reference || "—"}</span>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">Window</span>
+                        <span className="text-right">{label}</span>
+                    </div>
+                    <div className="flex justify-between gap-2">
+                        <span className="text-muted-foreground">Items</span>
+                        <span>{itemCount}</span>
+                    </div>
+                </div>
+
+                {isStale && (
+                    <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-700">
+                        <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                        <span>
+                            The collector or window changed since you downloaded the pass — download
+                            the new one.
+                        </span>
+                    </div>
+                )}
+
+                <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full font-mono gap-2"
+                    onClick={handleDownload}
+                    disabled={!qrImage || isDownloading}
+                    data-testid="collector-pass-download"
+                >
+                    {isDownloading ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                        <Download className="h-4 w-4" />
+                    )}
+                    {isDownloading ? "Generating..." : "Download Pass (PDF)"}
+                </Button>
+            </CardContent>
+        </Card>
+    );
+}
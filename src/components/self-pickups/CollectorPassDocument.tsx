@@ -0,0 +1,119 @@
+/**
+ * Collector pass PDF (@react-pdf/renderer). A6 so it reads on a phone and
+ * prints on anything; the warehouse scans the QR and checks the collector's
+ * ID against the reference printed next to it.
+ */
+
+import { Document, Image, Page, StyleSheet, Text, View } from "@react-pdf/renderer";
+
+export interface CollectorPassData {
+    selfPickupId: string;
+    collectorName: string;
+    collectorIdReference?: string | null;
+    windowLabel: string;
+    itemCount: number;
+    lineCount: number;
+    // PNG data URL of the QR for the signed pass reference.
+    qrImage: string;
+    issuedAt: string;
+}
+
+const styles = StyleSheet.create({
+    page: {
+        padding: 20,
+        fontSize: 9,
+        fontFamily: "Helvetica",
+        color: "#111111",
+    },
+    header: {
+        borderBottomWidth: 1,
+        borderBottomColor: "#111111",
+        paddingBottom: 6,
+        marginBottom: 10,
+    },
+    title: {
+        fontSize: 14,
+        fontFamily: "Helvetica-Bold",
+        letterSpacing: 1,
+    },
+    reference: {
+        fontSize: 11,
+        fontFamily: "Courier-Bold",
+        marginTop: 2,
+    },
+    qrWrap: {
+        alignItems: "center",
+        marginBottom: 10,
+    },
+    qr: {
+        width: 150,
+        height: 150,
+    },
+    row: {
+        flexDirection: "row",
+        justifyContent: "space-between",
+        paddingVertical: 4,
+        borderBottomWidth: 0.5,
+        borderBottomColor: "#cccccc",
+    },
+    label: {
+        color: "#666666",
+        textTransform: "uppercase",
+        fontSize: 7,
+        letterSpacing: 0.5,
+    },
+    value: {
+        fontFamily: "Helvetica-Bold",
+        maxWidth: "65%",
+        textAlign: "right",
+    },
+    footer: {
+        marginTop: 10,
+        fontSize: 7,
+        color: "#666666",
+    },
+});
+
+function Row({ label, value }: { label: string; value: string }) {
+    return (
+        <View style={styles.row}>
+            <Text style={styles.label}>{label}</Text>
+            <Text style={styles.value}>{value}</Text>
+        </View>
+    );
+}
+
+export function CollectorPassDocument({ pass }: { pass: CollectorPassData }) {
+    return (
+        <Document title={`Collector pass ${pass.selfPickupId}`}>
+            <Page size="A6" style={styles.page}>
+                <View style={styles.header}>
+                    <Text style={styles.title}>COLLECTOR PASS</Text>
+                    <Text style={styles.reference}>{pass.selfPickupId}</Text>
+                </View>
+
+                <View style={styles.qrWrap}>
+                    <Image src={pass.qrImage} style={styles.qr} />
+                </View>
+
+                <Row label="Collector" value={pass.collectorName || "—"} />
+                <Row
+                    label="ID reference"
+                    value={pass.collectorIdReference || "Check ID on arrival"}
+                />
+                <Row label="Pickup window" value={pass.windowLabel} />
+                <Row
+                    label="Items"
+                    value={`${pass.itemCount} item${pass.itemCount === 1 ? "" : "s"} (${
+                        pass.lineCount
+                    } line${pass.lineCount === 1 ? "" : "s"})`}
+                />
+
+                <Text style={styles.footer}>
+                    Show this pass and a photo ID at the warehouse. Issued {pass.issuedAt}. A pass
+                    issued before the collector or window last changed is no longer valid.
+                </Text>
+            </Page>
+        </Document>
+    );
+}
@@ -0,0 +1,433 @@
+"use client";
+
+/**
+ * Convert to Delivery Dialog
+ * Turns a submitted self-pickup into a delivery order. Items, quantities and
+ * maintenance decisions carry over, the collector becomes the order contact
+ * and the pickup / expected return become the event dates; the client fills
+ * in only the venue, permits and a delivery window. Feasibility is re-run
+ * against the delivery window with the delivery lead time.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, Loader2, Truck } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { PermitSection } from "@/components/permits/PermitSection";
+import { SavedVenuePicker } from "@/components/venues/SavedVenuePicker";
+import { useCountries } from "@/hooks/use-countries";
+import {
+    interpretFeasibilityPreview,
+    useFeasibility,
+    useFeasibilityConfig,
+} from "@/hooks/use-feasibility-check";
+import { useConvertSelfPickupToOrder } from "@/hooks/use-self-pickups";
+import { selfPickupToReorderSource } from "@/lib/cart/reorder";
+import { SENTINEL_NO_RETURN_DATE } from "@/lib/checkout/checkout-steps";
+import {
+    feasibilityItems,
+    fulfilmentHref,
+    type ConvertToOrderPayload,
+} from "@/lib/checkout/fulfilment-conversion";
+import { composeZonedISO } from "@/lib/feasibility/compose-datetime";
+import { venueToCheckoutFields, type CheckoutVenueFields } from "@/lib/venue-library";
+
+type DeliveryForm = CheckoutVenueFields & {
+    event_start_date: string;
+    event_end_date: string;
+    contact_name: string;
+    contact_email: string;
+    contact_phone: string;
+    delivery_time_start: string;
+    delivery_time_end: string;
+};
+
+const EMPTY_VENUE: CheckoutVenueFields = {
+    venue_name: "",
+    venue_country_id: "",
+    venue_country_name: "",
+    venue_city_id: "",
+    venue_city_name: "",
+    venue_address: "",
+    venue_access_notes: "",
+    venue_contact_name: "",
+    venue_contact_email: "",
+    venue_contact_phone: "",
+    permit_decision: null,
+    requires_permit: false,
+    permit_owner: "UNKNOWN",
+    requires_vehicle_docs: false,
+    requires_staff_ids: false,
+    permit_notes: "",
+};
+
+export function ConvertToDeliveryDialog({
+    pickupId,
+    pickup,
+    className,
+}: {
+    // Route id of the self-pickup.
+    pickupId: string;
+    // Client self-pickup detail payload.
+    pickup: any;
+    className?: string;
+}) {
+    const router = useRouter();
+    const [open, setOpen] = useState(false);
+    const { data: feasibilityConfig } = useFeasibilityConfig();
+    const { data: countriesData } = useCountries();
+    const convert = useConvertSelfPickupToOrder();
+
+    const source = useMemo(() => selfPickupToReorderSource(pickup), [pickup]);
+    const isPermanent = source.form.is_permanent_placement === true;
+    const initialForm = (): DeliveryForm => ({
+        ...EMPTY_VENUE,
+        event_start_date: String(source.form.event_start_date ?? ""),
+        event_end_date: String(source.form.event_end_date ?? ""),
+        contact_name: String(source.form.contact_name ?? ""),
+        contact_email: String(source.form.contact_email ?? ""),
+        contact_phone: String(source.form.contact_phone ?? ""),
+        delivery_time_start: "09:00",
+        delivery_time_end: "11:00",
+    });
+    const [form, setForm] = useState(initialForm);
+    const patch = (next: Partial<DeliveryForm>) => setForm((prev) => ({ ...prev, ...next }));
+
+    // Same default as checkout: the first country until a venue says otherwise.
+    useEffect(() => {
+        const first = countriesData?.data?.[0];
+        if (!open || !first || form.venue_country_id) return;
+        setForm((prev) => ({
+            ...prev,
+            venue_country_id: first.id,
+            venue_country_name: first.name,
+        }));
+    }, [open, countriesData?.data, form.venue_country_id]);
+    const cities =
+        countriesData?.data?.find((country) => country.id === form.venue_country_id)?.cities ?? [];
+
+    // Delivery happens on the event start day, as checkout's default.
+    const timezone = feasibilityConfig?.timezone;
+    const deliveryStart = useMemo(
+        () =>
+            composeZonedISO({
+                date: form.event_start_date,
+                time: form.delivery_time_start,
+                timezone,
+            }),
+        [form.event_start_date, form.delivery_time_start, timezone]
+    );
+    const items = useMemo(() => feasibilityItems(source), [source]);
+    const feasibility = useFeasibility({
+        items,
+        eventStartDatetime: deliveryStart,
+        enabled: open,
+    });
+    const verdict = interpretFeasibilityPreview(
+        feasibility.data,
+        form.event_start_date,
+        deliveryStart
+    );
+
+    const handleOpenChange = (next: boolean) => {
+        setOpen(next);
+        if (next) setForm(initialForm());
+    };
+
+    const missing = [
+        !form.venue_name.trim() && "venue name",
+        !form.venue_city_id && "city",
+        !form.venue_address.trim() && "address",
+        form.permit_decision === null && "permit answer",
+        !form.event_start_date && "event start",
+        !isPermanent && !form.event_end_date && "event end",
+        !(form.contact_name && form.contact_email && form.contact_phone) && "contact",
+    ].filter(Boolean) as string[];
+    const windowInvalid = form.delivery_time_end <= form.delivery_time_start;
+    const endBeforeStart =
+        !isPermanent && !!form.event_end_date && form.event_end_date < form.event_start_date;
+    const canSubmit =
+        missing.length === 0 &&
+        !windowInvalid &&
+        !endBeforeStart &&
+        !feasibility.isFetching &&
+        verdict.userDateFeasible !== false;
+
+    const handleSubmit = async () => {
+        if (!canSubmit) return;
+        const deliveryEnd = composeZonedISO({
+            date: form.event_start_date,
+            time: form.delivery_time_end,
+            timezone,
+        });
+        const payload: ConvertToOrderPayload = {
+            event_start_date: form.event_start_date,
+            event_end_date: isPermanent ? SENTINEL_NO_RETURN_DATE : form.event_end_date,
+            ...(deliveryStart ? { event_start_datetime: deliveryStart } : {}),
+            venue_name: form.venue_name.trim(),
+            venue_country_id: form.venue_country_id,
+            venue_city_id: form.venue_city_id,
+            venue_address: form.venue_address.trim(),
+            ...(form.venue_access_notes ? { venue_access_notes: form.venue_access_notes } : {}),
+            ...(form.venue_contact_name || form.venue_contact_email || form.venue_contact_phone
+                ? {
+                      venue_contact: {
+                          ...(form.venue_contact_name ? { name: form.venue_contact_name } : {}),
+                          ...(form.venue_contact_email ? { email: form.venue_contact_email } : {}),
+                          ...(form.venue_contact_phone ? { phone: form.venue_contact_phone } : {}),
+                      },
+                  }
+                : {}),
+            permit_requirements: {
+                requires_permit: form.requires_permit,
+                permit_owner: form.requires_permit ? form.permit_owner : "UNKNOWN",
+                requires_vehicle_docs: form.requires_vehicle_docs,
+                requires_staff_ids: form.requires_staff_ids,
+                ...(form.permit_notes ? { notes: form.permit_notes } : {}),
+            },
+            contact_name: form.contact_name,
+            contact_email: form.contact_email,
+            contact_phone: form.contact_phone,
+            ...(deliveryStart && deliveryEnd
+                ? { requested_delivery_window: { start: deliveryStart, end: deliveryEnd } }
+                : {}),
+        };
+        try {
+            const result = await convert.mutateAsync({ id: pickupId, payload });
+            setOpen(false);
+            toast.success(`${source.reference} is now a delivery order`);
+            router.push(fulfilmentHref(result));
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't switch to delivery");
+        }
+    };
+
+    const floorLabel = verdict.floorDatetime
+        ? new Intl.DateTimeFormat("en-GB", {
+              timeZone: timezone,
+              day: "numeric",
+              month: "short",
+              hour: "2-digit",
+              minute: "2-digit",
+              hour12: false,
+          }).format(new Date(verdict.floorDatetime))
+        : null;
+
+    return (
+        <>
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleOpenChange(true)}
+                className={className ?? "gap-2"}
+                data-testid="convert-to-delivery"
+            >
+                <Truck className="h-4 w-4" />
+                Switch to Delivery
+            </Button>
+
+            <Dialog open={open} onOpenChange={handleOpenChange}>
+                <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                        <DialogTitle>Switch {source.reference} to delivery</DialogTitle>
+                        <DialogDescription>
+                            Your items, quantities, maintenance choices and contact carry over. This
+                            pickup is cancelled and linked to the new order.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-5">
+                        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                            <div className="space-y-1.5">
+                                <Label htmlFor="convert-event-start">Event start *</Label>
+                                <Input
+                                    id="convert-event-start"
+                                    type="date"
+                                    value={form.event_start_date}
+                                    onChange={(e) => patch({ event_start_date: e.target.value })}
+                                    className="font-mono"
+                                />
+                            </div>
+                            {!isPermanent && (
+                                <div className="space-y-1.5">
+                                    <Label htmlFor="convert-event-end">Event end *</Label>
+                                    <Input
+                                        id="convert-event-end"
+                                        type="date"
+                                        min={form.event_start_date || undefined}
+                                        value={form.event_end_date}
+                                        onChange={(e) => patch({ event_end_date: e.target.value })}
+                                        className="font-mono"
+                                    />
+                                </div>
+                            )}
+                            <div className="space-y-1.5">
+                                <Label htmlFor="convert-delivery-from">Delivery from *</Label>
+                                <Input
+                                    id="convert-delivery-from"
+                                    type="time"
+                                    value={form.delivery_time_start}
+                                    onChange={(e) => patch({ delivery_time_start: e.target.value })}
+                                    className="font-mono"
+                                />
+                            </div>
+                            <div className="space-y-1.5">
+                                <Label htmlFor="convert-delivery-to">Delivery to *</Label>
+                                <Input
+                                    id="convert-delivery-to"
+                                    type="time"
+                                    value={form.delivery_time_end}
+                                    onChange={(e) => patch({ delivery_time_end: e.target.value })}
+                                    className="font-mono"
+                                />
+                            </div>
+                        </div>
+                        {windowInvalid && (
+                            <p className="text-xs text-destructive">
+                                The delivery window must end after it starts.
+                            </p>
+                        )}
+                        {endBeforeStart && (
+                            <p className="text-xs text-destructive">
+                                The event can&apos;t end before it starts.
+                            </p>
+                        )}
+
+                        {verdict.userDateFeasible === false && (
+                            <div className="flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                                <div className="space-y-1">
+                                    <p>
+                                        Too soon for a delivery
+                                        {floorLabel && ` — the earliest is ${floorLabel}`}.
+                                    </p>
+                                    {verdict.blockingItems.length > 0 && (
+                                        <ul className="list-disc pl-4 text-xs">
+                                            {verdict.blockingItems.map((issue) => (
+                                                <li key={issue.asset_id}>{issue.message}</li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="space-y-3">
+                            <SavedVenuePicker
+                                onSelect={(venue) => patch(venueToCheckoutFields(venue))}
+                            />
+                            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                                <div className="space-y-1.5">
+                                    <Label htmlFor="convert-venue-name">Venue name *</Label>
+                                    <Input
+                                        id="convert-venue-name"
+                                        value={form.venue_name}
+                                        onChange={(e) => patch({ venue_name: e.target.value })}
+                                    />
+                                </div>
+                                <div className="space-y-1.5">
+                                    <Label htmlFor="convert-venue-city">City *</Label>
+                                    <Select
+                                        value={form.venue_city_id}
+                                        onValueChange={(value) =>
+                                            patch({
+                                                venue_city_id: value,
+                                                venue_city_name:
+                                                    cities.find((city) => city.id === value)
+                                                        ?.name ?? "",
+                                            })
+                                        }
+                                        disabled={!form.venue_country_id}
+                                    >
+                                        <SelectTrigger id="convert-venue-city">
+                                            <SelectValue placeholder="Select city" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {cities.map((city) => (
+                                                <SelectItem key={city.id} value={city.id}>
+                                                    {city.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            </div>
+                            <div className="space-y-1.5">
+                                <Label htmlFor="convert-venue-address">Address *</Label>
+                                <Input
+                                    id="convert-venue-address"
+                                    value={form.venue_address}
+                                    onChange={(e) => patch({ venue_address: e.target.value })}
+                                />
+                            </div>
+                            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                                <div className="space-y-1.5">
+                                    <Label htmlFor="convert-venue-contact">Venue contact</Label>
+                                    <Input
+                                        id="convert-venue-contact"
+                                        value={form.venue_contact_name}
+                                        onChange={(e) =>
+                                            patch({ venue_contact_name: e.target.value })
+                                        }
+                                    />
+                                </div>
+                                <div className="space-y-1.5">
+                                    <Label htmlFor="convert-venue-phone">Venue contact phone</Label>
+                                    <Input
+                                        id="convert-venue-phone"
+                                        type="tel"
+                                        value={form.venue_contact_phone}
+                                        onChange={(e) =>
+                                            patch({ venue_contact_phone: e.target.value })
+                                        }
+                                        className="font-mono"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+
+                        <PermitSection value={form} onChange={patch} disabled={convert.isPending} />
+
+                        {missing.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                                Still needed: {missing.join(", ")}.
+                            </p>
+                        )}
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                            Keep Self-Pickup
+                        </Button>
+                        <Button
+                            onClick={handleSubmit}
+                            disabled={!canSubmit || convert.isPending}
+                            className="gap-2"
+                        >
+                            {convert.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Switch to Delivery
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </>
+    );
+}
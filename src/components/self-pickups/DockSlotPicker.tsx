@@ -0,0 +1,212 @@
+"use client";
+
+/**
+ * DockSlotPicker — warehouse dock slots for a self-pickup or a return
+ * drop-off, with the capacity left in each. Picking a slot holds it for a
+ * few minutes (see useDockSlotHold) so it can't fill up while the rest of
+ * the form is finished. Days and times are shown in the platform timezone;
+ * weekend days and slots inside the pickup lead time aren't offered.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { Clock, Loader2, Timer } from "lucide-react";
+import { toast } from "sonner";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { DockSlotHoldController } from "@/hooks/use-dock-slots";
+import { useDockSlots } from "@/hooks/use-dock-slots";
+import { useFeasibilityConfig } from "@/hooks/use-feasibility-check";
+import {
+    bookableDays,
+    groupSlotsByDay,
+    sameSlot,
+    slotFloor,
+    weekdayOf,
+    zonedDateKey,
+    zonedTime,
+    type DockSlot,
+    type DockSlotHold,
+} from "@/lib/feasibility/dock-slots";
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DEFAULT_DAYS = 14;
+
+function HoldCountdown({ expiresAt }: { expiresAt: string }) {
+    const [now, setNow] = useState(() => Date.now());
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+    const seconds = Math.max(0, Math.ceil((new Date(expiresAt).getTime() - now) / 1000));
+    return (
+        <span className="font-mono">
+            {Math.floor(seconds / 60)}:{String(seconds % 60).padStart(2, "0")}
+        </span>
+    );
+}
+
+export function DockSlotPicker({
+    controller,
+    days = DEFAULT_DAYS,
+    disabled,
+    onHeld,
+}: {
+    controller: DockSlotHoldController;
+    days?: number;
+    disabled?: boolean;
+    onHeld?: (hold: DockSlotHold) => void;
+}) {
+    const { data: config } = useFeasibilityConfig();
+    const timezone = config?.timezone;
+
+    const dayKeys = useMemo(
+        () =>
+            config
+                ? bookableDays({
+                      timezone,
+                      exclude_weekends: config.exclude_weekends,
+                      weekend_days: config.weekend_days,
+                      days,
+                  })
+                : [],
+        [config, timezone, days]
+    );
+    const { data: slots, isLoading } = useDockSlots({
+        purpose: controller.purpose,
+        from: dayKeys[0] ?? "",
+        days,
+        enabled: dayKeys.length > 0,
+    });
+
+    const grouped = useMemo(
+        () =>
+            config
+                ? groupSlotsByDay(slots ?? [], dayKeys, {
+                      timezone,
+                      floor: slotFloor(controller.purpose, config),
+                  })
+                : [],
+        [slots, dayKeys, config, timezone, controller.purpose]
+    );
+
+    const { hold } = controller;
+    const heldDay = hold ? zonedDateKey(hold.start, timezone) : null;
+    const firstOpenDay = grouped.find((day) => day.slots.some((slot) => slot.remaining > 0));
+    const [selectedDay, setSelectedDay] = useState<string | null>(null);
+    const activeDay = selectedDay ?? heldDay ?? firstOpenDay?.date ?? grouped[0]?.date ?? null;
+    const daySlots = grouped.find((day) => day.date === activeDay)?.slots ?? [];
+
+    const pick = async (slot: DockSlot) => {
+        if (hold && sameSlot(hold, slot)) return;
+        try {
+            const next = await controller.holdSlot(slot);
+            onHeld?.(next);
+        } catch (error) {
+            toast.error((error as Error).message || "That slot is no longer available");
+        }
+    };
+
+    if (!config || isLoading) {
+        return (
+            <div className="space-y-3">
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-24 w-full" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3" data-testid={`dock-slot-picker-${controller.purpose}`}>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+                {grouped.map((day) => {
+                    const open = day.slots.filter((slot) => slot.remaining > 0).length;
+                    const [, month, date] = day.date.split("-");
+                    const isActive = day.date === activeDay;
+                    return (
+                        <button
+                            key={day.date}
+                            type="button"
+                            onClick={() => setSelectedDay(day.date)}
+                            disabled={disabled}
+                            className={`shrink-0 rounded-md border px-3 py-2 text-center transition-colors ${
+                                isActive
+                                    ? "border-primary bg-primary/10"
+                                    : "border-border/60 hover:bg-muted/40"
+                            } ${open === 0 ? "opacity-50" : ""}`}
+                        >
+                            <div className="text-[10px] font-mono uppercase text-muted-foreground">
+                                {DAY_NAMES[weekdayOf(day.date)]}
+                            </div>
+                            <div className="text-sm font-semibold">
+                                {Number(date)}/{Number(month)}
+                            </div>
+                            <div className="text-[10px] text-muted-foreground">
+                                {open === 0 ? "Full" : `${open} open`}
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+
+            {daySlots.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No dock slots on this day.</p>
+            ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {daySlots.map((slot) => {
+                        const isHeld = !!hold && sameSlot(hold, slot);
+                        const isFull = slot.remaining <= 0 && !isHeld;
+                        return (
+                            <button
+                                key={slot.start}
+                                type="button"
+                                onClick={() => pick(slot)}
+                                disabled={disabled || isFull || controller.isHolding}
+                                className={`rounded-md border px-3 py-2 text-left transition-colors ${
+                                    isHeld
+                                        ? "border-primary bg-primary/10"
+                                        : isFull
+                                          ? "border-border/40 bg-muted/30 text-muted-foreground cursor-not-allowed"
+                                          : "border-border/60 hover:bg-muted/40"
+                                }`}
+                            >
+                                <div className="flex items-center gap-1.5 text-sm font-mono font-semibold">
+                                    <Clock className="h-3.5 w-3.5 shrink-0" />
+                                    {zonedTime(slot.start, timezone)}–
+                                    {zonedTime(slot.end, timezone)}
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                    {isHeld
+                                        ? "Held for you"
+                                        : isFull
+                                          ? "Full"
+                                          : `${slot.remaining} of ${slot.capacity} left`}
+                                </div>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+
+            {controller.isHolding && (
+                <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    Holding slot…
+                </p>
+            )}
+            {hold && !controller.isHolding && (
+                <p className="flex items-center gap-2 text-xs text-primary">
+                    <Timer className="h-3.5 w-3.5" />
+                    Slot held for <HoldCountdown expiresAt={hold.expires_at} /> — finish booking
+                    before it&apos;s released.
+                </p>
+            )}
+            {!hold && controller.expired && (
+                <p className="text-xs font-medium text-amber-700">
+                    Your slot hold ran out. Pick a slot again to continue.
+                </p>
+            )}
+            {timezone && (
+                <p className="text-[11px] text-muted-foreground">Times shown in {timezone}.</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,503 @@
+"use client";
+
+/**
+ * Return wizard (self-pickup). Replaces the old all-or-nothing "Start Return"
+ * confirmation: the client picks how many units of each line come back on
+ * this trip, declares any lost or damaged units (with photos), and books a
+ * drop-off dock slot. Opened again for each later trip until nothing is
+ * outstanding.
+ */
+
+import { useMemo, useState } from "react";
+import { AlertTriangle, Camera, Minus, Plus, Undo2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { DockSlotPicker } from "@/components/self-pickups/DockSlotPicker";
+import { useDockSlotHold } from "@/hooks/use-dock-slots";
+import { useFeasibilityConfig } from "@/hooks/use-feasibility-check";
+import { useCreateSelfPickupReturn } from "@/hooks/use-self-pickups";
+import { zonedDateKey, zonedTime } from "@/lib/feasibility/dock-slots";
+import {
+    emptyReturnLineDraft,
+    returnLineIssues,
+    type CreateSelfPickupReturnPayload,
+    type ItemReturnTally,
+    type ReturnLineDraft,
+} from "@/lib/self-pickup-returns";
+
+// Warehouse receiving hours — same as pickup hours.
+
+type WizardStep = "items" | "window" | "review";
+
+const STEP_TITLES: Record<WizardStep, string> = {
+    items: "What's coming back?",
+    window: "Book a drop-off window",
+    review: "Review return",
+};
+
+interface ReturnWizardItem {
+    id: string;
+    asset_name: string;
+}
+
+interface ReturnWizardDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    // Self-pickup UUID.
+    pickupId: string;
+    items: ReturnWizardItem[];
+    tallies: Map<string, ItemReturnTally>;
+}
+
+function Stepper({
+    value,
+    max,
+    onChange,
+    label,
+}: {
+    value: number;
+    max: number;
+    onChange: (value: number) => void;
+    label: string;
+}) {
+    return (
+        <div className="flex items-center gap-1" aria-label={label}>
+            <Button
+                type="button"
+                size="icon"
+                variant="outline"
+                className="h-7 w-7"
+                onClick={() => onChange(Math.max(0, value - 1))}
+                disabled={value <= 0}
+                aria-label={`Decrease ${label}`}
+            >
+                <Minus className="h-3 w-3" />
+            </Button>
+            <span className="w-8 text-center font-mono text-sm">{value}</span>
+            <Button
+                type="button"
+                size="icon"
+                variant="outline"
+                className="h-7 w-7"
+                onClick={() => onChange(Math.min(max, value + 1))}
+                disabled={value >= max}
+                aria-label={`Increase ${label}`}
+            >
+                <Plus className="h-3 w-3" />
+            </Button>
+        </div>
+    );
+}
+
+export function ReturnWizardDialog({
+    open,
+    onOpenChange,
+    pickupId,
+    items,
+    tallies,
+}: ReturnWizardDialogProps) {
+    const { data: feasibilityConfig } = useFeasibilityConfig();
+    const createReturn = useCreateSelfPickupReturn();
+    const slotHold = useDockSlotHold("RETURN", { selfPickupId: pickupId });
+
+    const [step, setStep] = useState<WizardStep>("items");
+    const [drafts, setDrafts] = useState<Record<string, ReturnLineDraft>>({});
+    const [reporting, setReporting] = useState<Record<string, boolean>>({});
+    const [notes, setNotes] = useState("");
+
+    // Only lines with something left to bring back.
+    const returnable = useMemo(
+        () => items.filter((item) => (tallies.get(item.id)?.outstanding ?? 0) > 0),
+        [items, tallies]
+    );
+    const names = useMemo(
+        () => Object.fromEntries(items.map((item) => [item.id, item.asset_name])),
+        [items]
+    );
+
+    const reset = () => {
+        setStep("items");
+        setDrafts({});
+        setReporting({});
+        slotHold.release();
+        setNotes("");
+    };
+
+    const handleOpenChange = (next: boolean) => {
+        if (!next) reset();
+        onOpenChange(next);
+    };
+
+    const draftFor = (id: string) => drafts[id] ?? emptyReturnLineDraft();
+    const patchDraft = (id: string, patch: Partial<ReturnLineDraft>) =>
+        setDrafts((prev) => {
+            const next = { ...(prev[id] ?? emptyReturnLineDraft()), ...patch };
+            // Damaged units are a subset of those coming back.
+            next.damaged = Math.min(next.damaged, next.returnNow);
+            return { ...prev, [id]: next };
+        });
+
+    const lineIssues = returnLineIssues(drafts, tallies, names);
+    const timezone = feasibilityConfig?.timezone;
+    const dropOff = slotHold.hold;
+    const dropOffLabel = dropOff
+        ? `${zonedDateKey(dropOff.start, timezone)}, ${zonedTime(dropOff.start, timezone)}–${zonedTime(dropOff.end, timezone)}`
+        : "";
+
+    const chosenLines = Object.entries(drafts).filter(
+        ([, draft]) => draft.returnNow > 0 || draft.lost > 0
+    );
+    const unitsBack = chosenLines.reduce((sum, [, draft]) => sum + draft.returnNow, 0);
+    const unitsLost = chosenLines.reduce((sum, [, draft]) => sum + draft.lost, 0);
+
+    // Declaring units lost brings nothing back, so there's no window to book.
+    const needsWindow = unitsBack > 0;
+
+    const handleSubmit = async () => {
+        if (lineIssues.length > 0 || (needsWindow && !dropOff)) return;
+
+        const payload: CreateSelfPickupReturnPayload = {
+            ...(needsWindow && dropOff
+                ? {
+                      drop_off_window: { start: dropOff.start, end: dropOff.end },
+                      slot_hold_id: dropOff.hold_id,
+                  }
+                : {}),
+            lines: chosenLines.map(([id, draft]) => ({
+                self_pickup_item_id: id,
+                quantity: draft.returnNow,
+                ...(draft.damaged > 0 ? { damaged_quantity: draft.damaged } : {}),
+                ...(draft.lost > 0 ? { lost_quantity: draft.lost } : {}),
+                ...(draft.note.trim() ? { note: draft.note.trim() } : {}),
+            })),
+            ...(notes.trim() ? { notes: notes.trim() } : {}),
+        };
+        const photos = Object.fromEntries(chosenLines.map(([id, draft]) => [id, draft.photos]));
+
+        try {
+            await createReturn.mutateAsync({ id: pickupId, payload, photos });
+            if (payload.slot_hold_id) slotHold.keep();
+            toast.success(
+                unitsBack > 0
+                    ? `Return booked — ${unitsBack} unit${unitsBack === 1 ? "" : "s"} on ${dropOffLabel}`
+                    : "Lost units declared"
+            );
+            handleOpenChange(false);
+        } catch (error: unknown) {
+            toast.error((error as Error).message || "Failed to book return");
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Undo2 className="h-5 w-5 text-primary" />
+                        {STEP_TITLES[step]}
+                    </DialogTitle>
+                </DialogHeader>
+
+                {step === "items" && (
+                    <div className="space-y-3 py-2" data-testid="return-wizard-items">
+                        <p className="text-sm text-muted-foreground">
+                            Choose how many units you&apos;re bringing back on this trip. Anything
+                            you keep for now can go on a later return.
+                        </p>
+                        {returnable.map((item) => {
+                            const tally = tallies.get(item.id)!;
+                            const draft = draftFor(item.id);
+                            const isReporting = reporting[item.id] || draft.lost > 0;
+                            return (
+                                <div
+                                    key={item.id}
+                                    className="rounded-lg border border-border/40 p-3 space-y-3"
+                                >
+                                    <div className="flex items-center justify-between gap-3">
+                                        <div className="min-w-0">
+                                            <p className="font-semibold truncate">
+                                                {item.asset_name}
+                                            </p>
+                                            <p className="text-xs text-muted-foreground font-mono">
+                                                {tally.outstanding} still with you
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-2 shrink-0">
+                                            <Stepper
+                                                label="units to return"
+                                                value={draft.returnNow}
+                                                max={tally.outstanding - draft.lost}
+                                                onChange={(returnNow) =>
+                                                    patchDraft(item.id, { returnNow })
+                                                }
+                                            />
+                                            <Button
+                                                type="button"
+                                                size="sm"
+                                                variant="ghost"
+                                                className="h-7 px-2 text-xs"
+                                                onClick={() =>
+                                                    patchDraft(item.id, {
+                                                        returnNow: tally.outstanding - draft.lost,
+                                                    })
+                                                }
+                                            >
+                                                All
+                                            </Button>
+                                        </div>
+                                    </div>
+
+                                    {!isReporting ? (
+                                        <button
+                                            type="button"
+                                            className="text-xs text-muted-foreground underline underline-offset-2 hover:text-foreground"
+                                            onClick={() =>
+                                                setReporting((prev) => ({
+                                                    ...prev,
+                                                    [item.id]: true,
+                                                }))
+                                            }
+                                        >
+                                            Report lost or damaged units
+                                        </button>
+                                    ) : (
+                                        <div className="space-y-3 rounded-md bg-muted/30 p-3">
+                                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <Label className="text-xs">
+                                                        Damaged (of those returning)
+                                                    </Label>
+                                                    <Stepper
+                                                        label="damaged units"
+                                                        value={draft.damaged}
+                                                        max={draft.returnNow}
+                                                        onChange={(damaged) =>
+                                                            patchDraft(item.id, { damaged })
+                                                        }
+                                                    />
+                                                </div>
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <Label className="text-xs">Lost</Label>
+                                                    <Stepper
+                                                        label="lost units"
+                                                        value={draft.lost}
+                                                        max={tally.outstanding - draft.returnNow}
+                                                        onChange={(lost) =>
+                                                            patchDraft(item.id, { lost })
+                                                        }
+                                                    />
+                                                </div>
+                                            </div>
+                                            <Textarea
+                                                value={draft.note}
+                                                onChange={(e) =>
+                                                    patchDraft(item.id, { note: e.target.value })
+                                                }
+                                                placeholder="What happened? (required for lost units)"
+                                                rows={2}
+                                                className="text-sm"
+                                            />
+                                            <div className="space-y-2">
+                                                <Label
+                                                    htmlFor={`return-photos-${item.id}`}
+                                                    className="inline-flex cursor-pointer items-center gap-1.5 text-xs font-medium text-primary"
+                                                >
+                                                    <Camera className="h-3.5 w-3.5" />
+                                                    Add photos
+                                                    {draft.damaged > 0 && " (required for damage)"}
+                                                </Label>
+                                                <input
+                                                    id={`return-photos-${item.id}`}
+                                                    type="file"
+                                                    accept="image/*"
+                                                    multiple
+                                                    className="hidden"
+                                                    onChange={(e) => {
+                                                        const files = Array.from(
+                                                            e.target.files ?? []
+                                                        );
+                                                        e.target.value = "";
+                                                        if (files.length === 0) return;
+                                                        patchDraft(item.id, {
+                                                            photos: [...draft.photos, ...files],
+                                                        });
+                                                    }}
+                                                />
+                                                {draft.photos.length > 0 && (
+                                                    <div className="flex flex-wrap gap-1.5">
+                                                        {draft.photos.map((file, index) => (
+                                                            <span
+                                                                key={`${file.name}-${index}`}
+                                                                className="inline-flex items-center gap-1 rounded border border-border/60 bg-background px-1.5 py-0.5 text-[11px] font-mono"
+                                                            >
+                                                                <span className="max-w-[140px] truncate">
+                                                                    {file.name}
+                                                                </span>
+                                                                <button
+                                                                    type="button"
+                                                                    aria-label={`Remove ${file.name}`}
+                                                                    onClick={() =>
+                                                                        patchDraft(item.id, {
+                                                                            photos: draft.photos.filter(
+                                                                                (_, i) =>
+                                                                                    i !== index
+                                                                            ),
+                                                                        })
+                                                                    }
+                                                                >
+                                                                    <X className="h-3 w-3" />
+                                                                </button>
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                {step === "window" && (
+                    <div className="space-y-4 py-2" data-testid="return-wizard-window">
+                        <p className="text-sm text-muted-foreground">
+                            Pick a dock slot for bringing the items back to the warehouse.
+                        </p>
+                        <DockSlotPicker controller={slotHold} />
+                        <div className="space-y-2">
+                            <Label
+                                htmlFor="return_notes"
+                                className="font-mono uppercase text-xs tracking-wide"
+                            >
+                                Notes for the warehouse
+                            </Label>
+                            <Textarea
+                                id="return_notes"
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="Who's dropping off, vehicle, anything to expect (optional)"
+                                rows={2}
+                            />
+                        </div>
+                    </div>
+                )}
+
+                {step === "review" && (
+                    <div className="space-y-3 py-2" data-testid="return-wizard-review">
+                        <div className="rounded-lg border border-border/40 divide-y divide-border/40">
+                            {chosenLines.map(([id, draft]) => (
+                                <div
+                                    key={id}
+                                    className="flex items-start justify-between gap-3 p-3 text-sm"
+                                >
+                                    <span className="font-medium">{names[id]}</span>
+                                    <span className="text-right font-mono text-xs text-muted-foreground">
+                                        {draft.returnNow > 0 && (
+                                            <span className="block text-foreground">
+                                                Returning {draft.returnNow}
+                                            </span>
+                                        )}
+                                        {draft.damaged > 0 && (
+                                            <span className="block text-amber-700">
+                                                {draft.damaged} damaged
+                                            </span>
+                                        )}
+                                        {draft.lost > 0 && (
+                                            <span className="block text-red-600">
+                                                {draft.lost} lost
+                                            </span>
+                                        )}
+                                        {draft.photos.length > 0 && (
+                                            <span className="block">
+                                                {draft.photos.length} photo
+                                                {draft.photos.length === 1 ? "" : "s"}
+                                            </span>
+                                        )}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        {needsWindow && (
+                            <p className="text-sm">
+                                <span className="text-muted-foreground">Drop-off: </span>
+                                {dropOff ? (
+                                    <span className="font-mono">{dropOffLabel}</span>
+                                ) : (
+                                    <span className="text-amber-700">
+                                        slot hold expired — go back and pick one again
+                                    </span>
+                                )}
+                            </p>
+                        )}
+                        {unitsLost > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                                Lost units are reviewed by our team and may be charged.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {step === "items" && lineIssues.length > 0 && chosenLines.length > 0 && (
+                    <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-700">
+                        <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                        <ul className="space-y-0.5">
+                            {lineIssues.map((issue) => (
+                                <li key={issue}>{issue}</li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    {step === "items" ? (
+                        <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                            Cancel
+                        </Button>
+                    ) : (
+                        <Button
+                            variant="outline"
+                            onClick={() =>
+                                setStep(step === "review" && needsWindow ? "window" : "items")
+                            }
+                            disabled={createReturn.isPending}
+                        >
+                            Back
+                        </Button>
+                    )}
+                    {step === "items" && (
+                        <Button
+                            onClick={() => setStep(needsWindow ? "window" : "review")}
+                            disabled={lineIssues.length > 0}
+                        >
+                            Next
+                        </Button>
+                    )}
+                    {step === "window" && (
+                        <Button onClick={() => setStep("review")} disabled={!dropOff}>
+                            Next
+                        </Button>
+                    )}
+                    {step === "review" && (
+                        <Button
+                            onClick={handleSubmit}
+                            disabled={createReturn.isPending || (needsWindow && !dropOff)}
+                        >
+                            {createReturn.isPending ? "Booking…" : "Book Return"}
+                        </Button>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -13,6 +13,7 @@ export interface CollectorDraft {
     collector_name: string;
     collector_phone: string;
     collector_email: string;
+    collector_id_reference: string;
 }
 
 export function CollectorEditor({
@@ -75,6 +76,25 @@ export function CollectorEditor({
                     className="font-mono"
                 />
             </div>
+            <div className="space-y-2">
+                <Label
+                    htmlFor="sp-edit-collector-id-reference"
+                    className="font-mono uppercase text-xs tracking-wide"
+                >
+                    ID Reference
+                </Label>
+                <Input
+                    id="sp-edit-collector-id-reference"
+                    value={value.collector_id_reference}
+                    onChange={(e) => onChange({ collector_id_reference: e.target.value })}
+                    placeholder="Emirates ID / passport no. (optional)"
+                    disabled={disabled}
+                    className="font-mono"
+                />
+                <p className="text-xs text-muted-foreground">
+                    Printed on the collector pass so the warehouse can check it at handover.
+                </p>
+            </div>
         </div>
     );
 }
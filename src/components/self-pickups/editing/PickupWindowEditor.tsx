@@ -1,11 +1,10 @@
 "use client";
 
 /**
- * Pickup-window editor (order-editing Phase 4, self-pickup). Captures the pickup
- * window start + end and an optional expected-return datetime. Uses native
- * <input type="datetime-local"> because the SP pickup window carries a
- * time-of-day (the detail page renders it with toLocaleString()), unlike the
- * order event-date editor which is calendar-day only.
+ * Pickup-window editor (order-editing Phase 4, self-pickup). The pickup window
+ * is rebooked by picking another dock slot; the slot is held while the rest of
+ * the edit is finished and its hold id goes out with the new window. Expected
+ * return stays a native <input type="datetime-local">.
  *
  * Editing these re-derives the asset booking window server-side; insufficient
  * availability returns 409 with a descriptive message which the panel surfaces
@@ -16,28 +15,36 @@
  * is clearable — an empty draft sends `null`.
  */
 
+import { format } from "date-fns";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
+import { DockSlotPicker } from "@/components/self-pickups/DockSlotPicker";
+import type { DockSlotHoldController } from "@/hooks/use-dock-slots";
 
 export interface PickupWindowDraft {
     pickup_start: string; // "YYYY-MM-DDTHH:mm" or ""
     pickup_end: string; // "YYYY-MM-DDTHH:mm" or ""
     expected_return_at: string; // "YYYY-MM-DDTHH:mm" or "" (cleared)
+    // Hold on the newly picked dock slot; "" while the original window stands.
+    slot_hold_id: string;
 }
 
+const toLocalInput = (iso: string) => format(new Date(iso), "yyyy-MM-dd'T'HH:mm");
+const windowStartLabel = (v: string) => format(new Date(v), "d MMM yyyy, HH:mm");
+
 export function PickupWindowEditor({
     value,
     onChange,
+    slotHold,
     disabled,
 }: {
     value: PickupWindowDraft;
     onChange: (patch: Partial<PickupWindowDraft>) => void;
+    slotHold: DockSlotHoldController;
     disabled?: boolean;
 }) {
-    // Client-side guard only: end must not precede start. Server is authoritative.
-    const endBeforeStart =
-        !!value.pickup_start && !!value.pickup_end && value.pickup_end < value.pickup_start;
+    // Client-side guard only. Server is authoritative.
     const returnBeforeStart =
         !!value.expected_return_at &&
         !!value.pickup_start &&
@@ -49,51 +56,29 @@ export function PickupWindowEditor({
                 Changing your pickup window re-checks asset availability for the new dates. If stock
                 isn&apos;t available we&apos;ll let you know when you save.
             </p>
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-                <div className="space-y-2">
-                    <Label
-                        htmlFor="sp-edit-pickup-start"
-                        className="font-mono uppercase text-xs tracking-wide"
-                    >
-                        Pickup Start
-                    </Label>
-                    <Input
-                        id="sp-edit-pickup-start"
-                        type="datetime-local"
-                        data-testid="sp-edit-pickup-start"
-                        value={value.pickup_start}
-                        onChange={(e) => onChange({ pickup_start: e.target.value })}
-                        disabled={disabled}
-                        className="h-12 font-mono"
-                    />
-                </div>
-
-                <div className="space-y-2">
-                    <Label
-                        htmlFor="sp-edit-pickup-end"
-                        className="font-mono uppercase text-xs tracking-wide"
-                    >
-                        Pickup End
-                    </Label>
-                    <Input
-                        id="sp-edit-pickup-end"
-                        type="datetime-local"
-                        data-testid="sp-edit-pickup-end"
-                        value={value.pickup_end}
-                        onChange={(e) => onChange({ pickup_end: e.target.value })}
-                        disabled={disabled}
-                        min={value.pickup_start || undefined}
-                        className="h-12 font-mono"
-                    />
-                </div>
-            </div>
-
-            {endBeforeStart && (
-                <p className="text-xs font-medium text-destructive">
-                    The pickup end can&apos;t be before the start.
+            {value.pickup_start && value.pickup_end && (
+                <p className="text-sm" data-testid="sp-edit-pickup-window">
+                    <span className="font-mono uppercase text-xs tracking-wide text-muted-foreground">
+                        {value.slot_hold_id ? "New slot" : "Current window"}
+                    </span>{" "}
+                    <span className="font-mono">
+                        {windowStartLabel(value.pickup_start)} – {value.pickup_end.slice(11)}
+                    </span>
                 </p>
             )}
 
+            <DockSlotPicker
+                controller={slotHold}
+                disabled={disabled}
+                onHeld={(hold) =>
+                    onChange({
+                        pickup_start: toLocalInput(hold.start),
+                        pickup_end: toLocalInput(hold.end),
+                        slot_hold_id: hold.hold_id,
+                    })
+                }
+            />
+
             <div className="space-y-2">
                 <div className="flex items-center justify-between gap-2">
                     <Label
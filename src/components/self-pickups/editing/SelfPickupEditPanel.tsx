@@ -24,6 +24,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { useUpdateSelfPickupDetails, type SelfPickupEditPayload } from "@/hooks/use-self-pickups";
+import { useDockSlotHold } from "@/hooks/use-dock-slots";
 import { CollectorEditor, type CollectorDraft } from "./CollectorEditor";
 import {
     SelfPickupDescriptiveEditor,
@@ -65,6 +66,7 @@ interface SelfPickupForEdit {
     collector_name?: string | null;
     collector_phone?: string | null;
     collector_email?: string | null;
+    collector_id_reference?: string | null;
     notes?: string | null;
     special_instructions?: string | null;
     is_permanent_placement?: boolean | null;
@@ -134,6 +136,7 @@ function buildDraft(pickup: SelfPickupForEdit): Draft {
             collector_name: s(pickup.collector_name),
             collector_phone: s(pickup.collector_phone),
             collector_email: s(pickup.collector_email),
+            collector_id_reference: s(pickup.collector_id_reference),
         },
         descriptive: {
             notes: s(pickup.notes),
@@ -145,6 +148,7 @@ function buildDraft(pickup: SelfPickupForEdit): Draft {
             pickup_start: toDateTimeLocal(pickup.pickup_window?.start),
             pickup_end: toDateTimeLocal(pickup.pickup_window?.end),
             expected_return_at: toDateTimeLocal(pickup.expected_return_at),
+            slot_hold_id: "",
         },
         itemQuantities: buildItemQuantities(pickup),
         removedItemIds: [],
@@ -162,13 +166,19 @@ const nullable = (v: string) => (v.trim() === "" ? null : v.trim());
 function diffPayload(original: Draft, next: Draft): SelfPickupEditPayload {
     const body: SelfPickupEditPayload = {};
 
-    // Collector (name + phone required server-side — send trimmed value; email nullable)
+    // Collector (name + phone required server-side — send trimmed value; email and
+    // ID reference nullable)
     if (next.collector.collector_name.trim() !== original.collector.collector_name.trim())
         body.collector_name = next.collector.collector_name.trim();
     if (next.collector.collector_phone.trim() !== original.collector.collector_phone.trim())
         body.collector_phone = next.collector.collector_phone.trim();
     if (next.collector.collector_email.trim() !== original.collector.collector_email.trim())
         body.collector_email = nullable(next.collector.collector_email);
+    if (
+        next.collector.collector_id_reference.trim() !==
+        original.collector.collector_id_reference.trim()
+    )
+        body.collector_id_reference = nullable(next.collector.collector_id_reference);
 
     // Descriptive
     const d = next.descriptive;
@@ -180,17 +190,18 @@ function diffPayload(original: Draft, next: Draft): SelfPickupEditPayload {
         body.is_permanent_placement = d.is_permanent_placement;
     if (d.po_number.trim() !== o.po_number.trim()) body.po_number = nullable(d.po_number);
 
-    // Pickup window: send the whole object if either bound changed. Compared as
-    // the local-input string; sent as ISO so the server re-derives the booking
-    // window. Only send when both bounds are present (the input requires both).
+    // Pickup window: send the whole object if either bound changed, along with
+    // the hold on the dock slot it was picked from. Compared as the local-input
+    // string; sent as ISO so the server re-derives the booking window.
     const w = next.pickupWindow;
     const ow = original.pickupWindow;
     const windowChanged = w.pickup_start !== ow.pickup_start || w.pickup_end !== ow.pickup_end;
-    if (windowChanged && w.pickup_start && w.pickup_end) {
+    if (windowChanged && w.pickup_start && w.pickup_end && w.slot_hold_id) {
         body.pickup_window = {
             start: fromDateTimeLocal(w.pickup_start),
             end: fromDateTimeLocal(w.pickup_end),
         };
+        body.slot_hold_id = w.slot_hold_id;
     }
 
     // Expected return: clearable. Empty draft → null (clear it server-side).
@@ -243,6 +254,26 @@ export function SelfPickupEditPanel({ pickup }: { pickup: SelfPickupForEdit }) {
     const itemRows = useMemo(() => buildItemRows(pickup), [pickup]);
     const [draft, setDraft] = useState<Draft>(baseline);
 
+    // A lapsed or released hold can't be saved against; fall back to the
+    // current window rather than keep a slot the pickup no longer holds.
+    const slotHold = useDockSlotHold("PICKUP", {
+        selfPickupId: pickup.id,
+        onLost: (lost) =>
+            setDraft((prev) =>
+                prev.pickupWindow.slot_hold_id === lost.hold_id
+                    ? {
+                          ...prev,
+                          pickupWindow: {
+                              ...prev.pickupWindow,
+                              pickup_start: baseline.pickupWindow.pickup_start,
+                              pickup_end: baseline.pickupWindow.pickup_end,
+                              slot_hold_id: "",
+                          },
+                      }
+                    : prev
+            ),
+    });
+
     const openEdit = () => {
         setDraft(buildDraft(pickup));
         setBandError(null);
@@ -250,6 +281,7 @@ export function SelfPickupEditPanel({ pickup }: { pickup: SelfPickupForEdit }) {
     };
 
     const cancelEdit = () => {
+        slotHold.release();
         setIsEditing(false);
         setBandError(null);
         setDraft(buildDraft(pickup));
@@ -267,6 +299,7 @@ export function SelfPickupEditPanel({ pickup }: { pickup: SelfPickupForEdit }) {
         setBandError(null);
         try {
             const result = await updatePickup.mutateAsync(payload);
+            if (payload.slot_hold_id) slotHold.keep();
             const count = result?.changed_fields?.length ?? Object.keys(payload).length;
             if (result?.status_reverted) {
                 toast.success(
@@ -395,6 +428,7 @@ export function SelfPickupEditPanel({ pickup }: { pickup: SelfPickupForEdit }) {
                         </h4>
                         <PickupWindowEditor
                             value={draft.pickupWindow}
+                            slotHold={slotHold}
                             onChange={(patch) =>
                                 setDraft((prev) => ({
                                     ...prev,
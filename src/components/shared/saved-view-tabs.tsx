@@ -0,0 +1,313 @@
+"use client";
+
+/**
+ * Saved view tabs for a list page. "All" clears the filters, pinned views are
+ * tabs, every view is in the Views menu. The current URL filters can be saved
+ * as a new view; the matching view can be pinned, made the default or
+ * deleted. The default view is applied once when the page opens without
+ * filters in the URL.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Bookmark, Check, ChevronDown, Loader2, MoreHorizontal, Pin, Star } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    useCreateSavedView,
+    useDeleteSavedView,
+    useSavedViews,
+    useUpdateSavedView,
+} from "@/hooks/use-list-views";
+import {
+    matchingView,
+    viewFilters,
+    type ListFilters,
+    type ListViewScope,
+    type SavedListView,
+} from "@/lib/list-views";
+import { cn } from "@/lib/utils";
+
+export function SavedViewTabs({
+    scope,
+    filters,
+    onApply,
+    className,
+}: {
+    scope: ListViewScope;
+    // Current filters, as read from the URL.
+    filters: ListFilters;
+    // Replace the current filters with a view's.
+    onApply: (filters: ListFilters) => void;
+    className?: string;
+}) {
+    const { data: views = [], isSuccess } = useSavedViews(scope);
+    const createView = useCreateSavedView();
+    const updateView = useUpdateSavedView();
+    const deleteView = useDeleteSavedView();
+
+    const [saveOpen, setSaveOpen] = useState(false);
+    const [draft, setDraft] = useState({ name: "", pinned: true, is_default: false });
+    const [deleting, setDeleting] = useState<SavedListView | null>(null);
+
+    const hasFilters = Object.keys(viewFilters(filters)).length > 0;
+    const active = matchingView(views, filters);
+    const pinned = views.filter((view) => view.pinned);
+
+    // Only on first load: once the user has picked "All" the default stays out.
+    const defaultChecked = useRef(false);
+    useEffect(() => {
+        if (defaultChecked.current || !isSuccess) return;
+        defaultChecked.current = true;
+        const fallback = views.find((view) => view.is_default);
+        if (fallback && !hasFilters) onApply(fallback.filters);
+    }, [isSuccess, views, hasFilters, onApply]);
+
+    const openSave = () => {
+        setDraft({ name: "", pinned: true, is_default: false });
+        setSaveOpen(true);
+    };
+
+    const handleSave = async () => {
+        const name = draft.name.trim();
+        if (!name) return;
+        try {
+            await createView.mutateAsync({
+                scope,
+                name,
+                filters: viewFilters(filters),
+                pinned: draft.pinned,
+                is_default: draft.is_default,
+            });
+            setSaveOpen(false);
+            toast.success(`Saved view "${name}"`);
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't save view");
+        }
+    };
+
+    const handleUpdate = async (
+        view: SavedListView,
+        changes: Partial<Pick<SavedListView, "pinned" | "is_default">>
+    ) => {
+        try {
+            await updateView.mutateAsync({ view, changes });
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't update view");
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!deleting) return;
+        try {
+            await deleteView.mutateAsync(deleting);
+            toast.success(`Deleted view "${deleting.name}"`);
+        } catch (error) {
+            toast.error((error as Error).message || "Couldn't delete view");
+        } finally {
+            setDeleting(null);
+        }
+    };
+
+    return (
+        <div
+            className={cn("flex flex-wrap items-center gap-2", className)}
+            data-testid="saved-view-tabs"
+        >
+            <Button
+                variant={hasFilters ? "ghost" : "secondary"}
+                size="sm"
+                onClick={() => onApply({})}
+            >
+                All
+            </Button>
+            {pinned.map((view) => (
+                <Button
+                    key={view.id}
+                    variant={active?.id === view.id ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => onApply(view.filters)}
+                    className="gap-1.5"
+                >
+                    {view.name}
+                    {view.is_default && <Star className="h-3 w-3 fill-current" />}
+                </Button>
+            ))}
+
+            {views.length > 0 && (
+                <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="sm" className="gap-1 text-muted-foreground">
+                            Views
+                            <ChevronDown className="h-3.5 w-3.5" />
+                        </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="start" className="w-56">
+                        {views.map((view) => (
+                            <DropdownMenuItem
+                                key={view.id}
+                                onClick={() => onApply(view.filters)}
+                                className="gap-2"
+                            >
+                                <Check
+                                    className={cn(
+                                        "h-4 w-4",
+                                        active?.id === view.id ? "opacity-100" : "opacity-0"
+                                    )}
+                                />
+                                <span className="flex-1 truncate">{view.name}</span>
+                                {view.is_default && (
+                                    <Star className="h-3 w-3 fill-current text-muted-foreground" />
+                                )}
+                                {view.pinned && <Pin className="h-3 w-3 text-muted-foreground" />}
+                            </DropdownMenuItem>
+                        ))}
+                    </DropdownMenuContent>
+                </DropdownMenu>
+            )}
+
+            <div className="ml-auto flex items-center gap-1">
+                {hasFilters && !active && (
+                    <Button variant="outline" size="sm" onClick={openSave} className="gap-1.5">
+                        <Bookmark className="h-3.5 w-3.5" />
+                        Save view
+                    </Button>
+                )}
+                {active && (
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                disabled={updateView.isPending}
+                                aria-label={`Manage view ${active.name}`}
+                            >
+                                {updateView.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <MoreHorizontal className="h-4 w-4" />
+                                )}
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                            <DropdownMenuItem
+                                onClick={() => handleUpdate(active, { pinned: !active.pinned })}
+                            >
+                                {active.pinned ? "Unpin tab" : "Pin as tab"}
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                                onClick={() =>
+                                    handleUpdate(active, { is_default: !active.is_default })
+                                }
+                            >
+                                {active.is_default ? "Remove as default" : "Make default"}
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                                onClick={() => setDeleting(active)}
+                                className="text-destructive focus:text-destructive"
+                            >
+                                Delete view
+                            </DropdownMenuItem>
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                )}
+            </div>
+
+            <Dialog open={saveOpen} onOpenChange={setSaveOpen}>
+                <DialogContent className="sm:max-w-md">
+                    <DialogHeader>
+                        <DialogTitle>Save view</DialogTitle>
+                        <DialogDescription>
+                            Keeps the current filters under a name only you can see.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-1.5">
+                            <Label htmlFor="saved-view-name">Name *</Label>
+                            <Input
+                                id="saved-view-name"
+                                value={draft.name}
+                                onChange={(e) =>
+                                    setDraft((prev) => ({ ...prev, name: e.target.value }))
+                                }
+                                onKeyDown={(e) => {
+                                    if (e.key === "Enter") handleSave();
+                                }}
+                                placeholder="e.g. On site this week"
+                                maxLength={60}
+                                autoFocus
+                            />
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="saved-view-pinned"
+                                checked={draft.pinned}
+                                onCheckedChange={(checked) =>
+                                    setDraft((prev) => ({ ...prev, pinned: checked === true }))
+                                }
+                            />
+                            <Label htmlFor="saved-view-pinned" className="font-normal">
+                                Pin as a tab
+                            </Label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <Checkbox
+                                id="saved-view-default"
+                                checked={draft.is_default}
+                                onCheckedChange={(checked) =>
+                                    setDraft((prev) => ({ ...prev, is_default: checked === true }))
+                                }
+                            />
+                            <Label htmlFor="saved-view-default" className="font-normal">
+                                Open this view by default
+                            </Label>
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setSaveOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleSave}
+                            disabled={!draft.name.trim() || createView.isPending}
+                            className="gap-2"
+                        >
+                            {createView.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Save
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <ConfirmDialog
+                open={!!deleting}
+                onOpenChange={(open) => !open && setDeleting(null)}
+                onConfirm={handleDelete}
+                title="Delete view?"
+                description={`"${deleting?.name ?? ""}" will be removed from your saved views.`}
+                confirmText="Delete"
+                variant="destructive"
+            />
+        </div>
+    );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+/**
+ * SaveOrderVenueButton — one-click "save this order's venue to the library".
+ * Shows "Saved" instead when an active library entry already matches the
+ * order's venue name, city and address.
+ */
+
+import { BookmarkCheck, BookmarkPlus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import type { ClientOrderDetail } from "@/hooks/use-client-orders";
+import { useCreateVenue, useVenues } from "@/hooks/use-venues";
+import { findMatchingVenue, orderToVenueInput } from "@/lib/venue-library";
+
+export function SaveOrderVenueButton({ order }: { order: ClientOrderDetail }) {
+    const { data: venues, isLoading, isError } = useVenues();
+    const createVenue = useCreateVenue();
+
+    const input = orderToVenueInput(order);
+    if (isError || !input.name || !input.city_id || !input.address) return null;
+
+    const saved = venues ? findMatchingVenue(venues, input) : null;
+
+    if (saved) {
+        return (
+            <span className="flex items-center gap-1 text-xs font-mono text-muted-foreground">
+                <BookmarkCheck className="h-3.5 w-3.5" />
+                Saved venue
+            </span>
+        );
+    }
+
+    const handleSave = async () => {
+        try {
+            await createVenue.mutateAsync(input);
+            toast.success(`${input.name} saved to your venues`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save venue");
+        }
+    };
+
+    return (
+        <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs font-mono"
+            onClick={handleSave}
+            disabled={isLoading || createVenue.isPending}
+            data-testid="save-order-venue"
+        >
+            <BookmarkPlus className="h-3.5 w-3.5" />
+            {createVenue.isPending ? "Saving..." : "Save venue"}
+        </Button>
+    );
+}
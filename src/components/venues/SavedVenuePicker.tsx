@@ -0,0 +1,102 @@
+"use client";
+
+/**
+ * SavedVenuePicker — "Use a saved venue" combobox over the company venue
+ * library. Emits the picked venue; the caller maps it onto its own form
+ * (see lib/venue-library). Renders nothing if the library can't be loaded.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { BookMarked, ChevronsUpDown, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+    Command,
+    CommandEmpty,
+    CommandGroup,
+    CommandInput,
+    CommandItem,
+    CommandList,
+    CommandSeparator,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useVenues } from "@/hooks/use-venues";
+import { cn } from "@/lib/utils";
+import type { SavedVenue } from "@/types/venue";
+
+interface SavedVenuePickerProps {
+    onSelect: (venue: SavedVenue) => void;
+    disabled?: boolean;
+    className?: string;
+}
+
+export function SavedVenuePicker({ onSelect, disabled, className }: SavedVenuePickerProps) {
+    const router = useRouter();
+    const { data: venues, isLoading, isError } = useVenues();
+    const [open, setOpen] = useState(false);
+
+    if (isError) return null;
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    type="button"
+                    variant="outline"
+                    role="combobox"
+                    aria-expanded={open}
+                    disabled={disabled || isLoading}
+                    className={cn("justify-between gap-2 font-mono", className)}
+                    data-testid="saved-venue-picker"
+                >
+                    <span className="flex items-center gap-2">
+                        <BookMarked className="h-4 w-4" />
+                        Use a saved venue
+                    </span>
+                    <ChevronsUpDown className="h-4 w-4 opacity-50" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80 p-0" align="start">
+                <Command>
+                    <CommandInput placeholder="Search venues..." />
+                    <CommandList>
+                        <CommandEmpty>
+                            {venues?.length ? "No matching venue." : "No saved venues yet."}
+                        </CommandEmpty>
+                        <CommandGroup>
+                            {(venues ?? []).map((venue) => (
+                                <CommandItem
+                                    key={venue.id}
+                                    value={`${venue.name} ${venue.city_name ?? ""} ${venue.address}`}
+                                    onSelect={() => {
+                                        onSelect(venue);
+                                        setOpen(false);
+                                    }}
+                                    className="flex flex-col items-start gap-0.5"
+                                >
+                                    <span className="font-medium">{venue.name}</span>
+                                    <span className="text-xs text-muted-foreground line-clamp-1">
+                                        {[venue.city_name, venue.address]
+                                            .filter(Boolean)
+                                            .join(" · ")}
+                                    </span>
+                                </CommandItem>
+                            ))}
+                        </CommandGroup>
+                        <CommandSeparator />
+                        <CommandGroup>
+                            <CommandItem
+                                value="manage-venues"
+                                onSelect={() => router.push("/venues")}
+                                className="gap-2 text-sm"
+                            >
+                                <Settings2 className="h-4 w-4" />
+                                Manage venues
+                            </CommandItem>
+                        </CommandGroup>
+                    </CommandList>
+                </Command>
+            </PopoverContent>
+        </Popover>
+    );
+}
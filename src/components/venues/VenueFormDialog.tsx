@@ -0,0 +1,313 @@
+"use client";
+
+/**
+ * VenueFormDialog — create or edit a saved venue. Uses the same venue, contact
+ * and permit inputs as checkout so a saved venue fills those forms one-to-one.
+ * Leaving the permit question unanswered saves the venue without permit
+ * defaults (pickers then leave the permit answers alone).
+ */
+
+import { useEffect, useState } from "react";
+import { MapPin } from "lucide-react";
+import { toast } from "sonner";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { PermitSection, type PermitSectionValue } from "@/components/permits/PermitSection";
+import { useCountries } from "@/hooks/use-countries";
+import { useCreateVenue, useUpdateVenue } from "@/hooks/use-venues";
+import { usePlatform } from "@/contexts/platform-context";
+import type { SavedVenue, SavedVenueInput } from "@/types/venue";
+
+interface VenueFormState extends PermitSectionValue {
+    name: string;
+    country_id: string;
+    city_id: string;
+    address: string;
+    venue_contact_name: string;
+    venue_contact_email: string;
+    venue_contact_phone: string;
+}
+
+function toFormState(venue: SavedVenue | null | undefined): VenueFormState {
+    const permit = venue?.permit_defaults ?? null;
+    return {
+        name: venue?.name ?? "",
+        country_id: venue?.country_id ?? "",
+        city_id: venue?.city_id ?? "",
+        address: venue?.address ?? "",
+        venue_contact_name: venue?.venue_contact_name ?? "",
+        venue_contact_email: venue?.venue_contact_email ?? "",
+        venue_contact_phone: venue?.venue_contact_phone ?? "",
+        permit_decision: permit ? (permit.requires_permit ? "yes" : "no") : null,
+        requires_permit: !!permit?.requires_permit,
+        permit_owner: permit?.permit_owner ?? "UNKNOWN",
+        requires_vehicle_docs: !!permit?.requires_vehicle_docs,
+        requires_staff_ids: !!permit?.requires_staff_ids,
+        permit_notes: permit?.notes ?? "",
+        venue_access_notes: venue?.access_notes ?? "",
+    };
+}
+
+function toVenueInput(form: VenueFormState): SavedVenueInput {
+    return {
+        name: form.name.trim(),
+        country_id: form.country_id || null,
+        city_id: form.city_id,
+        address: form.address.trim(),
+        access_notes: form.venue_access_notes.trim() || null,
+        venue_contact_name: form.venue_contact_name.trim() || null,
+        venue_contact_email: form.venue_contact_email.trim() || null,
+        venue_contact_phone: form.venue_contact_phone.trim() || null,
+        permit_defaults:
+            form.permit_decision === null
+                ? null
+                : {
+                      requires_permit: form.requires_permit,
+                      permit_owner: form.requires_permit ? form.permit_owner : "UNKNOWN",
+                      requires_vehicle_docs: form.requires_vehicle_docs,
+                      requires_staff_ids: form.requires_staff_ids,
+                      notes: form.permit_notes.trim() || null,
+                  },
+    };
+}
+
+interface VenueFormDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Venue to edit; omit to create a new one. */
+    venue?: SavedVenue | null;
+}
+
+export function VenueFormDialog({ open, onOpenChange, venue }: VenueFormDialogProps) {
+    const { platform } = usePlatform();
+    const { data: countriesData } = useCountries();
+    const createVenue = useCreateVenue();
+    const updateVenue = useUpdateVenue();
+    const [form, setForm] = useState<VenueFormState>(() => toFormState(venue));
+
+    // Reset from the venue every time the dialog opens.
+    useEffect(() => {
+        if (open) setForm(toFormState(venue));
+    }, [open, venue]);
+
+    // Venues saved from an order carry no country — take the one that holds
+    // the city, else checkout's default (the first country).
+    useEffect(() => {
+        if (!open || form.country_id || !countriesData?.data?.length) return;
+        const owner = countriesData.data.find((country) =>
+            country.cities?.some((city) => city.id === form.city_id)
+        );
+        setForm((prev) => ({ ...prev, country_id: (owner ?? countriesData.data[0]).id }));
+    }, [open, form.country_id, form.city_id, countriesData?.data]);
+
+    const countries = countriesData?.data ?? [];
+    const cities = countries.find((country) => country.id === form.country_id)?.cities ?? [];
+    const isSaving = createVenue.isPending || updateVenue.isPending;
+    const canSave = !!form.name.trim() && !!form.city_id && !!form.address.trim();
+
+    const patch = (next: Partial<VenueFormState>) => setForm((prev) => ({ ...prev, ...next }));
+
+    const handleSubmit = async () => {
+        if (!canSave) return;
+        try {
+            if (venue) {
+                await updateVenue.mutateAsync({ id: venue.id, data: toVenueInput(form) });
+                toast.success("Venue updated");
+            } else {
+                await createVenue.mutateAsync(toVenueInput(form));
+                toast.success("Venue saved");
+            }
+            onOpenChange(false);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to save venue");
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <div className="mb-2 flex items-center gap-2 text-xs uppercase tracking-widest text-muted-foreground font-mono">
+                        <MapPin className="h-4 w-4" />
+                        <span>Venue Library</span>
+                    </div>
+                    <DialogTitle className="text-2xl">
+                        {venue ? "Edit Venue" : "New Venue"}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Saved venues can be picked in checkout and when editing an order.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-6 py-2">
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="savedVenueName"
+                            className="font-mono uppercase text-xs tracking-wide"
+                        >
+                            Venue Name *
+                        </Label>
+                        <Input
+                            id="savedVenueName"
+                            value={form.name}
+                            onChange={(e) => patch({ name: e.target.value })}
+                            placeholder="e.g., Dubai Festival City"
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label className="font-mono uppercase text-xs tracking-wide">
+                                Country
+                            </Label>
+                            <Select
+                                value={form.country_id}
+                                onValueChange={(value) => patch({ country_id: value, city_id: "" })}
+                            >
+                                <SelectTrigger className="font-mono">
+                                    <SelectValue placeholder="Select country" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {countries.map((country) => (
+                                        <SelectItem
+                                            key={country.id}
+                                            value={country.id}
+                                            className="font-mono"
+                                        >
+                                            {country.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label className="font-mono uppercase text-xs tracking-wide">
+                                City *
+                            </Label>
+                            <Select
+                                value={form.city_id}
+                                onValueChange={(value) => patch({ city_id: value })}
+                                disabled={!form.country_id}
+                            >
+                                <SelectTrigger className="font-mono">
+                                    <SelectValue placeholder="Select city" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {cities.map((city) => (
+                                        <SelectItem
+                                            key={city.id}
+                                            value={city.id}
+                                            className="font-mono"
+                                        >
+                                            {city.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2">
+                        <Label
+                            htmlFor="savedVenueAddress"
+                            className="font-mono uppercase text-xs tracking-wide"
+                        >
+                            Full Address *
+                        </Label>
+                        <Textarea
+                            id="savedVenueAddress"
+                            value={form.address}
+                            onChange={(e) => patch({ address: e.target.value })}
+                            placeholder="Complete venue address"
+                            rows={3}
+                            className="font-mono text-sm"
+                        />
+                    </div>
+
+                    <div className="rounded-lg border border-border/60 bg-card/80 p-4 space-y-4">
+                        <Label className="font-mono uppercase text-xs tracking-wide">
+                            Venue Contact
+                        </Label>
+                        <div className="grid gap-4 md:grid-cols-3">
+                            <div className="space-y-1">
+                                <Label htmlFor="savedVenueContactName" className="text-xs">
+                                    Name
+                                </Label>
+                                <Input
+                                    id="savedVenueContactName"
+                                    value={form.venue_contact_name}
+                                    onChange={(e) => patch({ venue_contact_name: e.target.value })}
+                                    placeholder="Contact name"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="savedVenueContactEmail" className="text-xs">
+                                    Email
+                                </Label>
+                                <Input
+                                    id="savedVenueContactEmail"
+                                    type="email"
+                                    value={form.venue_contact_email}
+                                    onChange={(e) => patch({ venue_contact_email: e.target.value })}
+                                    placeholder="contact@venue.com"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor="savedVenueContactPhone" className="text-xs">
+                                    Phone
+                                </Label>
+                                <Input
+                                    id="savedVenueContactPhone"
+                                    value={form.venue_contact_phone}
+                                    onChange={(e) => patch({ venue_contact_phone: e.target.value })}
+                                    placeholder="+971..."
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    <PermitSection
+                        value={form}
+                        onChange={patch}
+                        companyName={platform?.company_name ?? null}
+                    />
+                </div>
+
+                <DialogFooter>
+                    <Button
+                        variant="outline"
+                        onClick={() => onOpenChange(false)}
+                        disabled={isSaving}
+                        className="font-mono"
+                    >
+                        Cancel
+                    </Button>
+                    <Button
+                        onClick={handleSubmit}
+                        disabled={isSaving || !canSave}
+                        className="font-mono"
+                    >
+                        {isSaving ? "Saving..." : venue ? "Save Changes" : "Save Venue"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
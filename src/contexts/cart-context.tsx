@@ -1,8 +1,11 @@
 "use client";
+/* global globalThis */
 
 /**
- * Cart Context Provider (LocalStorage-Only)
- * Pure frontend cart management without backend draft orders
+ * Cart Context Provider
+ * localStorage is the working copy (instant, offline-safe, cross-tab synced);
+ * each cart is also persisted server-side as a named saved cart so it follows
+ * the user across devices and can be shared with teammates.
  */
 
 import {
@@ -15,12 +18,48 @@ import {
     useRef,
     ReactNode,
 } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import {
     saveCart,
     loadCart,
+    loadCartMeta,
+    loadActiveCartId,
+    saveActiveCartId,
     clearCart as clearLocalCart,
+    loadQuarantinedItems,
+    migrateCartItems,
+    quarantineItems,
+    saveQuarantinedItems,
+    loadRecentlyRemoved,
+    saveRecentlyRemoved,
+    CART_KEY,
+    CART_VERSION,
+    QUARANTINE_KEY,
     type LocalCartItem,
+    type QuarantinedCartItem,
 } from "@/lib/cart/localStorage";
+import {
+    createSavedCart,
+    deleteSavedCart,
+    duplicateSavedCart,
+    fetchSavedCart,
+    fetchSavedCarts,
+    updateSavedCart,
+    type SavedCart,
+    type SavedCartSummary,
+} from "@/lib/api/cart-api";
+import { getAccessToken, tokenUserId } from "@/lib/api/api-client";
+import {
+    mergeAreas,
+    moveItemToArea as moveItemToAreaIn,
+    normalizeAreaName,
+    parseAreaList,
+    renameArea as renameAreaIn,
+    renameAreaInList,
+} from "@/lib/cart/event-areas";
+import { savedCartKeys, useSavedCarts } from "@/hooks/use-saved-carts";
+import { useAuth } from "@/contexts/user-context";
+import { usePathname } from "next/navigation";
 import { toast } from "sonner";
 
 interface RebrandData {
@@ -32,6 +71,36 @@ interface RebrandData {
 
 type MaintenanceDecision = "FIX_IN_ORDER" | "USE_AS_IS";
 
+interface AddItemOptions {
+    // Skip the per-item toast and don't pop the drawer open (bulk adds
+    // report once for the whole batch).
+    silent?: boolean;
+}
+
+interface ClearCartOptions {
+    // The cart was just turned into an order — nothing to undo.
+    afterSubmit?: boolean;
+}
+
+interface HistoryEntry {
+    label: string;
+    items: LocalCartItem[];
+    areas: string[];
+    // Consecutive edits with the same key (e.g. stepping one line's quantity)
+    // collapse into one undo step.
+    coalesceKey?: string;
+    at: number;
+}
+
+const MAX_HISTORY = 50;
+const COALESCE_WINDOW_MS = 1500;
+const RECENTLY_REMOVED_LIMIT = 10;
+
+const DEFAULT_CART_NAME = "My cart";
+// Debounce for pushing local edits to the server copy — quantity steppers
+// fire once per click and we don't want a PATCH per click.
+const SERVER_PUSH_DELAY_MS = 800;
+
 interface CartContextType {
     items: LocalCartItem[];
     itemCount: number;
@@ -40,44 +109,111 @@ interface CartContextType {
     isOpen: boolean;
     isLoading: boolean;
     isInitialized: boolean;
+    // Saved carts
+    activeCartId: string | null;
+    savedCarts: SavedCartSummary[];
+    // Resolves false when the switch didn't happen (already reported).
+    switchCart: (cartId: string) => Promise<boolean>;
+    createCart: (name: string) => Promise<void>;
+    renameCart: (cartId: string, name: string) => Promise<void>;
+    duplicateCart: (cartId: string, name?: string) => Promise<void>;
+    deleteCart: (cartId: string) => Promise<void>;
+    setCartShared: (cartId: string, shared: boolean) => Promise<void>;
+    // Stored items that failed validation ("needs attention" in the drawer)
+    quarantinedItems: QuarantinedCartItem[];
+    restoreQuarantinedItem: (id: string) => void;
+    dismissQuarantinedItem: (id: string) => void;
     openCart: () => void;
     closeCart: () => void;
     toggleCart: () => void;
-    addItem: (assetId: string, quantity: number, assetDetails: Partial<LocalCartItem>) => void;
+    addItem: (
+        assetId: string,
+        quantity: number,
+        assetDetails: Partial<LocalCartItem>,
+        options?: AddItemOptions
+    ) => void;
     addItemWithRebrand: (
         assetId: string,
         quantity: number,
         assetDetails: Partial<LocalCartItem>,
-        rebrandData: RebrandData
+        rebrandData: RebrandData,
+        options?: AddItemOptions
     ) => void;
     updateItemMaintenanceDecision: (
         assetId: string,
         maintenanceDecision?: MaintenanceDecision
     ) => void;
     updateItemDetails: (assetId: string, assetDetails: Partial<LocalCartItem>) => void;
+    // Event areas and per-line notes. `areas` is the cart's area list in
+    // display order; areas stay until removed, even with no lines in them.
+    areas: string[];
+    updateItemNote: (assetId: string, note: string) => void;
+    addArea: (name: string) => void;
+    moveItemToArea: (assetId: string, area: string | null, beforeAssetId?: string) => void;
+    // `to: null` removes the area, leaving its lines unassigned.
+    renameArea: (from: string, to: string | null) => void;
     updateItemRebrand: (assetId: string, rebrandData: RebrandData) => void;
     removeItemRebrand: (assetId: string) => void;
     removeItem: (assetId: string) => void;
+    // Replace a line with another asset in place (one undo step).
+    swapItem: (assetId: string, replacement: LocalCartItem) => void;
     updateQuantity: (assetId: string, quantity: number) => void;
-    clearCart: () => void;
+    clearCart: (options?: ClearCartOptions) => void;
+    // Undo/redo (per tab; reset when another tab or the server replaces the cart)
+    canUndo: boolean;
+    canRedo: boolean;
+    undo: () => void;
+    redo: () => void;
+    recentlyRemoved: LocalCartItem[];
+    restoreRemovedItem: (assetId: string) => void;
+    clearRecentlyRemoved: () => void;
 }
 
 const CartContext = createContext<CartContextType | null>(null);
 
 export function CartProvider({ children }: { children: ReactNode }) {
+    const queryClient = useQueryClient();
+    const pathname = usePathname();
+    const { user } = useAuth();
     const [items, setItems] = useState<LocalCartItem[]>([]);
+    const [areaList, setAreaList] = useState<string[]>([]);
+    // Lines can name an area the list lacks (a reorder, an older cart); it's
+    // shown, and pinned to the list below, like any other.
+    const areas = useMemo(() => mergeAreas(areaList, items), [areaList, items]);
     const [isOpen, setIsOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [isInitialized, setIsInitialized] = useState(false);
     const [addingItems, setAddingItems] = useState<Set<string>>(new Set());
+    const [activeCartId, setActiveCartId] = useState<string | null>(null);
+    const [quarantinedItems, setQuarantinedItems] = useState<QuarantinedCartItem[]>([]);
+    const [recentlyRemoved, setRecentlyRemoved] = useState<LocalCartItem[]>([]);
+    // Saved carts only exist for signed-in users — calling the API without a
+    // session would trip the 401 → login redirect. Id of the user whose token
+    // is in use; re-read on sign-in, sign-out and the redirects after them.
+    const [sessionUser, setSessionUser] = useState<string | null>(null);
+    const hasSession = !!sessionUser;
 
-    // Load cart from localStorage on mount
-    useEffect(() => {
-        const savedItems = loadCart();
-        setItems(savedItems);
-        setIsInitialized(true);
+    // Refs mirror state for the async sync paths, which outlive the render
+    // that scheduled them.
+    const activeCartIdRef = useRef<string | null>(null);
+    const itemsRef = useRef<LocalCartItem[]>([]);
+    const areasRef = useRef<string[]>([]);
+
+    const { data: savedCarts = [] } = useSavedCarts({ enabled: isInitialized && hasSession });
+
+    const selectActiveCart = useCallback((cartId: string | null) => {
+        activeCartIdRef.current = cartId;
+        setActiveCartId(cartId);
+        saveActiveCartId(cartId);
     }, []);
 
+    const persistLocal = useCallback(
+        (next: LocalCartItem[], nextAreas: string[] = areasRef.current) => {
+            saveCart(next, activeCartIdRef.current, mergeAreas(nextAreas, next));
+        },
+        []
+    );
+
     // When an `items` change originates from another tab's storage event,
     // we MUST NOT re-persist it here — doing so re-broadcasts the change,
     // which the originating tab's listener picks up and re-applies, creating
@@ -85,9 +221,189 @@ export function CartProvider({ children }: { children: ReactNode }) {
     // pops right back when multiple tabs are open" bug). This ref marks such
     // remote-origin updates so the save effect skips exactly one write.
     const remoteSyncRef = useRef(false);
+    // Same idea for items that came FROM the server copy (hydrate, switch):
+    // they're cached locally but must not be pushed straight back.
+    const serverSyncRef = useRef(false);
+
+    // Undo/redo stacks hold whole-cart snapshots. They're only valid for the
+    // items this tab last saw, so any replacement from elsewhere (another
+    // tab's storage event, a server load or cart switch) drops them rather
+    // than letting an undo overwrite someone else's change.
+    const pastRef = useRef<HistoryEntry[]>([]);
+    const futureRef = useRef<HistoryEntry[]>([]);
+    const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+
+    const syncHistoryState = useCallback(() => {
+        setHistoryState({
+            canUndo: pastRef.current.length > 0,
+            canRedo: futureRef.current.length > 0,
+        });
+    }, []);
+
+    const resetHistory = useCallback(() => {
+        pastRef.current = [];
+        futureRef.current = [];
+        syncHistoryState();
+    }, [syncHistoryState]);
+
+    // Snapshot the cart before a user edit. Calls made in the same tick (bulk
+    // import adding many lines) share a snapshot and collapse into one step.
+    const recordHistory = useCallback(
+        (label: string, coalesceKey?: string) => {
+            const before = itemsRef.current;
+            const beforeAreas = areasRef.current;
+            const top = pastRef.current[pastRef.current.length - 1];
+            const now = Date.now();
+            const sameBatch = top?.items === before && top.areas === beforeAreas;
+            const coalesced =
+                !!coalesceKey &&
+                top?.coalesceKey === coalesceKey &&
+                now - top.at < COALESCE_WINDOW_MS;
+            if (sameBatch || coalesced) {
+                top.at = now;
+            } else {
+                pastRef.current = [
+                    ...pastRef.current.slice(-(MAX_HISTORY - 1)),
+                    { label, items: before, areas: beforeAreas, coalesceKey, at: now },
+                ];
+            }
+            futureRef.current = [];
+            syncHistoryState();
+        },
+        [syncHistoryState]
+    );
+
+    // Load cart from localStorage on mount
+    useEffect(() => {
+        const savedItems = loadCart();
+        activeCartIdRef.current = loadActiveCartId();
+        setActiveCartId(activeCartIdRef.current);
+        // The cache was just read — nothing new to push to the server.
+        serverSyncRef.current = true;
+        setItems(savedItems);
+        setAreaList(loadCartMeta().areas);
+        setQuarantinedItems(loadQuarantinedItems());
+        setRecentlyRemoved(loadRecentlyRemoved());
+        setIsInitialized(true);
+    }, []);
+
+    useEffect(() => {
+        const syncSession = () => setSessionUser(tokenUserId(getAccessToken()));
+        syncSession();
+        const runtimeGlobal = globalThis as unknown as {
+            addEventListener?: Window["addEventListener"];
+            removeEventListener?: Window["removeEventListener"];
+        };
+        runtimeGlobal.addEventListener?.("focus", syncSession);
+        return () => runtimeGlobal.removeEventListener?.("focus", syncSession);
+    }, [pathname, user]);
+
+    useEffect(() => {
+        itemsRef.current = items;
+    }, [items]);
+
+    useEffect(() => {
+        areasRef.current = areas;
+        if (areas !== areaList) setAreaList(areas);
+    }, [areas, areaList]);
+
+    // Server pushes are debounced and chained so a lazily-created cart is
+    // only ever created once, and a switch/delete can flush pending edits
+    // to the cart being left before loading the next one.
+    const pushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const pendingPushRef = useRef<LocalCartItem[] | null>(null);
+    const pushChainRef = useRef<Promise<void>>(Promise.resolve());
+
+    // User the cart in memory belongs to; pushes queued for someone else
+    // (signed out, or another account signed in since) are dropped.
+    const sessionRef = useRef<string | null>(null);
+
+    const pushToServer = useCallback(
+        (next: LocalCartItem[]) => {
+            const owner = sessionRef.current;
+            pushChainRef.current = pushChainRef.current.then(async () => {
+                if (!owner || tokenUserId(getAccessToken()) !== owner) return;
+                try {
+                    const cartId = activeCartIdRef.current;
+                    const nextAreas = mergeAreas(areasRef.current, next);
+                    if (cartId) {
+                        await updateSavedCart(cartId, {
+                            items: next,
+                            areas: nextAreas,
+                            version: CART_VERSION,
+                        });
+                    } else if (next.length > 0) {
+                        const created = await createSavedCart({
+                            name: DEFAULT_CART_NAME,
+                            items: next,
+                            areas: nextAreas,
+                            version: CART_VERSION,
+                        });
+                        selectActiveCart(created.id);
+                        saveCart(itemsRef.current, created.id, areasRef.current);
+                    }
+                    queryClient.invalidateQueries({ queryKey: savedCartKeys.list() });
+                } catch (error) {
+                    // Offline or server hiccup — the local cache still has the
+                    // edit and the next change retries with the full item list.
+                    console.warn("[cart] saved-cart sync failed", error);
+                }
+            });
+            return pushChainRef.current;
+        },
+        [queryClient, selectActiveCart]
+    );
+
+    const schedulePush = useCallback(
+        (next: LocalCartItem[]) => {
+            pendingPushRef.current = next;
+            if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+            pushTimerRef.current = setTimeout(() => {
+                pushTimerRef.current = null;
+                const pending = pendingPushRef.current;
+                pendingPushRef.current = null;
+                if (pending) void pushToServer(pending);
+            }, SERVER_PUSH_DELAY_MS);
+        },
+        [pushToServer]
+    );
+
+    const flushPush = useCallback(async () => {
+        if (pushTimerRef.current) {
+            clearTimeout(pushTimerRef.current);
+            pushTimerRef.current = null;
+        }
+        const pending = pendingPushRef.current;
+        pendingPushRef.current = null;
+        if (pending) await pushToServer(pending);
+        await pushChainRef.current;
+    }, [pushToServer]);
+
+    const applyServerCart = useCallback(
+        (cart: SavedCart) => {
+            selectActiveCart(cart.id);
+            resetHistory();
+            serverSyncRef.current = true;
+            // Saved carts hold items verbatim, possibly from an older client.
+            const { items: migrated, quarantined } = migrateCartItems(
+                Array.isArray(cart.items) ? cart.items : [],
+                typeof cart.version === "number" ? cart.version : CART_VERSION
+            );
+            if (quarantined.length > 0) {
+                setQuarantinedItems(quarantineItems(quarantined));
+                // Cache the cleaned cart, but let it reach the server too so
+                // the bad entries aren't re-quarantined on every load.
+                serverSyncRef.current = false;
+            }
+            setItems(migrated);
+            setAreaList(parseAreaList(cart.areas));
+        },
+        [selectActiveCart, resetHistory]
+    );
 
     // Save to localStorage whenever items change (skip on initial mount, and
-    // skip echoing back a change that came from another tab).
+    // skip echoing back a change that came from another tab), then queue the
+    // server push unless the change came from the server in the first place.
     useEffect(() => {
         if (!isInitialized) return;
 
@@ -96,23 +412,126 @@ export function CartProvider({ children }: { children: ReactNode }) {
             return;
         }
 
-        if (items.length > 0) {
-            saveCart(items);
+        if (items.length > 0 || areas.length > 0) {
+            saveCart(items, activeCartIdRef.current, areas);
         } else {
             clearLocalCart();
         }
-    }, [items, isInitialized]);
+
+        if (serverSyncRef.current) {
+            serverSyncRef.current = false;
+            return;
+        }
+        if (sessionRef.current) schedulePush(items);
+    }, [items, areas, isInitialized, schedulePush]);
+
+    // Reconcile the local cache with the server once per session. The newer
+    // copy wins: a cart edited offline is pushed up, a cart edited on another
+    // device replaces the stale cache. With no known cart, local items seed a
+    // new saved cart, otherwise the user's most recent cart is adopted. When
+    // the session ends or changes hands, the previous user's cart stays on
+    // their account and is cleared here.
+    useEffect(() => {
+        if (!isInitialized) return;
+        const previous = sessionRef.current;
+        sessionRef.current = sessionUser;
+        if (previous && previous !== sessionUser) {
+            if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+            pushTimerRef.current = null;
+            pendingPushRef.current = null;
+            queryClient.removeQueries({ queryKey: savedCartKeys.list() });
+            selectActiveCart(null);
+            resetHistory();
+            serverSyncRef.current = true;
+            itemsRef.current = [];
+            areasRef.current = [];
+            setItems([]);
+            setAreaList([]);
+        }
+        if (!sessionUser) return;
+        let cancelled = false;
+
+        const hydrate = async () => {
+            const { lastUpdated } = loadCartMeta();
+            try {
+                const localId = activeCartIdRef.current;
+                if (localId) {
+                    try {
+                        const remote = await fetchSavedCart(localId);
+                        if (cancelled) return;
+                        if (remote.is_owner) {
+                            if (Date.parse(remote.updated_at) > lastUpdated) {
+                                applyServerCart(remote);
+                            } else if (itemsRef.current.length > 0) {
+                                schedulePush(itemsRef.current);
+                            }
+                            return;
+                        }
+                        // A teammate's cart cached by an older client —
+                        // never push into it; re-adopt below.
+                        selectActiveCart(null);
+                    } catch (error) {
+                        // Deleted on another device — re-adopt below.
+                        if ((error as { status?: number }).status !== 404) throw error;
+                        if (cancelled) return;
+                        selectActiveCart(null);
+                    }
+                }
+
+                const carts = await fetchSavedCarts();
+                if (cancelled) return;
+                if (itemsRef.current.length > 0) {
+                    schedulePush(itemsRef.current);
+                    return;
+                }
+                const latest = carts.find((cart) => cart.is_owner);
+                if (latest) {
+                    const remote = await fetchSavedCart(latest.id);
+                    if (!cancelled) applyServerCart(remote);
+                }
+            } catch (error) {
+                console.warn("[cart] saved carts unavailable, using local cache", error);
+            }
+        };
+
+        hydrate();
+        return () => {
+            cancelled = true;
+        };
+    }, [
+        isInitialized,
+        sessionUser,
+        queryClient,
+        applyServerCart,
+        resetHistory,
+        schedulePush,
+        selectActiveCart,
+    ]);
 
     // Cross-tab synchronization (silent — no toast to avoid loops). Applies
     // the other tab's cart to this tab WITHOUT re-persisting (see remoteSyncRef).
+    // A cart switch in another tab is followed here too via the payload's cartId.
     useEffect(() => {
         const handleStorageChange = (e: StorageEvent) => {
-            if (e.key !== "asset-cart-v2") return;
+            if (e.key === QUARANTINE_KEY) {
+                setQuarantinedItems(loadQuarantinedItems());
+                return;
+            }
+            if (e.key !== CART_KEY) return;
             if (e.newValue) {
                 try {
                     const cart = JSON.parse(e.newValue);
                     remoteSyncRef.current = true;
+                    resetHistory();
+                    if (
+                        typeof cart.cartId === "string" &&
+                        cart.cartId !== activeCartIdRef.current
+                    ) {
+                        activeCartIdRef.current = cart.cartId;
+                        setActiveCartId(cart.cartId);
+                    }
                     setItems(Array.isArray(cart.items) ? cart.items : []);
+                    setAreaList(parseAreaList(cart.areas));
                 } catch {
                     // ignore parse errors from other tabs
                 }
@@ -120,13 +539,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
                 // Cart was cleared/emptied in another tab — mirror that here
                 // instead of leaving a stale item visible.
                 remoteSyncRef.current = true;
+                resetHistory();
                 setItems([]);
+                setAreaList([]);
             }
         };
 
         window.addEventListener("storage", handleStorageChange);
         return () => window.removeEventListener("storage", handleStorageChange);
-    }, []);
+    }, [resetHistory]);
 
     // Calculate totals
     const itemCount = useMemo(() => items.reduce((sum, item) => sum + item.quantity, 0), [items]);
@@ -145,7 +566,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
     // Add item with race condition prevention using functional state updates
     const addItem = useCallback(
-        (assetId: string, quantity: number, assetDetails: Partial<LocalCartItem>) => {
+        (
+            assetId: string,
+            quantity: number,
+            assetDetails: Partial<LocalCartItem>,
+            options: AddItemOptions = {}
+        ) => {
             // Prevent duplicate adds
             if (addingItems.has(assetId)) {
                 return;
@@ -153,6 +579,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
             setAddingItems((prev) => new Set(prev).add(assetId));
             setIsLoading(true);
+            recordHistory(`Add ${assetDetails.assetName || "item"}`);
 
             try {
                 setItems((currentItems) => {
@@ -169,9 +596,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
                             ...existing,
                             quantity: newQuantity,
                         };
-                        toast.success("Cart updated", {
-                            description: `Quantity increased to ${newQuantity}`,
-                        });
+                        if (!options.silent) {
+                            toast.success("Cart updated", {
+                                description: `Quantity increased to ${newQuantity}`,
+                                action: { label: "Undo", onClick: () => undoRef.current() },
+                            });
+                        }
                     } else {
                         const newItem: LocalCartItem = {
                             assetId,
@@ -191,21 +621,27 @@ export function CartProvider({ children }: { children: ReactNode }) {
                             image: assetDetails.image,
                             fromCollection: assetDetails.fromCollection,
                             fromCollectionName: assetDetails.fromCollectionName,
+                            maintenanceDecision: assetDetails.maintenanceDecision,
+                            eventArea: assetDetails.eventArea,
+                            note: assetDetails.note,
                             addedAt: Date.now(),
                         };
 
                         newItems = [...currentItems, newItem];
-                        toast.success("Added to cart", {
-                            description: assetDetails.assetName,
-                        });
+                        if (!options.silent) {
+                            toast.success("Added to cart", {
+                                description: assetDetails.assetName,
+                                action: { label: "Undo", onClick: () => undoRef.current() },
+                            });
+                        }
                     }
 
                     // Save immediately with the new items
-                    saveCart(newItems);
+                    persistLocal(newItems);
                     return newItems;
                 });
 
-                openCart();
+                if (!options.silent) openCart();
             } catch (error) {
                 console.error("Failed to add item:", error);
                 toast.error("Failed to add item to cart");
@@ -218,20 +654,36 @@ export function CartProvider({ children }: { children: ReactNode }) {
                 });
             }
         },
-        [addingItems, openCart]
+        [addingItems, openCart, persistLocal, recordHistory]
     );
 
+    const rememberRemoved = useCallback((removed: LocalCartItem[]) => {
+        if (removed.length === 0) return;
+        setRecentlyRemoved((current) => {
+            const removedIds = new Set(removed.map((i) => i.assetId));
+            const next = [...removed, ...current.filter((i) => !removedIds.has(i.assetId))].slice(
+                0,
+                RECENTLY_REMOVED_LIMIT
+            );
+            saveRecentlyRemoved(next);
+            return next;
+        });
+    }, []);
+
     const removeItem = useCallback(
         (assetId: string) => {
             const item = items.find((i) => i.assetId === assetId);
+            recordHistory(`Remove ${item?.assetName || "item"}`);
             const newItems = items.filter((i) => i.assetId !== assetId);
             setItems(newItems);
-            saveCart(newItems); // Save immediately
+            persistLocal(newItems); // Save immediately
+            if (item) rememberRemoved([item]);
             toast.success("Item removed from cart", {
                 description: item?.assetName,
+                action: { label: "Undo", onClick: () => undoRef.current() },
             });
         },
-        [items]
+        [items, persistLocal, recordHistory, rememberRemoved]
     );
 
     const updateQuantity = useCallback(
@@ -244,11 +696,40 @@ export function CartProvider({ children }: { children: ReactNode }) {
             const item = items.find((i) => i.assetId === assetId);
             if (!item) return;
 
+            recordHistory(`Change ${item.assetName} quantity`, `quantity:${assetId}`);
             const newItems = items.map((i) => (i.assetId === assetId ? { ...i, quantity } : i));
             setItems(newItems);
-            saveCart(newItems); // Save immediately
+            persistLocal(newItems); // Save immediately
+        },
+        [items, removeItem, persistLocal, recordHistory]
+    );
+
+    const swapItem = useCallback(
+        (assetId: string, replacement: LocalCartItem) => {
+            const item = items.find((i) => i.assetId === assetId);
+            if (!item) return;
+
+            recordHistory(`Swap ${item.assetName} for ${replacement.assetName}`);
+            // Swapping onto an asset that's already in the cart merges the
+            // quantities there instead of leaving two lines for it.
+            const existing = items.find((i) => i.assetId === replacement.assetId);
+            const newItems = existing
+                ? items
+                      .filter((i) => i.assetId !== assetId)
+                      .map((i) =>
+                          i.assetId === replacement.assetId
+                              ? { ...i, quantity: i.quantity + replacement.quantity }
+                              : i
+                      )
+                : items.map((i) => (i.assetId === assetId ? replacement : i));
+            setItems(newItems);
+            persistLocal(newItems);
+            toast.success("Item swapped", {
+                description: `${item.assetName} → ${replacement.assetName}`,
+                action: { label: "Undo", onClick: () => undoRef.current() },
+            });
         },
-        [items, removeItem]
+        [items, persistLocal, recordHistory]
     );
 
     // Add item with rebrand data
@@ -257,7 +738,8 @@ export function CartProvider({ children }: { children: ReactNode }) {
             assetId: string,
             quantity: number,
             assetDetails: Partial<LocalCartItem>,
-            rebrandData: RebrandData
+            rebrandData: RebrandData,
+            options: AddItemOptions = {}
         ) => {
             // Prevent duplicate adds
             if (addingItems.has(assetId)) {
@@ -266,6 +748,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
 
             setAddingItems((prev) => new Set(prev).add(assetId));
             setIsLoading(true);
+            recordHistory(`Add ${assetDetails.assetName || "item"}`);
 
             try {
                 setItems((currentItems) => {
@@ -283,9 +766,12 @@ export function CartProvider({ children }: { children: ReactNode }) {
                             quantity: newQuantity,
                             ...rebrandData,
                         };
-                        toast.success("Cart updated with rebranding", {
-                            description: `${existing.assetName} - Quantity: ${newQuantity}`,
-                        });
+                        if (!options.silent) {
+                            toast.success("Cart updated with rebranding", {
+                                description: `${existing.assetName} - Quantity: ${newQuantity}`,
+                                action: { label: "Undo", onClick: () => undoRef.current() },
+                            });
+                        }
                     } else {
                         const newItem: LocalCartItem = {
                             assetId,
@@ -305,21 +791,27 @@ export function CartProvider({ children }: { children: ReactNode }) {
                             image: assetDetails.image,
                             fromCollection: assetDetails.fromCollection,
                             fromCollectionName: assetDetails.fromCollectionName,
+                            maintenanceDecision: assetDetails.maintenanceDecision,
+                            eventArea: assetDetails.eventArea,
+                            note: assetDetails.note,
                             addedAt: Date.now(),
                             ...rebrandData,
                         };
 
                         newItems = [...currentItems, newItem];
-                        toast.success("Added to cart with rebranding", {
-                            description: assetDetails.assetName,
-                        });
+                        if (!options.silent) {
+                            toast.success("Added to cart with rebranding", {
+                                description: assetDetails.assetName,
+                                action: { label: "Undo", onClick: () => undoRef.current() },
+                            });
+                        }
                     }
 
-                    saveCart(newItems);
+                    persistLocal(newItems);
                     return newItems;
                 });
 
-                openCart();
+                if (!options.silent) openCart();
             } catch (error) {
                 console.error("Failed to add item with rebrand:", error);
                 toast.error("Failed to add item to cart");
@@ -332,7 +824,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
                 });
             }
         },
-        [addingItems, openCart]
+        [addingItems, openCart, persistLocal, recordHistory]
     );
 
     const updateItemMaintenanceDecision = useCallback(
@@ -340,13 +832,72 @@ export function CartProvider({ children }: { children: ReactNode }) {
             const item = items.find((i) => i.assetId === assetId);
             if (!item) return;
 
+            recordHistory(`Change ${item.assetName} repair decision`);
             const newItems = items.map((i) =>
                 i.assetId === assetId ? { ...i, maintenanceDecision } : i
             );
             setItems(newItems);
-            saveCart(newItems);
+            persistLocal(newItems);
         },
-        [items]
+        [items, persistLocal, recordHistory]
+    );
+
+    const updateItemNote = useCallback(
+        (assetId: string, note: string) => {
+            const item = items.find((i) => i.assetId === assetId);
+            const next = note.trim() || undefined;
+            if (!item || (item.note ?? undefined) === next) return;
+
+            recordHistory(`Edit ${item.assetName} note`, `note:${assetId}`);
+            const newItems = items.map((i) => (i.assetId === assetId ? { ...i, note: next } : i));
+            setItems(newItems);
+            persistLocal(newItems);
+        },
+        [items, persistLocal, recordHistory]
+    );
+
+    const addArea = useCallback(
+        (name: string) => {
+            const area = normalizeAreaName(name);
+            if (!area || areas.includes(area)) return;
+            recordHistory(`Add ${area}`);
+            const nextAreas = [...areas, area];
+            setAreaList(nextAreas);
+            persistLocal(items, nextAreas);
+        },
+        [items, areas, persistLocal, recordHistory]
+    );
+
+    const moveItemToArea = useCallback(
+        (assetId: string, area: string | null, beforeAssetId?: string) => {
+            const item = items.find((i) => i.assetId === assetId);
+            if (!item) return;
+            const newItems = moveItemToAreaIn(items, assetId, area, beforeAssetId);
+            if (newItems === items) return;
+
+            const target = normalizeAreaName(area);
+            recordHistory(
+                target === normalizeAreaName(item.eventArea)
+                    ? `Reorder ${item.assetName}`
+                    : `Move ${item.assetName} to ${target ?? "Unassigned"}`
+            );
+            setItems(newItems);
+            persistLocal(newItems);
+        },
+        [items, persistLocal, recordHistory]
+    );
+
+    const renameArea = useCallback(
+        (from: string, to: string | null) => {
+            if (normalizeAreaName(to) === from) return;
+            recordHistory(to ? `Rename ${from}` : `Ungroup ${from}`);
+            const newItems = renameAreaIn(items, from, to);
+            const nextAreas = renameAreaInList(areas, from, to);
+            setItems(newItems);
+            setAreaList(nextAreas);
+            persistLocal(newItems, nextAreas);
+        },
+        [items, areas, persistLocal, recordHistory]
     );
 
     const updateItemDetails = useCallback(
@@ -360,11 +911,11 @@ export function CartProvider({ children }: { children: ReactNode }) {
                     }
                     return next;
                 });
-                saveCart(newItems);
+                persistLocal(newItems);
                 return newItems;
             });
         },
-        []
+        [persistLocal]
     );
 
     // Update rebrand data for existing item
@@ -376,16 +927,18 @@ export function CartProvider({ children }: { children: ReactNode }) {
                 return;
             }
 
+            recordHistory(`Edit ${item.assetName} rebranding`);
             const newItems = items.map((i) =>
                 i.assetId === assetId ? { ...i, ...rebrandData } : i
             );
             setItems(newItems);
-            saveCart(newItems);
+            persistLocal(newItems);
             toast.success("Rebranding details updated", {
                 description: item.assetName,
+                action: { label: "Undo", onClick: () => undoRef.current() },
             });
         },
-        [items]
+        [items, persistLocal, recordHistory]
     );
 
     // Remove rebrand data but keep item in cart
@@ -397,6 +950,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
                 return;
             }
 
+            recordHistory(`Remove ${item.assetName} rebranding`);
             const newItems = items.map((i) =>
                 i.assetId === assetId
                     ? {
@@ -409,20 +963,281 @@ export function CartProvider({ children }: { children: ReactNode }) {
                     : i
             );
             setItems(newItems);
-            saveCart(newItems);
+            persistLocal(newItems);
             toast.success("Rebranding removed", {
                 description: item.assetName,
+                action: { label: "Undo", onClick: () => undoRef.current() },
             });
         },
-        [items]
+        [items, persistLocal, recordHistory]
+    );
+
+    const clearCart = useCallback(
+        ({ afterSubmit = false }: ClearCartOptions = {}) => {
+            if (afterSubmit) {
+                resetHistory();
+            } else {
+                recordHistory("Clear cart");
+                rememberRemoved(itemsRef.current);
+            }
+            setItems([]);
+            setAreaList([]);
+            clearLocalCart();
+            toast.success(
+                "Cart cleared",
+                afterSubmit
+                    ? undefined
+                    : { action: { label: "Undo", onClick: () => undoRef.current() } }
+            );
+        },
+        [recordHistory, rememberRemoved, resetHistory]
+    );
+
+    // Swap the working copy for a history snapshot. Persisting broadcasts it
+    // to other tabs and queues the server push like any other edit.
+    const applySnapshot = useCallback(
+        (entry: HistoryEntry) => {
+            setItems(entry.items);
+            setAreaList(entry.areas);
+            persistLocal(entry.items, entry.areas);
+        },
+        [persistLocal]
+    );
+
+    const undo = useCallback(() => {
+        const entry = pastRef.current.pop();
+        if (!entry) return;
+        futureRef.current.push({ ...entry, items: itemsRef.current, areas: areasRef.current });
+        applySnapshot(entry);
+        syncHistoryState();
+        toast(`Undone: ${entry.label}`, {
+            action: { label: "Redo", onClick: () => redoRef.current() },
+        });
+    }, [applySnapshot, syncHistoryState]);
+
+    const redo = useCallback(() => {
+        const entry = futureRef.current.pop();
+        if (!entry) return;
+        pastRef.current.push({
+            ...entry,
+            items: itemsRef.current,
+            areas: areasRef.current,
+            coalesceKey: undefined,
+        });
+        applySnapshot(entry);
+        syncHistoryState();
+        toast(`Redone: ${entry.label}`);
+    }, [applySnapshot, syncHistoryState]);
+
+    // Toast actions outlive the render that created them — go through refs
+    // so they always hit the current undo/redo.
+    const undoRef = useRef(undo);
+    const redoRef = useRef(redo);
+    useEffect(() => {
+        undoRef.current = undo;
+        redoRef.current = redo;
+    }, [undo, redo]);
+
+    // ⌘Z / Ctrl+Z undo, ⇧⌘Z / Ctrl+Y redo while the drawer is open. Text
+    // fields keep their native undo.
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+            const target = e.target as HTMLElement | null;
+            if (
+                target &&
+                (target.isContentEditable ||
+                    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+            ) {
+                return;
+            }
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [isOpen, undo, redo]);
+
+    // Put a recently removed line back (merging into an existing line).
+    const restoreRemovedItem = useCallback(
+        (assetId: string) => {
+            const removed = recentlyRemoved.find((i) => i.assetId === assetId);
+            if (!removed) return;
+            recordHistory(`Restore ${removed.assetName}`);
+            const existing = items.find((i) => i.assetId === assetId);
+            const newItems = existing
+                ? items.map((i) =>
+                      i.assetId === assetId ? { ...i, quantity: i.quantity + removed.quantity } : i
+                  )
+                : [...items, removed];
+            setItems(newItems);
+            persistLocal(newItems);
+            setRecentlyRemoved((current) => {
+                const next = current.filter((i) => i.assetId !== assetId);
+                saveRecentlyRemoved(next);
+                return next;
+            });
+        },
+        [items, recentlyRemoved, persistLocal, recordHistory]
     );
 
-    const clearCart = useCallback(() => {
-        setItems([]);
-        clearLocalCart();
-        toast.success("Cart cleared");
+    const clearRecentlyRemoved = useCallback(() => {
+        setRecentlyRemoved([]);
+        saveRecentlyRemoved([]);
+    }, []);
+
+    const dismissQuarantinedItem = useCallback((id: string) => {
+        setQuarantinedItems((current) => {
+            const next = current.filter((entry) => entry.id !== id);
+            saveQuarantinedItems(next);
+            return next;
+        });
     }, []);
 
+    // Put a quarantined entry back in the cart when it still identifies an
+    // asset; the add path backfills any missing specs with defaults.
+    const restoreQuarantinedItem = useCallback(
+        (id: string) => {
+            const entry = quarantinedItems.find((q) => q.id === id);
+            if (!entry?.assetId) return;
+            const raw = (
+                entry.raw && typeof entry.raw === "object" ? entry.raw : {}
+            ) as Partial<LocalCartItem>;
+            const quantity = entry.quantity && entry.quantity >= 1 ? Math.floor(entry.quantity) : 1;
+            addItem(entry.assetId, quantity, {
+                ...raw,
+                assetName: entry.assetName || raw.assetName || "Unnamed asset",
+            });
+            dismissQuarantinedItem(id);
+        },
+        [quarantinedItems, addItem, dismissQuarantinedItem]
+    );
+
+    const switchCart = useCallback(
+        async (cartId: string) => {
+            if (cartId === activeCartIdRef.current) return true;
+            try {
+                // Land pending edits on the cart being left before loading the next.
+                await flushPush();
+                const cart = await fetchSavedCart(cartId);
+                // Teammates' shared carts are theirs to edit; they're opened
+                // as a copy through duplicateCart instead.
+                if (!cart.is_owner) {
+                    toast.error("This cart belongs to a teammate", {
+                        description: "Copy it to your carts to make changes.",
+                    });
+                    return false;
+                }
+                applyServerCart(cart);
+                toast.success("Switched cart", { description: cart.name });
+                return true;
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : "Failed to switch cart");
+                return false;
+            }
+        },
+        [flushPush, applyServerCart]
+    );
+
+    const createCart = useCallback(
+        async (name: string) => {
+            try {
+                await flushPush();
+                const cart = await createSavedCart({ name, items: [], version: CART_VERSION });
+                applyServerCart(cart);
+                queryClient.invalidateQueries({ queryKey: savedCartKeys.list() });
+                toast.success("Cart created", { description: cart.name });
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : "Failed to create cart");
+            }
+        },
+        [flushPush, applyServerCart, queryClient]
+    );
+
+    const renameCart = useCallback(
+        async (cartId: string, name: string) => {
+            if (savedCarts.find((cart) => cart.id === cartId)?.is_owner === false) return;
+            try {
+                await updateSavedCart(cartId, { name });
+                queryClient.invalidateQueries({ queryKey: savedCartKeys.list() });
+                toast.success("Cart renamed", { description: name });
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : "Failed to rename cart");
+            }
+        },
+        [queryClient, savedCarts]
+    );
+
+    const duplicateCart = useCallback(
+        async (cartId: string, name?: string) => {
+            try {
+                await flushPush();
+                const source = savedCarts.find((cart) => cart.id === cartId);
+                const cart = await duplicateSavedCart(
+                    cartId,
+                    name || `${source?.name ?? DEFAULT_CART_NAME} (copy)`
+                );
+                applyServerCart(cart);
+                queryClient.invalidateQueries({ queryKey: savedCartKeys.list() });
+                toast.success("Cart duplicated", { description: cart.name });
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : "Failed to duplicate cart");
+            }
+        },
+        [flushPush, applyServerCart, queryClient, savedCarts]
+    );
+
+    const deleteCart = useCallback(
+        async (cartId: string) => {
+            try {
+                if (cartId === activeCartIdRef.current) {
+                    // Drop pending edits — they'd target the cart being deleted.
+                    if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+                    pushTimerRef.current = null;
+                    pendingPushRef.current = null;
+                    await pushChainRef.current;
+                }
+                await deleteSavedCart(cartId);
+                if (cartId === activeCartIdRef.current) {
+                    const next = savedCarts.find((cart) => cart.id !== cartId && cart.is_owner);
+                    if (next) {
+                        applyServerCart(await fetchSavedCart(next.id));
+                    } else {
+                        selectActiveCart(null);
+                        serverSyncRef.current = true;
+                        setItems([]);
+                        setAreaList([]);
+                    }
+                }
+                queryClient.invalidateQueries({ queryKey: savedCartKeys.list() });
+                toast.success("Cart deleted");
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : "Failed to delete cart");
+            }
+        },
+        [applyServerCart, queryClient, savedCarts, selectActiveCart]
+    );
+
+    const setCartShared = useCallback(
+        async (cartId: string, shared: boolean) => {
+            try {
+                await updateSavedCart(cartId, { is_shared: shared });
+                queryClient.invalidateQueries({ queryKey: savedCartKeys.list() });
+                toast.success(shared ? "Cart shared with your company" : "Cart is now private");
+            } catch (error) {
+                toast.error(error instanceof Error ? error.message : "Failed to update sharing");
+            }
+        },
+        [queryClient]
+    );
+
     return (
         <CartContext.Provider
             value={{
@@ -433,18 +1248,42 @@ export function CartProvider({ children }: { children: ReactNode }) {
                 isOpen,
                 isLoading,
                 isInitialized,
+                activeCartId,
+                savedCarts,
+                switchCart,
+                createCart,
+                renameCart,
+                duplicateCart,
+                deleteCart,
+                setCartShared,
+                quarantinedItems,
+                restoreQuarantinedItem,
+                dismissQuarantinedItem,
                 openCart,
                 closeCart,
                 toggleCart,
                 addItem,
                 addItemWithRebrand,
                 updateItemMaintenanceDecision,
+                areas,
+                updateItemNote,
+                addArea,
+                moveItemToArea,
+                renameArea,
                 updateItemDetails,
                 updateItemRebrand,
                 removeItemRebrand,
                 removeItem,
+                swapItem,
                 updateQuantity,
                 clearCart,
+                canUndo: historyState.canUndo,
+                canRedo: historyState.canRedo,
+                undo,
+                redo,
+                recentlyRemoved,
+                restoreRemovedItem,
+                clearRecentlyRemoved,
             }}
         >
             {children}
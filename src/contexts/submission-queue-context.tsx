@@ -0,0 +1,463 @@
+"use client";
+/* global globalThis */
+
+/**
+ * Submission queue context
+ * Sends order and self-pickup submits and owns the retry queue for the ones
+ * lost to the network (see lib/checkout/submission-queue). Lives above the
+ * pages so retries carry on after the user leaves checkout; a checkout flow
+ * still waiting on its submit gets the outcome, otherwise the queue reports
+ * it with a toast. Only the signed-in user's queue is loaded, and nothing
+ * is retried while nobody is.
+ */
+
+import { useQueryClient } from "@tanstack/react-query";
+import { usePathname, useRouter } from "next/navigation";
+import React, { useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { useCart } from "@/contexts/cart-context";
+import { useAuth } from "@/contexts/user-context";
+import { getAccessToken } from "@/lib/api/api-client";
+import {
+    findSubmittedRecord,
+    sendSubmission,
+    type SubmissionResult,
+} from "@/lib/api/submission-api";
+import { clearCheckoutCheckpoint } from "@/lib/checkout/checkout-storage";
+import {
+    isNetworkError,
+    loadSubmissionQueue,
+    newIdempotencyKey,
+    queueOwnerOf,
+    retryDelayMs,
+    saveSubmissionQueue,
+    type QueuedSubmission,
+    type SubmissionKind,
+} from "@/lib/checkout/submission-queue";
+
+// A first attempt still in flight; never persisted.
+export type SubmissionEntry = Omit<QueuedSubmission, "status"> & {
+    status: QueuedSubmission["status"] | "submitting";
+};
+
+// One checkout attempt, as the submit hooks take it.
+export interface CartSubmission {
+    payload: Record<string, unknown>;
+    idempotencyKey: string;
+    label: string;
+    // Don't clear the cart when it completes in the background (the
+    // submission covers only part of it).
+    keepCart?: boolean;
+}
+
+interface SubmitOptions extends CartSubmission {
+    kind: SubmissionKind;
+}
+
+interface SubmissionQueueContextType {
+    entries: SubmissionEntry[];
+    /**
+     * Resolves once the submission has gone through — possibly after
+     * retries — and rejects when the server refuses it.
+     */
+    submit: (options: SubmitOptions) => Promise<SubmissionResult>;
+    retryNow: (key: string) => void;
+    discard: (key: string) => void;
+    // Answers for an "unconfirmed" entry: the look-alike is it / isn't it.
+    confirmMatch: (key: string) => void;
+    sendAnyway: (key: string) => void;
+    // The caller stopped waiting (unmounted); report the outcome with a toast.
+    detach: (key: string) => void;
+}
+
+const SubmissionQueueContext = React.createContext<SubmissionQueueContextType | undefined>(
+    undefined
+);
+
+type Waiter = {
+    resolve: (result: SubmissionResult) => void;
+    reject: (error: unknown) => void;
+};
+
+const KIND_LABELS: Record<SubmissionKind, string> = {
+    order: "Order",
+    self_pickup: "Self-pickup",
+};
+
+export const recordHref = (kind: SubmissionKind, id: string) =>
+    kind === "order" ? `/orders/${id}` : `/self-pickups/${id}`;
+
+const cartSignatureOf = (items: { assetId: string; quantity: number }[]) =>
+    items
+        .map((item) => `${item.assetId}:${item.quantity}`)
+        .sort()
+        .join("|");
+
+const isOffline = () => (globalThis as { navigator?: Navigator }).navigator?.onLine === false;
+
+export function SubmissionQueueProvider({ children }: { children: React.ReactNode }) {
+    const queryClient = useQueryClient();
+    const router = useRouter();
+    const pathname = usePathname();
+    const { user } = useAuth();
+    const { items, clearCart } = useCart();
+
+    const [entries, setEntries] = useState<SubmissionEntry[]>([]);
+    const entriesRef = useRef<SubmissionEntry[]>([]);
+    // User whose queue is loaded; null while signed out.
+    const ownerRef = useRef<string | null>(null);
+    // Every caller following a key (a second click on the same attempt adds one).
+    const waiters = useRef(new Map<string, Waiter[]>());
+    const running = useRef(new Set<string>());
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+
+    const commit = useCallback((next: SubmissionEntry[]) => {
+        entriesRef.current = next;
+        setEntries(next);
+        if (!ownerRef.current) return;
+        saveSubmissionQueue(
+            ownerRef.current,
+            next.filter((entry): entry is QueuedSubmission => entry.status !== "submitting")
+        );
+    }, []);
+
+    const upsert = useCallback(
+        (entry: SubmissionEntry) => {
+            const rest = entriesRef.current.filter((e) => e.key !== entry.key);
+            commit([...rest, entry]);
+        },
+        [commit]
+    );
+
+    const remove = useCallback(
+        (key: string) => commit(entriesRef.current.filter((e) => e.key !== key)),
+        [commit]
+    );
+
+    const wait = useCallback(
+        (key: string) =>
+            new Promise<SubmissionResult>((resolve, reject) => {
+                waiters.current.set(key, [
+                    ...(waiters.current.get(key) ?? []),
+                    { resolve, reject },
+                ]);
+            }),
+        []
+    );
+
+    // Hand the outcome to everyone following `key`; false when nobody is.
+    const resolveWaiters = useCallback((key: string, result: SubmissionResult) => {
+        const list = waiters.current.get(key) ?? [];
+        waiters.current.delete(key);
+        list.forEach((waiter) => waiter.resolve(result));
+        return list.length > 0;
+    }, []);
+
+    const rejectWaiters = useCallback((key: string, error: unknown) => {
+        const list = waiters.current.get(key) ?? [];
+        waiters.current.delete(key);
+        list.forEach((waiter) => waiter.reject(error));
+        return list.length > 0;
+    }, []);
+
+    // Load the queue of whoever the access token belongs to. When that
+    // changes, the previous user's callers are told and their stored queue
+    // waits until they sign back in. Returns the current owner.
+    const syncOwner = useCallback(() => {
+        const owner = queueOwnerOf(getAccessToken());
+        if (owner === ownerRef.current) return owner;
+        ownerRef.current = owner;
+        [...waiters.current.keys()].forEach((key) =>
+            rejectWaiters(key, new Error("Signed out before the submission went through"))
+        );
+        // Attempts interrupted by a reload are picked up again.
+        const next: SubmissionEntry[] = owner
+            ? loadSubmissionQueue(owner).map((entry) =>
+                  entry.status === "retrying" ? { ...entry, status: "waiting" } : entry
+              )
+            : [];
+        entriesRef.current = next;
+        setEntries(next);
+        return owner;
+    }, [rejectWaiters]);
+
+    // Sign-in, sign-out (here or in another tab) and the redirect after
+    // either all land here.
+    useEffect(() => {
+        syncOwner();
+        const runtimeGlobal = globalThis as unknown as {
+            addEventListener?: Window["addEventListener"];
+            removeEventListener?: Window["removeEventListener"];
+        };
+        runtimeGlobal.addEventListener?.("focus", syncOwner);
+        return () => runtimeGlobal.removeEventListener?.("focus", syncOwner);
+    }, [pathname, syncOwner, user]);
+
+    const settle = useCallback(
+        (entry: SubmissionEntry, result: SubmissionResult, alreadyExisted: boolean) => {
+            remove(entry.key);
+            queryClient.invalidateQueries({ queryKey: ["orders"] });
+            queryClient.invalidateQueries({ queryKey: ["client-orders"] });
+            queryClient.invalidateQueries({ queryKey: ["client-dashboard-summary"] });
+            queryClient.invalidateQueries({ queryKey: ["client-self-pickups"] });
+
+            if (resolveWaiters(entry.key, result)) return;
+
+            // Nobody is waiting: clear the cart it came from if it's still
+            // the one on screen, and say where the result went.
+            if (
+                entry.cartSignature !== null &&
+                cartSignatureOf(itemsRef.current) === entry.cartSignature
+            ) {
+                clearCheckoutCheckpoint();
+                clearCart({ afterSubmit: true });
+            }
+            const kind = KIND_LABELS[entry.kind];
+            toast.success(
+                alreadyExisted ? `${kind} had already gone through` : `${kind} submitted`,
+                {
+                    description: result.record.reference || entry.label,
+                    action: result.record.id
+                        ? {
+                              label: "View",
+                              onClick: () => router.push(recordHref(entry.kind, result.record.id)),
+                          }
+                        : undefined,
+                }
+            );
+        },
+        [clearCart, queryClient, remove, resolveWaiters, router]
+    );
+
+    const attempt = useCallback(
+        async (key: string) => {
+            // Paused while signed out, and never sent under another user's token.
+            const owner = ownerRef.current;
+            if (!owner || syncOwner() !== owner) return;
+            const entry = entriesRef.current.find((e) => e.key === key);
+            if (!entry || entry.status === "submitting" || running.current.has(key)) return;
+            running.current.add(key);
+            upsert({ ...entry, status: "retrying" });
+            try {
+                // The lost request may have created it — look before resending.
+                const found = await findSubmittedRecord(entry);
+                if (found && !found.confirmed) {
+                    upsert({ ...entry, status: "unconfirmed", possibleMatch: found.result });
+                    return;
+                }
+                const result =
+                    found?.result ?? (await sendSubmission(entry.kind, entry.payload, entry.key));
+                settle(entry, result, !!found);
+            } catch (error) {
+                const current = entriesRef.current.find((e) => e.key === key);
+                if (!current) return;
+                if (isNetworkError(error)) {
+                    const attempts = current.attempts + 1;
+                    upsert({
+                        ...current,
+                        status: "waiting",
+                        attempts,
+                        nextAttemptAt: Date.now() + retryDelayMs(attempts),
+                        lastError: "Connection lost",
+                    });
+                    return;
+                }
+                if (waiters.current.has(key)) {
+                    remove(key);
+                    rejectWaiters(key, error);
+                } else {
+                    upsert({
+                        ...current,
+                        status: "failed",
+                        lastError: error instanceof Error ? error.message : "Submission failed",
+                    });
+                }
+            } finally {
+                running.current.delete(key);
+            }
+        },
+        [rejectWaiters, remove, settle, syncOwner, upsert]
+    );
+
+    // Retry due entries on a timer, and everything waiting as soon as the
+    // browser reports it's back online.
+    useEffect(() => {
+        const waiting = entries.filter((entry) => entry.status === "waiting");
+        if (waiting.length === 0) return;
+
+        const runDue = () => {
+            if (isOffline()) return;
+            const now = Date.now();
+            waiting
+                .filter((entry) => entry.nextAttemptAt <= now)
+                .forEach((entry) => void attempt(entry.key));
+        };
+        const runAll = () => waiting.forEach((entry) => void attempt(entry.key));
+
+        const soonest = Math.min(...waiting.map((entry) => entry.nextAttemptAt));
+        const timer = setTimeout(runDue, Math.max(soonest - Date.now(), 0));
+        const runtimeGlobal = globalThis as unknown as {
+            addEventListener?: Window["addEventListener"];
+            removeEventListener?: Window["removeEventListener"];
+        };
+        runtimeGlobal.addEventListener?.("online", runAll);
+        return () => {
+            clearTimeout(timer);
+            runtimeGlobal.removeEventListener?.("online", runAll);
+        };
+    }, [attempt, entries]);
+
+    const submit = useCallback(
+        async ({ kind, payload, idempotencyKey, label, keepCart }: SubmitOptions) => {
+            syncOwner();
+
+            // Same attempt submitted again (a second click, a new tab):
+            // follow the queued one instead of sending a duplicate.
+            const queued = entriesRef.current.find((e) => e.key === idempotencyKey);
+            if (queued) {
+                const result = wait(idempotencyKey);
+                if (queued.status === "failed") {
+                    upsert({ ...queued, status: "waiting", nextAttemptAt: Date.now() });
+                } else if (queued.status === "waiting") {
+                    void attempt(idempotencyKey);
+                }
+                return result;
+            }
+
+            const entry: SubmissionEntry = {
+                key: idempotencyKey,
+                kind,
+                payload,
+                label,
+                cartSignature: keepCart ? null : cartSignatureOf(itemsRef.current),
+                firstAttemptAt: Date.now(),
+                attempts: 1,
+                nextAttemptAt: Date.now(),
+                status: "submitting",
+            };
+            upsert(entry);
+            try {
+                const result = await sendSubmission(kind, payload, idempotencyKey);
+                remove(idempotencyKey);
+                // Repeat submits of this key made while it was in flight.
+                resolveWaiters(idempotencyKey, result);
+                return result;
+            } catch (error) {
+                if (!isNetworkError(error)) {
+                    remove(idempotencyKey);
+                    rejectWaiters(idempotencyKey, error);
+                    throw error;
+                }
+                const result = wait(idempotencyKey);
+                upsert({
+                    ...entry,
+                    status: "waiting",
+                    nextAttemptAt: Date.now() + retryDelayMs(1),
+                    lastError: "Connection lost",
+                });
+                return result;
+            }
+        },
+        [attempt, rejectWaiters, remove, resolveWaiters, syncOwner, upsert, wait]
+    );
+
+    const retryNow = useCallback(
+        (key: string) => {
+            const entry = entriesRef.current.find((e) => e.key === key);
+            if (!entry) return;
+            if (entry.status === "failed") {
+                upsert({ ...entry, status: "waiting", nextAttemptAt: Date.now() });
+            } else {
+                void attempt(key);
+            }
+        },
+        [attempt, upsert]
+    );
+
+    const discard = useCallback(
+        (key: string) => {
+            remove(key);
+            rejectWaiters(key, new Error("Submission discarded"));
+        },
+        [rejectWaiters, remove]
+    );
+
+    const confirmMatch = useCallback(
+        (key: string) => {
+            const entry = entriesRef.current.find((e) => e.key === key);
+            if (entry?.status !== "unconfirmed" || !entry.possibleMatch) return;
+            settle(entry, entry.possibleMatch, true);
+        },
+        [settle]
+    );
+
+    const sendAnyway = useCallback(
+        (key: string) => {
+            const entry = entriesRef.current.find((e) => e.key === key);
+            if (entry?.status !== "unconfirmed") return;
+            upsert({
+                ...entry,
+                status: "waiting",
+                nextAttemptAt: Date.now(),
+                possibleMatch: undefined,
+                ignoreLookalikes: true,
+            });
+        },
+        [upsert]
+    );
+
+    const detach = useCallback((key: string) => {
+        waiters.current.delete(key);
+    }, []);
+
+    const value = useMemo(
+        () => ({ entries, submit, retryNow, discard, confirmMatch, sendAnyway, detach }),
+        [entries, submit, retryNow, discard, confirmMatch, sendAnyway, detach]
+    );
+
+    return (
+        <SubmissionQueueContext.Provider value={value}>{children}</SubmissionQueueContext.Provider>
+    );
+}
+
+export function useSubmissionQueue() {
+    const context = useContext(SubmissionQueueContext);
+    if (!context) {
+        throw new Error("useSubmissionQueue must be used within a SubmissionQueueProvider");
+    }
+    return context;
+}
+
+/**
+ * Idempotency keys for a checkout flow: one per distinct payload, so clicking
+ * submit again with nothing changed reuses the key (and the server answers
+ * with the order it already made) while an edited checkout is a new attempt.
+ * Stops waiting on its submissions when the flow unmounts.
+ */
+export function useSubmissionAttempt() {
+    const { entries, detach } = useSubmissionQueue();
+    const keys = useRef(new Map<string, string>());
+
+    const keyFor = useCallback((payload: Record<string, unknown>) => {
+        const signature = JSON.stringify(payload);
+        let key = keys.current.get(signature);
+        if (!key) {
+            key = newIdempotencyKey();
+            keys.current.set(signature, key);
+        }
+        return key;
+    }, []);
+
+    useEffect(() => {
+        const owned = keys.current;
+        return () => owned.forEach((key) => detach(key));
+    }, [detach]);
+
+    // This flow's submissions that are still retrying.
+    const pending = entries.filter(
+        (entry) => entry.status !== "submitting" && [...keys.current.values()].includes(entry.key)
+    );
+
+    return { keyFor, pending };
+}
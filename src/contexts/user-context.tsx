@@ -3,6 +3,7 @@
 import Cookies from "js-cookie";
 import { jwtDecode } from "jwt-decode";
 import React, { useContext } from "react";
+import { clearSubmissionQueues } from "@/lib/checkout/submission-queue";
 
 // -------------------Context-------------------
 
@@ -44,6 +45,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     const logout = React.useCallback(() => {
         Cookies.remove("access_token");
         Cookies.remove("refresh_token");
+        clearSubmissionQueues();
         Cookies.remove("cart");
         setUser(null);
         setIsAuthenticated(false);
@@ -17,7 +17,8 @@ import { apiClient } from "@/lib/api/api-client";
  * JSON.stringify to stay stable by value.
  *
  * A null window disables the query (nothing meaningful to compute without
- * dates). An empty cart also disables it.
+ * dates) unless `requireWindow` is false, in which case the server checks
+ * current stock. An empty cart also disables it.
  */
 export type AvailabilityReasonCode =
     | "NOT_FOUND"
@@ -44,14 +45,36 @@ export interface AvailabilityPreviewResult {
     items: AvailabilityPreviewItem[];
 }
 
+/**
+ * One-off availability check, for callers that aren't tracking a live cart.
+ * Without a window the server checks current stock.
+ */
+export async function fetchAvailabilityPreview(
+    items: Array<{ asset_id: string; quantity: number }>,
+    window: { start: string; end: string } | null
+): Promise<AvailabilityPreviewResult> {
+    const body: {
+        items: typeof items;
+        window?: { start: string; end: string };
+    } = { items };
+    if (window) body.window = window;
+
+    const response = await apiClient.post("/operations/v1/asset/availability", body);
+    return response.data.data as AvailabilityPreviewResult;
+}
+
 export function useAvailabilityPreview({
     items,
     window,
     enabled = true,
+    requireWindow = true,
+    refetchInterval,
 }: {
     items: Array<{ asset_id: string; quantity: number }>;
     window: { start: string; end: string } | null;
     enabled?: boolean;
+    requireWindow?: boolean;
+    refetchInterval?: number;
 }) {
     return useQuery({
         queryKey: [
@@ -60,18 +83,10 @@ export function useAvailabilityPreview({
             window?.start ?? null,
             window?.end ?? null,
         ],
-        queryFn: async (): Promise<AvailabilityPreviewResult> => {
-            const body: {
-                items: typeof items;
-                window?: { start: string; end: string };
-            } = { items };
-            if (window) body.window = window;
-
-            const response = await apiClient.post("/operations/v1/asset/availability", body);
-            return response.data.data as AvailabilityPreviewResult;
-        },
-        enabled: enabled && items.length > 0 && window !== null,
+        queryFn: () => fetchAvailabilityPreview(items, window),
+        enabled: enabled && items.length > 0 && (window !== null || !requireWindow),
         staleTime: 30_000,
+        refetchInterval,
         gcTime: 60_000,
     });
 }
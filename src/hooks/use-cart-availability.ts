@@ -0,0 +1,108 @@
+"use client";
+
+import { useMemo } from "react";
+import { useCart } from "@/contexts/cart-context";
+import {
+    useAvailabilityPreview,
+    type AvailabilityPreviewItem,
+    type AvailabilityReasonCode,
+} from "@/hooks/use-availability-preview";
+import type { AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+
+// Drawer/cart-step re-check cadence while the cart stays open.
+const RECHECK_INTERVAL_MS = 60_000;
+
+export type CartAvailabilityFix = "clamp" | "remove" | "alternatives";
+
+export interface CartAvailabilityIssue {
+    assetId: string;
+    reasonCode: AvailabilityReasonCode | undefined;
+    availableQuantity: number;
+    nextAvailableDate?: string;
+    // Fixes offered inline, most helpful first.
+    fixes: CartAvailabilityFix[];
+    // The preview result, for looking up alternatives.
+    result: AvailabilityPreviewItem;
+}
+
+function fixesFor(item: AvailabilityPreviewItem): CartAvailabilityFix[] {
+    switch (item.reason_code) {
+        case "NOT_FOUND":
+        case "SOFT_DELETED":
+            return ["remove"];
+        case "INSUFFICIENT_QUANTITY":
+            return item.available_quantity > 0
+                ? ["clamp", "alternatives", "remove"]
+                : ["alternatives", "remove"];
+        default:
+            // MAINTENANCE, TRANSFORMED and anything new the server adds.
+            return ["alternatives", "remove"];
+    }
+}
+
+/**
+ * Background availability re-check for the items currently in the cart.
+ * `availableQuantity` on a cart line is a snapshot from add-time; the fresh
+ * counts are returned for display alongside the lines that can no longer be
+ * fulfilled, without writing them back to the cart. With a `window` (dates
+ * chosen at checkout) the check is against that booking window, otherwise
+ * against current stock.
+ */
+export function useCartAvailability({
+    window,
+    enabled = true,
+}: {
+    window: AvailabilityWindow | null;
+    enabled?: boolean;
+}) {
+    const { items } = useCart();
+
+    // Same item shape as the checkout page's preview so both share one query.
+    const previewItems = useMemo(
+        () => items.map((i) => ({ asset_id: i.assetId, quantity: i.quantity })),
+        [items]
+    );
+    const preview = useAvailabilityPreview({
+        items: previewItems,
+        window,
+        enabled,
+        requireWindow: false,
+        refetchInterval: enabled ? RECHECK_INTERVAL_MS : undefined,
+    });
+
+    // Latest count per line, to show in place of the add-time snapshot.
+    const availableQuantities = useMemo(
+        () =>
+            new Map(
+                (preview.data?.items ?? []).map((result) => [
+                    result.asset_id,
+                    result.available_quantity,
+                ])
+            ),
+        [preview.data]
+    );
+
+    const issues = useMemo(() => {
+        const byAsset = new Map<string, CartAvailabilityIssue>();
+        for (const result of preview.data?.items ?? []) {
+            if (result.is_available) continue;
+            byAsset.set(result.asset_id, {
+                assetId: result.asset_id,
+                reasonCode: result.reason_code,
+                availableQuantity: result.available_quantity,
+                nextAvailableDate: result.next_available_date,
+                fixes: fixesFor(result),
+                result,
+            });
+        }
+        return byAsset;
+    }, [preview.data]);
+
+    return {
+        issues,
+        availableQuantities,
+        isChecking: preview.isFetching,
+        hasWindow: window !== null,
+        window,
+    };
+}
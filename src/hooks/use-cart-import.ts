@@ -0,0 +1,136 @@
+"use client";
+
+import { useMutation } from "@tanstack/react-query";
+import { fetchCatalog, fetchCatalogAsset } from "@/hooks/use-catalog";
+import { nameSimilarity, UUID_PATTERN, type ImportRow } from "@/lib/cart/bulk-import";
+import { cartDetails, catalogAssetCartDetails } from "@/lib/cart/cart-details";
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+
+export interface ImportCandidate {
+    assetId: string;
+    name: string;
+    code: string | null;
+    availableQuantity: number;
+    details: Partial<LocalCartItem>;
+}
+
+export type ImportResolution =
+    | { status: "matched"; match: ImportCandidate; matchedBy: "id" | "code" | "name" }
+    | { status: "ambiguous"; candidates: ImportCandidate[] }
+    | { status: "not_found" };
+
+export type ResolvedImportRow = ImportRow & ImportResolution;
+
+// A fuzzy name match is only taken automatically when it is both close and
+// clearly ahead of the runner-up; anything weaker is offered as a candidate.
+const AUTO_MATCH_SCORE = 0.85;
+const AUTO_MATCH_MARGIN = 0.15;
+const CANDIDATE_SCORE = 0.4;
+const MAX_CANDIDATES = 5;
+const LOOKUP_CONCURRENCY = 4;
+
+async function searchCandidates(reference: string): Promise<ImportCandidate[]> {
+    const result = await fetchCatalog({ search_term: reference, type: "asset", limit: 10 });
+    const candidates: ImportCandidate[] = [];
+    for (const item of result.items) {
+        if (item.type === "asset") {
+            candidates.push({
+                assetId: item.id,
+                name: item.name,
+                code: item.code ?? null,
+                availableQuantity: item.availableQuantity,
+                details: catalogAssetCartDetails(item),
+            });
+        } else if (item.type === "group") {
+            // Families list their stock records as siblings — those are the
+            // cart-able assets.
+            for (const sibling of item.siblings) {
+                candidates.push({
+                    assetId: sibling.id,
+                    name: sibling.name,
+                    code: sibling.qrCode ?? null,
+                    availableQuantity: sibling.availableQuantity,
+                    details: cartDetails(sibling),
+                });
+            }
+        }
+    }
+    return candidates;
+}
+
+async function resolveRow(row: ImportRow): Promise<ResolvedImportRow> {
+    const reference = row.reference.trim();
+
+    if (UUID_PATTERN.test(reference)) {
+        try {
+            const { asset } = await fetchCatalogAsset(reference);
+            return {
+                ...row,
+                status: "matched",
+                matchedBy: "id",
+                match: {
+                    assetId: asset.id,
+                    name: asset.name,
+                    code: asset.qrCode ?? null,
+                    availableQuantity: asset.availableQuantity,
+                    details: cartDetails(asset),
+                },
+            };
+        } catch {
+            return { ...row, status: "not_found" };
+        }
+    }
+
+    const candidates = await searchCandidates(reference);
+
+    const byCode = candidates.find(
+        (candidate) => candidate.code?.toLowerCase() === reference.toLowerCase()
+    );
+    if (byCode) return { ...row, status: "matched", matchedBy: "code", match: byCode };
+
+    const ranked = candidates
+        .map((candidate) => ({ candidate, score: nameSimilarity(reference, candidate.name) }))
+        .filter(({ score }) => score >= CANDIDATE_SCORE)
+        .sort((a, b) => b.score - a.score);
+
+    if (ranked.length === 0) return { ...row, status: "not_found" };
+
+    const [best, runnerUp] = ranked;
+    if (
+        best.score >= AUTO_MATCH_SCORE &&
+        (!runnerUp || best.score - runnerUp.score >= AUTO_MATCH_MARGIN)
+    ) {
+        return { ...row, status: "matched", matchedBy: "name", match: best.candidate };
+    }
+
+    return {
+        ...row,
+        status: "ambiguous",
+        candidates: ranked.slice(0, MAX_CANDIDATES).map(({ candidate }) => candidate),
+    };
+}
+
+/**
+ * Resolve imported rows against the catalog by asset id, QR code or fuzzy
+ * name. Lookups run a few at a time so an 80-line BOM doesn't flood the API.
+ */
+export function useResolveCartImport() {
+    return useMutation({
+        mutationFn: async (rows: ImportRow[]) => {
+            const resolved: ResolvedImportRow[] = new Array(rows.length);
+            let next = 0;
+            const worker = async () => {
+                while (next < rows.length) {
+                    const index = next++;
+                    resolved[index] = await resolveRow(rows[index]).catch(
+                        (): ResolvedImportRow => ({ ...rows[index], status: "not_found" })
+                    );
+                }
+            };
+            await Promise.all(
+                Array.from({ length: Math.min(LOOKUP_CONCURRENCY, rows.length) }, worker)
+            );
+            return resolved;
+        },
+    });
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const HIGHLIGHT_MS = 2500;
+
+/**
+ * Scroll-to-and-highlight for cart lines, so a rule hit shown elsewhere can
+ * take the user to the line it's about. Lines register with `lineRef`; a line
+ * that isn't mounted yet (e.g. on a checkout step still animating in) is
+ * scrolled to as soon as it mounts.
+ */
+export function useCartLineFocus() {
+    const elements = useRef(new Map<string, HTMLElement>());
+    const pending = useRef<string | null>(null);
+    const [focusedLine, setFocusedLine] = useState<string | null>(null);
+
+    const reveal = (element: HTMLElement) =>
+        element.scrollIntoView({ behavior: "smooth", block: "center" });
+
+    const lineRef = useCallback(
+        (assetId: string) => (element: HTMLElement | null) => {
+            if (!element) {
+                elements.current.delete(assetId);
+                return;
+            }
+            elements.current.set(assetId, element);
+            if (pending.current === assetId) {
+                pending.current = null;
+                reveal(element);
+            }
+        },
+        []
+    );
+
+    const focusLine = useCallback((assetId: string) => {
+        const element = elements.current.get(assetId);
+        if (element) {
+            reveal(element);
+        } else {
+            pending.current = assetId;
+        }
+        setFocusedLine(assetId);
+    }, []);
+
+    useEffect(() => {
+        if (!focusedLine) return;
+        const timer = setTimeout(() => setFocusedLine(null), HIGHLIGHT_MS);
+        return () => clearTimeout(timer);
+    }, [focusedLine]);
+
+    return { focusedLine, focusLine, lineRef };
+}
@@ -68,7 +68,7 @@ const buildSearchParams = (params: Record<string, string | number | undefined>)
     return searchParams;
 };
 
-async function fetchCatalog(params: CatalogListParams = {}): Promise<CatalogListResponse> {
+export async function fetchCatalog(params: CatalogListParams = {}): Promise<CatalogListResponse> {
     try {
         const requestedPage = params.page || 1;
         const limit = params.limit || 24;
@@ -268,7 +268,7 @@ async function fetchCatalog(params: CatalogListParams = {}): Promise<CatalogList
     }
 }
 
-async function fetchCatalogAsset(id: string): Promise<CatalogAssetDetailsResponse> {
+export async function fetchCatalogAsset(id: string): Promise<CatalogAssetDetailsResponse> {
     try {
         const response = await apiClient.get(`/operations/v1/asset/${id}`);
         const asset = response.data.data;
@@ -0,0 +1,56 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getAccessToken } from "@/lib/api/api-client";
+import {
+    deleteCheckoutDraft,
+    fetchCheckoutDraft,
+    saveCheckoutDraft,
+    type CheckoutDraftInput,
+} from "@/lib/api/cart-api";
+
+export const checkoutDraftKeys = {
+    current: () => ["checkout-draft"] as const,
+};
+
+// Saves and discards share a scope so they reach the server in the order
+// they were issued — a debounced save can't land after the post-submit delete.
+const DRAFT_MUTATION_SCOPE = { id: "checkout-draft" };
+
+/**
+ * The server-side checkout draft. Drafts need a session, so the query stays
+ * idle (and `isLoading` false) without one.
+ */
+export function useCheckoutDraft({ enabled = true }: { enabled?: boolean } = {}) {
+    return useQuery({
+        queryKey: checkoutDraftKeys.current(),
+        queryFn: fetchCheckoutDraft,
+        enabled: enabled && !!getAccessToken(),
+        retry: false,
+        staleTime: 30_000,
+    });
+}
+
+export function useSaveCheckoutDraft() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: (draft: CheckoutDraftInput) => saveCheckoutDraft(draft),
+        scope: DRAFT_MUTATION_SCOPE,
+        onSuccess: (draft) => {
+            queryClient.setQueryData(checkoutDraftKeys.current(), draft);
+        },
+    });
+}
+
+export function useDiscardCheckoutDraft() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: deleteCheckoutDraft,
+        scope: DRAFT_MUTATION_SCOPE,
+        onSuccess: () => {
+            queryClient.setQueryData(checkoutDraftKeys.current(), null);
+        },
+    });
+}
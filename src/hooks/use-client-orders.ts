@@ -6,7 +6,17 @@
  */
 
 import { apiClient } from "@/lib/api/api-client";
+import type {
+    ConversionResult,
+    ConvertToSelfPickupPayload,
+} from "@/lib/checkout/fulfilment-conversion";
+import type {
+    CancellationFeePreview,
+    OrderCancellationRequest,
+    RequestOrderCancellationPayload,
+} from "@/lib/order-cancellation";
 import { throwApiError } from "@/lib/utils/throw-api-error";
+import type { PermitRequirements } from "@/types/order";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 
 // Types for client order operations
@@ -37,7 +47,7 @@ interface ClientOrder {
     createdAt: string;
 }
 
-interface ClientOrderDetail {
+export interface ClientOrderDetail {
     id: string;
     order_id: string;
     company: { id: string; name: string };
@@ -49,12 +59,17 @@ interface ClientOrderDetail {
     event_start_date: string;
     event_end_date: string;
     venue_name: string;
+    venue_city_id: string | null;
     venue_location: {
         city: string;
         address: string;
         country: string;
         access_notes: string | null;
     };
+    venue_contact_name: string | null;
+    venue_contact_email: string | null;
+    venue_contact_phone: string | null;
+    permit_requirements: PermitRequirements | null;
     delivery_window: { start: string; end: string } | null;
     pickup_window: { start: string; end: string } | null;
     delivery_photos: string[];
@@ -237,6 +252,94 @@ export function useCancelMaintenanceDecisionChangeRequest() {
     });
 }
 
+/**
+ * Switch a delivery order to a self-pickup. The server carries the items over,
+ * cancels the order and links the two records.
+ */
+export function useConvertOrderToSelfPickup() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({
+            orderId,
+            payload,
+        }: {
+            orderId: string;
+            payload: ConvertToSelfPickupPayload;
+        }): Promise<ConversionResult> => {
+            try {
+                const response = await apiClient.post(
+                    `/client/v1/order/${orderId}/convert-to-self-pickup`,
+                    payload
+                );
+                return response.data?.data as ConversionResult;
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["client-order-detail"] });
+            queryClient.invalidateQueries({ queryKey: ["client-orders"] });
+            queryClient.invalidateQueries({ queryKey: ["client-self-pickups"] });
+        },
+    });
+}
+
+/**
+ * Cancellation fee the platform would charge if the order were cancelled now.
+ * `orderId` is the order UUID (`order.id`).
+ */
+export function useOrderCancellationFee(orderId: string | null, enabled = true) {
+    return useQuery({
+        queryKey: ["client-order-cancellation-fee", orderId],
+        queryFn: async (): Promise<CancellationFeePreview> => {
+            try {
+                const response = await apiClient.get(
+                    `/client/v1/order/${orderId}/cancellation-fee`
+                );
+                return response.data?.data as CancellationFeePreview;
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        enabled: enabled && !!orderId,
+        // The fee steps up as the event gets closer; don't show a stale one.
+        staleTime: 0,
+    });
+}
+
+/**
+ * Ask ops to cancel an order. The request shows as pending on the order
+ * (`cancellation_request`) until ops approve or reject it.
+ */
+export function useRequestOrderCancellation() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({
+            orderId,
+            payload,
+        }: {
+            orderId: string;
+            payload: RequestOrderCancellationPayload;
+        }): Promise<OrderCancellationRequest> => {
+            try {
+                const response = await apiClient.post(
+                    `/client/v1/order/${orderId}/cancellation-request`,
+                    payload
+                );
+                return response.data?.data as OrderCancellationRequest;
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ["client-order-detail"] });
+            queryClient.invalidateQueries({ queryKey: ["client-orders"] });
+        },
+    });
+}
+
 /**
  * Hook to approve a quote
  */
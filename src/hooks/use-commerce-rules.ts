@@ -1,8 +1,16 @@
 "use client";
 
-import { useMutation } from "@tanstack/react-query";
+import { useMemo } from "react";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
 import { apiClient } from "@/lib/api/api-client";
 import { throwApiError } from "@/lib/utils/throw-api-error";
+import {
+    fetchAvailabilityPreview,
+    type AvailabilityPreviewItem,
+} from "@/hooks/use-availability-preview";
+import { fetchCatalogAsset } from "@/hooks/use-catalog";
+import type { AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+import type { CatalogAssetDetails } from "@/types/collection";
 
 export type CommerceRuleHit = {
     rule_id: string;
@@ -21,21 +29,123 @@ export type EvaluatePayload = {
     }>;
 };
 
+export const commerceRuleKeys = {
+    all: ["commerce-rules"] as const,
+    evaluate: (payload: EvaluatePayload) =>
+        [...commerceRuleKeys.all, "evaluate", JSON.stringify(payload)] as const,
+    suggestions: (assetIds: string[], window: AvailabilityWindow | null) =>
+        [
+            ...commerceRuleKeys.all,
+            "suggestions",
+            assetIds.join(","),
+            window?.start ?? null,
+            window?.end ?? null,
+        ] as const,
+};
+
+export async function evaluateCommerceRules(
+    payload: EvaluatePayload
+): Promise<{ hits: CommerceRuleHit[] }> {
+    try {
+        const response = await apiClient.post("/operations/v1/commerce-rules/evaluate", payload);
+        return response.data?.data || { hits: [] };
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
 // Item 6 of the 9-item bundle. Client calls /commerce-rules/evaluate
 // before final submit; if WARN hits are returned, checkout shows them in
 // a confirm dialog and lets the client acknowledge before proceeding.
 export function useEvaluateCommerceRules() {
     return useMutation({
-        mutationFn: async (payload: EvaluatePayload): Promise<{ hits: CommerceRuleHit[] }> => {
-            try {
-                const response = await apiClient.post(
-                    "/operations/v1/commerce-rules/evaluate",
-                    payload
-                );
-                return response.data?.data || { hits: [] };
-            } catch (error) {
-                throwApiError(error);
+        mutationFn: evaluateCommerceRules,
+    });
+}
+
+/**
+ * Live evaluation for a cart that's being edited (the cart drawer). Keeps the
+ * previous hits on screen while a changed cart is re-evaluated.
+ */
+export function useCommerceRuleHits({
+    payload,
+    enabled = true,
+}: {
+    payload: EvaluatePayload;
+    enabled?: boolean;
+}) {
+    return useQuery({
+        queryKey: commerceRuleKeys.evaluate(payload),
+        queryFn: () => evaluateCommerceRules(payload),
+        enabled: enabled && payload.cart.length > 0,
+        placeholderData: keepPreviousData,
+        staleTime: 30_000,
+        retry: false,
+    });
+}
+
+export interface RuleSuggestionAsset {
+    asset: CatalogAssetDetails;
+    // Bookable for the checkout dates when they're known, otherwise now.
+    isAvailable: boolean;
+    availableQuantity: number;
+    nextAvailableDate?: string;
+}
+
+/**
+ * Catalog details and availability for the assets SUGGEST hits recommend,
+ * keyed by asset id. Assets that can't be loaded are left out.
+ */
+export function useRuleSuggestionAssets({
+    hits,
+    window,
+    enabled = true,
+}: {
+    hits: CommerceRuleHit[];
+    window: AvailabilityWindow | null;
+    enabled?: boolean;
+}) {
+    const assetIds = useMemo(
+        () => [...new Set(hits.flatMap((hit) => hit.related_asset_id ?? []))].sort(),
+        [hits]
+    );
+
+    return useQuery({
+        queryKey: commerceRuleKeys.suggestions(assetIds, window),
+        queryFn: async () => {
+            const [details, availability] = await Promise.all([
+                Promise.all(
+                    assetIds.map((id) =>
+                        fetchCatalogAsset(id)
+                            .then((response) => response.asset)
+                            .catch(() => null)
+                    )
+                ),
+                fetchAvailabilityPreview(
+                    assetIds.map((asset_id) => ({ asset_id, quantity: 1 })),
+                    window
+                ).catch(() => null),
+            ]);
+            const byAsset = new Map<string, AvailabilityPreviewItem>(
+                (availability?.items ?? []).map((item) => [item.asset_id, item])
+            );
+
+            const assets = new Map<string, RuleSuggestionAsset>();
+            for (const asset of details) {
+                if (!asset) continue;
+                const preview = byAsset.get(asset.id);
+                assets.set(asset.id, {
+                    asset,
+                    isAvailable: preview ? preview.is_available : asset.availableQuantity > 0,
+                    availableQuantity: preview?.available_quantity ?? asset.availableQuantity,
+                    nextAvailableDate: preview?.next_available_date,
+                });
             }
+            return assets;
         },
+        enabled: enabled && assetIds.length > 0,
+        placeholderData: keepPreviousData,
+        staleTime: 60_000,
+        retry: false,
     });
 }
@@ -0,0 +1,108 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { fetchAvailabilityPreview } from "@/hooks/use-availability-preview";
+import {
+    interpretFeasibilityPreview,
+    useFeasibility,
+    type MaintenanceDecision,
+} from "@/hooks/use-feasibility-check";
+import {
+    buildHeatmap,
+    heatmapDates,
+    resolveBookingAvailability,
+    type StayShape,
+} from "@/lib/checkout/date-heatmap";
+import { composeZonedISO } from "@/lib/feasibility/compose-datetime";
+
+/**
+ * Day-by-day availability + feasibility for the whole cart over the next
+ * weeks, for the checkout date step's calendar. Feasibility is one request
+ * (probed at the end of the horizon — the floors it returns don't depend on
+ * the date asked about); booking availability is bisected from the first
+ * feasible day on.
+ *
+ * `items` must be memoized by the caller, as for `useFeasibility`.
+ */
+export function useDateHeatmap({
+    items,
+    shape,
+    timezone,
+    enabled = true,
+}: {
+    items: Array<{
+        asset_id: string;
+        quantity: number;
+        maintenance_decision?: MaintenanceDecision;
+    }>;
+    shape: StayShape;
+    timezone: string | null | undefined;
+    enabled?: boolean;
+}) {
+    const today = format(new Date(), "yyyy-MM-dd");
+    const dates = useMemo(() => heatmapDates(new Date(`${today}T00:00:00`)), [today]);
+
+    const feasibilityItems = useMemo(
+        () =>
+            items.map((item) => ({
+                asset_id: item.asset_id,
+                maintenance_decision: item.maintenance_decision,
+            })),
+        [items]
+    );
+    const feasibility = useFeasibility({
+        items: feasibilityItems,
+        eventStartDatetime: composeZonedISO({
+            date: dates[dates.length - 1],
+            time: "12:00",
+            timezone,
+        }),
+        enabled,
+    });
+    const floorDate = interpretFeasibilityPreview(feasibility.data, "").floorDate;
+
+    // No point asking about days the floor already rules out.
+    const bookableDates = useMemo(
+        () => (floorDate ? dates.filter((date) => date >= floorDate) : dates),
+        [dates, floorDate]
+    );
+    const bookingItems = useMemo(
+        () => items.map((item) => ({ asset_id: item.asset_id, quantity: item.quantity })),
+        [items]
+    );
+
+    const booking = useQuery({
+        queryKey: [
+            "date-heatmap",
+            JSON.stringify(bookingItems),
+            bookableDates[0] ?? null,
+            bookableDates.length,
+            shape.leadInDays,
+            shape.spanDays,
+        ],
+        queryFn: () =>
+            resolveBookingAvailability(
+                bookableDates,
+                bookingItems,
+                shape,
+                fetchAvailabilityPreview
+            ),
+        enabled: enabled && items.length > 0 && feasibility.isFetched,
+        staleTime: 60_000,
+        gcTime: 5 * 60_000,
+        retry: false,
+    });
+
+    const days = useMemo(
+        () => buildHeatmap(dates, today, feasibility.data, booking.data),
+        [dates, today, feasibility.data, booking.data]
+    );
+
+    return {
+        days,
+        isLoading: feasibility.isLoading || booking.isLoading,
+        isError: feasibility.isError || booking.isError,
+    };
+}
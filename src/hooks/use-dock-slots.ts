@@ -0,0 +1,155 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api/api-client";
+import type { DockSlot, DockSlotHold, DockSlotPurpose } from "@/lib/feasibility/dock-slots";
+import { throwApiError } from "@/lib/utils/throw-api-error";
+
+export const dockSlotKeys = {
+    all: ["dock-slots"] as const,
+    list: (purpose: DockSlotPurpose, from: string, days: number) =>
+        ["dock-slots", purpose, from, days] as const,
+};
+
+/**
+ * Dock slots with remaining capacity, `days` days from `from` (YYYY-MM-DD,
+ * platform timezone). Polled while open so capacity taken by other clients
+ * shows up before the user picks a full slot.
+ */
+export function useDockSlots({
+    purpose,
+    from,
+    days,
+    enabled = true,
+}: {
+    purpose: DockSlotPurpose;
+    from: string;
+    days: number;
+    enabled?: boolean;
+}) {
+    return useQuery({
+        queryKey: dockSlotKeys.list(purpose, from, days),
+        queryFn: async (): Promise<DockSlot[]> => {
+            try {
+                const response = await apiClient.get(
+                    `/client/v1/self-pickup/dock-slots?purpose=${purpose}&from=${from}&days=${days}`
+                );
+                return response.data?.data ?? [];
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        enabled: enabled && !!from,
+        refetchInterval: 60 * 1000,
+    });
+}
+
+export interface DockSlotHoldController {
+    purpose: DockSlotPurpose;
+    hold: DockSlotHold | null;
+    // The last hold ran out before it was used.
+    expired: boolean;
+    isHolding: boolean;
+    holdSlot: (slot: DockSlot) => Promise<DockSlotHold>;
+    release: () => void;
+    // The hold was consumed by a submit; forget it without releasing it.
+    keep: () => void;
+}
+
+/**
+ * Holds one dock slot for a few minutes while a booking is finished. Picking
+ * another slot swaps the hold; the hold is released when the owner unmounts
+ * unless `keep()` handed it over to a submitted booking. The caller that owns
+ * this must outlive the picker (a checkout step unmounting shouldn't drop
+ * the hold). `onLost` runs when the hold lapses or is released, so a draft
+ * carrying its id can drop it.
+ */
+export function useDockSlotHold(
+    purpose: DockSlotPurpose,
+    { selfPickupId, onLost }: { selfPickupId?: string; onLost?: (hold: DockSlotHold) => void } = {}
+): DockSlotHoldController {
+    const queryClient = useQueryClient();
+    const [hold, setHold] = useState<DockSlotHold | null>(null);
+    const [expired, setExpired] = useState(false);
+    const [isHolding, setIsHolding] = useState(false);
+    const holdRef = useRef<DockSlotHold | null>(null);
+    const onLostRef = useRef(onLost);
+    onLostRef.current = onLost;
+
+    const setCurrent = useCallback((next: DockSlotHold | null) => {
+        holdRef.current = next;
+        setHold(next);
+    }, []);
+
+    const releaseHold = useCallback((target: DockSlotHold) => {
+        apiClient.delete(`/client/v1/self-pickup/dock-slots/holds/${target.hold_id}`).catch(() => {
+            // Unreleased holds lapse on their own.
+        });
+    }, []);
+
+    const release = useCallback(() => {
+        const current = holdRef.current;
+        if (!current) return;
+        setCurrent(null);
+        releaseHold(current);
+        onLostRef.current?.(current);
+        queryClient.invalidateQueries({ queryKey: dockSlotKeys.all });
+    }, [queryClient, releaseHold, setCurrent]);
+
+    const holdSlot = useCallback(
+        async (slot: DockSlot) => {
+            setIsHolding(true);
+            try {
+                const response = await apiClient.post("/client/v1/self-pickup/dock-slots/holds", {
+                    purpose,
+                    start: slot.start,
+                    end: slot.end,
+                    ...(selfPickupId ? { self_pickup_id: selfPickupId } : {}),
+                });
+                const next = response.data?.data as DockSlotHold;
+                const previous = holdRef.current;
+                if (previous && previous.hold_id !== next.hold_id) releaseHold(previous);
+                setExpired(false);
+                setCurrent(next);
+                return next;
+            } catch (error) {
+                return throwApiError(error) as never;
+            } finally {
+                setIsHolding(false);
+                queryClient.invalidateQueries({ queryKey: dockSlotKeys.all });
+            }
+        },
+        [purpose, queryClient, releaseHold, selfPickupId, setCurrent]
+    );
+
+    const keep = useCallback(() => {
+        setCurrent(null);
+        setExpired(false);
+    }, [setCurrent]);
+
+    // Drop the hold when it lapses so nothing submits against it.
+    useEffect(() => {
+        if (!hold) return;
+        const timer = setTimeout(
+            () => {
+                if (holdRef.current?.hold_id !== hold.hold_id) return;
+                setCurrent(null);
+                setExpired(true);
+                onLostRef.current?.(hold);
+                queryClient.invalidateQueries({ queryKey: dockSlotKeys.all });
+            },
+            Math.max(new Date(hold.expires_at).getTime() - Date.now(), 0)
+        );
+        return () => clearTimeout(timer);
+    }, [hold, queryClient, setCurrent]);
+
+    useEffect(
+        () => () => {
+            if (holdRef.current) releaseHold(holdRef.current);
+        },
+        [releaseHold]
+    );
+
+    return { purpose, hold, expired, isHolding, holdSlot, release, keep };
+}
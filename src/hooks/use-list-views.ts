@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api/api-client";
+import {
+    readListFilters,
+    writeListFilters,
+    type ListFilters,
+    type ListViewScope,
+    type SavedListView,
+    type SavedListViewInput,
+} from "@/lib/list-views";
+import { throwApiError } from "@/lib/utils/throw-api-error";
+
+export const savedViewKeys = {
+    all: ["saved-views"] as const,
+    list: (scope: ListViewScope) => ["saved-views", scope] as const,
+};
+
+/**
+ * List filters read from and written to the URL query string. `keys` must be
+ * a stable (module-level) array. Writes replace the history entry so typing
+ * in a search box doesn't fill the back button.
+ */
+export function useUrlListFilters(keys: readonly string[]) {
+    const router = useRouter();
+    const pathname = usePathname();
+    const searchParams = useSearchParams();
+
+    const filters = useMemo(() => readListFilters(searchParams, keys), [searchParams, keys]);
+
+    const setFilters = useCallback(
+        (patch: Partial<ListFilters>) => {
+            const next = writeListFilters(
+                new URLSearchParams(searchParams.toString()),
+                keys,
+                patch
+            );
+            const query = next.toString();
+            router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+        },
+        [keys, pathname, router, searchParams]
+    );
+
+    // Swap the whole filter set, e.g. when a saved view is applied.
+    const replaceFilters = useCallback(
+        (nextFilters: ListFilters) =>
+            setFilters(Object.fromEntries(keys.map((key) => [key, nextFilters[key] ?? ""]))),
+        [keys, setFilters]
+    );
+
+    return { filters, setFilters, replaceFilters };
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * A text filter typed into a box. The input edits local state and the URL is
+ * written once typing pauses, so keystrokes never wait on a `router.replace`
+ * (which drops characters). Outside changes to `value` — a view applied,
+ * filters cleared — replace whatever is being typed.
+ */
+export function useDebouncedFilterInput(value: string, onCommit: (value: string) => void) {
+    const [draft, setDraft] = useState(value);
+    // Last value written (or seen in the URL); our own writes echoing back
+    // through `value` must not reset the box mid-typing.
+    const committed = useRef(value);
+    const commitRef = useRef(onCommit);
+    commitRef.current = onCommit;
+
+    useEffect(() => {
+        if (value === committed.current) return;
+        committed.current = value;
+        setDraft(value);
+    }, [value]);
+
+    useEffect(() => {
+        if (draft === committed.current) return;
+        const timer = setTimeout(() => {
+            committed.current = draft;
+            commitRef.current(draft);
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [draft]);
+
+    return [draft, setDraft] as const;
+}
+
+export function useSavedViews(scope: ListViewScope) {
+    return useQuery({
+        queryKey: savedViewKeys.list(scope),
+        queryFn: async (): Promise<SavedListView[]> => {
+            try {
+                const response = await apiClient.get(`/client/v1/saved-views?scope=${scope}`);
+                return response.data?.data ?? [];
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        staleTime: 5 * 60 * 1000,
+    });
+}
+
+export function useCreateSavedView() {
+    const qc = useQueryClient();
+    return useMutation({
+        mutationFn: async (input: SavedListViewInput): Promise<SavedListView> => {
+            try {
+                const response = await apiClient.post("/client/v1/saved-views", input);
+                return response.data?.data;
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        onSuccess: (_view, input) => {
+            qc.invalidateQueries({ queryKey: savedViewKeys.list(input.scope) });
+        },
+    });
+}
+
+/**
+ * Rename, pin/unpin or (un)set as default. The server keeps at most one
+ * default per user and scope, so the whole list is refetched afterwards.
+ */
+export function useUpdateSavedView() {
+    const qc = useQueryClient();
+    return useMutation({
+        mutationFn: async ({
+            view,
+            changes,
+        }: {
+            view: SavedListView;
+            changes: Partial<Pick<SavedListView, "name" | "pinned" | "is_default" | "filters">>;
+        }): Promise<SavedListView> => {
+            try {
+                const response = await apiClient.patch(
+                    `/client/v1/saved-views/${view.id}`,
+                    changes
+                );
+                return response.data?.data;
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        onSuccess: (_view, { view }) => {
+            qc.invalidateQueries({ queryKey: savedViewKeys.list(view.scope) });
+        },
+    });
+}
+
+export function useDeleteSavedView() {
+    const qc = useQueryClient();
+    return useMutation({
+        mutationFn: async (view: SavedListView) => {
+            try {
+                await apiClient.delete(`/client/v1/saved-views/${view.id}`);
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        onSuccess: (_result, view) => {
+            qc.invalidateQueries({ queryKey: savedViewKeys.list(view.scope) });
+        },
+    });
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api/api-client";
+import { planLoad, type VehicleTypeSpec } from "@/lib/cart/load-planner";
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+
+/**
+ * Vehicle types the platform prices transport for, with their load limits.
+ */
+export function useVehicleTypes({ enabled = true }: { enabled?: boolean } = {}) {
+    return useQuery({
+        queryKey: ["vehicle-types"],
+        queryFn: async (): Promise<VehicleTypeSpec[]> => {
+            const response = await apiClient.get("/client/v1/order/vehicle-types");
+            return response.data?.data ?? [];
+        },
+        enabled,
+        staleTime: 5 * 60 * 1000, // 5 minutes
+    });
+}
+
+/**
+ * Load plan for a set of cart items. Null until vehicle types have loaded.
+ */
+export function useLoadPlan(
+    items: LocalCartItem[],
+    { enabled = true }: { enabled?: boolean } = {}
+) {
+    const { data: vehicleTypes, isLoading } = useVehicleTypes({ enabled });
+    const plan = useMemo(
+        () => (vehicleTypes && vehicleTypes.length > 0 ? planLoad(items, vehicleTypes) : null),
+        [items, vehicleTypes]
+    );
+    return { plan, isLoading };
+}
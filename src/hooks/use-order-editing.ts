@@ -98,6 +98,7 @@ export function useUpdateOrderDetails(orderId: string) {
             queryClient.invalidateQueries({ queryKey: ["client-order-detail"] });
             queryClient.invalidateQueries({ queryKey: ["client-orders"] });
             queryClient.invalidateQueries({ queryKey: ["client-dashboard-summary"] });
+            queryClient.invalidateQueries({ queryKey: ["entity-revisions", "ORDER"] });
         },
     });
 }
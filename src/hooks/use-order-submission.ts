@@ -5,7 +5,7 @@
  * Handles order creation with hybrid pricing and rebrand support
  */
 
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
 import { submitOrder, calculateEstimate } from "@/lib/api/order-api";
 import type { TripType } from "@/types/hybrid-pricing";
 
@@ -53,20 +53,22 @@ interface OrderSubmissionData {
     brandId?: string;
 }
 
-/**
- * Calculate order estimate
- */
-export function useCalculateEstimate(
+type EstimateVehicles = Array<{ vehicle_type: string; count: number }>;
+
+// Shared by the single estimate and the scenario table, so picking a
+// scenario reuses the estimate already fetched for it.
+function estimateQuery(
     cart: CartItem[],
     venueCity: string,
     tripType: TripType,
-    enabled: boolean = true
+    vehicles?: EstimateVehicles
 ) {
     // Create a stable key from cart items (assetId + quantity)
     const cartKey = cart.map((item) => `${item.assetId}:${item.quantity}`).join(",");
+    const vehicleKey = vehicles?.map((v) => `${v.vehicle_type}:${v.count}`).join(",") ?? "";
 
-    return useQuery({
-        queryKey: ["order-estimate", cartKey, venueCity, tripType],
+    return {
+        queryKey: ["order-estimate", cartKey, venueCity, tripType, vehicleKey],
         queryFn: async () => {
             if (cart.length === 0 || !venueCity) {
                 return null;
@@ -81,12 +83,46 @@ export function useCalculateEstimate(
                 items,
                 venue_city: venueCity,
                 trip_type: tripType,
+                ...(vehicles && vehicles.length > 0 ? { vehicles } : {}),
             });
         },
+    };
+}
+
+/**
+ * Calculate order estimate
+ */
+export function useCalculateEstimate(
+    cart: CartItem[],
+    venueCity: string,
+    tripType: TripType,
+    enabled: boolean = true,
+    vehicles?: EstimateVehicles
+) {
+    return useQuery({
+        ...estimateQuery(cart, venueCity, tripType, vehicles),
         enabled: enabled && cart.length > 0 && !!venueCity,
     });
 }
 
+/**
+ * One estimate per scenario, in the scenarios' order.
+ */
+export function useEstimateScenarios(
+    cart: CartItem[],
+    venueCity: string,
+    scenarios: Array<{ tripType: TripType; vehicles: EstimateVehicles }>,
+    enabled: boolean = true
+) {
+    return useQueries({
+        queries: scenarios.map((scenario) => ({
+            ...estimateQuery(cart, venueCity, scenario.tripType, scenario.vehicles),
+            enabled: enabled && cart.length > 0 && !!venueCity,
+            staleTime: 60 * 1000,
+        })),
+    });
+}
+
 /**
  * Submit order
  */
@@ -15,7 +15,9 @@ import type {
     MyOrdersListParams,
     MyOrdersListResponse,
 } from "@/types/order";
+import { useSubmissionQueue, type CartSubmission } from "@/contexts/submission-queue-context";
 import { apiClient } from "@/lib/api/api-client";
+import type { OrderSubmitResponse } from "@/lib/api/submission-api";
 import { throwApiError } from "@/lib/utils/throw-api-error";
 
 // ============================================================
@@ -50,23 +52,18 @@ export function useSubmitOrder(draftId: string) {
 }
 
 /**
- * Submit order directly from cart (no draft)
+ * Submit order directly from cart (no draft). Goes through the submission
+ * queue, so the attempt's idempotency key rides along and a dropped
+ * connection keeps retrying rather than failing.
  */
 export function useSubmitOrderFromCart() {
     const queryClient = useQueryClient();
+    const { submit } = useSubmissionQueue();
 
     return useMutation({
-        mutationFn: async (data: any) => {
-            try {
-                const response = await apiClient.post("/client/v1/order/submit-from-cart", data);
-                const payload = response.data?.data || {};
-                return {
-                    ...payload,
-                    orderId: payload.order_id,
-                };
-            } catch (error) {
-                throwApiError(error);
-            }
+        mutationFn: async (submission: CartSubmission) => {
+            const { raw } = await submit({ kind: "order", ...submission });
+            return raw as OrderSubmitResponse;
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ["orders"] });
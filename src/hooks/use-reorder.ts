@@ -0,0 +1,136 @@
+"use client";
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+    fetchAvailabilityPreview,
+    type AvailabilityReasonCode,
+} from "@/hooks/use-availability-preview";
+import { fetchCatalogAsset } from "@/hooks/use-catalog";
+import {
+    useClientAssetCategories,
+    type ClientAssetCategory,
+} from "@/hooks/use-client-asset-categories";
+import { useApplySharedCart, type SharedCartApplyMode } from "@/hooks/use-shared-cart";
+import { useDiscardCheckoutDraft } from "@/hooks/use-checkout-draft";
+import { suggestFor } from "@/hooks/use-substitutes";
+import { getAccessToken } from "@/lib/api/api-client";
+import type { SharedCartLine } from "@/lib/api/cart-api";
+import { applicableChoices, type ReorderSource } from "@/lib/cart/reorder";
+import type { SubstituteCandidate } from "@/lib/cart/substitutes";
+import { saveCheckoutCheckpoint, type AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+
+const LOOKUP_CONCURRENCY = 4;
+
+export interface ReorderCheckLine {
+    // The source line, with choices that no longer apply dropped.
+    line: SharedCartLine;
+    // Set when the line can't be supplied as-is for the new dates.
+    reasonCode: AvailabilityReasonCode | null;
+    availableQuantity: number;
+    substitutes: SubstituteCandidate[];
+}
+
+async function checkLines(
+    lines: SharedCartLine[],
+    window: AvailabilityWindow | null,
+    categories: ClientAssetCategory[]
+): Promise<ReorderCheckLine[]> {
+    const availability = await fetchAvailabilityPreview(
+        lines.map((line) => ({ asset_id: line.assetId, quantity: line.quantity })),
+        window
+    );
+    const byAsset = new Map(availability.items.map((item) => [item.asset_id, item]));
+    // A stand-in shouldn't duplicate another line of the same reorder.
+    const lineAssetIds = new Set(lines.map((line) => line.assetId));
+
+    const checked: ReorderCheckLine[] = new Array(lines.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < lines.length) {
+            const index = next++;
+            const line = lines[index];
+            const status = byAsset.get(line.assetId);
+            const asset = await fetchCatalogAsset(line.assetId)
+                .then((response) => response.asset)
+                .catch(() => null);
+
+            const reasonCode: AvailabilityReasonCode | null = !asset
+                ? (status?.reason_code ?? "NOT_FOUND")
+                : status && !status.is_available
+                  ? (status.reason_code ?? "INSUFFICIENT_QUANTITY")
+                  : null;
+
+            checked[index] = {
+                line: asset
+                    ? applicableChoices(line, {
+                          condition: asset.condition,
+                          brandId: asset.brand?.id ?? null,
+                      })
+                    : line,
+                reasonCode,
+                availableQuantity: status?.available_quantity ?? 0,
+                substitutes: reasonCode
+                    ? (
+                          await suggestFor(
+                              { assetId: line.assetId, quantity: line.quantity },
+                              { excludeAssetIds: lineAssetIds, categories, window }
+                          ).catch(() => ({ substitutes: [] }))
+                      ).substitutes
+                    : [],
+            };
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, lines.length) }, worker));
+    return checked;
+}
+
+/**
+ * Check a reorder's lines against the catalog and the new booking window
+ * (current stock when there is none yet). Lines that are deleted,
+ * transformed, in maintenance or short come back with substitutes.
+ */
+export function useReorderCheck(source: ReorderSource | null, window: AvailabilityWindow | null) {
+    const categories = useClientAssetCategories();
+
+    return useQuery({
+        queryKey: [
+            "reorder-check",
+            source?.kind ?? null,
+            source?.reference ?? null,
+            window?.start ?? null,
+            window?.end ?? null,
+        ],
+        queryFn: () => checkLines(source?.lines ?? [], window, categories.data ?? []),
+        enabled: !!source && source.lines.length > 0 && !categories.isLoading,
+        staleTime: 30_000,
+        retry: false,
+    });
+}
+
+/**
+ * Put the chosen lines in the cart (the drawer opens on them) and leave a
+ * checkout checkpoint with the shifted prefill, so /checkout starts from it.
+ * Any server draft is dropped — it belongs to the checkout this replaces,
+ * and would otherwise raise the device-conflict prompt.
+ */
+export function useApplyReorder() {
+    const applyLines = useApplySharedCart();
+    const discardDraft = useDiscardCheckoutDraft();
+
+    return useMutation({
+        mutationFn: async ({
+            lines,
+            mode,
+            form,
+        }: {
+            lines: SharedCartLine[];
+            mode: SharedCartApplyMode;
+            form: Record<string, unknown>;
+        }) => {
+            const result = await applyLines.mutateAsync({ lines, mode });
+            saveCheckoutCheckpoint({ step: "cart", form, modeConfirmed: false });
+            if (getAccessToken()) await discardDraft.mutateAsync().catch(() => undefined);
+            return result;
+        },
+    });
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api/api-client";
+import type { EntityRevision, RevisionEntityType } from "@/lib/revisions";
+import { throwApiError } from "@/lib/utils/throw-api-error";
+
+export const revisionKeys = {
+    all: ["entity-revisions"] as const,
+    list: (entityType: RevisionEntityType, id: string | null) =>
+        ["entity-revisions", entityType, id] as const,
+};
+
+const REVISIONS_PATH: Record<RevisionEntityType, string> = {
+    ORDER: "/client/v1/order",
+    SELF_PICKUP: "/client/v1/self-pickup",
+};
+
+/**
+ * Saved edits on an order or self-pickup, oldest first. `id` is the record
+ * UUID (`order.id` / `pickup.id`), the same one the edit PATCH takes.
+ */
+export function useRevisions(entityType: RevisionEntityType, id: string | null) {
+    return useQuery({
+        queryKey: revisionKeys.list(entityType, id),
+        queryFn: async (): Promise<EntityRevision[]> => {
+            try {
+                const response = await apiClient.get(
+                    `${REVISIONS_PATH[entityType]}/${id}/revisions`
+                );
+                return response.data?.data ?? [];
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        enabled: !!id,
+    });
+}
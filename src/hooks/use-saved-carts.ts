@@ -0,0 +1,25 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { fetchSavedCarts } from "@/lib/api/cart-api";
+
+export const savedCartKeys = {
+    list: () => ["saved-carts"] as const,
+    detail: (id: string | null) => ["saved-cart", id] as const,
+    shared: (token: string) => ["shared-cart", token] as const,
+};
+
+/**
+ * Named carts visible to the current user (own + shared by teammates).
+ * Mutations live on `CartProvider` — it owns the active cart and has to keep
+ * the localStorage cache, cross-tab sync and server copy in step — so they
+ * invalidate `savedCartKeys.list()` themselves.
+ */
+export function useSavedCarts({ enabled = true }: { enabled?: boolean } = {}) {
+    return useQuery({
+        queryKey: savedCartKeys.list(),
+        queryFn: fetchSavedCarts,
+        enabled,
+        staleTime: 30_000,
+    });
+}
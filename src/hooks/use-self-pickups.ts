@@ -1,8 +1,13 @@
 "use client";
 
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSubmissionQueue, type CartSubmission } from "@/contexts/submission-queue-context";
 import { apiClient } from "@/lib/api/api-client";
+import type { SelfPickupSubmitResponse } from "@/lib/api/submission-api";
+import type { ConversionResult, ConvertToOrderPayload } from "@/lib/checkout/fulfilment-conversion";
+import type { CreateSelfPickupReturnPayload, SelfPickupReturn } from "@/lib/self-pickup-returns";
 import { throwApiError } from "@/lib/utils/throw-api-error";
+import { uploadImages } from "@/lib/utils/upload-images";
 
 export const selfPickupKeys = {
     list: (params?: Record<string, unknown>) => ["client-self-pickups", params] as const,
@@ -47,20 +52,66 @@ export function useClientSelfPickupDetail(id: string | null, opts: { company?: b
     });
 }
 
+export interface CollectorPass {
+    // Server-signed reference to the pickup; the QR encodes it verbatim and
+    // the warehouse scanner verifies it.
+    token: string;
+    issued_at?: string;
+}
+
+/**
+ * Signed reference for the collector pass. Keyed on the collector and window
+ * as well as the pickup, so editing either issues a fresh pass; it sits
+ * under the detail key, so detail invalidations refresh it too.
+ */
+export function useSelfPickupCollectorPass(
+    pickup: {
+        id: string;
+        collector_name?: string | null;
+        collector_id_reference?: string | null;
+        pickup_window?: { start?: string | null; end?: string | null } | null;
+    } | null,
+    opts: { company?: boolean; enabled?: boolean } = {}
+) {
+    const company = !!opts.company;
+    return useQuery({
+        queryKey: [
+            ...selfPickupKeys.detail(pickup?.id ?? null),
+            company,
+            "collector-pass",
+            pickup?.collector_name ?? null,
+            pickup?.collector_id_reference ?? null,
+            pickup?.pickup_window?.start ?? null,
+            pickup?.pickup_window?.end ?? null,
+        ],
+        queryFn: async (): Promise<CollectorPass> => {
+            const path = company
+                ? `/client/v1/company/self-pickup/${pickup!.id}/collector-pass`
+                : `/client/v1/self-pickup/${pickup!.id}/collector-pass`;
+            try {
+                const response = await apiClient.get(path);
+                return response.data?.data as CollectorPass;
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        enabled: !!pickup?.id && opts.enabled !== false,
+        staleTime: Infinity,
+    });
+}
+
+// Queued like order submits — see useSubmitOrderFromCart.
 export function useSubmitSelfPickupFromCart() {
     const qc = useQueryClient();
+    const { submit } = useSubmissionQueue();
     return useMutation({
-        mutationFn: async (payload: any) => {
-            const { data } = await apiClient.post(
-                "/client/v1/self-pickup/submit-from-cart",
-                payload
-            );
-            return data;
+        mutationFn: async (submission: CartSubmission) => {
+            const { raw } = await submit({ kind: "self_pickup", ...submission });
+            return raw as SelfPickupSubmitResponse;
         },
         onSuccess: () => {
             qc.invalidateQueries({ queryKey: ["client-self-pickups"] });
         },
-        onError: throwApiError,
     });
 }
 
@@ -107,18 +158,46 @@ export function useClientDeclineSelfPickupQuote() {
     });
 }
 
-export function useTriggerSelfPickupReturn() {
+/**
+ * Book a return trip for some or all of a pickup's outstanding units. Photos
+ * of declared damage or loss are uploaded first and attached to their lines.
+ * Can be called again for later trips until nothing is outstanding.
+ */
+export function useCreateSelfPickupReturn() {
     const qc = useQueryClient();
     return useMutation({
-        mutationFn: async (id: string) => {
-            const { data } = await apiClient.post(`/client/v1/self-pickup/${id}/trigger-return`);
-            return data;
+        mutationFn: async ({
+            id,
+            payload,
+            photos = {},
+        }: {
+            id: string;
+            payload: CreateSelfPickupReturnPayload;
+            // Keyed by self_pickup_item id.
+            photos?: Record<string, File[]>;
+        }): Promise<SelfPickupReturn> => {
+            try {
+                const lines = await Promise.all(
+                    payload.lines.map(async (line) => {
+                        const files = photos[line.self_pickup_item_id] ?? [];
+                        if (files.length === 0) return line;
+                        const urls = await uploadImages({ files, profile: "photo" });
+                        return { ...line, photos: [...(line.photos ?? []), ...urls] };
+                    })
+                );
+                const response = await apiClient.post(`/client/v1/self-pickup/${id}/returns`, {
+                    ...payload,
+                    lines,
+                });
+                return response.data?.data as SelfPickupReturn;
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
         },
         onSuccess: () => {
             qc.invalidateQueries({ queryKey: ["client-self-pickups"] });
             qc.invalidateQueries({ queryKey: ["client-self-pickup"] });
         },
-        onError: throwApiError,
     });
 }
 
@@ -138,12 +217,16 @@ export interface SelfPickupEditPayload {
     collector_name?: string;
     collector_phone?: string;
     collector_email?: string | null;
+    // ID document reference the warehouse checks on the collector pass.
+    collector_id_reference?: string | null;
     notes?: string | null;
     special_instructions?: string | null;
     is_permanent_placement?: boolean;
     po_number?: string | null;
     // Booking-window drivers (ISO strings). expected_return_at is clearable (null).
     pickup_window?: { start: string; end: string };
+    // Hold on the dock slot the new pickup_window was picked from.
+    slot_hold_id?: string;
     expected_return_at?: string | null;
     // Item ops — same op model as orders. SP surfaces ORANGE assets, so an ADD may
     // carry the client's in-picker maintenance_decision:
@@ -189,6 +272,37 @@ export function useUpdateSelfPickupDetails(id: string) {
             // the whole detail family instead.
             qc.invalidateQueries({ queryKey: ["client-self-pickup"] });
             qc.invalidateQueries({ queryKey: ["client-self-pickups"] });
+            qc.invalidateQueries({ queryKey: ["entity-revisions", "SELF_PICKUP"] });
+        },
+    });
+}
+
+// Switch a self-pickup to a delivery order; the server carries the items
+// over, cancels the pickup and links the two records.
+export function useConvertSelfPickupToOrder() {
+    const qc = useQueryClient();
+    return useMutation({
+        mutationFn: async ({
+            id,
+            payload,
+        }: {
+            id: string;
+            payload: ConvertToOrderPayload;
+        }): Promise<ConversionResult> => {
+            try {
+                const response = await apiClient.post(
+                    `/client/v1/self-pickup/${id}/convert-to-order`,
+                    payload
+                );
+                return response.data?.data as ConversionResult;
+            } catch (error) {
+                return throwApiError(error) as never;
+            }
+        },
+        onSuccess: () => {
+            qc.invalidateQueries({ queryKey: ["client-self-pickup"] });
+            qc.invalidateQueries({ queryKey: ["client-self-pickups"] });
+            qc.invalidateQueries({ queryKey: ["client-orders"] });
         },
     });
 }
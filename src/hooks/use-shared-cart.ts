@@ -0,0 +1,115 @@
+"use client";
+
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useCart } from "@/contexts/cart-context";
+import { fetchCatalogAsset } from "@/hooks/use-catalog";
+import { savedCartKeys } from "@/hooks/use-saved-carts";
+import {
+    createCartShareLink,
+    fetchSharedCart,
+    toSharedCartLine,
+    type SharedCartLine,
+} from "@/lib/api/cart-api";
+import { cartDetails } from "@/lib/cart/cart-details";
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+
+const LOOKUP_CONCURRENCY = 4;
+
+export type SharedCartApplyMode = "merge" | "replace";
+
+export function sharedCartUrl(token: string) {
+    return `${window.location.origin}/cart/shared/${token}`;
+}
+
+export function useSharedCart(token: string) {
+    return useQuery({
+        queryKey: savedCartKeys.shared(token),
+        queryFn: () => fetchSharedCart(token),
+        enabled: !!token,
+        retry: false,
+    });
+}
+
+/**
+ * Create a share link for the current cart lines.
+ */
+export function useCreateCartShareLink() {
+    return useMutation({
+        mutationFn: async (items: LocalCartItem[]) => {
+            const link = await createCartShareLink(items.map(toSharedCartLine));
+            return { ...link, url: sharedCartUrl(link.token) };
+        },
+    });
+}
+
+/**
+ * Bring a shared cart into the recipient's cart. Catalog details are
+ * re-read for each line (the link only carries the sender's choices), then
+ * lines go through the usual `addItem` / `addItemWithRebrand` paths — so
+ * merging adds quantities to lines already in the cart, and the whole apply
+ * is one undo step. Lines whose asset can no longer be loaded are skipped
+ * and reported back.
+ */
+export function useApplySharedCart() {
+    const { addItem, addItemWithRebrand, clearCart, openCart } = useCart();
+
+    return useMutation({
+        mutationFn: async ({
+            lines,
+            mode,
+        }: {
+            lines: SharedCartLine[];
+            mode: SharedCartApplyMode;
+        }) => {
+            const details: Array<Partial<LocalCartItem> | null> = new Array(lines.length);
+            let next = 0;
+            const worker = async () => {
+                while (next < lines.length) {
+                    const index = next++;
+                    details[index] = await fetchCatalogAsset(lines[index].assetId)
+                        .then(({ asset }) => cartDetails(asset))
+                        .catch(() => null);
+                }
+            };
+            await Promise.all(
+                Array.from({ length: Math.min(LOOKUP_CONCURRENCY, lines.length) }, worker)
+            );
+
+            const skipped = lines.filter((_, index) => details[index] === null);
+            if (skipped.length === lines.length) {
+                throw new Error("None of these items are available any more");
+            }
+
+            if (mode === "replace") clearCart();
+            lines.forEach((line, index) => {
+                const assetDetails = details[index];
+                if (!assetDetails) return;
+                const withChoices = {
+                    ...assetDetails,
+                    maintenanceDecision: line.maintenanceDecision,
+                    eventArea: line.eventArea,
+                    note: line.note,
+                };
+                if (line.isReskinRequest) {
+                    addItemWithRebrand(
+                        line.assetId,
+                        line.quantity,
+                        withChoices,
+                        {
+                            isReskinRequest: true,
+                            reskinTargetBrandId: line.reskinTargetBrandId,
+                            reskinTargetBrandCustom: line.reskinTargetBrandCustom,
+                            reskinNotes: line.reskinNotes,
+                        },
+                        { silent: true }
+                    );
+                } else {
+                    addItem(line.assetId, line.quantity, withChoices, { silent: true });
+                }
+            });
+            openCart();
+
+            return { added: lines.length - skipped.length, skipped };
+        },
+    });
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useCart } from "@/contexts/cart-context";
+import {
+    fetchAvailabilityPreview,
+    type AvailabilityPreviewItem,
+} from "@/hooks/use-availability-preview";
+import { fetchCatalog, fetchCatalogAsset } from "@/hooks/use-catalog";
+import {
+    useClientAssetCategories,
+    type ClientAssetCategory,
+} from "@/hooks/use-client-asset-categories";
+import { cartDetails, catalogAssetCartDetails } from "@/lib/cart/cart-details";
+import {
+    rankSubstitutes,
+    type Dimensions,
+    type SubstituteCandidate,
+    type SubstituteReference,
+} from "@/lib/cart/substitutes";
+import type { AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+import type { CatalogItem } from "@/types/collection";
+
+// Ranked candidates re-checked against the window per blocked line, and how
+// many of the available ones are offered.
+const CANDIDATES_TO_CHECK = 8;
+const MAX_SUBSTITUTES = 3;
+const CATALOG_PAGE_SIZE = 24;
+
+export interface SubstituteSuggestion {
+    // The blocked cart line.
+    assetId: string;
+    familyId: string | null;
+    nextAvailableDate?: string;
+    substitutes: SubstituteCandidate[];
+}
+
+// A line that can't be booked as it is, as far as finding stand-ins goes.
+export interface BlockedLine {
+    assetId: string;
+    quantity: number;
+    // What the line itself recorded, for assets that no longer have a detail.
+    category?: string;
+    dimensions?: Dimensions;
+}
+
+function dimensionsOf(source: {
+    dimensionLength: string | number;
+    dimensionWidth: string | number;
+    dimensionHeight: string | number;
+}) {
+    return {
+        length: Number(source.dimensionLength) || 0,
+        width: Number(source.dimensionWidth) || 0,
+        height: Number(source.dimensionHeight) || 0,
+    };
+}
+
+// Catalog list results as candidates, families flattened to their stock
+// records (the cart-able assets).
+function toCandidates(items: CatalogItem[]): SubstituteCandidate[] {
+    const candidates: SubstituteCandidate[] = [];
+    for (const item of items) {
+        if (item.type === "asset") {
+            candidates.push({
+                assetId: item.id,
+                name: item.name,
+                familyId: item.groupId ?? null,
+                category: item.category ?? "",
+                brandId: item.brand?.id ?? null,
+                availableQuantity: item.availableQuantity,
+                dimensions: dimensionsOf(item),
+                details: catalogAssetCartDetails(item),
+            });
+        } else if (item.type === "group") {
+            for (const sibling of item.siblings) {
+                candidates.push({
+                    assetId: sibling.id,
+                    name: sibling.name,
+                    familyId: sibling.groupId ?? item.groupId ?? null,
+                    category: sibling.category || item.category || "",
+                    brandId: sibling.brand?.id ?? null,
+                    availableQuantity: sibling.availableQuantity,
+                    dimensions: dimensionsOf(sibling),
+                    details: cartDetails(sibling),
+                });
+            }
+        }
+    }
+    return candidates;
+}
+
+/**
+ * In-stock stand-ins for `blocked`, best first: ranked by `rankSubstitutes`,
+ * then re-checked against the booking window at the line's quantity. The
+ * cart, checkout and reorder all go through this so they offer the same
+ * alternatives. `excludeAssetIds` can't be offered (already in the cart).
+ */
+export async function suggestFor(
+    blocked: BlockedLine,
+    {
+        excludeAssetIds,
+        categories,
+        window,
+    }: {
+        excludeAssetIds: Set<string>;
+        categories: ClientAssetCategory[];
+        window: AvailabilityWindow | null;
+    }
+): Promise<{ familyId: string | null; substitutes: SubstituteCandidate[] }> {
+    // Deleted assets have no detail; fall back to what the line recorded.
+    const asset = await fetchCatalogAsset(blocked.assetId)
+        .then((response) => response.asset)
+        .catch(() => null);
+
+    const reference: SubstituteReference = {
+        assetId: blocked.assetId,
+        familyId: asset?.family?.id ?? null,
+        category: asset?.category || blocked.category || "",
+        dimensions: asset
+            ? dimensionsOf(asset)
+            : (blocked.dimensions ?? { length: 0, width: 0, height: 0 }),
+    };
+    const categoryId = categories.find(
+        (category) => category.name.toLowerCase() === reference.category.toLowerCase()
+    )?.id;
+
+    const searches = [
+        asset?.family
+            ? fetchCatalog({
+                  search_term: asset.family.name,
+                  type: "asset",
+                  limit: CATALOG_PAGE_SIZE,
+              })
+            : null,
+        categoryId
+            ? fetchCatalog({ category: categoryId, type: "asset", limit: CATALOG_PAGE_SIZE })
+            : null,
+    ].filter((search) => search !== null);
+    const results = await Promise.all(searches.map((search) => search.catch(() => null)));
+
+    const ranked = rankSubstitutes(
+        reference,
+        toCandidates(results.flatMap((result) => result?.items ?? [])),
+        { exclude: excludeAssetIds, limit: CANDIDATES_TO_CHECK }
+    );
+
+    // "In stock" means bookable for the same window at the line's quantity.
+    const quantity = blocked.quantity;
+    let substitutes: SubstituteCandidate[] = [];
+    if (ranked.length > 0) {
+        const availability = await fetchAvailabilityPreview(
+            ranked.map((candidate) => ({ asset_id: candidate.assetId, quantity })),
+            window
+        );
+        const byAsset = new Map(availability.items.map((item) => [item.asset_id, item]));
+        substitutes = ranked
+            .filter((candidate) => byAsset.get(candidate.assetId)?.is_available)
+            .slice(0, MAX_SUBSTITUTES)
+            .map((candidate) => ({
+                ...candidate,
+                availableQuantity:
+                    byAsset.get(candidate.assetId)?.available_quantity ??
+                    candidate.availableQuantity,
+            }));
+    }
+
+    return { familyId: reference.familyId, substitutes };
+}
+
+/**
+ * In-stock alternatives for each cart line the availability preview blocks:
+ * same family first, then same category at a similar size, each re-checked
+ * against the booking window. Lines are looked up one after another to keep
+ * the catalog fan-out small.
+ */
+export function useSubstituteSuggestions({
+    blockingItems,
+    window,
+    enabled = true,
+}: {
+    blockingItems: AvailabilityPreviewItem[];
+    window: AvailabilityWindow | null;
+    enabled?: boolean;
+}) {
+    const { items } = useCart();
+    const categories = useClientAssetCategories();
+
+    const blockedKey = useMemo(
+        () => blockingItems.map((item) => `${item.asset_id}:${item.requested_quantity ?? ""}`),
+        [blockingItems]
+    );
+    // The lookup reads the cart too: its lines are excluded from the results
+    // and a line's quantity is what a substitute has to cover.
+    const cartKey = useMemo(() => items.map((item) => `${item.assetId}:${item.quantity}`), [items]);
+
+    return useQuery({
+        queryKey: [
+            "substitute-suggestions",
+            JSON.stringify(blockedKey),
+            JSON.stringify(cartKey),
+            window?.start ?? null,
+            window?.end ?? null,
+        ],
+        queryFn: async () => {
+            const cartAssetIds = new Set(items.map((item) => item.assetId));
+            const suggestions: SubstituteSuggestion[] = [];
+            for (const blocked of blockingItems) {
+                const line = items.find((item) => item.assetId === blocked.asset_id);
+                const { familyId, substitutes } = await suggestFor(
+                    {
+                        assetId: blocked.asset_id,
+                        quantity: line?.quantity ?? blocked.requested_quantity ?? 1,
+                        category: line?.category,
+                        dimensions: line && {
+                            length: line.dimensionLength,
+                            width: line.dimensionWidth,
+                            height: line.dimensionHeight,
+                        },
+                    },
+                    { excludeAssetIds: cartAssetIds, categories: categories.data ?? [], window }
+                );
+                suggestions.push({
+                    assetId: blocked.asset_id,
+                    familyId,
+                    nextAvailableDate: blocked.next_available_date,
+                    substitutes,
+                });
+            }
+            return suggestions;
+        },
+        enabled: enabled && blockingItems.length > 0 && !categories.isLoading,
+        staleTime: 60_000,
+        retry: false,
+    });
+}
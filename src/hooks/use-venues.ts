@@ -0,0 +1,102 @@
+"use client";
+
+/**
+ * Company venue library — the address book behind the "saved venue" pickers
+ * in checkout and order editing, and the Venues page.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiClient } from "@/lib/api/api-client";
+import { throwApiError } from "@/lib/utils/throw-api-error";
+import type { SavedVenue, SavedVenueInput } from "@/types/venue";
+
+export const venueKeys = {
+    all: ["venues"] as const,
+    list: (includeArchived: boolean) => [...venueKeys.all, "list", { includeArchived }] as const,
+};
+
+async function fetchVenues(includeArchived: boolean): Promise<SavedVenue[]> {
+    try {
+        const response = await apiClient.get("/client/v1/venue", {
+            params: includeArchived ? { include_archived: true } : undefined,
+        });
+        return (response.data?.data ?? []) as SavedVenue[];
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+async function createVenue(data: SavedVenueInput): Promise<SavedVenue> {
+    try {
+        const response = await apiClient.post("/client/v1/venue", data);
+        return response.data?.data as SavedVenue;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+async function updateVenue({
+    id,
+    data,
+}: {
+    id: string;
+    data: Partial<SavedVenueInput> & { is_archived?: boolean };
+}): Promise<SavedVenue> {
+    try {
+        const response = await apiClient.patch(`/client/v1/venue/${id}`, data);
+        return response.data?.data as SavedVenue;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+/**
+ * Saved venues, alphabetical. Archived venues are left out unless asked for
+ * (the pickers never show them; the Venues page can).
+ */
+export function useVenues({ includeArchived = false }: { includeArchived?: boolean } = {}) {
+    return useQuery({
+        queryKey: venueKeys.list(includeArchived),
+        queryFn: () => fetchVenues(includeArchived),
+        select: (venues) => [...venues].sort((a, b) => a.name.localeCompare(b.name)),
+        staleTime: 60_000,
+    });
+}
+
+export function useCreateVenue() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: createVenue,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: venueKeys.all });
+        },
+    });
+}
+
+export function useUpdateVenue() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: updateVenue,
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: venueKeys.all });
+        },
+    });
+}
+
+/**
+ * Archive or restore. Archiving hides the venue from pickers; orders that
+ * used it are unaffected (they hold their own copy of the address).
+ */
+export function useSetVenueArchived() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ id, archived }: { id: string; archived: boolean }) =>
+            updateVenue({ id, data: { is_archived: archived } }),
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: venueKeys.all });
+        },
+    });
+}
@@ -2,6 +2,7 @@
 
 import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
 import Cookies from "js-cookie";
+import { jwtDecode } from "jwt-decode";
 
 // Token cookie names
 const ACCESS_TOKEN_KEY = "access_token";
@@ -98,6 +99,17 @@ export const getRefreshToken = (): string | undefined => {
     return Cookies.get(REFRESH_TOKEN_KEY);
 };
 
+// Id of the user an access token belongs to; null when signed out or unreadable.
+export const tokenUserId = (accessToken: string | undefined): string | null => {
+    if (!accessToken) return null;
+    try {
+        const claims = jwtDecode<{ id?: string; sub?: string }>(accessToken);
+        return claims.id || claims.sub || null;
+    } catch {
+        return null;
+    }
+};
+
 export const setTokens = (
     accessToken: string,
     refreshToken: string,
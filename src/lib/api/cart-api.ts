@@ -0,0 +1,221 @@
+/**
+ * Saved Cart API Client
+ * Server-persisted named carts. The client owns the item shape — the server
+ * stores `items` verbatim (as `LocalCartItem[]`) so a cart built on one device
+ * rehydrates identically on another. localStorage stays the offline cache.
+ */
+
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+import { throwApiError } from "../utils/throw-api-error";
+import { apiClient } from "./api-client";
+
+export interface SavedCartSummary {
+    id: string;
+    name: string;
+    item_count: number;
+    is_shared: boolean;
+    // False when the cart belongs to a teammate and was shared with the company.
+    is_owner: boolean;
+    owner: { id: string; name: string } | null;
+    updated_at: string;
+    created_at: string;
+}
+
+export interface SavedCart extends SavedCartSummary {
+    items: LocalCartItem[];
+    version: number;
+    // Event areas in display order; absent on carts saved before areas were
+    // stored separately from the lines.
+    areas?: string[];
+}
+
+export interface SavedCartPatch {
+    name?: string;
+    items?: LocalCartItem[];
+    areas?: string[];
+    version?: number;
+    is_shared?: boolean;
+}
+
+/**
+ * List carts visible to the user: their own plus carts teammates shared.
+ */
+export async function fetchSavedCarts(): Promise<SavedCartSummary[]> {
+    try {
+        const response = await apiClient.get("/client/v1/cart");
+        return (response.data?.data ?? []) as SavedCartSummary[];
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+export async function fetchSavedCart(id: string): Promise<SavedCart> {
+    try {
+        const response = await apiClient.get(`/client/v1/cart/${id}`);
+        return response.data?.data as SavedCart;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+export async function createSavedCart(data: {
+    name: string;
+    items: LocalCartItem[];
+    areas?: string[];
+    version: number;
+}): Promise<SavedCart> {
+    try {
+        const response = await apiClient.post("/client/v1/cart", data);
+        return response.data?.data as SavedCart;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+export async function updateSavedCart(id: string, patch: SavedCartPatch): Promise<SavedCart> {
+    try {
+        const response = await apiClient.patch(`/client/v1/cart/${id}`, patch);
+        return response.data?.data as SavedCart;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+export async function duplicateSavedCart(id: string, name: string): Promise<SavedCart> {
+    try {
+        const response = await apiClient.post(`/client/v1/cart/${id}/duplicate`, { name });
+        return response.data?.data as SavedCart;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+export async function deleteSavedCart(id: string): Promise<void> {
+    try {
+        await apiClient.delete(`/client/v1/cart/${id}`);
+    } catch (error) {
+        throwApiError(error);
+    }
+}
+
+// ============================================================
+// Share links
+// ============================================================
+
+/**
+ * The parts of a cart line a share link carries — the choices the sender
+ * made. Catalog details (specs, images, stock) are re-read on open so the
+ * recipient sees current data.
+ */
+export type SharedCartLine = Pick<
+    LocalCartItem,
+    | "assetId"
+    | "assetName"
+    | "quantity"
+    | "isReskinRequest"
+    | "reskinTargetBrandId"
+    | "reskinTargetBrandCustom"
+    | "reskinNotes"
+    | "maintenanceDecision"
+    | "eventArea"
+    | "note"
+>;
+
+export interface CartShareLink {
+    token: string;
+    expires_at: string;
+}
+
+export interface SharedCart {
+    token: string;
+    items: SharedCartLine[];
+    shared_by: { id: string; name: string } | null;
+    created_at: string;
+    expires_at: string;
+}
+
+export function toSharedCartLine(item: LocalCartItem): SharedCartLine {
+    return {
+        assetId: item.assetId,
+        assetName: item.assetName,
+        quantity: item.quantity,
+        isReskinRequest: item.isReskinRequest,
+        reskinTargetBrandId: item.reskinTargetBrandId,
+        reskinTargetBrandCustom: item.reskinTargetBrandCustom,
+        reskinNotes: item.reskinNotes,
+        maintenanceDecision: item.maintenanceDecision,
+        eventArea: item.eventArea,
+        note: item.note,
+    };
+}
+
+/**
+ * Snapshot the given lines behind an opaque token. Links are read-only and
+ * expire server-side; later edits to the sender's cart don't change them.
+ */
+export async function createCartShareLink(items: SharedCartLine[]): Promise<CartShareLink> {
+    try {
+        const response = await apiClient.post("/client/v1/cart/share", { items });
+        return response.data?.data as CartShareLink;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+export async function fetchSharedCart(token: string): Promise<SharedCart> {
+    try {
+        const response = await apiClient.get(`/client/v1/cart/share/${token}`);
+        return response.data?.data as SharedCart;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+// ============================================================
+// Checkout drafts
+// ============================================================
+
+/**
+ * A half-finished checkout, kept next to the cart it was started from so it
+ * can be picked up on another device. Like saved carts, the server stores
+ * `form` verbatim — the checkout page owns its shape.
+ */
+export interface CheckoutDraft {
+    cart_id: string | null;
+    step: string;
+    form: Record<string, unknown>;
+    mode_confirmed: boolean;
+    updated_at: string;
+}
+
+export type CheckoutDraftInput = Omit<CheckoutDraft, "updated_at">;
+
+/**
+ * The user's current checkout draft, or null when there isn't one.
+ */
+export async function fetchCheckoutDraft(): Promise<CheckoutDraft | null> {
+    try {
+        const response = await apiClient.get("/client/v1/cart/checkout-draft");
+        return (response.data?.data ?? null) as CheckoutDraft | null;
+    } catch (error) {
+        if ((error as { response?: { status?: number } }).response?.status === 404) return null;
+        return throwApiError(error) as never;
+    }
+}
+
+export async function saveCheckoutDraft(draft: CheckoutDraftInput): Promise<CheckoutDraft> {
+    try {
+        const response = await apiClient.put("/client/v1/cart/checkout-draft", draft);
+        return response.data?.data as CheckoutDraft;
+    } catch (error) {
+        return throwApiError(error) as never;
+    }
+}
+
+export async function deleteCheckoutDraft(): Promise<void> {
+    try {
+        await apiClient.delete("/client/v1/cart/checkout-draft");
+    } catch (error) {
+        throwApiError(error);
+    }
+}
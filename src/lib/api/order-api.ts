@@ -16,6 +16,8 @@ export interface SubmitOrderPayload {
     }>;
     brand_id?: string;
     trip_type?: TripType; // NEW
+    // Client-chosen fleet from the estimate scenarios; omitted = planned by logistics.
+    vehicles?: Array<{ vehicle_type: string; count: number }>;
     event_start_date: string;
     event_end_date: string;
     venue_name: string;
@@ -66,6 +68,9 @@ export async function calculateEstimate(data: {
     items: Array<{ asset_id: string; quantity: number }>;
     venue_city: string;
     trip_type: TripType;
+    // Vehicle set from the cart load planner; the server prices transport
+    // for these instead of inferring a vehicle from volume.
+    vehicles?: Array<{ vehicle_type: string; count: number }>;
 }) {
     try {
         const response = await apiClient.post("/client/v1/order/estimate", data);
@@ -0,0 +1,135 @@
+/**
+ * Cart submission API
+ * Order and self-pickup submits carrying an idempotency key, plus the
+ * "did it already go through?" lookup the retry queue runs before resending.
+ * Network failures are rethrown untouched so the caller can tell them apart
+ * from server rejections.
+ */
+
+import {
+    asRecord,
+    isNetworkError,
+    matchSubmission,
+    type QueuedSubmission,
+    type SubmissionKind,
+    type SubmittedRecord,
+} from "@/lib/checkout/submission-queue";
+import { throwApiError } from "../utils/throw-api-error";
+import { apiClient } from "./api-client";
+
+// Newest records scanned for a look-alike of a lost submission.
+const RECENT_LIMIT = 20;
+
+const LIST_PATHS: Record<SubmissionKind, string> = {
+    order: "/client/v1/order/my",
+    self_pickup: "/client/v1/self-pickup/my",
+};
+
+const SUBMIT_PATHS: Record<SubmissionKind, string> = {
+    order: "/client/v1/order/submit-from-cart",
+    self_pickup: "/client/v1/self-pickup/submit-from-cart",
+};
+
+// What the order submit resolves with: the created order plus `orderId`.
+export type OrderSubmitResponse = Record<string, unknown> & { order_id: string; orderId: string };
+
+// The self-pickup submit's response body, untouched.
+export interface SelfPickupSubmitResponse {
+    data?: Record<string, unknown> & { id?: string; self_pickup_id?: string };
+}
+
+export interface SubmissionResult {
+    record: SubmittedRecord;
+    // The endpoint's response, as the checkout flows used to receive it.
+    raw: OrderSubmitResponse | SelfPickupSubmitResponse;
+}
+
+export interface FoundSubmission {
+    result: SubmissionResult;
+    // False for a look-alike without the key — the user has to confirm it.
+    confirmed: boolean;
+}
+
+const text = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+function toResult(kind: SubmissionKind, data: unknown): SubmissionResult {
+    const body = asRecord(data);
+    const created = asRecord(body.data);
+    if (kind === "order") {
+        const orderId = text(created.order_id) ?? "";
+        return {
+            record: { id: orderId, reference: orderId },
+            raw: { ...created, order_id: orderId, orderId },
+        };
+    }
+    const id = text(created.id);
+    const selfPickupId = text(created.self_pickup_id);
+    return {
+        record: { id: id ?? selfPickupId ?? "", reference: selfPickupId },
+        raw: { ...body, data: { ...created, id, self_pickup_id: selfPickupId } },
+    };
+}
+
+export async function sendSubmission(
+    kind: SubmissionKind,
+    payload: Record<string, unknown>,
+    idempotencyKey: string
+): Promise<SubmissionResult> {
+    try {
+        const response = await apiClient.post(
+            SUBMIT_PATHS[kind],
+            { ...payload, idempotency_key: idempotencyKey },
+            { headers: { "Idempotency-Key": idempotencyKey } }
+        );
+        return toResult(kind, response.data);
+    } catch (error) {
+        if (isNetworkError(error)) throw error;
+        return throwApiError(error) as never;
+    }
+}
+
+async function listRecords(
+    kind: SubmissionKind,
+    query: string
+): Promise<Record<string, unknown>[]> {
+    const response = await apiClient.get<{ data?: unknown }>(`${LIST_PATHS[kind]}?${query}`);
+    const rows = response.data?.data;
+    return Array.isArray(rows) ? rows.map(asRecord) : [];
+}
+
+/**
+ * The order or self-pickup a queued attempt already created (shaped like the
+ * submit response), or null when it hasn't gone through. Asks for the record
+ * by idempotency key first; failing that, and unless `ignoreLookalikes` is
+ * set, the newest records are scanned for an unconfirmed look-alike.
+ */
+export async function findSubmittedRecord(
+    entry: Pick<
+        QueuedSubmission,
+        "key" | "kind" | "payload" | "firstAttemptAt" | "ignoreLookalikes"
+    >
+): Promise<FoundSubmission | null> {
+    try {
+        const byKey = await listRecords(
+            entry.kind,
+            `idempotency_key=${encodeURIComponent(entry.key)}`
+        );
+        const exact = byKey.find((row) => matchSubmission(entry, row) === "key");
+        if (exact) return { result: toResult(entry.kind, { data: exact }), confirmed: true };
+        if (entry.ignoreLookalikes) return null;
+
+        const recent = await listRecords(
+            entry.kind,
+            entry.kind === "order"
+                ? `limit=${RECENT_LIMIT}&sort_by=created_at&sort_order=desc`
+                : `limit=${RECENT_LIMIT}`
+        );
+        const lookalike = recent.find((row) => matchSubmission(entry, row) === "lookalike");
+        return lookalike
+            ? { result: toResult(entry.kind, { data: lookalike }), confirmed: false }
+            : null;
+    } catch (error) {
+        if (isNetworkError(error)) throw error;
+        return throwApiError(error) as never;
+    }
+}
@@ -2,6 +2,7 @@
 
 import { useCallback, useEffect, useState } from "react";
 import Cookies from "js-cookie";
+import { clearSubmissionQueues } from "@/lib/checkout/submission-queue";
 
 export const useToken = () => {
     const [access_token, setAccessToken] = useState<string | null>(null);
@@ -28,6 +29,7 @@ export const useToken = () => {
     const logout = useCallback(() => {
         Cookies.remove("access_token");
         Cookies.remove("refresh_token");
+        clearSubmissionQueues();
         if (typeof window !== "undefined") {
             // eslint-disable-next-line creatr/no-browser-globals-in-ssr
             localStorage.removeItem("user");
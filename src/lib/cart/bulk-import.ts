@@ -0,0 +1,164 @@
+"use client";
+
+/**
+ * Bulk cart import
+ * Turns a pasted list or an uploaded CSV/XLSX bill of materials into
+ * `{ reference, quantity }` rows, and scores catalog candidates against a
+ * reference so the import dialog can report matched / ambiguous / not found.
+ */
+
+import Papa from "papaparse";
+
+export interface ImportRow {
+    rowNumber: number;
+    reference: string;
+    quantity: number;
+}
+
+const REFERENCE_HEADERS = [
+    "qr",
+    "qr code",
+    "qr_code",
+    "qrcode",
+    "code",
+    "asset code",
+    "asset id",
+    "asset_id",
+    "id",
+    "sku",
+    "asset",
+    "asset name",
+    "name",
+    "item",
+    "description",
+];
+const QUANTITY_HEADERS = ["qty", "quantity", "count", "units", "pcs"];
+
+const normalizeHeader = (value: string) => value.trim().toLowerCase().replace(/[_-]+/g, " ");
+
+const isQuantityCell = (value: string) => /^\d+$/.test(value.trim());
+
+// "5 x Bar stool" / "Bar stool x5" / "Bar stool × 5"
+const LEADING_QTY = /^(\d+)\s*[x×]\s+(.+)$/i;
+const TRAILING_QTY = /^(.+?)\s*[x×]\s*(\d+)$/i;
+
+function rowFromCells(cells: string[], rowNumber: number): ImportRow | null {
+    const values = cells.map((cell) => cell.trim()).filter(Boolean);
+    if (values.length === 0) return null;
+
+    if (values.length === 1) {
+        const [value] = values;
+        const leading = value.match(LEADING_QTY);
+        if (leading) return { rowNumber, reference: leading[2], quantity: Number(leading[1]) };
+        const trailing = value.match(TRAILING_QTY);
+        if (trailing) return { rowNumber, reference: trailing[1], quantity: Number(trailing[2]) };
+        return { rowNumber, reference: value, quantity: 1 };
+    }
+
+    // Headerless row: the first whole-number cell is the quantity, the first
+    // other cell the reference.
+    const quantityCell = values.find(isQuantityCell);
+    const reference = values.find((value) => value !== quantityCell) ?? values[0];
+    return { rowNumber, reference, quantity: quantityCell ? Number(quantityCell) : 1 };
+}
+
+/**
+ * Extract import rows from a table of cells. A first row made of recognised
+ * headers (code / name / qty …) selects the columns; otherwise every row is
+ * read heuristically.
+ */
+export function extractImportRows(table: string[][]): ImportRow[] {
+    if (table.length === 0) return [];
+
+    const headers = table[0].map(normalizeHeader);
+    // Prefer the most specific identifier column present (QR over name).
+    const referenceIndex = REFERENCE_HEADERS.map((header) => headers.indexOf(header)).find(
+        (index) => index >= 0
+    );
+    const quantityIndex = headers.findIndex((header) => QUANTITY_HEADERS.includes(header));
+
+    if (referenceIndex === undefined) {
+        return table
+            .map((cells, index) => rowFromCells(cells, index + 1))
+            .filter((row): row is ImportRow => row !== null);
+    }
+
+    const rows: ImportRow[] = [];
+    table.slice(1).forEach((cells, index) => {
+        const reference = (cells[referenceIndex] ?? "").trim();
+        if (!reference) return;
+        const rawQuantity = quantityIndex >= 0 ? (cells[quantityIndex] ?? "").trim() : "";
+        rows.push({
+            // +2: 1-based, and the header is row 1
+            rowNumber: index + 2,
+            reference,
+            quantity: isQuantityCell(rawQuantity) ? Number(rawQuantity) : 1,
+        });
+    });
+    return rows;
+}
+
+export function parseImportText(text: string): ImportRow[] {
+    // Cells copied out of a spreadsheet arrive tab-separated; let that win
+    // over Papa's delimiter sniffing, which only looks at the first line.
+    const delimiter = text.includes("\t") ? "\t" : undefined;
+    const result = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true, delimiter });
+    return extractImportRows(result.data);
+}
+
+export async function parseImportFile(file: File): Promise<ImportRow[]> {
+    const name = file.name.toLowerCase();
+    if (name.endsWith(".xlsx")) {
+        const { readSheet } = await import("read-excel-file/browser");
+        const sheet = await readSheet(file);
+        return extractImportRows(
+            sheet.map((row) => row.map((cell) => (cell === null ? "" : String(cell))))
+        );
+    }
+    if (name.endsWith(".csv") || name.endsWith(".txt") || name.endsWith(".tsv")) {
+        return parseImportText(await file.text());
+    }
+    throw new Error("Unsupported file type. Upload a .csv or .xlsx file.");
+}
+
+const normalizeName = (value: string) =>
+    value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, " ")
+        .trim();
+
+function bigrams(value: string): Map<string, number> {
+    const grams = new Map<string, number>();
+    const compact = ` ${value} `;
+    for (let i = 0; i < compact.length - 1; i++) {
+        const gram = compact.slice(i, i + 2);
+        grams.set(gram, (grams.get(gram) ?? 0) + 1);
+    }
+    return grams;
+}
+
+/**
+ * Similarity of two asset names in [0, 1] (Sørensen–Dice over character
+ * bigrams), tolerant of word order, punctuation and small typos.
+ */
+export function nameSimilarity(a: string, b: string): number {
+    const left = normalizeName(a);
+    const right = normalizeName(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+
+    const leftGrams = bigrams(left);
+    const rightGrams = bigrams(right);
+    let overlap = 0;
+    let total = 0;
+    leftGrams.forEach((count, gram) => {
+        overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+        total += count;
+    });
+    rightGrams.forEach((count) => {
+        total += count;
+    });
+    return (2 * overlap) / total;
+}
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -0,0 +1,45 @@
+/**
+ * Catalog → cart item mapping
+ * The `LocalCartItem` details captured when an asset is added to the cart,
+ * from either an asset detail payload or a catalog list card.
+ */
+
+import type { CatalogAssetDetails, CatalogAssetItem } from "@/types/collection";
+
+export function cartDetails(asset: CatalogAssetDetails) {
+    return {
+        assetName: asset.name,
+        availableQuantity: asset.availableQuantity,
+        volume: Number(asset.volume),
+        weight: Number(asset.weight),
+        image: asset.onDisplayImage || asset.images[0]?.url,
+        condition: asset.condition,
+        conditionNotes: asset.conditionNotes,
+        // Condition/maintenance views show scan/return imagery only — exclude the
+        // client-curated catalogue photos that now also live in `images`.
+        conditionImages: asset.images.filter((img) => img.source !== "CLIENT"),
+        refurbDaysEstimate: asset.refurbDaysEstimate,
+        dimensionLength: Number(asset.dimensionLength),
+        dimensionWidth: Number(asset.dimensionWidth),
+        dimensionHeight: Number(asset.dimensionHeight),
+        category: asset.category,
+    };
+}
+
+export function catalogAssetCartDetails(asset: CatalogAssetItem) {
+    return {
+        assetName: asset.name,
+        availableQuantity: asset.availableQuantity,
+        volume: Number(asset.volume),
+        weight: Number(asset.weight),
+        image: asset.onDisplayImage || asset.images[0],
+        condition: asset.condition,
+        conditionNotes: asset.conditionNotes || undefined,
+        conditionImages: asset.images.map((url) => ({ url })),
+        refurbDaysEstimate: asset.refurbDaysEstimate || undefined,
+        dimensionLength: Number(asset.dimensionLength),
+        dimensionWidth: Number(asset.dimensionWidth),
+        dimensionHeight: Number(asset.dimensionHeight),
+        category: asset.category || "",
+    };
+}
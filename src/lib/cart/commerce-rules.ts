@@ -0,0 +1,62 @@
+/**
+ * Commerce rule hits
+ * Sorts `/commerce-rules/evaluate` hits by what the cart UI does with them:
+ * SUGGEST hits become "add this too" recommendations, BLOCK hits point at the
+ * line that has to change, and everything else is a notice to acknowledge.
+ */
+
+import type { CommerceRuleHit, EvaluatePayload } from "@/hooks/use-commerce-rules";
+import type { LocalCartItem } from "./localStorage";
+
+export interface CommerceRuleBlock {
+    hit: CommerceRuleHit;
+    // The cart line the rule objects to; null when the hit names nothing in
+    // the cart (a family-wide rule, or a line that has since been removed).
+    assetId: string | null;
+}
+
+export interface SortedRuleHits {
+    // SUGGEST hits for an asset that isn't in the cart yet.
+    suggestions: CommerceRuleHit[];
+    blocks: CommerceRuleBlock[];
+    // WARN hits — and BLOCK hits, which are acknowledged the same way.
+    notices: CommerceRuleHit[];
+}
+
+export function commerceRulePayload(
+    items: Pick<LocalCartItem, "assetId" | "quantity">[]
+): EvaluatePayload {
+    return {
+        cart: items.map((item) => ({ asset_id: item.assetId, quantity: item.quantity })),
+    };
+}
+
+export function sortRuleHits(
+    hits: CommerceRuleHit[],
+    items: Pick<LocalCartItem, "assetId">[]
+): SortedRuleHits {
+    const inCart = new Set(items.map((item) => item.assetId));
+    const sorted: SortedRuleHits = { suggestions: [], blocks: [], notices: [] };
+    const suggested = new Set<string>();
+
+    for (const hit of hits) {
+        if (hit.severity === "SUGGEST") {
+            // Once the suggested asset is in the cart the suggestion is met.
+            // Only asset-level suggestions can be added with one click.
+            const assetId = hit.related_asset_id;
+            if (!assetId || inCart.has(assetId) || suggested.has(assetId)) continue;
+            suggested.add(assetId);
+            sorted.suggestions.push(hit);
+            continue;
+        }
+        if (hit.severity === "BLOCK") {
+            const assetId =
+                hit.related_asset_id && inCart.has(hit.related_asset_id)
+                    ? hit.related_asset_id
+                    : null;
+            sorted.blocks.push({ hit, assetId });
+        }
+        sorted.notices.push(hit);
+    }
+    return sorted;
+}
@@ -0,0 +1,111 @@
+/**
+ * Event areas
+ * Cart lines can be grouped by the area of the event they're for. A cart
+ * keeps its areas as an ordered list of names, and each line names the area
+ * it belongs to, so an area outlives its last line. Grouping puts the
+ * unassigned lines first, then the cart's areas in list order, then any
+ * area a line names that the list doesn't (orders, older carts) in the
+ * order it first appears.
+ */
+
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+
+export interface AreaGroup<T> {
+    // null for lines without an area
+    area: string | null;
+    items: T[];
+}
+
+export const normalizeAreaName = (name: string | null | undefined) => name?.trim() || null;
+
+/**
+ * A stored area list (local cache, server copy, another tab), tolerating
+ * payloads written before carts had one.
+ */
+export function parseAreaList(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    const areas: string[] = [];
+    for (const entry of value) {
+        const area = typeof entry === "string" ? normalizeAreaName(entry) : null;
+        if (area && !areas.includes(area)) areas.push(area);
+    }
+    return areas;
+}
+
+export function groupByArea<T>(
+    items: T[],
+    getArea: (item: T) => string | null | undefined,
+    areas: string[] = []
+): AreaGroup<T>[] {
+    const unassigned: T[] = [];
+    const byArea = new Map<string, T[]>(areas.map((area) => [area, []]));
+    for (const item of items) {
+        const area = normalizeAreaName(getArea(item));
+        if (!area) {
+            unassigned.push(item);
+            continue;
+        }
+        const group = byArea.get(area);
+        if (group) group.push(item);
+        else byArea.set(area, [item]);
+    }
+    const groups: AreaGroup<T>[] = [];
+    if (unassigned.length > 0) groups.push({ area: null, items: unassigned });
+    byArea.forEach((groupItems, area) => groups.push({ area, items: groupItems }));
+    return groups;
+}
+
+/**
+ * Move a line into `area`, placed before `beforeAssetId` when given, else at
+ * the end of that area (or of the cart, for a new area).
+ */
+export function moveItemToArea(
+    items: LocalCartItem[],
+    assetId: string,
+    area: string | null,
+    beforeAssetId?: string
+): LocalCartItem[] {
+    const moving = items.find((item) => item.assetId === assetId);
+    if (!moving || beforeAssetId === assetId) return items;
+
+    const target = normalizeAreaName(area);
+    const moved: LocalCartItem = { ...moving, eventArea: target ?? undefined };
+    const rest = items.filter((item) => item.assetId !== assetId);
+
+    let index = beforeAssetId ? rest.findIndex((item) => item.assetId === beforeAssetId) : -1;
+    if (index < 0) {
+        const lastInArea = rest.reduce(
+            (last, item, i) => (normalizeAreaName(item.eventArea) === target ? i : last),
+            -1
+        );
+        index = lastInArea >= 0 ? lastInArea + 1 : rest.length;
+    }
+    return [...rest.slice(0, index), moved, ...rest.slice(index)];
+}
+
+export function renameArea(items: LocalCartItem[], from: string, to: string | null) {
+    const target = normalizeAreaName(to) ?? undefined;
+    return items.map((item) =>
+        normalizeAreaName(item.eventArea) === from ? { ...item, eventArea: target } : item
+    );
+}
+
+/**
+ * The cart's area list with any area its lines name but the list lacks
+ * appended, so every line's area is in the list.
+ */
+export function mergeAreas(areas: string[], items: LocalCartItem[]): string[] {
+    const merged = [...areas];
+    for (const item of items) {
+        const area = normalizeAreaName(item.eventArea);
+        if (area && !merged.includes(area)) merged.push(area);
+    }
+    return merged.length === areas.length ? areas : merged;
+}
+
+export function renameAreaInList(areas: string[], from: string, to: string | null) {
+    const target = normalizeAreaName(to);
+    // Renaming onto an existing area merges the two.
+    if (!target || areas.includes(target)) return areas.filter((area) => area !== from);
+    return areas.map((area) => (area === from ? target : area));
+}
@@ -0,0 +1,160 @@
+/**
+ * Cart load planner
+ * Works out which vehicles a cart needs from item dimensions (cm), volume
+ * (m³) and weight (kg): flags single items no vehicle can carry, and picks
+ * the smallest vehicle set whose capacity covers the totals. It's a capacity
+ * estimate, not a packing solver — a usable-space factor absorbs the gaps.
+ */
+
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+
+export interface VehicleTypeSpec {
+    // Same values as `OrderEstimate.transport.vehicle_type`.
+    vehicle_type: string;
+    label: string;
+    max_volume_m3: number;
+    max_weight_kg: number;
+    max_length_cm: number;
+    max_width_cm: number;
+    max_height_cm: number;
+}
+
+export interface PlannedVehicle {
+    vehicle_type: string;
+    label: string;
+    count: number;
+}
+
+export interface OversizeItem {
+    assetId: string;
+    assetName: string;
+    reason: "DIMENSIONS" | "WEIGHT";
+}
+
+export interface LoadPlan {
+    vehicles: PlannedVehicle[];
+    vehicleCount: number;
+    oversizeItems: OversizeItem[];
+    totalVolume: number;
+    totalWeight: number;
+    // Share of the planned fleet's usable capacity the cart takes, 0–1.
+    volumeUtilisation: number;
+    weightUtilisation: number;
+}
+
+// Boxes, crates and odd shapes never stack perfectly.
+const USABLE_VOLUME_FACTOR = 0.8;
+
+const usableVolume = (vehicle: VehicleTypeSpec) => vehicle.max_volume_m3 * USABLE_VOLUME_FACTOR;
+
+const sortedDims = (a: number, b: number, c: number) => [a, b, c].sort((x, y) => y - x);
+
+// An item fits if some rotation fits: compare both sides' dimensions sorted
+// largest-first.
+function itemFitsVehicle(item: LocalCartItem, vehicle: VehicleTypeSpec): boolean {
+    const [i1, i2, i3] = sortedDims(
+        item.dimensionLength,
+        item.dimensionWidth,
+        item.dimensionHeight
+    );
+    const [v1, v2, v3] = sortedDims(
+        vehicle.max_length_cm,
+        vehicle.max_width_cm,
+        vehicle.max_height_cm
+    );
+    return i1 <= v1 && i2 <= v2 && i3 <= v3 && item.weight <= vehicle.max_weight_kg;
+}
+
+export function planLoad(items: LocalCartItem[], vehicleTypes: VehicleTypeSpec[]): LoadPlan {
+    const totalVolume = items.reduce((sum, item) => sum + item.volume * item.quantity, 0);
+    const totalWeight = items.reduce((sum, item) => sum + item.weight * item.quantity, 0);
+    const empty: LoadPlan = {
+        vehicles: [],
+        vehicleCount: 0,
+        oversizeItems: [],
+        totalVolume,
+        totalWeight,
+        volumeUtilisation: 0,
+        weightUtilisation: 0,
+    };
+    if (items.length === 0 || vehicleTypes.length === 0) return empty;
+
+    const bySize = [...vehicleTypes].sort((a, b) => a.max_volume_m3 - b.max_volume_m3);
+    const largest = bySize[bySize.length - 1];
+
+    const oversizeItems: OversizeItem[] = items
+        .filter((item) => !bySize.some((vehicle) => itemFitsVehicle(item, vehicle)))
+        .map((item) => ({
+            assetId: item.assetId,
+            assetName: item.assetName,
+            reason:
+                item.weight > Math.max(...bySize.map((v) => v.max_weight_kg))
+                    ? ("WEIGHT" as const)
+                    : ("DIMENSIONS" as const),
+        }));
+
+    // Every vehicle in the plan must be able to take the bulkiest item that
+    // can travel at all, so only those types are candidates.
+    const carriable = items.filter(
+        (item) => !oversizeItems.some((oversize) => oversize.assetId === item.assetId)
+    );
+    const eligible = bySize.filter((vehicle) =>
+        carriable.every((item) => itemFitsVehicle(item, vehicle))
+    );
+    const fleet = eligible.length > 0 ? eligible : [largest];
+    const biggest = fleet[fleet.length - 1];
+
+    const fitsIn = (vehicle: VehicleTypeSpec, volume: number, weight: number) =>
+        volume <= usableVolume(vehicle) && weight <= vehicle.max_weight_kg;
+
+    const vehicles: PlannedVehicle[] = [];
+    const single = fleet.find((vehicle) => fitsIn(vehicle, totalVolume, totalWeight));
+    if (single) {
+        vehicles.push({ vehicle_type: single.vehicle_type, label: single.label, count: 1 });
+    } else {
+        // Fill the biggest vehicle until what's left fits a smaller one.
+        const needed = Math.ceil(
+            Math.max(totalVolume / usableVolume(biggest), totalWeight / biggest.max_weight_kg)
+        );
+        const fullLoads = needed - 1;
+        const remainderVolume = Math.max(0, totalVolume - fullLoads * usableVolume(biggest));
+        const remainderWeight = Math.max(0, totalWeight - fullLoads * biggest.max_weight_kg);
+        const last =
+            fleet.find((vehicle) => fitsIn(vehicle, remainderVolume, remainderWeight)) ?? biggest;
+
+        if (last.vehicle_type === biggest.vehicle_type) {
+            vehicles.push({
+                vehicle_type: biggest.vehicle_type,
+                label: biggest.label,
+                count: needed,
+            });
+        } else {
+            vehicles.push({
+                vehicle_type: biggest.vehicle_type,
+                label: biggest.label,
+                count: fullLoads,
+            });
+            vehicles.push({ vehicle_type: last.vehicle_type, label: last.label, count: 1 });
+        }
+    }
+
+    const specOf = (type: string) => fleet.find((vehicle) => vehicle.vehicle_type === type)!;
+    const capacityVolume = vehicles.reduce(
+        (sum, v) => sum + usableVolume(specOf(v.vehicle_type)) * v.count,
+        0
+    );
+    const capacityWeight = vehicles.reduce(
+        (sum, v) => sum + specOf(v.vehicle_type).max_weight_kg * v.count,
+        0
+    );
+
+    return {
+        vehicles,
+        vehicleCount: vehicles.reduce((sum, v) => sum + v.count, 0),
+        oversizeItems,
+        totalVolume,
+        totalWeight,
+        volumeUtilisation: capacityVolume > 0 ? Math.min(1, totalVolume / capacityVolume) : 0,
+        weightUtilisation: capacityWeight > 0 ? Math.min(1, totalWeight / capacityWeight) : 0,
+    };
+}
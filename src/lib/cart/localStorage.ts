@@ -7,10 +7,18 @@
  */
 
 import { toast } from "sonner";
+import { parseAreaList } from "@/lib/cart/event-areas";
 
 const CART_KEY = "asset-cart-v2";
+const ACTIVE_CART_KEY = "asset-cart-active-id";
+const QUARANTINE_KEY = "asset-cart-quarantine";
+const RECENTLY_REMOVED_KEY = "asset-cart-recently-removed";
+// Bump whenever the stored shape of LocalCartItem changes, and register a
+// step in CART_MIGRATIONS that upgrades items from the previous version.
 const CART_VERSION = 2;
 
+export { CART_VERSION, CART_KEY, QUARANTINE_KEY };
+
 export interface LocalCartItem {
     assetId: string;
     assetName: string;
@@ -36,18 +44,199 @@ export interface LocalCartItem {
     conditionImages?: { url: string; note?: string }[];
     refurbDaysEstimate?: number;
     maintenanceDecision?: "FIX_IN_ORDER" | "USE_AS_IS";
+    // Event area the line is headed for ("Main stage", "VIP lounge"), by
+    // name from the cart's area list; unset lines are unassigned.
+    eventArea?: string;
+    // Free-text note for ops ("left of the bar, facing the entrance")
+    note?: string;
 }
 
 interface LocalCart {
     items: LocalCartItem[];
     version: number;
     lastUpdated: number;
+    // Server-side saved cart these items belong to (null until first sync).
+    // Carried in the payload so other tabs follow a cart switch.
+    cartId?: string | null;
+    // Event areas in display order, including ones no line is in yet.
+    areas?: string[];
+}
+
+/**
+ * Stored cart item that failed validation after migration. Kept (with its raw
+ * payload) so the drawer can show it as "needs attention" instead of the
+ * whole cart being wiped.
+ */
+export interface QuarantinedCartItem {
+    id: string;
+    assetId: string | null;
+    assetName: string | null;
+    quantity: number | null;
+    reason: string;
+    quarantinedAt: number;
+    raw: unknown;
+}
+
+type RawCartItem = Record<string, unknown>;
+
+const numberOr = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? value : fallback;
+
+/**
+ * Migration steps keyed by the version they upgrade FROM. Each step receives
+ * an item in version N and returns it in version N + 1. Steps must be
+ * tolerant: they run on whatever was written by older builds.
+ */
+const CART_MIGRATIONS: Record<number, (item: RawCartItem) => RawCartItem> = {
+    // A v2 item always has assetName, numeric physical specs, a category and
+    // addedAt; a v1 item may carry `name` instead and leave the rest out.
+    // Backfill them so totals don't turn into NaN.
+    1: (item) => ({
+        ...item,
+        assetName: item.assetName ?? item.name,
+        availableQuantity: numberOr(item.availableQuantity, 0),
+        volume: numberOr(item.volume, 0),
+        weight: numberOr(item.weight, 0),
+        dimensionLength: numberOr(item.dimensionLength, 0),
+        dimensionWidth: numberOr(item.dimensionWidth, 0),
+        dimensionHeight: numberOr(item.dimensionHeight, 0),
+        category: typeof item.category === "string" ? item.category : "",
+        addedAt: numberOr(item.addedAt, Date.now()),
+    }),
+};
+
+function validateCartItem(item: RawCartItem): string | null {
+    if (!item.assetId || typeof item.assetId !== "string") return "Missing asset reference";
+    if (!item.assetName || typeof item.assetName !== "string") return "Missing asset name";
+    if (typeof item.quantity !== "number" || !Number.isFinite(item.quantity) || item.quantity < 1) {
+        return "Invalid quantity";
+    }
+    return null;
+}
+
+/**
+ * Upgrade stored items from `fromVersion` to CART_VERSION and split them into
+ * valid items and quarantined ones. Also used for server-side saved carts,
+ * which store items verbatim and may have been written by an older client.
+ * Versions newer than this build (e.g. after a rollback) are validated as-is.
+ */
+export function migrateCartItems(
+    rawItems: unknown[],
+    fromVersion: number
+): { items: LocalCartItem[]; quarantined: QuarantinedCartItem[] } {
+    const items: LocalCartItem[] = [];
+    const quarantined: QuarantinedCartItem[] = [];
+    const now = Date.now();
+
+    rawItems.forEach((raw) => {
+        const quarantine = (reason: string, source: RawCartItem | null) =>
+            quarantined.push({
+                id: crypto.randomUUID(),
+                assetId: typeof source?.assetId === "string" ? source.assetId : null,
+                assetName: typeof source?.assetName === "string" ? source.assetName : null,
+                quantity: typeof source?.quantity === "number" ? source.quantity : null,
+                reason,
+                quarantinedAt: now,
+                raw,
+            });
+
+        if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+            quarantine("Unrecognised cart entry", null);
+            return;
+        }
+
+        let item = raw as RawCartItem;
+        try {
+            for (let version = fromVersion; version < CART_VERSION; version++) {
+                const step = CART_MIGRATIONS[version];
+                if (step) item = step(item);
+            }
+        } catch (error) {
+            console.error("Cart item migration failed:", error);
+            quarantine("Could not be upgraded to the current cart format", item);
+            return;
+        }
+
+        const problem = validateCartItem(item);
+        if (problem) {
+            quarantine(problem, item);
+            return;
+        }
+        items.push(item as unknown as LocalCartItem);
+    });
+
+    return { items, quarantined };
+}
+
+/**
+ * Quarantined items awaiting the user's attention.
+ */
+export function loadQuarantinedItems(): QuarantinedCartItem[] {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    const storage = runtimeGlobal?.["localStorage"] as Storage | undefined;
+    if (!storage) return [];
+
+    try {
+        const data = storage.getItem(QUARANTINE_KEY);
+        const parsed = data ? JSON.parse(data) : [];
+        return Array.isArray(parsed) ? (parsed as QuarantinedCartItem[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveQuarantinedItems(entries: QuarantinedCartItem[]): void {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    const storage = runtimeGlobal?.["localStorage"] as Storage | undefined;
+    if (!storage) return;
+
+    try {
+        if (entries.length > 0) {
+            storage.setItem(QUARANTINE_KEY, JSON.stringify(entries));
+        } else {
+            storage.removeItem(QUARANTINE_KEY);
+        }
+    } catch (error) {
+        console.error("Failed to save quarantined cart items:", error);
+    }
+}
+
+// Same reason, same stored payload: the same bad entry seen again.
+const quarantineKey = (entry: QuarantinedCartItem) =>
+    `${entry.reason}|${JSON.stringify(entry.raw) ?? ""}`;
+
+/**
+ * Add entries to the quarantine, skipping any already there. A saved cart
+ * keeps its bad entries until a push succeeds, so every load until then
+ * hands the same entries over again.
+ */
+export function quarantineItems(entries: QuarantinedCartItem[]): QuarantinedCartItem[] {
+    const next = loadQuarantinedItems();
+    const seen = new Set(next.map(quarantineKey));
+    for (const entry of entries) {
+        const key = quarantineKey(entry);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        next.push(entry);
+    }
+    saveQuarantinedItems(next);
+    return next;
 }
 
 /**
  * Save cart to localStorage
  */
-export function saveCart(items: LocalCartItem[]): void {
+export function saveCart(
+    items: LocalCartItem[],
+    cartId: string | null = null,
+    areas: string[] = []
+): void {
     const runtimeGlobal =
         typeof globalThis !== "undefined"
             ? (globalThis as unknown as Record<string, unknown>)
@@ -60,6 +249,8 @@ export function saveCart(items: LocalCartItem[]): void {
             items,
             version: CART_VERSION,
             lastUpdated: Date.now(),
+            cartId,
+            areas,
         };
         storage.setItem(CART_KEY, JSON.stringify(cart));
     } catch (error) {
@@ -73,7 +264,9 @@ export function saveCart(items: LocalCartItem[]): void {
 }
 
 /**
- * Load cart from localStorage with validation
+ * Load cart from localStorage, upgrading older payloads through the migration
+ * chain. Items that still don't validate are quarantined (see
+ * `loadQuarantinedItems`) rather than discarding the whole cart.
  */
 export function loadCart(): LocalCartItem[] {
     const runtimeGlobal =
@@ -83,42 +276,61 @@ export function loadCart(): LocalCartItem[] {
     const storage = runtimeGlobal?.["localStorage"] as Storage | undefined;
     if (!storage) return [];
 
+    let data: string | null = null;
     try {
-        const data = storage.getItem(CART_KEY);
+        data = storage.getItem(CART_KEY);
         if (!data) return [];
 
-        const cart = JSON.parse(data) as LocalCart;
-
-        // Validate version
-        if (cart.version !== CART_VERSION) {
-            console.warn("Cart version mismatch, clearing cart");
-            clearCart();
-            return [];
+        const cart = JSON.parse(data) as Partial<LocalCart>;
+        if (!cart || !Array.isArray(cart.items)) {
+            throw new Error("Invalid cart structure");
         }
 
-        // Validate structure
-        if (!cart.items || !Array.isArray(cart.items)) {
-            throw new Error("Invalid cart structure");
+        const version = typeof cart.version === "number" ? cart.version : 1;
+        const { items, quarantined } = migrateCartItems(cart.items, version);
+
+        if (quarantined.length > 0) {
+            quarantineItems(quarantined);
+            toast.warning(
+                `${quarantined.length} cart ${quarantined.length === 1 ? "item needs" : "items need"} attention`,
+                { description: "Open your cart to review them." }
+            );
         }
 
-        // Validate each item
-        for (const item of cart.items) {
-            if (!item.assetId || typeof item.assetId !== "string") {
-                throw new Error("Invalid assetId");
-            }
-            if (!item.quantity || typeof item.quantity !== "number" || item.quantity < 1) {
-                throw new Error("Invalid quantity");
-            }
-            if (!item.assetName) {
-                throw new Error("Missing assetName");
-            }
+        // Rewrite upgraded carts at the current version. lastUpdated is kept
+        // so a migration alone never makes the cache look newer than the
+        // server copy.
+        if (version !== CART_VERSION || quarantined.length > 0) {
+            const upgraded: LocalCart = {
+                items,
+                version: CART_VERSION,
+                lastUpdated: typeof cart.lastUpdated === "number" ? cart.lastUpdated : Date.now(),
+                cartId: typeof cart.cartId === "string" ? cart.cartId : null,
+                areas: parseAreaList(cart.areas),
+            };
+            storage.setItem(CART_KEY, JSON.stringify(upgraded));
         }
 
-        return cart.items;
+        return items;
     } catch (error) {
         console.error("Failed to load cart:", error);
+        // Unreadable payload — keep the raw value around so nothing is lost
+        // silently, then start from an empty cart.
+        quarantineItems([
+            {
+                id: crypto.randomUUID(),
+                assetId: null,
+                assetName: null,
+                quantity: null,
+                reason: "Saved cart data could not be read",
+                quarantinedAt: Date.now(),
+                raw: data,
+            },
+        ]);
         clearCart();
-        toast.error("Cart data corrupted, cart has been cleared");
+        toast.error("Some cart data could not be read", {
+            description: "Open your cart to review it.",
+        });
         return [];
     }
 }
@@ -137,6 +349,100 @@ export function clearCart(): void {
     storage.removeItem(CART_KEY);
 }
 
+/**
+ * Read the cache metadata (owning cart, last write time, event areas) without
+ * validating items. Used to decide whether the local cache or the server copy
+ * is newer.
+ */
+export function loadCartMeta(): { cartId: string | null; lastUpdated: number; areas: string[] } {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    const storage = runtimeGlobal?.["localStorage"] as Storage | undefined;
+    if (!storage) return { cartId: null, lastUpdated: 0, areas: [] };
+
+    try {
+        const data = storage.getItem(CART_KEY);
+        if (!data) return { cartId: null, lastUpdated: 0, areas: [] };
+        const cart = JSON.parse(data) as Partial<LocalCart>;
+        return {
+            cartId: typeof cart.cartId === "string" ? cart.cartId : null,
+            lastUpdated: typeof cart.lastUpdated === "number" ? cart.lastUpdated : 0,
+            areas: parseAreaList(cart.areas),
+        };
+    } catch {
+        return { cartId: null, lastUpdated: 0, areas: [] };
+    }
+}
+
+/**
+ * Active saved-cart id — survives reloads so the drawer reopens on the cart
+ * the user last worked on.
+ */
+export function loadActiveCartId(): string | null {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    const storage = runtimeGlobal?.["localStorage"] as Storage | undefined;
+    if (!storage) return null;
+
+    return storage.getItem(ACTIVE_CART_KEY);
+}
+
+export function saveActiveCartId(cartId: string | null): void {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    const storage = runtimeGlobal?.["localStorage"] as Storage | undefined;
+    if (!storage) return;
+
+    if (cartId) {
+        storage.setItem(ACTIVE_CART_KEY, cartId);
+    } else {
+        storage.removeItem(ACTIVE_CART_KEY);
+    }
+}
+
+/**
+ * Lines removed this browser session, newest first — backs the drawer's
+ * "recently removed" tray. sessionStorage so it survives a reload but not
+ * the session.
+ */
+export function loadRecentlyRemoved(): LocalCartItem[] {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    const storage = runtimeGlobal?.["sessionStorage"] as Storage | undefined;
+    if (!storage) return [];
+
+    try {
+        const data = storage.getItem(RECENTLY_REMOVED_KEY);
+        const parsed = data ? JSON.parse(data) : [];
+        return Array.isArray(parsed) ? (parsed as LocalCartItem[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveRecentlyRemoved(items: LocalCartItem[]): void {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    const storage = runtimeGlobal?.["sessionStorage"] as Storage | undefined;
+    if (!storage) return;
+
+    try {
+        storage.setItem(RECENTLY_REMOVED_KEY, JSON.stringify(items));
+    } catch (error) {
+        console.error("Failed to save recently removed items:", error);
+    }
+}
+
 /**
  * Get cart item count
  */
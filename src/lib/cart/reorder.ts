@@ -0,0 +1,255 @@
+/**
+ * Reorder
+ * Turns a past order or self-pickup into cart lines plus a checkout form
+ * prefill, with every date moved by the same number of days so a repeat
+ * event keeps its delivery → event → pickup rhythm.
+ */
+
+import { addYears, format, isValid, parseISO } from "date-fns";
+import type { SharedCartLine } from "@/lib/api/cart-api";
+import { shiftDateStr } from "@/lib/feasibility/compose-datetime";
+import type { LocalCartItem } from "./localStorage";
+
+export type ReorderSourceKind = "order" | "self-pickup";
+
+export interface ReorderSource {
+    kind: ReorderSourceKind;
+    // Human reference shown in the dialog (ORD-…, SP-…).
+    reference: string;
+    lines: SharedCartLine[];
+    // YYYY-MM-DD the shift is measured from: event start for orders, pickup
+    // day for self-pickups.
+    anchorDate: string;
+    // Checkout form fields to prefill, with dates as in the source.
+    form: Record<string, unknown>;
+}
+
+// Form fields holding YYYY-MM-DD dates that move with the anchor.
+const SHIFTED_DATE_FIELDS = [
+    "event_start_date",
+    "event_end_date",
+    "requested_delivery_date",
+    "requested_pickup_date",
+] as const;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Event dates are calendar days stored at midnight UTC — take the date as
+// written rather than converting it to local time.
+function datePart(value: string | null | undefined): string {
+    return /^(\d{4}-\d{2}-\d{2})/.exec(value ?? "")?.[1] ?? "";
+}
+
+// Window bounds are real instants; read them in local time like the order
+// page displays them.
+function localPart(value: string | null | undefined, pattern: string): string {
+    if (!value) return "";
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? "" : format(date, pattern);
+}
+
+export function daysBetween(from: string, to: string): number {
+    return Math.round(
+        (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY
+    );
+}
+
+/**
+ * Default new anchor: the same date next year, or tomorrow if that has
+ * already passed.
+ */
+export function suggestReorderDate(anchorDate: string, today = new Date()): string {
+    const tomorrow = format(new Date(today.getTime() + MS_PER_DAY), "yyyy-MM-dd");
+    if (!anchorDate) return tomorrow;
+    const anchor = parseISO(anchorDate);
+    if (!isValid(anchor)) return tomorrow;
+    // addYears clamps 29 Feb to 28 Feb instead of inventing a date.
+    const nextYear = format(addYears(anchor, 1), "yyyy-MM-dd");
+    return nextYear > tomorrow ? nextYear : tomorrow;
+}
+
+/**
+ * The source's form prefill with every date moved so the anchor lands on
+ * `newAnchorDate`. Blank fields are dropped so they don't wipe checkout's own
+ * defaults (e.g. the contact filled from the signed-in user).
+ */
+export function shiftReorderForm(source: ReorderSource, newAnchorDate: string) {
+    const offset = source.anchorDate ? daysBetween(source.anchorDate, newAnchorDate) : 0;
+    const form = Object.fromEntries(
+        Object.entries(source.form).filter(([, value]) => value !== "" && value != null)
+    );
+    for (const field of SHIFTED_DATE_FIELDS) {
+        const value = form[field];
+        if (typeof value === "string") form[field] = shiftDateStr(value, offset);
+    }
+    return form;
+}
+
+/**
+ * Keep a line's maintenance and rebrand choices only where they still make
+ * sense for the asset as it is today: a maintenance decision needs the asset
+ * to still be ORANGE/RED (RED only allows a repair), and a rebrand is dropped
+ * once the asset already carries the target brand.
+ */
+export function applicableChoices(
+    line: SharedCartLine,
+    current: { condition?: string; brandId?: string | null }
+): SharedCartLine {
+    let maintenanceDecision = line.maintenanceDecision;
+    if (current.condition === "RED") maintenanceDecision = "FIX_IN_ORDER";
+    else if (current.condition !== "ORANGE") maintenanceDecision = undefined;
+
+    const alreadyRebranded =
+        !!line.reskinTargetBrandId && line.reskinTargetBrandId === current.brandId;
+    const keepRebrand = !!line.isReskinRequest && !alreadyRebranded;
+
+    return {
+        ...line,
+        maintenanceDecision,
+        isReskinRequest: keepRebrand || undefined,
+        reskinTargetBrandId: keepRebrand ? line.reskinTargetBrandId : undefined,
+        reskinTargetBrandCustom: keepRebrand ? line.reskinTargetBrandCustom : undefined,
+        reskinNotes: keepRebrand ? line.reskinNotes : undefined,
+    };
+}
+
+/**
+ * A stand-in for a line that can't be supplied. The area and note follow the
+ * line; the original asset's maintenance and rebrand choices don't.
+ */
+export function substituteLine(
+    line: SharedCartLine,
+    substitute: { assetId: string; name: string }
+): SharedCartLine {
+    return {
+        assetId: substitute.assetId,
+        assetName: substitute.name,
+        quantity: line.quantity,
+        eventArea: line.eventArea,
+        note: line.note,
+    };
+}
+
+interface SourceOrderItem {
+    order_item: {
+        asset_id?: string;
+        asset_name: string;
+        quantity: number;
+        maintenance_decision?: LocalCartItem["maintenanceDecision"] | null;
+        is_reskin_request?: boolean;
+        reskin_target_brand_id?: string | null;
+        reskin_target_brand_custom?: string | null;
+        reskin_notes?: string | null;
+        event_area?: string | null;
+        note?: string | null;
+    };
+    asset?: { id?: string } | null;
+}
+
+interface SourceWindow {
+    start?: string;
+    end?: string;
+}
+
+const orUndefined = <T>(value: T | null | undefined) => value ?? undefined;
+
+function toLine(item: SourceOrderItem): SharedCartLine | null {
+    const row = item.order_item;
+    const assetId = row.asset_id ?? item.asset?.id;
+    if (!assetId) return null;
+    return {
+        assetId,
+        assetName: row.asset_name,
+        quantity: Number(row.quantity) || 1,
+        maintenanceDecision: orUndefined(row.maintenance_decision),
+        isReskinRequest: row.is_reskin_request || undefined,
+        reskinTargetBrandId: orUndefined(row.reskin_target_brand_id),
+        reskinTargetBrandCustom: orUndefined(row.reskin_target_brand_custom),
+        reskinNotes: orUndefined(row.reskin_notes),
+        eventArea: orUndefined(row.event_area),
+        note: orUndefined(row.note),
+    };
+}
+
+function windowFields(prefix: "delivery" | "pickup", window: SourceWindow | null | undefined) {
+    if (!window?.start) return {};
+    return {
+        [`requested_${prefix}_date`]: localPart(window.start, "yyyy-MM-dd"),
+        [`requested_${prefix}_time_start`]: localPart(window.start, "HH:mm"),
+        [`requested_${prefix}_time_end`]: localPart(window.end, "HH:mm"),
+    };
+}
+
+/**
+ * `order` is the client order detail payload.
+ */
+export function orderToReorderSource(order: any): ReorderSource {
+    const permit = order.permit_requirements ?? null;
+    const anchorDate = datePart(order.event_start_date);
+    return {
+        kind: "order",
+        reference: order.order_id,
+        lines: ((order.items ?? []) as SourceOrderItem[])
+            .map(toLine)
+            .filter((line): line is SharedCartLine => line !== null),
+        anchorDate,
+        form: {
+            ...(order.brand?.id ? { brand_id: order.brand.id } : {}),
+            event_start_date: anchorDate,
+            event_end_date: order.is_permanent_placement ? "" : datePart(order.event_end_date),
+            is_permanent_placement: order.is_permanent_placement ?? null,
+            ...windowFields("delivery", order.delivery_window),
+            ...(order.is_permanent_placement ? {} : windowFields("pickup", order.pickup_window)),
+            venue_name: order.venue_name ?? "",
+            venue_city_id: order.venue_city_id ?? "",
+            venue_city_name: order.venue_city ?? order.venue_location?.city ?? "",
+            venue_country_name: order.venue_location?.country ?? "",
+            venue_address: order.venue_location?.address ?? "",
+            venue_access_notes: order.venue_location?.access_notes ?? "",
+            venue_contact_name: order.venue_contact_name ?? "",
+            venue_contact_email: order.venue_contact_email ?? "",
+            venue_contact_phone: order.venue_contact_phone ?? "",
+            contact_name: order.contact_name ?? "",
+            contact_email: order.contact_email ?? "",
+            contact_phone: order.contact_phone ?? "",
+            permit_decision: permit ? (permit.requires_permit ? "yes" : "no") : null,
+            requires_permit: !!permit?.requires_permit,
+            permit_owner: permit?.permit_owner ?? "UNKNOWN",
+            requires_vehicle_docs: !!permit?.requires_vehicle_docs,
+            requires_staff_ids: !!permit?.requires_staff_ids,
+            permit_notes: permit?.notes ?? "",
+        },
+    };
+}
+
+/**
+ * `pickup` is the client self-pickup detail payload. The collector becomes
+ * the checkout contact, and pickup / expected return stand in for the event
+ * dates.
+ */
+export function selfPickupToReorderSource(pickup: any): ReorderSource {
+    const window = pickup.pickup_window as SourceWindow | null | undefined;
+    const anchorDate = localPart(window?.start, "yyyy-MM-dd");
+    const lines = ((pickup.items ?? []) as any[])
+        .map((item) =>
+            toLine({
+                order_item: { ...item, asset_id: item.asset_id ?? item.asset?.id },
+                asset: item.asset,
+            })
+        )
+        .filter((line): line is SharedCartLine => line !== null);
+    return {
+        kind: "self-pickup",
+        reference: pickup.self_pickup_id,
+        lines,
+        anchorDate,
+        form: {
+            event_start_date: anchorDate,
+            event_end_date: localPart(pickup.expected_return_at, "yyyy-MM-dd"),
+            is_permanent_placement: pickup.is_permanent_placement ?? null,
+            contact_name: pickup.collector_name ?? "",
+            contact_email: pickup.collector_email ?? "",
+            contact_phone: pickup.collector_phone ?? "",
+        },
+    };
+}
@@ -0,0 +1,143 @@
+/**
+ * Substitutes
+ * Ranks stand-ins for a cart line that can't be booked for the chosen dates —
+ * the same asset family first, then the same category at a similar size — and
+ * builds the replacement cart line.
+ */
+
+import type { LocalCartItem } from "./localStorage";
+
+export interface Dimensions {
+    length: number;
+    width: number;
+    height: number;
+}
+
+// The blocked line, as far as ranking is concerned.
+export interface SubstituteReference {
+    assetId: string;
+    familyId: string | null;
+    category: string;
+    dimensions: Dimensions;
+}
+
+export interface SubstituteCandidate {
+    assetId: string;
+    name: string;
+    familyId: string | null;
+    category: string;
+    brandId: string | null;
+    availableQuantity: number;
+    dimensions: Dimensions;
+    details: Partial<LocalCartItem>;
+}
+
+// Below this a same-category asset is too different in size to offer.
+const MIN_DIMENSION_SIMILARITY = 0.7;
+
+const normalize = (value: string | null | undefined) => (value ?? "").trim().toLowerCase();
+
+/**
+ * 0–1 closeness of two footprints, ignoring orientation (axes are compared
+ * largest to largest). Null when either side has no dimensions on record.
+ */
+export function dimensionSimilarity(a: Dimensions, b: Dimensions): number | null {
+    const axesA = [a.length, a.width, a.height].sort((x, y) => y - x);
+    const axesB = [b.length, b.width, b.height].sort((x, y) => y - x);
+    if (axesA.every((v) => !v) || axesB.every((v) => !v)) return null;
+    const ratios = axesA.map((value, i) => {
+        const other = axesB[i];
+        if (!value && !other) return 1;
+        return Math.min(value, other) / Math.max(value, other);
+    });
+    return ratios.reduce((sum, r) => sum + r, 0) / ratios.length;
+}
+
+/**
+ * Candidates worth offering for `reference`, best first. Family members always
+ * qualify; other assets need the same category and, when both sizes are known,
+ * a similar one. `exclude` holds assets that can't be offered (e.g. already in
+ * the cart).
+ */
+export function rankSubstitutes(
+    reference: SubstituteReference,
+    candidates: SubstituteCandidate[],
+    { exclude = new Set<string>(), limit }: { exclude?: Set<string>; limit?: number } = {}
+): SubstituteCandidate[] {
+    const seen = new Set<string>([reference.assetId, ...exclude]);
+    const ranked: { candidate: SubstituteCandidate; score: number }[] = [];
+
+    for (const candidate of candidates) {
+        if (seen.has(candidate.assetId)) continue;
+        seen.add(candidate.assetId);
+
+        const sameFamily = !!reference.familyId && candidate.familyId === reference.familyId;
+        const sameCategory =
+            !!normalize(reference.category) &&
+            normalize(candidate.category) === normalize(reference.category);
+        const similarity = dimensionSimilarity(reference.dimensions, candidate.dimensions);
+
+        if (!sameFamily) {
+            if (!sameCategory) continue;
+            if (similarity !== null && similarity < MIN_DIMENSION_SIMILARITY) continue;
+        }
+
+        ranked.push({
+            candidate,
+            // Unknown size counts as a middling match rather than a miss.
+            score: (sameFamily ? 2 : 0) + (sameCategory ? 1 : 0) + (similarity ?? 0.5),
+        });
+    }
+
+    ranked.sort((a, b) => b.score - a.score);
+    return (limit === undefined ? ranked : ranked.slice(0, limit)).map(
+        ({ candidate }) => candidate
+    );
+}
+
+/**
+ * The cart line that replaces `item` with `substitute`. Quantity, event area
+ * and note stay with the line. A rebrand request carries over unless the
+ * substitute already carries the target brand; the maintenance decision is
+ * re-derived from the substitute's condition (RED can only be repaired,
+ * ORANGE needs a fresh answer).
+ */
+export function substituteCartItem(
+    item: LocalCartItem,
+    substitute: SubstituteCandidate
+): LocalCartItem {
+    const keepRebrand =
+        !!item.isReskinRequest &&
+        !(item.reskinTargetBrandId && item.reskinTargetBrandId === substitute.brandId);
+    const condition = substitute.details.condition;
+
+    return {
+        assetId: substitute.assetId,
+        assetName: substitute.name,
+        quantity: item.quantity,
+        availableQuantity: substitute.availableQuantity,
+        volume: substitute.details.volume || 0,
+        weight: substitute.details.weight || 0,
+        dimensionLength: substitute.dimensions.length,
+        dimensionWidth: substitute.dimensions.width,
+        dimensionHeight: substitute.dimensions.height,
+        category: substitute.category,
+        image: substitute.details.image,
+        condition: condition || "",
+        conditionNotes: substitute.details.conditionNotes,
+        conditionImages: substitute.details.conditionImages,
+        refurbDaysEstimate: substitute.details.refurbDaysEstimate,
+        maintenanceDecision: condition === "RED" ? "FIX_IN_ORDER" : undefined,
+        addedAt: item.addedAt,
+        eventArea: item.eventArea,
+        note: item.note,
+        ...(keepRebrand
+            ? {
+                  isReskinRequest: true,
+                  reskinTargetBrandId: item.reskinTargetBrandId,
+                  reskinTargetBrandCustom: item.reskinTargetBrandCustom,
+                  reskinNotes: item.reskinNotes,
+              }
+            : {}),
+    };
+}
@@ -0,0 +1,340 @@
+/**
+ * Checkout step registry
+ *
+ * Each checkout step declares its key, label and icon, the component that
+ * renders it, an optional feature flag gate, a zod schema for the synchronous
+ * "can I continue?" rules, and the async guards that run when the user presses
+ * Continue. The checkout page renders the steps `resolveCheckoutSteps`
+ * returns, in order, and never branches on step keys to render or validate.
+ *
+ * Guards are named here and implemented by the page, because they need its
+ * mutations and dialogs (the commerce-rules acknowledgement, for instance).
+ */
+
+import type { ComponentType } from "react";
+import type { LucideIcon } from "lucide-react";
+import { Calendar, FileText, MapPin, ShoppingCart, Truck, User } from "lucide-react";
+import { isValidPhoneNumber } from "react-phone-number-input";
+import { z } from "zod";
+import { CartStep } from "@/components/checkout/steps/CartStep";
+import { ContactStep } from "@/components/checkout/steps/ContactStep";
+import { InstallationStep } from "@/components/checkout/steps/InstallationStep";
+import { ModeStep } from "@/components/checkout/steps/ModeStep";
+import { ReviewStep } from "@/components/checkout/steps/ReviewStep";
+import { VenueStep } from "@/components/checkout/steps/VenueStep";
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+
+export type CheckoutStepKey = "mode" | "cart" | "installation" | "venue" | "contact" | "review";
+
+export type CheckoutGuardKey = "commerce-rules" | "maintenance-feasibility" | "availability";
+
+/**
+ * Everything step schemas validate against. `form` is the checkout form; the
+ * schemas only read the fields they care about.
+ */
+export interface CheckoutStepInput {
+    form: {
+        event_start_date: string;
+        event_end_date: string;
+        is_permanent_placement: boolean | null;
+        requested_delivery_date: string;
+        requested_delivery_time_start: string;
+        requested_delivery_time_end: string;
+        requested_pickup_date: string;
+        requested_pickup_time_start: string;
+        requested_pickup_time_end: string;
+        venue_name: string;
+        venue_country_id: string;
+        venue_city_id: string;
+        venue_address: string;
+        permit_decision: "yes" | "no" | null;
+        permit_owner: "CLIENT" | "PLATFORM" | "UNKNOWN";
+        contact_name: string;
+        contact_email: string;
+        contact_phone: string;
+    };
+    items: LocalCartItem[];
+    pendingMode: "standard" | "self-pickup" | null;
+    eventDateInputsEnabled: boolean;
+    // false only when we KNOW the picked event start is too soon.
+    userDateFeasible: boolean | null | undefined;
+}
+
+export interface CheckoutStepDefinition {
+    key: CheckoutStepKey;
+    label: string;
+    icon: LucideIcon;
+    // Step body; reads the page's state through `useCheckoutStep`.
+    component: ComponentType;
+    // `platform.features` flag that switches the step on or off, and what
+    // applies when the tenant hasn't set it.
+    featureFlag?: { key: string; defaultEnabled: boolean };
+    // Parsed against the full `CheckoutStepInput`.
+    schema?: z.ZodTypeAny;
+    // Run in order on Continue; the first failing guard stops the step.
+    guards?: CheckoutGuardKey[];
+}
+
+export interface CheckoutStepValidation {
+    ok: boolean;
+    // First failure, phrased for a toast; null when ok.
+    message: string | null;
+}
+
+export type CheckoutGuardHandlers = Record<CheckoutGuardKey, () => Promise<boolean>>;
+
+// Sentinel event_end for permanent / no-return orders — signals "no return in
+// sight" to ops; the far-future date holds inventory and keeps the order out of
+// the return-lifecycle cron. Do not null event_end — it is NOT NULL.
+export const SENTINEL_NO_RETURN_DATE = "2099-12-31";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const REQUIRED_FIELDS_MESSAGE = "Please fill all required fields";
+
+/**
+ * ORANGE/RED lines that still need a maintenance decision before checkout
+ * can continue. Shared with the page, which highlights them.
+ */
+export function cartMaintenanceState(items: LocalCartItem[]) {
+    const orangeItems = items.filter((item) => item.condition === "ORANGE");
+    const redItems = items.filter((item) => item.condition === "RED");
+    return {
+        orangeItems,
+        redItems,
+        missingOrangeDecisions: orangeItems.filter((item) => !item.maintenanceDecision),
+        missingRedAcknowledgements: redItems.filter(
+            (item) => item.maintenanceDecision !== "FIX_IN_ORDER"
+        ),
+        repairChoiceBlockedItems: items.filter(
+            (item) =>
+                (item.condition === "RED" || item.maintenanceDecision === "FIX_IN_ORDER") &&
+                !item.refurbDaysEstimate
+        ),
+    };
+}
+
+const modeSchema = z.object({
+    pendingMode: z.enum(["standard", "self-pickup"], {
+        message: "Please pick a delivery mode to continue",
+    }),
+});
+
+const cartSchema = z
+    .object({ items: z.array(z.custom<LocalCartItem>()).min(1, "Cart is empty") })
+    .superRefine(({ items }, ctx) => {
+        const state = cartMaintenanceState(items);
+        if (state.missingOrangeDecisions.length > 0) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "Select a decision for each ORANGE item",
+            });
+        } else if (state.missingRedAcknowledgements.length > 0) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "Acknowledge repair before event for each RED item",
+            });
+        } else if (state.repairChoiceBlockedItems.length > 0) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "Repair before event is unavailable until refurb days are recorded",
+            });
+        }
+    });
+
+const installationSchema = z
+    .custom<CheckoutStepInput>()
+    .superRefine(({ form, eventDateInputsEnabled, userDateFeasible }, ctx) => {
+        const fail = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+
+        // Asked once here; decides whether the pickup block is shown.
+        if (form.is_permanent_placement === null) {
+            return fail("Tell us whether the items are staying permanently");
+        }
+        // Only an explicit temporary placement has a pickup.
+        const needsCollection = form.is_permanent_placement === false;
+
+        if (eventDateInputsEnabled) {
+            if (!form.event_start_date || !form.event_end_date) {
+                return fail(REQUIRED_FIELDS_MESSAGE);
+            }
+            if (new Date(form.event_start_date) > new Date(form.event_end_date)) {
+                return fail("Event end can't be before event start");
+            }
+        } else {
+            // Delivery stands in for event start, so it's always required;
+            // pickup only for temporary placements.
+            const deliveryComplete = Boolean(
+                form.requested_delivery_date &&
+                    form.requested_delivery_time_start &&
+                    form.requested_delivery_time_end
+            );
+            const pickupComplete = Boolean(
+                form.requested_pickup_date &&
+                    form.requested_pickup_time_start &&
+                    form.requested_pickup_time_end
+            );
+            if (!deliveryComplete || (needsCollection && !pickupComplete)) {
+                return fail(REQUIRED_FIELDS_MESSAGE);
+            }
+            if (
+                needsCollection &&
+                new Date(form.requested_delivery_date) > new Date(form.requested_pickup_date)
+            ) {
+                return fail("Pickup can't be before delivery");
+            }
+        }
+
+        // Hard block when we know the picked date is too soon — independent
+        // of the feasibility helper flag.
+        if (userDateFeasible === false) {
+            fail("Some items can't be ready by the picked date. Choose a later date.");
+        }
+    });
+
+const venueSchema = z.object({
+    form: z
+        .object({
+            venue_name: z.string().min(1, REQUIRED_FIELDS_MESSAGE),
+            venue_country_id: z.string().min(1, REQUIRED_FIELDS_MESSAGE),
+            venue_city_id: z.string().min(1, REQUIRED_FIELDS_MESSAGE),
+            venue_address: z.string().min(1, REQUIRED_FIELDS_MESSAGE),
+            permit_decision: z.enum(["yes", "no"], {
+                message: "Tell us whether the venue needs a permit",
+            }),
+            permit_owner: z.enum(["CLIENT", "PLATFORM", "UNKNOWN"]),
+        })
+        // UNKNOWN is rejected so it's never ambiguous who arranges the permit.
+        .refine((form) => form.permit_decision === "no" || form.permit_owner !== "UNKNOWN", {
+            message: "Choose who arranges the permit",
+        }),
+});
+
+const contactSchema = z.object({
+    form: z.object({
+        contact_name: z.string().min(1, REQUIRED_FIELDS_MESSAGE),
+        contact_phone: z
+            .string()
+            .min(1, REQUIRED_FIELDS_MESSAGE)
+            .refine((phone) => isValidPhoneNumber(phone), "Please enter a valid phone number"),
+        contact_email: z.string().regex(EMAIL_PATTERN, "Please enter a valid email address"),
+    }),
+});
+
+// ORANGE FIX decisions can push the earliest date past the picked event
+// date after the installation step was passed.
+const reviewSchema = z.object({
+    userDateFeasible: z
+        .boolean()
+        .nullish()
+        .refine(
+            (feasible) => feasible !== false,
+            "Some items can't be ready by the picked date. Choose a later date."
+        ),
+});
+
+export const CHECKOUT_STEPS: CheckoutStepDefinition[] = [
+    {
+        key: "mode",
+        label: "Delivery Mode",
+        icon: Truck,
+        component: ModeStep,
+        // Delivery vs self-pickup is only a choice when self-pickup is on.
+        featureFlag: { key: "enable_self_pickup", defaultEnabled: false },
+        schema: modeSchema,
+    },
+    {
+        key: "cart",
+        label: "Order Review",
+        icon: ShoppingCart,
+        component: CartStep,
+        schema: cartSchema,
+        guards: ["commerce-rules"],
+    },
+    {
+        key: "installation",
+        label: "Installation Details",
+        icon: Calendar,
+        component: InstallationStep,
+        schema: installationSchema,
+        guards: ["maintenance-feasibility"],
+    },
+    {
+        key: "venue",
+        label: "Installation Location",
+        icon: MapPin,
+        component: VenueStep,
+        schema: venueSchema,
+    },
+    {
+        key: "contact",
+        label: "Execution Contact",
+        icon: User,
+        component: ContactStep,
+        schema: contactSchema,
+    },
+    {
+        key: "review",
+        label: "Review",
+        icon: FileText,
+        component: ReviewStep,
+        schema: reviewSchema,
+        guards: ["availability"],
+    },
+];
+
+export function isCheckoutStepEnabled(
+    step: CheckoutStepDefinition,
+    features: Record<string, unknown> | null | undefined
+): boolean {
+    if (!step.featureFlag) return true;
+    const value = features?.[step.featureFlag.key];
+    return typeof value === "boolean" ? value : step.featureFlag.defaultEnabled;
+}
+
+/**
+ * The steps this tenant's checkout shows, in order.
+ */
+export function resolveCheckoutSteps(
+    features: Record<string, unknown> | null | undefined
+): CheckoutStepDefinition[] {
+    return CHECKOUT_STEPS.filter((step) => isCheckoutStepEnabled(step, features));
+}
+
+function toValidation(result: z.SafeParseReturnType<unknown, unknown>): CheckoutStepValidation {
+    return result.success
+        ? { ok: true, message: null }
+        : { ok: false, message: result.error.issues[0]?.message ?? REQUIRED_FIELDS_MESSAGE };
+}
+
+export function validateCheckoutStep(
+    step: CheckoutStepDefinition | undefined,
+    input: CheckoutStepInput
+): CheckoutStepValidation {
+    if (!step) return { ok: false, message: REQUIRED_FIELDS_MESSAGE };
+    if (!step.schema) return { ok: true, message: null };
+    return toValidation(step.schema.safeParse(input));
+}
+
+/**
+ * The contact step's rules on their own, for flows (the split checkout) that
+ * collect the execution contact without the rest of the form.
+ */
+export function validateCheckoutContact(
+    contact: Pick<CheckoutStepInput["form"], "contact_name" | "contact_email" | "contact_phone">
+): CheckoutStepValidation {
+    return toValidation(contactSchema.safeParse({ form: contact }));
+}
+
+/**
+ * Run a step's guards in order. Each handler reports its own failure
+ * (toast, dialog) and returns false to keep the user on the step.
+ */
+export async function runCheckoutStepGuards(
+    step: CheckoutStepDefinition | undefined,
+    handlers: CheckoutGuardHandlers
+): Promise<boolean> {
+    for (const guard of step?.guards ?? []) {
+        if (!(await handlers[guard]())) return false;
+    }
+    return true;
+}
@@ -0,0 +1,102 @@
+"use client";
+/* global globalThis */
+
+/**
+ * Checkout checkpoint persistence
+ * The checkout page saves `{ step, form, modeConfirmed, savedAt }` under this
+ * key so a refresh resumes mid-flow, and mirrors it to the server as a
+ * checkout draft for other devices. Other surfaces (e.g. the cart drawer)
+ * read the chosen dates from it.
+ */
+
+export const CHECKOUT_STORAGE_KEY = "kadence_checkout_form";
+
+export interface CheckoutCheckpoint {
+    step?: string;
+    form?: Record<string, unknown>;
+    modeConfirmed?: boolean;
+    // ms epoch; missing on checkpoints written before drafts synced.
+    savedAt?: number;
+}
+
+export interface AvailabilityWindow {
+    start: string;
+    end: string;
+}
+
+interface WindowDates {
+    requested_delivery_date?: string;
+    requested_pickup_date?: string;
+    event_start_date?: string;
+    event_end_date?: string;
+}
+
+/**
+ * Booking window used for availability checks: delivery → pickup when those
+ * are set, otherwise the event dates. Null until both ends are known.
+ */
+export function buildAvailabilityWindow(dates: WindowDates): AvailabilityWindow | null {
+    const start = dates.requested_delivery_date || dates.event_start_date;
+    const end = dates.requested_pickup_date || dates.event_end_date;
+    if (!start || !end) return null;
+    return {
+        start: new Date(`${start}T00:00:00.000Z`).toISOString(),
+        end: new Date(`${end}T23:59:59.999Z`).toISOString(),
+    };
+}
+
+function getStorage(): Storage | undefined {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    return runtimeGlobal?.["localStorage"] as Storage | undefined;
+}
+
+/**
+ * The saved checkpoint, or null when there is none (or it's malformed).
+ */
+export function loadCheckoutCheckpoint(): CheckoutCheckpoint | null {
+    const storage = getStorage();
+    if (!storage) return null;
+
+    try {
+        const saved = storage.getItem(CHECKOUT_STORAGE_KEY);
+        return saved ? (JSON.parse(saved) as CheckoutCheckpoint) : null;
+    } catch {
+        return null;
+    }
+}
+
+export function saveCheckoutCheckpoint(checkpoint: Omit<CheckoutCheckpoint, "savedAt">) {
+    getStorage()?.setItem(
+        CHECKOUT_STORAGE_KEY,
+        JSON.stringify({ ...checkpoint, savedAt: Date.now() })
+    );
+}
+
+export function clearCheckoutCheckpoint() {
+    getStorage()?.removeItem(CHECKOUT_STORAGE_KEY);
+}
+
+/**
+ * Whether two checkpoints would put the user in the same place with the same
+ * answers, delivery mode choice included. Timestamps are ignored, and form
+ * fields are compared by value so key order doesn't matter.
+ */
+export function sameCheckoutCheckpoint(a: CheckoutCheckpoint, b: CheckoutCheckpoint): boolean {
+    if (a.step !== b.step) return false;
+    if (!!a.modeConfirmed !== !!b.modeConfirmed) return false;
+    const formA = a.form ?? {};
+    const formB = b.form ?? {};
+    const keys = new Set([...Object.keys(formA), ...Object.keys(formB)]);
+    return [...keys].every((key) => JSON.stringify(formA[key]) === JSON.stringify(formB[key]));
+}
+
+/**
+ * Window from the saved checkout checkpoint, if the user has picked dates.
+ */
+export function loadCheckoutWindow(): AvailabilityWindow | null {
+    const form = loadCheckoutCheckpoint()?.form as WindowDates | undefined;
+    return form ? buildAvailabilityWindow(form) : null;
+}
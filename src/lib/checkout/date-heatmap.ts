@@ -0,0 +1,261 @@
+/**
+ * Date heatmap
+ * Per-day verdict for "can the whole cart go out if the event starts on this
+ * day?" over the next few weeks. Feasibility comes from one feasibility result
+ * (the lead-time floor and each item's earliest ready date don't depend on the
+ * date asked about); booking availability is resolved by bisecting the
+ * horizon against `/asset/availability`, so a clear stretch costs one request
+ * instead of one per day.
+ */
+
+import { format } from "date-fns";
+import type {
+    AvailabilityPreviewItem,
+    AvailabilityPreviewResult,
+} from "@/hooks/use-availability-preview";
+import type { MaintenanceFeasibilityResult } from "@/hooks/use-feasibility-check";
+import { daysBetween } from "@/lib/cart/reorder";
+import { buildAvailabilityWindow, type AvailabilityWindow } from "@/lib/checkout/checkout-storage";
+import { shiftDateStr } from "@/lib/feasibility/compose-datetime";
+
+export const HEATMAP_WEEKS = 12;
+
+// Upper bound on availability requests for one heatmap; days left unresolved
+// render as unknown rather than firing more.
+const MAX_AVAILABILITY_REQUESTS = 40;
+
+export type HeatmapDayStatus = "available" | "blocked" | "unknown" | "past";
+
+export type LimitingReason =
+    | { kind: "lead_time"; floorDate: string }
+    | { kind: "preparation"; assetId: string; name: string; readyDate: string }
+    | { kind: "booking"; assetId: string; name: string; available: number; requested: number }
+    | { kind: "unavailable"; assetId: string; name: string };
+
+export interface HeatmapDay {
+    date: string;
+    status: HeatmapDayStatus;
+    limiting: LimitingReason[];
+}
+
+/**
+ * How the booking window sits around the event start: days of delivery
+ * before it and days until pickup after it. Taken from the dates already on
+ * the form; a single day when they aren't set yet.
+ */
+export interface StayShape {
+    leadInDays: number;
+    spanDays: number;
+}
+
+export interface StayDates {
+    event_start_date?: string;
+    event_end_date?: string;
+    requested_delivery_date?: string;
+    requested_pickup_date?: string;
+}
+
+const anchorField = (eventDateInputsEnabled: boolean) =>
+    eventDateInputsEnabled ? "event_start_date" : "requested_delivery_date";
+
+export function stayShape(dates: StayDates, eventDateInputsEnabled: boolean): StayShape {
+    const anchor = dates[anchorField(eventDateInputsEnabled)];
+    if (!anchor) return { leadInDays: 0, spanDays: 0 };
+    const start = dates.requested_delivery_date || dates.event_start_date || anchor;
+    const end = dates.requested_pickup_date || dates.event_end_date || anchor;
+    return {
+        leadInDays: Math.max(0, daysBetween(start, anchor)),
+        spanDays: Math.max(0, daysBetween(anchor, end)),
+    };
+}
+
+export function windowForStart(date: string, shape: StayShape): AvailabilityWindow {
+    return buildAvailabilityWindow({
+        event_start_date: shiftDateStr(date, -shape.leadInDays),
+        event_end_date: shiftDateStr(date, shape.spanDays),
+    })!;
+}
+
+/**
+ * Date-field patch that moves the stay so the event starts on `date`, keeping
+ * the delivery → event → pickup spacing already on the form.
+ */
+export function moveStayToStart(
+    dates: StayDates,
+    date: string,
+    eventDateInputsEnabled: boolean
+): StayDates {
+    const anchor = dates[anchorField(eventDateInputsEnabled)];
+    if (!anchor) {
+        return eventDateInputsEnabled
+            ? { event_start_date: date, event_end_date: dates.event_end_date || date }
+            : { requested_delivery_date: date };
+    }
+    const offset = daysBetween(anchor, date);
+    const patch: StayDates = {};
+    for (const field of [
+        "event_start_date",
+        "event_end_date",
+        "requested_delivery_date",
+        "requested_pickup_date",
+    ] as const) {
+        const value = dates[field];
+        if (value) patch[field] = shiftDateStr(value, offset);
+    }
+    return patch;
+}
+
+export function heatmapDates(today: Date, weeks = HEATMAP_WEEKS): string[] {
+    const first = format(today, "yyyy-MM-dd");
+    return Array.from({ length: weeks * 7 }, (_, i) => shiftDateStr(first, i));
+}
+
+/**
+ * What keeps the cart from being ready by `date`: the platform lead time and
+ * any item whose preparation finishes later.
+ */
+export function feasibilityLimits(
+    result: MaintenanceFeasibilityResult | undefined,
+    date: string
+): LimitingReason[] {
+    if (!result) return [];
+    const limits: LimitingReason[] = [];
+    if (result.lead_floor_date && date < result.lead_floor_date) {
+        limits.push({ kind: "lead_time", floorDate: result.lead_floor_date });
+    }
+    for (const issue of result.issues) {
+        if (issue.earliest_feasible_date > date) {
+            limits.push({
+                kind: "preparation",
+                assetId: issue.asset_id,
+                name: issue.asset_name,
+                readyDate: issue.earliest_feasible_date,
+            });
+        }
+    }
+    return limits;
+}
+
+type AvailabilityFetcher = (
+    items: Array<{ asset_id: string; quantity: number }>,
+    window: AvailabilityWindow
+) => Promise<AvailabilityPreviewResult>;
+
+export interface BookingResolution {
+    // Per date, the items that can't be booked for a stay starting then.
+    blocked: Map<string, AvailabilityPreviewItem[]>;
+    // Dates the request budget ran out on.
+    unresolved: Set<string>;
+}
+
+/**
+ * Booking limits for a stay starting on each of `dates` (consecutive days).
+ * Whatever is bookable across a stretch's combined window is bookable for
+ * every start inside it, so only failing stretches are split, and only the
+ * items that failed are re-checked. Items unavailable for reasons other than
+ * quantity (deleted, transformed, in maintenance) block every day and are
+ * settled by the first request.
+ */
+export async function resolveBookingAvailability(
+    dates: string[],
+    items: Array<{ asset_id: string; quantity: number }>,
+    shape: StayShape,
+    fetchAvailability: AvailabilityFetcher,
+    maxRequests = MAX_AVAILABILITY_REQUESTS
+): Promise<BookingResolution> {
+    const blocked = new Map<string, AvailabilityPreviewItem[]>();
+    const unresolved = new Set<string>();
+    if (dates.length === 0 || items.length === 0) return { blocked, unresolved };
+
+    const quantities = new Map(items.map((item) => [item.asset_id, item.quantity]));
+    const everyDay: AvailabilityPreviewItem[] = [];
+    let requests = 0;
+
+    const check = async (from: number, to: number, assetIds: string[]): Promise<void> => {
+        if (requests >= maxRequests) {
+            for (let i = from; i <= to; i++) unresolved.add(dates[i]);
+            return;
+        }
+        requests++;
+        const result = await fetchAvailability(
+            assetIds.map((asset_id) => ({ asset_id, quantity: quantities.get(asset_id) ?? 1 })),
+            {
+                start: windowForStart(dates[from], shape).start,
+                end: windowForStart(dates[to], shape).end,
+            }
+        );
+
+        const failing: AvailabilityPreviewItem[] = [];
+        for (const item of result.items) {
+            if (item.is_available) continue;
+            if (item.reason_code && item.reason_code !== "INSUFFICIENT_QUANTITY") {
+                if (!everyDay.some((known) => known.asset_id === item.asset_id)) {
+                    everyDay.push(item);
+                }
+            } else {
+                failing.push(item);
+            }
+        }
+        if (failing.length === 0) return;
+
+        if (from === to) {
+            blocked.set(dates[from], failing);
+            return;
+        }
+        const middle = Math.floor((from + to) / 2);
+        const retry = failing.map((item) => item.asset_id);
+        await check(from, middle, retry);
+        await check(middle + 1, to, retry);
+    };
+
+    await check(
+        0,
+        dates.length - 1,
+        items.map((item) => item.asset_id)
+    );
+
+    if (everyDay.length > 0) {
+        for (const date of dates) {
+            blocked.set(date, [...everyDay, ...(blocked.get(date) ?? [])]);
+        }
+    }
+    return { blocked, unresolved };
+}
+
+function bookingLimits(items: AvailabilityPreviewItem[]): LimitingReason[] {
+    return items.map((item) =>
+        item.reason_code && item.reason_code !== "INSUFFICIENT_QUANTITY"
+            ? { kind: "unavailable", assetId: item.asset_id, name: item.asset_name }
+            : {
+                  kind: "booking",
+                  assetId: item.asset_id,
+                  name: item.asset_name,
+                  available: item.available_quantity,
+                  requested: item.requested_quantity ?? 0,
+              }
+    );
+}
+
+/**
+ * Combine both checks into the day cells. Days before `today` are past;
+ * days the feasibility floor rules out don't need booking data.
+ */
+export function buildHeatmap(
+    dates: string[],
+    today: string,
+    feasibility: MaintenanceFeasibilityResult | undefined,
+    booking: BookingResolution | undefined
+): HeatmapDay[] {
+    return dates.map((date) => {
+        if (date < today) return { date, status: "past", limiting: [] };
+        const limiting = [
+            ...feasibilityLimits(feasibility, date),
+            ...bookingLimits(booking?.blocked.get(date) ?? []),
+        ];
+        if (limiting.length > 0) return { date, status: "blocked", limiting };
+        if (!feasibility || !booking || booking.unresolved.has(date)) {
+            return { date, status: "unknown", limiting };
+        }
+        return { date, status: "available", limiting };
+    });
+}
@@ -0,0 +1,135 @@
+/**
+ * Estimate scenarios
+ * The trip type × vehicle combinations the checkout review step prices side
+ * by side. The planner's own fleet is always one option; every vehicle type
+ * that can carry the whole cart on its own is another, so a budget owner can
+ * weigh "one big truck" against "two vans" before committing.
+ */
+
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+import { planLoad, type PlannedVehicle, type VehicleTypeSpec } from "@/lib/cart/load-planner";
+import type { OrderEstimate, TripType } from "@/types/hybrid-pricing";
+
+export const SCENARIO_TRIP_TYPES: TripType[] = ["ONE_WAY", "ROUND_TRIP"];
+
+// Vehicle options compared, the planner's pick included.
+const MAX_VEHICLE_OPTIONS = 3;
+
+export interface VehicleOption {
+    // null = whatever the load planner picks.
+    vehicleType: string | null;
+    label: string;
+    vehicles: PlannedVehicle[];
+}
+
+export interface EstimateScenario {
+    key: string;
+    tripType: TripType;
+    vehicle: VehicleOption;
+}
+
+export interface EstimateBreakdown {
+    tripType: TripType;
+    transportRate: number;
+    marginPercent: number;
+    marginAmount: number;
+    transportSubtotal: number;
+    total: number;
+}
+
+const fleetKey = (vehicles: PlannedVehicle[]) =>
+    vehicles
+        .map((v) => `${v.vehicle_type}:${v.count}`)
+        .sort()
+        .join(",");
+
+export const fleetLabel = (vehicles: PlannedVehicle[]) =>
+    vehicles.map((v) => (v.count > 1 ? `${v.count}× ${v.label}` : v.label)).join(" + ");
+
+/**
+ * The planner's fleet, then single-type fleets smallest vehicle first —
+ * skipping types some item doesn't fit in and fleets identical to one
+ * already listed.
+ */
+export function vehicleOptions(
+    items: LocalCartItem[],
+    vehicleTypes: VehicleTypeSpec[]
+): VehicleOption[] {
+    const planned = planLoad(items, vehicleTypes);
+    if (planned.vehicles.length === 0) return [];
+
+    const options: VehicleOption[] = [
+        { vehicleType: null, label: "Recommended", vehicles: planned.vehicles },
+    ];
+    const seen = new Set([fleetKey(planned.vehicles)]);
+    const bySize = [...vehicleTypes].sort((a, b) => a.max_volume_m3 - b.max_volume_m3);
+
+    for (const spec of bySize) {
+        if (options.length >= MAX_VEHICLE_OPTIONS) break;
+        const plan = planLoad(items, [spec]);
+        if (plan.oversizeItems.length > 0 || plan.vehicles.length === 0) continue;
+        const key = fleetKey(plan.vehicles);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        options.push({
+            vehicleType: spec.vehicle_type,
+            label: spec.label,
+            vehicles: plan.vehicles,
+        });
+    }
+    return options;
+}
+
+/**
+ * The vehicles to price and submit for the form's vehicle choice: the
+ * planner's fleet by default, or the chosen type alone. Falls back to the
+ * planner when the chosen type can no longer carry the cart.
+ */
+export function fleetFor(
+    items: LocalCartItem[],
+    vehicleTypes: VehicleTypeSpec[],
+    vehicleType: string | null
+): PlannedVehicle[] {
+    const spec = vehicleType
+        ? vehicleTypes.find((type) => type.vehicle_type === vehicleType)
+        : undefined;
+    if (spec) {
+        const plan = planLoad(items, [spec]);
+        if (plan.oversizeItems.length === 0 && plan.vehicles.length > 0) return plan.vehicles;
+    }
+    return planLoad(items, vehicleTypes).vehicles;
+}
+
+export function buildEstimateScenarios(options: VehicleOption[]): EstimateScenario[] {
+    return options.flatMap((vehicle) =>
+        SCENARIO_TRIP_TYPES.map((tripType) => ({
+            key: `${tripType}|${vehicle.vehicleType ?? "auto"}`,
+            tripType,
+            vehicle,
+        }))
+    );
+}
+
+/**
+ * Transport, margin and total from an estimate. Margin comes from the
+ * server's breakdown when it sends one, otherwise from the percentage.
+ */
+export function estimateBreakdown(estimate: OrderEstimate): EstimateBreakdown {
+    const marginPercent = Number(estimate.margin?.percent || 0);
+    const transportRate = Number(
+        estimate.transport?.rate ?? estimate.suggested_transport?.estimated_rate ?? 0
+    );
+    const marginAmount =
+        typeof estimate.margin?.transport_rate_amount === "number"
+            ? Number(estimate.margin.transport_rate_amount)
+            : transportRate * (marginPercent / 100);
+    const transportSubtotal = transportRate + marginAmount;
+    return {
+        tripType: estimate.transport?.trip_type || "ROUND_TRIP",
+        transportRate,
+        marginPercent,
+        marginAmount,
+        transportSubtotal,
+        total: Number(estimate.estimate_total || transportSubtotal.toFixed(2)),
+    };
+}
@@ -0,0 +1,85 @@
+/**
+ * Fulfilment conversion
+ * Switches a submitted delivery order to a self-pickup or back. The server
+ * copies the items — quantities and maintenance decisions included — onto the
+ * new record, cancels the old one and links the two; the client only sends
+ * what the target mode needs on top of that. Prefill comes from the same
+ * mapping as reorder, without any date shift.
+ */
+
+import type { MaintenanceFeasibilityResult } from "@/hooks/use-feasibility-check";
+import type { ReorderSource } from "@/lib/cart/reorder";
+
+export type FulfilmentKind = "ORDER" | "SELF_PICKUP";
+
+// The record on the other side of a conversion, as returned on both details.
+export interface FulfilmentLink {
+    kind: FulfilmentKind;
+    // Route id: the order_id or self_pickup_id.
+    id: string;
+    converted_at: string;
+}
+
+export interface ConvertToSelfPickupPayload {
+    collector_name: string;
+    collector_phone: string;
+    collector_email?: string;
+    pickup_window: { start: string; end: string };
+    slot_hold_id: string;
+    expected_return_at?: string;
+}
+
+export interface ConvertToOrderPayload {
+    event_start_date: string;
+    event_end_date: string;
+    event_start_datetime?: string;
+    venue_name: string;
+    venue_country_id: string;
+    venue_city_id: string;
+    venue_address: string;
+    venue_access_notes?: string;
+    venue_contact?: { name?: string; email?: string; phone?: string };
+    permit_requirements?: {
+        requires_permit: boolean;
+        permit_owner: "CLIENT" | "PLATFORM" | "UNKNOWN";
+        requires_vehicle_docs: boolean;
+        requires_staff_ids: boolean;
+        notes?: string;
+    };
+    contact_name: string;
+    contact_email: string;
+    contact_phone: string;
+    requested_delivery_window?: { start: string; end: string };
+}
+
+export interface ConversionResult {
+    // Route id of the new record.
+    id: string;
+    kind: FulfilmentKind;
+}
+
+export const fulfilmentHref = (link: { kind: FulfilmentKind; id: string }) =>
+    link.kind === "ORDER" ? `/orders/${link.id}` : `/self-pickups/${link.id}`;
+
+// Feasibility input for the carried-over lines.
+export const feasibilityItems = (source: ReorderSource) =>
+    source.lines.map((line) => ({
+        asset_id: line.assetId,
+        ...(line.maintenanceDecision ? { maintenance_decision: line.maintenanceDecision } : {}),
+    }));
+
+/**
+ * Items that won't be ready by a self-pickup starting at `pickupStart`. The
+ * result's platform lead floor is the delivery one, so it's ignored here —
+ * the dock-slot picker already applies the self-pickup lead time.
+ */
+export function selfPickupBlockingItems(
+    result: MaintenanceFeasibilityResult | undefined,
+    pickupStart: string | null
+) {
+    if (!result || !pickupStart) return [];
+    const start = new Date(pickupStart).getTime();
+    return result.issues.filter(
+        (issue) => new Date(issue.earliest_feasible_datetime).getTime() > start
+    );
+}
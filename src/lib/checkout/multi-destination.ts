@@ -0,0 +1,271 @@
+/**
+ * Multi-destination checkout
+ * Splits one cart across several "legs", each with its own venue, dates,
+ * delivery/pickup windows and permit answers. Every leg becomes its own order
+ * on submit; the orders share a group id so they can be traced back to the
+ * same checkout.
+ *
+ * Leg forms use the standard checkout's field names, so the installation and
+ * venue step schemas validate them unchanged.
+ */
+
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+import {
+    CHECKOUT_STEPS,
+    validateCheckoutStep,
+    type CheckoutStepInput,
+    type CheckoutStepValidation,
+} from "@/lib/checkout/checkout-steps";
+import { roundedFloorTimeInZone, shiftDateStr } from "@/lib/feasibility/compose-datetime";
+
+export const MAX_DESTINATION_LEGS = 6;
+
+export interface DestinationLegForm {
+    event_start_date: string;
+    event_end_date: string;
+    is_permanent_placement: boolean | null;
+    requested_delivery_date: string;
+    requested_delivery_time_start: string;
+    requested_delivery_time_end: string;
+    requested_pickup_date: string;
+    requested_pickup_time_start: string;
+    requested_pickup_time_end: string;
+    venue_name: string;
+    venue_country_id: string;
+    venue_country_name: string;
+    venue_city_id: string;
+    venue_city_name: string;
+    venue_address: string;
+    venue_access_notes: string;
+    venue_contact_name: string;
+    venue_contact_email: string;
+    venue_contact_phone: string;
+    permit_decision: "yes" | "no" | null;
+    requires_permit: boolean;
+    permit_owner: "CLIENT" | "PLATFORM" | "UNKNOWN";
+    requires_vehicle_docs: boolean;
+    requires_staff_ids: boolean;
+    permit_notes: string;
+}
+
+export interface DestinationLeg {
+    id: string;
+    form: DestinationLegForm;
+    // assetId → units sent to this destination. Missing means none.
+    quantities: Record<string, number>;
+}
+
+// Shared by every leg of the split checkout.
+export interface DestinationOrderContact {
+    brand_id?: string;
+    contact_name: string;
+    contact_email: string;
+    contact_phone: string;
+    special_instructions: string;
+}
+
+// One created order, as the split checkout's confirmation lists it.
+export interface SplitOrderSummary {
+    orderId: string;
+    venueName: string;
+    eventStartDate: string;
+    itemCount: number;
+}
+
+const EMPTY_LEG_FORM: DestinationLegForm = {
+    event_start_date: "",
+    event_end_date: "",
+    is_permanent_placement: null,
+    requested_delivery_date: "",
+    requested_delivery_time_start: "09:00",
+    requested_delivery_time_end: "11:00",
+    requested_pickup_date: "",
+    requested_pickup_time_start: "09:00",
+    requested_pickup_time_end: "11:00",
+    venue_name: "",
+    venue_country_id: "",
+    venue_country_name: "",
+    venue_city_id: "",
+    venue_city_name: "",
+    venue_address: "",
+    venue_access_notes: "",
+    venue_contact_name: "",
+    venue_contact_email: "",
+    venue_contact_phone: "",
+    permit_decision: null,
+    requires_permit: false,
+    permit_owner: "UNKNOWN",
+    requires_vehicle_docs: false,
+    requires_staff_ids: false,
+    permit_notes: "",
+};
+
+// Carried over when a destination is added, since split events usually share
+// a country and a schedule. Venue, contacts and permits are per destination.
+const INHERITED_FIELDS = [
+    "venue_country_id",
+    "venue_country_name",
+    "is_permanent_placement",
+    "event_start_date",
+    "event_end_date",
+    "requested_delivery_date",
+    "requested_delivery_time_start",
+    "requested_delivery_time_end",
+    "requested_pickup_date",
+    "requested_pickup_time_start",
+    "requested_pickup_time_end",
+] as const;
+
+export function createDestinationLeg(
+    id: string,
+    previous?: DestinationLegForm | null
+): DestinationLeg {
+    const form = { ...EMPTY_LEG_FORM };
+    if (previous) {
+        for (const field of INHERITED_FIELDS) {
+            (form as Record<string, unknown>)[field] = previous[field];
+        }
+    }
+    return { id, form, quantities: {} };
+}
+
+/**
+ * Units of each cart line not yet sent to any destination. Negative when the
+ * legs ask for more than the cart holds.
+ */
+export function unallocatedQuantities(
+    items: LocalCartItem[],
+    legs: DestinationLeg[]
+): Record<string, number> {
+    const remaining: Record<string, number> = {};
+    for (const item of items) {
+        remaining[item.assetId] =
+            item.quantity - legs.reduce((sum, leg) => sum + (leg.quantities[item.assetId] ?? 0), 0);
+    }
+    return remaining;
+}
+
+/**
+ * Send every still-unallocated unit to `legId`.
+ */
+export function assignRemainder(
+    items: LocalCartItem[],
+    legs: DestinationLeg[],
+    legId: string
+): DestinationLeg[] {
+    const remaining = unallocatedQuantities(items, legs);
+    return legs.map((leg) => {
+        if (leg.id !== legId) return leg;
+        const quantities = { ...leg.quantities };
+        for (const [assetId, count] of Object.entries(remaining)) {
+            if (count > 0) quantities[assetId] = (quantities[assetId] ?? 0) + count;
+        }
+        return { ...leg, quantities };
+    });
+}
+
+/**
+ * The cart lines going to one destination, with quantities cut down to the
+ * leg's share. Lines with no units in the leg are left out.
+ */
+export function legCartItems(items: LocalCartItem[], leg: DestinationLeg): LocalCartItem[] {
+    return items
+        .filter((item) => (leg.quantities[item.assetId] ?? 0) > 0)
+        .map((item) => ({ ...item, quantity: leg.quantities[item.assetId] }));
+}
+
+/**
+ * Every unit of the cart goes to exactly one destination, and every
+ * destination gets something.
+ */
+export function validateLegAllocation(
+    items: LocalCartItem[],
+    legs: DestinationLeg[]
+): CheckoutStepValidation {
+    if (legs.length < 2) {
+        return { ok: false, message: "Add at least two destinations to split the cart" };
+    }
+    const remaining = unallocatedQuantities(items, legs);
+    const over = items.find((item) => remaining[item.assetId] < 0);
+    if (over) {
+        return { ok: false, message: `More ${over.assetName} assigned than are in the cart` };
+    }
+    const left = items.find((item) => remaining[item.assetId] > 0);
+    if (left) {
+        return {
+            ok: false,
+            message: `Assign the remaining ${remaining[left.assetId]} × ${left.assetName}`,
+        };
+    }
+    const emptyIndex = legs.findIndex((leg) => legCartItems(items, leg).length === 0);
+    if (emptyIndex >= 0) {
+        return { ok: false, message: `Destination ${emptyIndex + 1} has no items` };
+    }
+    return { ok: true, message: null };
+}
+
+const LEG_STEP_KEYS = ["installation", "venue"] as const;
+
+/**
+ * A leg's dates and venue against the same rules as the single-order
+ * checkout's installation and venue steps.
+ */
+export function validateDestinationLeg(
+    leg: DestinationLeg,
+    context: {
+        items: LocalCartItem[];
+        eventDateInputsEnabled: boolean;
+        userDateFeasible: boolean | null | undefined;
+    }
+): CheckoutStepValidation {
+    const input: CheckoutStepInput = {
+        // Contact is shared across legs and validated once, on its own step.
+        form: { ...leg.form, contact_name: "", contact_email: "", contact_phone: "" },
+        items: legCartItems(context.items, leg),
+        pendingMode: "standard",
+        eventDateInputsEnabled: context.eventDateInputsEnabled,
+        userDateFeasible: context.userDateFeasible,
+    };
+    for (const key of LEG_STEP_KEYS) {
+        const result = validateCheckoutStep(
+            CHECKOUT_STEPS.find((step) => step.key === key),
+            input
+        );
+        if (!result.ok) return result;
+    }
+    return { ok: true, message: null };
+}
+
+/**
+ * Move a leg's start to the feasibility floor (rounded up to the next
+ * 30-minute boundary), pushing the end along if it would now come first.
+ */
+export function applyFeasibilityFloor(
+    form: DestinationLegForm,
+    floor: { floorDate: string; floorDatetime: string | null },
+    options: { timezone: string | undefined; eventDateInputsEnabled: boolean }
+): DestinationLegForm {
+    const rounded = roundedFloorTimeInZone(floor.floorDatetime, options.timezone);
+    const targetDate = rounded ? shiftDateStr(floor.floorDate, rounded.dayOffset) : floor.floorDate;
+    const timePatch = rounded ? { requested_delivery_time_start: rounded.time } : {};
+    if (options.eventDateInputsEnabled) {
+        return {
+            ...form,
+            ...timePatch,
+            event_start_date: targetDate,
+            event_end_date:
+                form.event_end_date && form.event_end_date >= targetDate
+                    ? form.event_end_date
+                    : targetDate,
+        };
+    }
+    return {
+        ...form,
+        ...timePatch,
+        requested_delivery_date: targetDate,
+        requested_pickup_date:
+            form.requested_pickup_date && form.requested_pickup_date >= targetDate
+                ? form.requested_pickup_date
+                : targetDate,
+    };
+}
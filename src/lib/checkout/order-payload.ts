@@ -0,0 +1,195 @@
+/**
+ * Order submit payload
+ * The submit-from-cart body for a delivery order. The standard checkout and
+ * every destination of a split checkout build it here, so the two can't
+ * drift apart on what an order carries.
+ */
+
+import type { LocalCartItem } from "@/lib/cart/localStorage";
+import { SENTINEL_NO_RETURN_DATE } from "@/lib/checkout/checkout-steps";
+import { composeZonedISO } from "@/lib/feasibility/compose-datetime";
+import type { TripType } from "@/types/hybrid-pricing";
+
+// The checkout form fields an order is built from. The standard checkout's
+// form and a destination leg's form (plus the shared contact) both fit. A type
+// alias so forms built on it still save as a checkpoint's record.
+export type OrderPayloadForm = {
+    brand_id?: string;
+    event_start_date: string;
+    event_end_date: string;
+    is_permanent_placement: boolean | null;
+    requested_delivery_date: string;
+    requested_delivery_time_start: string;
+    requested_delivery_time_end: string;
+    requested_pickup_date: string;
+    requested_pickup_time_start: string;
+    requested_pickup_time_end: string;
+    venue_name: string;
+    venue_country_id: string;
+    venue_city_id: string;
+    venue_address: string;
+    venue_access_notes: string;
+    venue_contact_name: string;
+    venue_contact_email: string;
+    venue_contact_phone: string;
+    permit_decision: "yes" | "no" | null;
+    requires_permit: boolean;
+    permit_owner: "CLIENT" | "PLATFORM" | "UNKNOWN";
+    requires_vehicle_docs: boolean;
+    requires_staff_ids: boolean;
+    permit_notes: string;
+    contact_name: string;
+    contact_email: string;
+    contact_phone: string;
+    special_instructions: string;
+};
+
+export interface OrderPayloadOptions {
+    timezone: string | undefined;
+    eventDateInputsEnabled: boolean;
+    commerceRuleIds: string[];
+    // Transport picked in the review step's scenario table. `vehicles` is
+    // only set when a vehicle was chosen; left out, logistics plans the fleet.
+    tripType?: TripType;
+    vehicles?: { vehicle_type: string; count: number }[];
+    // Shared by the orders of one split checkout.
+    groupId?: string;
+}
+
+/**
+ * Event start/end for a form. With event-date inputs off, delivery stands in
+ * for the start and pickup for the end — or, for a permanent / no-return
+ * order, the far-future sentinel (event_end_date is NOT NULL and
+ * load-bearing — see SENTINEL_NO_RETURN_DATE).
+ */
+export function orderEventDates(
+    form: Pick<
+        OrderPayloadForm,
+        | "event_start_date"
+        | "event_end_date"
+        | "is_permanent_placement"
+        | "requested_delivery_date"
+        | "requested_pickup_date"
+    >,
+    eventDateInputsEnabled: boolean
+) {
+    const needsCollection = form.is_permanent_placement === false;
+    return {
+        start: eventDateInputsEnabled ? form.event_start_date : form.requested_delivery_date,
+        end: eventDateInputsEnabled
+            ? form.event_end_date
+            : needsCollection
+              ? form.requested_pickup_date
+              : SENTINEL_NO_RETURN_DATE,
+    };
+}
+
+// TZ-aware "YYYY-MM-DDThh:mm:ss±HH:MM" bounds; null until date, both times
+// and the platform timezone are known. A naive form (no offset) is parsed as
+// UTC by the server and drifts by the platform offset.
+function zonedWindow(
+    date: string,
+    start: string,
+    end: string,
+    timezone: string | undefined
+): { start: string; end: string } | null {
+    const from = composeZonedISO({ date, time: start, timezone });
+    const to = composeZonedISO({ date, time: end, timezone });
+    return from && to ? { start: from, end: to } : null;
+}
+
+export function buildOrderSubmitPayload(
+    form: OrderPayloadForm,
+    items: LocalCartItem[],
+    options: OrderPayloadOptions
+) {
+    const { timezone } = options;
+    // Only an explicit "temporary" placement has a pickup; permanent and
+    // no-return orders send no pickup window.
+    const needsCollection = form.is_permanent_placement === false;
+    const event = orderEventDates(form, options.eventDateInputsEnabled);
+    // ISO datetimes let the server's feasibility re-check use the precise
+    // moment rather than midnight UTC from a date-only parse, which falsely
+    // rejects same-day submissions west of UTC.
+    const eventStartDatetime = composeZonedISO({
+        date: event.start,
+        time: form.requested_delivery_time_start,
+        timezone,
+    });
+    const eventEndDatetime = composeZonedISO({
+        date: event.end,
+        time: form.requested_pickup_time_end,
+        timezone,
+    });
+    // Requested windows fall back to the event dates when only times were set.
+    const deliveryWindow = zonedWindow(
+        form.requested_delivery_date || form.event_start_date,
+        form.requested_delivery_time_start,
+        form.requested_delivery_time_end,
+        timezone
+    );
+    const pickupWindow = needsCollection
+        ? zonedWindow(
+              form.requested_pickup_date || form.event_end_date,
+              form.requested_pickup_time_start,
+              form.requested_pickup_time_end,
+              timezone
+          )
+        : null;
+    const hasVenueContact =
+        form.venue_contact_name || form.venue_contact_email || form.venue_contact_phone;
+
+    return {
+        ...(form.brand_id ? { brand_id: form.brand_id } : {}),
+        ...(options.groupId ? { order_group_id: options.groupId } : {}),
+        items: items.map((item) => ({
+            asset_id: item.assetId,
+            quantity: item.quantity,
+            ...(item.fromCollection ? { from_collection_id: item.fromCollection } : {}),
+            ...(item.maintenanceDecision ? { maintenance_decision: item.maintenanceDecision } : {}),
+            ...(item.eventArea ? { event_area: item.eventArea } : {}),
+            ...(item.note ? { note: item.note } : {}),
+        })),
+        event_start_date: event.start,
+        event_end_date: event.end,
+        ...(eventStartDatetime ? { event_start_datetime: eventStartDatetime } : {}),
+        ...(eventEndDatetime ? { event_end_datetime: eventEndDatetime } : {}),
+        venue_name: form.venue_name,
+        venue_country_id: form.venue_country_id,
+        venue_city_id: form.venue_city_id,
+        venue_address: form.venue_address,
+        ...(options.tripType ? { trip_type: options.tripType } : {}),
+        ...(options.vehicles ? { vehicles: options.vehicles } : {}),
+        // Required at the installation step, so non-null by submit time.
+        is_permanent_placement: form.is_permanent_placement === true,
+        ...(form.venue_access_notes ? { venue_access_notes: form.venue_access_notes } : {}),
+        ...(form.permit_decision !== null
+            ? {
+                  permit_requirements: {
+                      requires_permit: form.requires_permit,
+                      permit_owner: form.requires_permit ? form.permit_owner : "UNKNOWN",
+                      requires_vehicle_docs: form.requires_vehicle_docs,
+                      requires_staff_ids: form.requires_staff_ids,
+                      ...(form.permit_notes ? { notes: form.permit_notes } : {}),
+                  },
+              }
+            : {}),
+        contact_name: form.contact_name,
+        contact_email: form.contact_email,
+        contact_phone: form.contact_phone,
+        // Top-level, separate from permit_requirements.
+        ...(hasVenueContact
+            ? {
+                  venue_contact: {
+                      ...(form.venue_contact_name ? { name: form.venue_contact_name } : {}),
+                      ...(form.venue_contact_email ? { email: form.venue_contact_email } : {}),
+                      ...(form.venue_contact_phone ? { phone: form.venue_contact_phone } : {}),
+                  },
+              }
+            : {}),
+        ...(deliveryWindow ? { requested_delivery_window: deliveryWindow } : {}),
+        ...(pickupWindow ? { requested_pickup_window: pickupWindow } : {}),
+        ...(form.special_instructions ? { special_instructions: form.special_instructions } : {}),
+        commerce_rule_acknowledgements: options.commerceRuleIds.map((rule_id) => ({ rule_id })),
+    };
+}
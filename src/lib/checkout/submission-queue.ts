@@ -0,0 +1,219 @@
+"use client";
+/* global globalThis */
+
+/**
+ * Order submission queue
+ * Every checkout attempt carries a client-generated idempotency key. When a
+ * submit fails on the network — so nobody knows whether the server got it —
+ * the attempt is persisted here and retried with the same key. Before each
+ * retry the server is asked for a record carrying that key, so a retry can
+ * never produce a second one. Records that only look like the attempt are
+ * put to the user rather than taken as it.
+ *
+ * The queue belongs to the signed-in user: it's stored per user id, only
+ * retried while that user's token is the one in use, and wiped on logout.
+ */
+
+import axios from "axios";
+import { tokenUserId } from "@/lib/api/api-client";
+import type { SubmissionResult } from "@/lib/api/submission-api";
+
+const QUEUE_KEY_PREFIX = "kadence_submission_queue";
+// Shared by every user before queues were keyed per user; dropped on sight.
+const LEGACY_QUEUE_KEY = QUEUE_KEY_PREFIX;
+
+const queueKey = (ownerId: string) => `${QUEUE_KEY_PREFIX}:${ownerId}`;
+
+// Clock skew allowance when matching a queued attempt to a created record.
+const MATCH_SKEW_MS = 5 * 60 * 1000;
+const RETRY_DELAYS_MS = [5_000, 15_000, 30_000, 60_000, 120_000, 300_000];
+
+export type SubmissionKind = "order" | "self_pickup";
+
+export type SubmissionStatus =
+    // Waiting for the next retry (or for the browser to come back online).
+    | "waiting"
+    // A dedupe check or resend is in flight.
+    | "retrying"
+    // The server answered with an error; retrying won't help.
+    | "failed"
+    // A record without the key looks like this attempt; the user decides.
+    | "unconfirmed";
+
+export interface QueuedSubmission {
+    key: string;
+    kind: SubmissionKind;
+    payload: Record<string, unknown>;
+    // Shown in the status pill ("Order for Dubai Expo Centre").
+    label: string;
+    // Cart the attempt was made from; cleared on success only if unchanged.
+    // Null when the submission covers only part of the cart.
+    cartSignature: string | null;
+    // ms epoch of the first attempt — records created before it can't match.
+    firstAttemptAt: number;
+    attempts: number;
+    nextAttemptAt: number;
+    status: SubmissionStatus;
+    lastError?: string;
+    // The record behind "unconfirmed", shaped like a submit response.
+    possibleMatch?: SubmissionResult;
+    // The user said the look-alike isn't theirs; only the key counts now.
+    ignoreLookalikes?: boolean;
+}
+
+// Where a finished submission lives.
+export interface SubmittedRecord {
+    id: string;
+    reference?: string;
+}
+
+function getStorage(): Storage | undefined {
+    const runtimeGlobal =
+        typeof globalThis !== "undefined"
+            ? (globalThis as unknown as Record<string, unknown>)
+            : undefined;
+    return runtimeGlobal?.["localStorage"] as Storage | undefined;
+}
+
+/** User id the queue is filed under for `accessToken`; null when signed out. */
+export function queueOwnerOf(accessToken: string | undefined): string | null {
+    return tokenUserId(accessToken);
+}
+
+export function loadSubmissionQueue(ownerId: string): QueuedSubmission[] {
+    const storage = getStorage();
+    if (!storage) return [];
+    storage.removeItem(LEGACY_QUEUE_KEY);
+    try {
+        const saved = storage.getItem(queueKey(ownerId));
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) ? (parsed as QueuedSubmission[]) : [];
+    } catch {
+        return [];
+    }
+}
+
+export function saveSubmissionQueue(ownerId: string, queue: QueuedSubmission[]) {
+    const storage = getStorage();
+    if (!storage) return;
+    if (queue.length === 0) {
+        storage.removeItem(queueKey(ownerId));
+    } else {
+        storage.setItem(queueKey(ownerId), JSON.stringify(queue));
+    }
+}
+
+/** Drop every user's queue — called on logout. */
+export function clearSubmissionQueues() {
+    const storage = getStorage();
+    if (!storage) return;
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key === LEGACY_QUEUE_KEY || key?.startsWith(`${QUEUE_KEY_PREFIX}:`)) keys.push(key);
+    }
+    keys.forEach((key) => storage.removeItem(key));
+}
+
+export function newIdempotencyKey(): string {
+    const runtimeCrypto = (globalThis as { crypto?: Crypto }).crypto;
+    if (runtimeCrypto?.randomUUID) return runtimeCrypto.randomUUID();
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+/**
+ * True when the request never got an answer (offline, DNS, timeout, dropped
+ * connection) — the cases where the order may or may not exist.
+ */
+export function isNetworkError(error: unknown): boolean {
+    return axios.isAxiosError(error) && !error.response;
+}
+
+export function retryDelayMs(attempts: number): number {
+    return RETRY_DELAYS_MS[Math.min(Math.max(attempts - 1, 0), RETRY_DELAYS_MS.length - 1)];
+}
+
+const sameText = (a: unknown, b: unknown) =>
+    typeof a === "string" &&
+    typeof b === "string" &&
+    a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const sameDay = (a: unknown, b: unknown) =>
+    typeof a === "string" && typeof b === "string" && a.slice(0, 10) === b.slice(0, 10);
+
+const sameInstant = (a: unknown, b: unknown) =>
+    typeof a === "string" &&
+    typeof b === "string" &&
+    new Date(a).getTime() === new Date(b).getTime();
+
+// A JSON object from the API, or an empty one for anything else.
+export const asRecord = (value: unknown): Record<string, unknown> =>
+    value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : {};
+
+// asset id -> quantity, or null when a line can't be read. List rows come
+// flat (`asset_id`, `quantity`) or nested (`asset.id`, `order_item.quantity`).
+function itemQuantities(items: unknown): Map<string, number> | null {
+    if (!Array.isArray(items) || items.length === 0) return null;
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+        const line = asRecord(item);
+        const assetId = line.asset_id ?? asRecord(line.asset).id;
+        const quantity = Number(
+            line.quantity ??
+                asRecord(line.order_item).quantity ??
+                asRecord(line.self_pickup_item).quantity
+        );
+        if (typeof assetId !== "string" || !Number.isFinite(quantity)) return null;
+        quantities.set(assetId, (quantities.get(assetId) ?? 0) + quantity);
+    }
+    return quantities;
+}
+
+const sameItems = (a: unknown, b: unknown) => {
+    const left = itemQuantities(a);
+    const right = itemQuantities(b);
+    return (
+        !!left &&
+        !!right &&
+        left.size === right.size &&
+        [...left].every(([assetId, quantity]) => right.get(assetId) === quantity)
+    );
+};
+
+export type SubmissionMatch = "key" | "lookalike";
+
+/**
+ * How `record` (a row from the orders or self-pickups list) relates to a
+ * queued attempt. "key" when it echoes the attempt's idempotency key — that
+ * settles it. A record echoing another key is someone else's. A record
+ * without one is a "lookalike" when it's newer than the first attempt and
+ * has the same event (venue and start day for orders, collector and pickup
+ * window for self-pickups) and exactly the same items and quantities; it may
+ * still be a genuine second order, so it's never taken as this one unasked.
+ */
+export function matchSubmission(
+    entry: Pick<QueuedSubmission, "key" | "kind" | "payload" | "firstAttemptAt">,
+    record: Record<string, unknown>
+): SubmissionMatch | null {
+    if (record.idempotency_key) return record.idempotency_key === entry.key ? "key" : null;
+
+    const createdAt =
+        typeof record.created_at === "string" ? new Date(record.created_at).getTime() : NaN;
+    if (!Number.isFinite(createdAt) || createdAt < entry.firstAttemptAt - MATCH_SKEW_MS) {
+        return null;
+    }
+
+    const payload = entry.payload;
+    const sameEvent =
+        entry.kind === "order"
+            ? sameText(record.venue_name, payload.venue_name) &&
+              sameDay(record.event_start_date, payload.event_start_date)
+            : sameText(record.collector_phone, payload.collector_phone) &&
+              sameInstant(
+                  asRecord(record.pickup_window).start,
+                  asRecord(payload.pickup_window).start
+              );
+    return sameEvent && sameItems(record.items, payload.items) ? "lookalike" : null;
+}
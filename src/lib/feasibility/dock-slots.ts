@@ -0,0 +1,135 @@
+/**
+ * Warehouse dock slots
+ * Self-pickups and return drop-offs are booked into fixed dock slots with a
+ * per-slot capacity instead of a free-form window. Slots come from the API as
+ * ISO instants; everything shown to the user is in the platform timezone, so
+ * "Tuesday 09:00" means the same thing to the client and the warehouse.
+ */
+
+import { computeSpLeadFloor, shiftDateStr } from "./compose-datetime";
+
+export type DockSlotPurpose = "PICKUP" | "RETURN";
+
+export interface DockSlot {
+    start: string;
+    end: string;
+    capacity: number;
+    // Bookings left, net of other clients' active holds.
+    remaining: number;
+}
+
+export interface DockSlotHold {
+    hold_id: string;
+    start: string;
+    end: string;
+    expires_at: string;
+}
+
+export interface DockSlotDay {
+    // YYYY-MM-DD in the platform timezone.
+    date: string;
+    slots: DockSlot[];
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+// YYYY-MM-DD of an instant in the platform timezone.
+export function zonedDateKey(instant: string | Date, timezone?: string): string {
+    const date = typeof instant === "string" ? new Date(instant) : instant;
+    try {
+        return new Intl.DateTimeFormat("en-CA", {
+            timeZone: timezone,
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+        }).format(date);
+    } catch {
+        return date.toISOString().slice(0, 10);
+    }
+}
+
+// HH:mm of an instant in the platform timezone.
+export function zonedTime(instant: string, timezone?: string): string {
+    try {
+        return new Intl.DateTimeFormat("en-GB", {
+            timeZone: timezone,
+            hour: "2-digit",
+            minute: "2-digit",
+            hour12: false,
+        }).format(new Date(instant));
+    } catch {
+        return instant.slice(11, 16);
+    }
+}
+
+// Weekday (0 = Sunday) of a platform-timezone calendar date.
+export function weekdayOf(dateKey: string): number {
+    const [y, m, d] = dateKey.split("-").map((n) => parseInt(n, 10));
+    const short = new Intl.DateTimeFormat("en-US", { timeZone: "UTC", weekday: "short" }).format(
+        new Date(Date.UTC(y, m - 1, d))
+    );
+    return WEEKDAYS[short] ?? 0;
+}
+
+export const sameSlot = (a: { start: string }, b: { start: string }) =>
+    new Date(a.start).getTime() === new Date(b.start).getTime();
+
+/**
+ * The calendar days the picker offers: `days` days from today in the
+ * platform timezone, minus weekend days when the platform excludes them.
+ */
+export function bookableDays(config: {
+    timezone?: string;
+    exclude_weekends?: boolean;
+    weekend_days?: number[];
+    days: number;
+}): string[] {
+    const today = zonedDateKey(new Date(), config.timezone);
+    const weekendDays = config.exclude_weekends ? (config.weekend_days ?? [0, 6]) : [];
+    const days: string[] = [];
+    for (let offset = 0; offset < config.days; offset++) {
+        const date = shiftDateStr(today, offset);
+        if (!weekendDays.includes(weekdayOf(date))) days.push(date);
+    }
+    return days;
+}
+
+/**
+ * Earliest bookable instant. Pickups honour the self-pickup lead time;
+ * drop-offs only need to be in the future.
+ */
+export function slotFloor(
+    purpose: DockSlotPurpose,
+    config: {
+        sp_minimum_lead_hours?: number;
+        exclude_weekends?: boolean;
+        weekend_days?: number[];
+        timezone?: string;
+    }
+): number {
+    if (purpose === "RETURN") return Date.now();
+    return new Date(computeSpLeadFloor(config).floorDatetime).getTime();
+}
+
+/**
+ * Slots grouped under the bookable days, dropping slots before the floor and
+ * any that fall on a day that isn't offered. Days keep their place even when
+ * empty so the day strip doesn't jump around as slots fill up.
+ */
+export function groupSlotsByDay(
+    slots: DockSlot[],
+    days: string[],
+    { timezone, floor }: { timezone?: string; floor: number }
+): DockSlotDay[] {
+    const byDay = new Map<string, DockSlot[]>(days.map((date) => [date, []]));
+    for (const slot of slots) {
+        if (new Date(slot.start).getTime() < floor) continue;
+        byDay.get(zonedDateKey(slot.start, timezone))?.push(slot);
+    }
+    return days.map((date) => ({
+        date,
+        slots: (byDay.get(date) ?? []).sort(
+            (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+        ),
+    }));
+}
@@ -0,0 +1,137 @@
+/**
+ * List views
+ * Filters on the order and pickup lists live in the URL query string so a
+ * refresh keeps them and a link shares them. A saved view is a named set of
+ * those filters, stored per user and per list; pinned views show as tabs and
+ * the default view opens when the list is visited without any filters.
+ */
+
+import { addDays, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek } from "date-fns";
+
+export type ListViewScope = "my-orders" | "self-pickups" | "company-orders";
+
+// Filter values exactly as they appear in the query string.
+export type ListFilters = Record<string, string>;
+
+export interface SavedListView {
+    id: string;
+    scope: ListViewScope;
+    name: string;
+    filters: ListFilters;
+    pinned: boolean;
+    is_default: boolean;
+    created_at: string;
+}
+
+export interface SavedListViewInput {
+    scope: ListViewScope;
+    name: string;
+    filters: ListFilters;
+    pinned?: boolean;
+    is_default?: boolean;
+}
+
+// Relative date ranges, kept in the `range` filter instead of fixed from/to
+// dates so a view like "On site this week" still means this week next month.
+export const DATE_RANGE_PRESETS = [
+    { value: "today", label: "Today" },
+    { value: "this-week", label: "This week" },
+    { value: "next-7-days", label: "Next 7 days" },
+    { value: "this-month", label: "This month" },
+    { value: "next-30-days", label: "Next 30 days" },
+] as const;
+
+export type DateRangePreset = (typeof DATE_RANGE_PRESETS)[number]["value"];
+
+const isDateRangePreset = (value: string | undefined): value is DateRangePreset =>
+    DATE_RANGE_PRESETS.some((preset) => preset.value === value);
+
+const toDateParam = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * The from/to dates a filter set means today: the `range` preset's dates
+ * when one is set, otherwise the fixed `from` / `to`.
+ */
+export function resolveDateRange(
+    filters: ListFilters,
+    now = new Date()
+): { from?: string; to?: string } {
+    const range = filters.range;
+    if (!isDateRangePreset(range)) return { from: filters.from, to: filters.to };
+    switch (range) {
+        case "today":
+            return { from: toDateParam(now), to: toDateParam(now) };
+        case "this-week":
+            // Sunday-first, as on the event calendar.
+            return {
+                from: toDateParam(startOfWeek(now, { weekStartsOn: 0 })),
+                to: toDateParam(endOfWeek(now, { weekStartsOn: 0 })),
+            };
+        case "next-7-days":
+            return { from: toDateParam(now), to: toDateParam(addDays(now, 6)) };
+        case "this-month":
+            return { from: toDateParam(startOfMonth(now)), to: toDateParam(endOfMonth(now)) };
+        case "next-30-days":
+            return { from: toDateParam(now), to: toDateParam(addDays(now, 29)) };
+    }
+}
+
+// Paging is where you are in a list, not what it shows; views don't keep it.
+const POSITION_KEYS = ["page"];
+
+/**
+ * The known filter keys present in `params`. Unknown keys (e.g. ?company=1)
+ * are left to their own readers.
+ */
+export function readListFilters(
+    params: { get: (key: string) => string | null },
+    keys: readonly string[]
+): ListFilters {
+    const filters: ListFilters = {};
+    for (const key of keys) {
+        const value = params.get(key);
+        if (value) filters[key] = value;
+    }
+    return filters;
+}
+
+/**
+ * `current` with `patch` applied. Params outside `keys` (such as ?company=1)
+ * stay as they were and empty values drop the key. Any filter change sends
+ * the list back to page 1 unless the patch sets the page itself.
+ */
+export function writeListFilters(
+    current: URLSearchParams,
+    keys: readonly string[],
+    patch: Partial<ListFilters>
+): URLSearchParams {
+    const next = new URLSearchParams(current);
+    for (const [key, value] of Object.entries(patch)) {
+        if (!keys.includes(key)) continue;
+        if (value) next.set(key, value);
+        else next.delete(key);
+    }
+    if (!("page" in patch)) next.delete("page");
+    return next;
+}
+
+// The part of a filter set a view stores and compares on.
+export const viewFilters = (filters: ListFilters): ListFilters =>
+    Object.fromEntries(
+        Object.entries(filters)
+            .filter(([key, value]) => value && !POSITION_KEYS.includes(key))
+            .sort(([a], [b]) => a.localeCompare(b))
+    );
+
+export function sameViewFilters(a: ListFilters, b: ListFilters): boolean {
+    const left = viewFilters(a);
+    const right = viewFilters(b);
+    const keys = Object.keys(left);
+    return (
+        keys.length === Object.keys(right).length && keys.every((key) => left[key] === right[key])
+    );
+}
+
+// The saved view the current filters match, if any.
+export const matchingView = (views: SavedListView[], filters: ListFilters) =>
+    views.find((view) => sameViewFilters(view.filters, filters)) ?? null;
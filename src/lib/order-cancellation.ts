@@ -0,0 +1,63 @@
+/**
+ * Order cancellation requests
+ * Clients can't cancel a delivery order outright; they ask, and ops approve
+ * or reject. The request carries a structured reason and the fee the platform
+ * quoted at the time it was made, so the client sees what they agreed to
+ * even if the fee rules change before ops get to it.
+ */
+
+export type CancellationReason =
+    | "EVENT_CANCELLED"
+    | "EVENT_POSTPONED"
+    | "BUDGET"
+    | "SOURCED_ELSEWHERE"
+    | "ORDERED_BY_MISTAKE"
+    | "OTHER";
+
+export const CANCELLATION_REASONS: { value: CancellationReason; label: string }[] = [
+    { value: "EVENT_CANCELLED", label: "The event was cancelled" },
+    { value: "EVENT_POSTPONED", label: "The event was postponed" },
+    { value: "BUDGET", label: "Budget or approval fell through" },
+    { value: "SOURCED_ELSEWHERE", label: "We sourced the items elsewhere" },
+    { value: "ORDERED_BY_MISTAKE", label: "Ordered by mistake" },
+    { value: "OTHER", label: "Something else" },
+];
+
+// OTHER says nothing on its own; ops need the notes.
+export const reasonNeedsNotes = (reason: CancellationReason | "") => reason === "OTHER";
+
+export const cancellationReasonLabel = (reason: string) =>
+    CANCELLATION_REASONS.find((option) => option.value === reason)?.label ??
+    reason.replace(/_/g, " ").toLowerCase();
+
+export interface CancellationFeePreview {
+    fee_amount: number;
+    currency: string;
+    // Human-readable basis, e.g. "25% of the quote within 7 days of the event".
+    fee_basis: string | null;
+}
+
+export type CancellationRequestStatus = "PENDING" | "APPROVED" | "REJECTED";
+
+export interface OrderCancellationRequest {
+    id: string;
+    status: CancellationRequestStatus;
+    reason: CancellationReason;
+    notes: string | null;
+    fee_amount: number;
+    currency: string;
+    requested_at: string;
+    requested_by: { id: string; name: string } | null;
+    resolved_at: string | null;
+    resolution_note: string | null;
+}
+
+export interface RequestOrderCancellationPayload {
+    reason: CancellationReason;
+    notes?: string;
+    // The fee shown to the client; the server rejects the request if it's stale.
+    acknowledged_fee_amount: number;
+}
+
+export const formatCancellationFee = (amount: number, currency = "AED") =>
+    `${amount.toFixed(2)} ${currency}`;
@@ -30,6 +30,27 @@ export function canEditOrderDetails(status: OrderStatus | string | null | undefi
     return ORDER_EDIT_BAND.includes(status as OrderStatus);
 }
 
+/**
+ * Cancellation requests (client-initiated): allowed until the order is being
+ * staged for delivery. From READY_FOR_DELIVERY on the trucks are booked and
+ * cancelling is a conversation with ops, not a button.
+ */
+const CANCELLATION_REQUEST_BAND: OrderStatus[] = [
+    "SUBMITTED",
+    "PRICING_REVIEW",
+    "PENDING_APPROVAL",
+    "QUOTED",
+    "CONFIRMED",
+    "IN_PREPARATION",
+];
+
+export function canRequestOrderCancellation(
+    status: OrderStatus | string | null | undefined
+): boolean {
+    if (!status) return false;
+    return CANCELLATION_REQUEST_BAND.includes(status as OrderStatus);
+}
+
 /**
  * Check if quote can be accepted
  */
@@ -88,6 +109,20 @@ export function getFinancialStatusText(status: FinancialStatus): string {
     return map[status] || status;
 }
 
+/**
+ * Financial statuses offered as list filters (N/A is left out)
+ */
+export const FINANCIAL_STATUS_FILTERS: FinancialStatus[] = [
+    "PENDING_QUOTE",
+    "QUOTE_SENT",
+    "QUOTE_REVISED",
+    "QUOTE_ACCEPTED",
+    "PENDING_INVOICE",
+    "INVOICED",
+    "PAID",
+    "CANCELLED",
+];
+
 /**
  * Check if order is in a terminal state
  */
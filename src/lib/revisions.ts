@@ -0,0 +1,192 @@
+/**
+ * Revisions
+ * Every saved edit on an order or self-pickup is a revision: the same
+ * `changed_fields` the edit returned, plus who made it and whether it sent
+ * the quote back to review. Revisions only record what changed, so the state
+ * "as of revision N" is rebuilt per field from the log.
+ */
+
+export type RevisionEntityType = "ORDER" | "SELF_PICKUP";
+
+// One line of the `items` field as the server snapshots it.
+export interface RevisionItemLine {
+    asset_id: string;
+    asset_name: string;
+    quantity: number;
+}
+
+export interface RevisionFieldChange {
+    field: string;
+    old: unknown;
+    new: unknown;
+}
+
+export interface EntityRevision {
+    id: string;
+    // 1-based, in save order. 0 is the submitted record.
+    revision: number;
+    created_at: string;
+    actor: { id: string; name: string } | null;
+    changed_fields: RevisionFieldChange[];
+    // The edit moved a QUOTED record back to PRICING_REVIEW.
+    status_reverted: boolean;
+}
+
+export type ItemChangeKind = "added" | "removed" | "changed";
+
+export interface ItemChange {
+    kind: ItemChangeKind;
+    asset_id: string;
+    asset_name: string;
+    before: number | null;
+    after: number | null;
+}
+
+export const ITEMS_FIELD = "items";
+
+const asItemLines = (value: unknown): RevisionItemLine[] =>
+    Array.isArray(value) ? (value as RevisionItemLine[]) : [];
+
+/** Added / removed / quantity-changed rows between two `items` snapshots. */
+export function diffItems(before: unknown, after: unknown): ItemChange[] {
+    const prev = new Map(asItemLines(before).map((line) => [line.asset_id, line]));
+    const next = new Map(asItemLines(after).map((line) => [line.asset_id, line]));
+    const changes: ItemChange[] = [];
+
+    for (const line of next.values()) {
+        const old = prev.get(line.asset_id);
+        if (!old) {
+            changes.push({
+                kind: "added",
+                asset_id: line.asset_id,
+                asset_name: line.asset_name,
+                before: null,
+                after: line.quantity,
+            });
+        } else if (old.quantity !== line.quantity) {
+            changes.push({
+                kind: "changed",
+                asset_id: line.asset_id,
+                asset_name: line.asset_name,
+                before: old.quantity,
+                after: line.quantity,
+            });
+        }
+    }
+    for (const line of prev.values()) {
+        if (!next.has(line.asset_id)) {
+            changes.push({
+                kind: "removed",
+                asset_id: line.asset_id,
+                asset_name: line.asset_name,
+                before: line.quantity,
+                after: null,
+            });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Field changes from the state as of revision `from` to the state as of
+ * revision `to` (either order; 0 is as submitted). A field's value as of N is
+ * the `new` of the last revision up to N that touched it, or else the `old`
+ * of the first later one. Fields that end where they started are dropped.
+ */
+export function compareRevisions(
+    revisions: EntityRevision[],
+    from: number,
+    to: number
+): RevisionFieldChange[] {
+    const [low, high] = from <= to ? [from, to] : [to, from];
+    const sorted = [...revisions].sort((a, b) => a.revision - b.revision);
+
+    const valueAt = (field: string, at: number): unknown => {
+        let last: RevisionFieldChange | undefined;
+        for (const rev of sorted) {
+            const change = rev.changed_fields.find((c) => c.field === field);
+            if (!change) continue;
+            if (rev.revision > at) return last ? last.new : change.old;
+            last = change;
+        }
+        return last?.new;
+    };
+
+    const fields = new Set<string>();
+    for (const rev of sorted) {
+        if (rev.revision <= low || rev.revision > high) continue;
+        rev.changed_fields.forEach((change) => fields.add(change.field));
+    }
+
+    const changes: RevisionFieldChange[] = [];
+    for (const field of fields) {
+        const before = valueAt(field, low);
+        const after = valueAt(field, high);
+        if (JSON.stringify(before) === JSON.stringify(after)) continue;
+        changes.push(
+            from <= to ? { field, old: before, new: after } : { field, old: after, new: before }
+        );
+    }
+    return changes;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    event_start_date: "Event start",
+    event_end_date: "Event end",
+    venue_name: "Venue",
+    venue_address: "Venue address",
+    venue_city: "City",
+    venue_location: "Venue",
+    venue_access_notes: "Access notes",
+    venue_contact: "Venue contact",
+    contact_name: "Contact name",
+    contact_email: "Contact email",
+    contact_phone: "Contact phone",
+    collector_name: "Collector",
+    collector_phone: "Collector phone",
+    collector_email: "Collector email",
+    collector_id_reference: "Collector ID",
+    special_instructions: "Special instructions",
+    notes: "Notes",
+    permit_requirements: "Permit",
+    is_permanent_placement: "Permanent placement",
+    po_number: "PO number",
+    pickup_window: "Pickup window",
+    expected_return_at: "Expected return",
+    requested_delivery_window: "Delivery window",
+    items: "Items",
+};
+
+export const revisionFieldLabel = (field: string) =>
+    FIELD_LABELS[field] ?? field.replace(/_/g, " ").replace(/^./, (first) => first.toUpperCase());
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const formatDateValue = (value: string) => {
+    // Date-only values are calendar days; read them as local midnight.
+    const date = new Date(value.includes("T") ? value : `${value}T00:00:00`);
+    if (Number.isNaN(date.getTime())) return value;
+    return value.includes("T")
+        ? date.toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+        : date.toLocaleDateString(undefined, { dateStyle: "medium" });
+};
+
+/** One-line display of a recorded value. Items are rendered as rows instead. */
+export function formatRevisionValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") return "—";
+    if (typeof value === "boolean") return value ? "Yes" : "No";
+    if (typeof value === "string") return ISO_DATE.test(value) ? formatDateValue(value) : value;
+    if (typeof value === "number") return String(value);
+    if (Array.isArray(value)) return value.map(formatRevisionValue).join(", ");
+    if (typeof value === "object") {
+        const record = value as Record<string, unknown>;
+        if ("start" in record && "end" in record) {
+            return `${formatRevisionValue(record.start)} – ${formatRevisionValue(record.end)}`;
+        }
+        return Object.entries(record)
+            .filter(([, entry]) => entry !== null && entry !== undefined && entry !== "")
+            .map(([key, entry]) => `${revisionFieldLabel(key)}: ${formatRevisionValue(entry)}`)
+            .join(" · ");
+    }
+    return String(value);
+}
@@ -0,0 +1,158 @@
+/**
+ * Self-pickup returns
+ * Clients bring collected items back over one or more return trips. Each
+ * return books a drop-off dock slot and lists, per line, the units coming back
+ * now — some of which may be damaged — plus units declared lost, which never
+ * come back. Per-item tallies are derived from the returns on the pickup.
+ */
+
+export type SelfPickupReturnStatus = "SCHEDULED" | "RECEIVED" | "CANCELLED";
+
+export interface SelfPickupReturnLine {
+    // self_pickup_items PK, as sent for item edits.
+    self_pickup_item_id: string;
+    // Units brought back on this trip, damaged ones included.
+    quantity: number;
+    damaged_quantity?: number;
+    // Units that won't come back.
+    lost_quantity?: number;
+    photos?: string[];
+    note?: string | null;
+}
+
+export interface SelfPickupReturn {
+    id: string;
+    return_number?: number;
+    status: SelfPickupReturnStatus;
+    // Absent when the return only declares lost units.
+    drop_off_window?: { start: string; end: string } | null;
+    lines: SelfPickupReturnLine[];
+    notes?: string | null;
+    created_at: string;
+}
+
+export interface CreateSelfPickupReturnPayload {
+    drop_off_window?: { start: string; end: string };
+    // Hold on the dock slot the drop-off window was picked from.
+    slot_hold_id?: string;
+    lines: SelfPickupReturnLine[];
+    notes?: string;
+}
+
+export interface ItemReturnTally {
+    // Units that left the warehouse — the scanned quantity once scanned.
+    collected: number;
+    // Received back by the warehouse.
+    returned: number;
+    // On a scheduled return that hasn't been received yet.
+    booked: number;
+    damaged: number;
+    lost: number;
+    // Still with the client and not on any return.
+    outstanding: number;
+}
+
+// One line of the return wizard, keyed by self_pickup_item id.
+export interface ReturnLineDraft {
+    returnNow: number;
+    damaged: number;
+    lost: number;
+    photos: File[];
+    note: string;
+}
+
+export const emptyReturnLineDraft = (): ReturnLineDraft => ({
+    returnNow: 0,
+    damaged: 0,
+    lost: 0,
+    photos: [],
+    note: "",
+});
+
+interface ReturnableItem {
+    id: string;
+    quantity: number;
+    scanned_quantity?: number | null;
+}
+
+const collectedOf = (item: ReturnableItem) =>
+    item.scanned_quantity !== null && item.scanned_quantity !== undefined
+        ? Number(item.scanned_quantity)
+        : Number(item.quantity) || 0;
+
+export function returnTallies(
+    items: ReturnableItem[],
+    returns: SelfPickupReturn[]
+): Map<string, ItemReturnTally> {
+    const tallies = new Map<string, ItemReturnTally>(
+        items.map((item) => [
+            item.id,
+            {
+                collected: collectedOf(item),
+                returned: 0,
+                booked: 0,
+                damaged: 0,
+                lost: 0,
+                outstanding: 0,
+            },
+        ])
+    );
+
+    for (const ret of returns) {
+        if (ret.status === "CANCELLED") continue;
+        for (const line of ret.lines) {
+            const tally = tallies.get(line.self_pickup_item_id);
+            if (!tally) continue;
+            if (ret.status === "RECEIVED") tally.returned += line.quantity;
+            else tally.booked += line.quantity;
+            tally.damaged += line.damaged_quantity ?? 0;
+            tally.lost += line.lost_quantity ?? 0;
+        }
+    }
+
+    tallies.forEach((tally) => {
+        tally.outstanding = Math.max(
+            0,
+            tally.collected - tally.returned - tally.booked - tally.lost
+        );
+    });
+    return tallies;
+}
+
+export const hasOutstandingUnits = (tallies: Map<string, ItemReturnTally>) =>
+    [...tallies.values()].some((tally) => tally.outstanding > 0);
+
+/**
+ * Why the wizard's lines can't be submitted yet; empty when they can.
+ * Damaged units need a photo and lost units an explanation.
+ */
+export function returnLineIssues(
+    drafts: Record<string, ReturnLineDraft>,
+    tallies: Map<string, ItemReturnTally>,
+    names: Record<string, string>
+): string[] {
+    const issues: string[] = [];
+    let anything = false;
+
+    for (const [id, draft] of Object.entries(drafts)) {
+        const tally = tallies.get(id);
+        const name = names[id] || "Item";
+        if (!tally) continue;
+        if (draft.returnNow > 0 || draft.lost > 0) anything = true;
+        if (draft.returnNow + draft.lost > tally.outstanding) {
+            issues.push(`${name}: only ${tally.outstanding} still to return.`);
+        }
+        if (draft.damaged > draft.returnNow) {
+            issues.push(`${name}: damaged units must be among those being returned.`);
+        }
+        if (draft.damaged > 0 && draft.photos.length === 0) {
+            issues.push(`${name}: add a photo of the damage.`);
+        }
+        if (draft.lost > 0 && !draft.note.trim()) {
+            issues.push(`${name}: say what happened to the lost units.`);
+        }
+    }
+
+    if (!anything) issues.push("Choose at least one unit to return or declare lost.");
+    return issues;
+}
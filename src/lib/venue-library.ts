@@ -0,0 +1,146 @@
+/**
+ * Venue library mapping
+ * Converts between saved venues and the shapes the venue forms use: the
+ * checkout form (also the multi-destination leg form), the order-edit
+ * drafts, and an existing order when saving its venue to the library.
+ */
+
+import type { ClientOrderDetail } from "@/hooks/use-client-orders";
+import type { DescriptiveDraft, VenueContactDraft } from "@/types/order-edit";
+import type { SavedVenue, SavedVenueInput, VenuePermitDefaults } from "@/types/venue";
+
+/**
+ * The checkout venue + permit fields a saved venue fills.
+ */
+export interface CheckoutVenueFields {
+    venue_name: string;
+    venue_country_id: string;
+    venue_country_name: string;
+    venue_city_id: string;
+    venue_city_name: string;
+    venue_address: string;
+    venue_access_notes: string;
+    venue_contact_name: string;
+    venue_contact_email: string;
+    venue_contact_phone: string;
+    permit_decision: "yes" | "no" | null;
+    requires_permit: boolean;
+    permit_owner: "CLIENT" | "PLATFORM" | "UNKNOWN";
+    requires_vehicle_docs: boolean;
+    requires_staff_ids: boolean;
+    permit_notes: string;
+}
+
+function permitFields(defaults: VenuePermitDefaults) {
+    return {
+        permit_decision: (defaults.requires_permit ? "yes" : "no") as "yes" | "no",
+        requires_permit: defaults.requires_permit,
+        permit_owner: defaults.requires_permit ? defaults.permit_owner : ("UNKNOWN" as const),
+        requires_vehicle_docs: !!defaults.requires_vehicle_docs,
+        requires_staff_ids: !!defaults.requires_staff_ids,
+        permit_notes: defaults.notes ?? "",
+    };
+}
+
+/**
+ * Patch for the checkout form. The country is only replaced when the venue
+ * knows it; permit answers only when the venue has defaults, so a venue saved
+ * without them leaves whatever the user already answered.
+ */
+export function venueToCheckoutFields(venue: SavedVenue): Partial<CheckoutVenueFields> {
+    return {
+        venue_name: venue.name,
+        ...(venue.country_id
+            ? { venue_country_id: venue.country_id, venue_country_name: venue.country_name ?? "" }
+            : {}),
+        venue_city_id: venue.city_id,
+        venue_city_name: venue.city_name ?? "",
+        venue_address: venue.address,
+        venue_access_notes: venue.access_notes ?? "",
+        venue_contact_name: venue.venue_contact_name ?? "",
+        venue_contact_email: venue.venue_contact_email ?? "",
+        venue_contact_phone: venue.venue_contact_phone ?? "",
+        ...(venue.permit_defaults ? permitFields(venue.permit_defaults) : {}),
+    };
+}
+
+/**
+ * Patch for the order-edit "Venue & Logistics" draft, including the permit
+ * block when the venue carries defaults.
+ */
+export function venueToDescriptivePatch(venue: SavedVenue): Partial<DescriptiveDraft> {
+    const defaults = venue.permit_defaults;
+    return {
+        venue_name: venue.name,
+        venue_city_id: venue.city_id,
+        venue_address: venue.address,
+        venue_access_notes: venue.access_notes ?? "",
+        ...(defaults
+            ? {
+                  permit: {
+                      requires_permit: defaults.requires_permit,
+                      permit_owner: defaults.requires_permit ? defaults.permit_owner : "UNKNOWN",
+                      requires_vehicle_docs: !!defaults.requires_vehicle_docs,
+                      requires_staff_ids: !!defaults.requires_staff_ids,
+                      notes: defaults.notes ?? "",
+                  },
+              }
+            : {}),
+    };
+}
+
+export function venueToVenueContactDraft(venue: SavedVenue): VenueContactDraft {
+    return {
+        venue_contact_name: venue.venue_contact_name ?? "",
+        venue_contact_email: venue.venue_contact_email ?? "",
+        venue_contact_phone: venue.venue_contact_phone ?? "",
+    };
+}
+
+/**
+ * Library entry for an existing order's venue. The country is resolved
+ * server-side from the city.
+ */
+export function orderToVenueInput(order: ClientOrderDetail): SavedVenueInput {
+    const permit = order.permit_requirements ?? null;
+    return {
+        name: order.venue_name ?? "",
+        country_id: null,
+        city_id: order.venue_city_id ?? "",
+        address: order.venue_location?.address ?? "",
+        access_notes: order.venue_location?.access_notes || null,
+        venue_contact_name: order.venue_contact_name || null,
+        venue_contact_email: order.venue_contact_email || null,
+        venue_contact_phone: order.venue_contact_phone || null,
+        permit_defaults: permit
+            ? {
+                  requires_permit: !!permit.requires_permit,
+                  permit_owner: permit.permit_owner ?? "UNKNOWN",
+                  requires_vehicle_docs: !!permit.requires_vehicle_docs,
+                  requires_staff_ids: !!permit.requires_staff_ids,
+                  notes: permit.notes ?? null,
+              }
+            : null,
+    };
+}
+
+const normalize = (value: string | null | undefined) =>
+    (value ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * The library entry that already describes this name/city/address, if any —
+ * used to show an order's venue as saved instead of offering a duplicate.
+ */
+export function findMatchingVenue(
+    venues: SavedVenue[],
+    candidate: Pick<SavedVenueInput, "name" | "city_id" | "address">
+): SavedVenue | null {
+    return (
+        venues.find(
+            (venue) =>
+                normalize(venue.name) === normalize(candidate.name) &&
+                venue.city_id === candidate.city_id &&
+                normalize(venue.address) === normalize(candidate.address)
+        ) ?? null
+    );
+}
@@ -8,6 +8,8 @@ import { useState } from "react";
 import { PlatformProvider } from "@/contexts/platform-context";
 import { AuthProvider } from "@/contexts/user-context";
 import { CartProvider } from "@/contexts/cart-context";
+import { SubmissionQueueProvider } from "@/contexts/submission-queue-context";
+import { SubmissionQueueStatus } from "@/components/checkout/SubmissionQueueStatus";
 
 export default function Providers({ children }: { children: React.ReactNode }) {
     const [queryClient] = useState(
@@ -30,20 +32,23 @@ export default function Providers({ children }: { children: React.ReactNode }) {
                 <AuthProvider>
                     <QueryClientProvider client={queryClient}>
                         <CartProvider>
-                            <ThemeProvider
-                                attribute="class"
-                                defaultTheme="light"
-                                enableSystem
-                                disableTransitionOnChange
-                            >
-                                <NextTopLoader
-                                    easing="ease"
-                                    showSpinner={false}
-                                    color="var(--primary)"
-                                />
-                                {children}
-                                <Toaster position="top-center" richColors />
-                            </ThemeProvider>
+                            <SubmissionQueueProvider>
+                                <ThemeProvider
+                                    attribute="class"
+                                    defaultTheme="light"
+                                    enableSystem
+                                    disableTransitionOnChange
+                                >
+                                    <NextTopLoader
+                                        easing="ease"
+                                        showSpinner={false}
+                                        color="var(--primary)"
+                                    />
+                                    {children}
+                                    <SubmissionQueueStatus />
+                                    <Toaster position="top-center" richColors />
+                                </ThemeProvider>
+                            </SubmissionQueueProvider>
                         </CartProvider>
                     </QueryClientProvider>
                 </AuthProvider>
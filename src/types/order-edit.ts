@@ -0,0 +1,31 @@
+/**
+ * Order-edit draft shapes shared by the editors, the edit contract and the
+ * venue library (which fills them from a saved venue).
+ */
+
+import type { PermitOwner } from "./order";
+
+export interface PermitDraft {
+    requires_permit: boolean;
+    permit_owner: PermitOwner;
+    requires_vehicle_docs: boolean;
+    requires_staff_ids: boolean;
+    notes: string;
+}
+
+export interface DescriptiveDraft {
+    venue_name: string;
+    venue_city_id: string;
+    venue_address: string;
+    venue_access_notes: string;
+    special_instructions: string;
+    is_permanent_placement: boolean;
+    po_number: string;
+    permit: PermitDraft;
+}
+
+export interface VenueContactDraft {
+    venue_contact_name: string;
+    venue_contact_email: string;
+    venue_contact_phone: string;
+}
@@ -0,0 +1,46 @@
+import type { PermitRequirements } from "./order";
+
+/**
+ * Permit answers a saved venue pre-fills. Venue contact lives on the venue
+ * itself, not in here.
+ */
+export type VenuePermitDefaults = Pick<
+    PermitRequirements,
+    "requires_permit" | "permit_owner" | "requires_vehicle_docs" | "requires_staff_ids" | "notes"
+>;
+
+/**
+ * A venue in the company's address book, reusable across checkouts and
+ * order edits. Archived venues drop out of the pickers but keep their id.
+ */
+export interface SavedVenue {
+    id: string;
+    company_id: string;
+    name: string;
+    country_id: string | null;
+    country_name: string | null;
+    city_id: string;
+    city_name: string | null;
+    address: string;
+    access_notes: string | null;
+    venue_contact_name: string | null;
+    venue_contact_email: string | null;
+    venue_contact_phone: string | null;
+    permit_defaults: VenuePermitDefaults | null;
+    is_archived: boolean;
+    created_at: string;
+    updated_at: string;
+}
+
+export type SavedVenueInput = Pick<
+    SavedVenue,
+    | "name"
+    | "country_id"
+    | "city_id"
+    | "address"
+    | "access_notes"
+    | "venue_contact_name"
+    | "venue_contact_email"
+    | "venue_contact_phone"
+    | "permit_defaults"
+>;